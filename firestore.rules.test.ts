@@ -0,0 +1,288 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+// Runs against the Firestore emulator, e.g.
+// `firebase emulators:exec --only firestore "npm test -- firestore.rules"`
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+const OWNER = 'rose';
+const EDITOR = 'ed';
+const COMMENTER = 'cora';
+const VIEWER = 'vic';
+const OUTSIDER = 'mallory';
+const INVITEE = 'sam';
+const INVITEE_EMAIL = 'sam@example.com';
+const INVITE_ID = `${OWNER}:${INVITEE_EMAIL}`;
+
+const JOINED_AT = new Date('2024-01-01T00:00:00Z');
+
+const member = (role: string, name: string) => ({ role, name, email: `${name}@example.com`, joinedAt: JOINED_AT });
+
+const MEMBERS: Record<string, ReturnType<typeof member>> = {
+  [OWNER]: member('owner', OWNER),
+  [EDITOR]: member('editor', EDITOR),
+  [COMMENTER]: member('commenter', COMMENTER),
+  [VIEWER]: member('viewer', VIEWER),
+};
+
+// The collection's member fields with one member taken out
+const without = (uid: string) => ({
+  members: Object.fromEntries(Object.entries(MEMBERS).filter(([memberId]) => memberId !== uid)),
+  memberIds: Object.keys(MEMBERS).filter(memberId => memberId !== uid),
+});
+
+describe.skipIf(!emulatorHost)('firestore.rules', () => {
+  let env: RulesTestEnvironment;
+
+  const as = (uid: string, email = `${uid}@example.com`, emailVerified = true) =>
+    env.authenticatedContext(uid, { email, email_verified: emailVerified }).firestore();
+
+  beforeAll(async () => {
+    const [host, port] = (emulatorHost as string).split(':');
+    env = await initializeTestEnvironment({
+      projectId: 'demo-talkmybio',
+      firestore: { host, port: Number(port), rules: readFileSync(new URL('./firestore.rules', import.meta.url), 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await env?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async context => {
+      const db = context.firestore();
+      await db.doc(`collections/${OWNER}`).set({
+        name: 'Family Collection',
+        ownerId: OWNER,
+        memberIds: Object.keys(MEMBERS),
+        members: MEMBERS,
+        createdAt: new Date(),
+      });
+      await db.doc(`invites/${INVITE_ID}`).set({
+        collectionId: OWNER,
+        collectionName: 'Family Collection',
+        email: INVITEE_EMAIL,
+        role: 'commenter',
+        invitedBy: OWNER,
+        invitedByName: 'Rose',
+        status: 'pending',
+        createdAt: new Date(),
+      });
+      await db.doc(`users/${OWNER}`).set({ name: 'Rose', phoneNumber: '+15555550100', agentIds: ['agent-1'] });
+      await db.doc(`users/${OWNER}/public/profile`).set({ name: 'Rose', birthYear: 1948 });
+      await db.doc('stories/story-1').set({
+        userId: OWNER,
+        categoryId: 'childhood',
+        title: 'The old farm',
+        description: null,
+        storyText: 'We kept goats.',
+        lastUpdationTime: new Date(),
+        nextSchedule: null,
+      });
+      await db.doc(`users/${OWNER}/books/book-1`).set({ title: 'Rose’s life', status: 'completed', chapters: [] });
+      await db.doc(`users/${OWNER}/categories/custom-1`).set({ title: 'The war years' });
+      await db.doc(`users/${OWNER}/entities/person-1`).set({ kind: 'person', name: 'Aunt May' });
+      await db.doc(`users/${OWNER}/schedules/schedule-1`).set({ frequency: 'weekly' });
+      await db.doc('agent_skeletons/childhood').set({ general_prompt: 'Ask about childhood' });
+      await db.doc(`agents/${OWNER}_childhood`).set({ userId: OWNER, categoryId: 'childhood' });
+      await db.doc('reminders/reminder-1').set({ userId: OWNER, status: 'pending' });
+    });
+  });
+
+  const joinAsInvitee = (db: ReturnType<typeof as>, role = 'commenter') =>
+    db.doc(`collections/${OWNER}`).update({
+      [`members.${INVITEE}`]: { ...member(role, INVITEE), inviteId: INVITE_ID },
+      memberIds: [...Object.keys(MEMBERS), INVITEE],
+    });
+
+  describe('invites', () => {
+    it('lets the verified invitee read the invite and join with the invited role', async () => {
+      const db = as(INVITEE, INVITEE_EMAIL);
+
+      await assertSucceeds(db.doc(`invites/${INVITE_ID}`).get());
+      await assertSucceeds(db.doc(`collections/${OWNER}`).get());
+      await assertSucceeds(joinAsInvitee(db));
+      await assertSucceeds(db.doc(`invites/${INVITE_ID}`).update({ status: 'accepted', acceptedBy: INVITEE }));
+    });
+
+    it('ignores the invite for an account whose address is not verified', async () => {
+      const db = as(INVITEE, INVITEE_EMAIL, false);
+
+      await assertFails(db.doc(`invites/${INVITE_ID}`).get());
+      await assertFails(db.doc(`collections/${OWNER}`).get());
+      await assertFails(joinAsInvitee(db));
+      await assertFails(db.doc(`invites/${INVITE_ID}`).update({ status: 'accepted', acceptedBy: INVITEE }));
+    });
+
+    it('refuses a role other than the invited one', async () => {
+      await assertFails(joinAsInvitee(as(INVITEE, INVITEE_EMAIL), 'editor'));
+    });
+
+    it('hides invites from other addresses', async () => {
+      await assertFails(as(OUTSIDER).doc(`invites/${INVITE_ID}`).get());
+      await assertFails(joinAsInvitee(as(OUTSIDER)));
+    });
+
+    it('lets only the owner invite to their collection', async () => {
+      const invite = { collectionId: OWNER, email: 'kim@example.com', role: 'viewer', status: 'pending' };
+
+      await assertSucceeds(as(OWNER).doc(`invites/${OWNER}:kim@example.com`).set(invite));
+      await assertFails(as(EDITOR).doc(`invites/${OWNER}:kim@example.com`).set(invite));
+    });
+  });
+
+  describe('members', () => {
+    it('keeps the private profile to its owner and shares the public one', async () => {
+      await assertSucceeds(as(OWNER).doc(`users/${OWNER}`).get());
+      await assertFails(as(VIEWER).doc(`users/${OWNER}`).get());
+      await assertSucceeds(as(VIEWER).doc(`users/${OWNER}/public/profile`).get());
+      await assertFails(as(VIEWER).doc(`users/${OWNER}/public/profile`).set({ name: 'Vic' }));
+      await assertFails(as(OUTSIDER).doc(`users/${OWNER}/public/profile`).get());
+    });
+
+    it('lets members read stories and books, and nobody else', async () => {
+      await assertSucceeds(as(VIEWER).doc('stories/story-1').get());
+      await assertSucceeds(as(VIEWER).doc(`users/${OWNER}/books/book-1`).get());
+      await assertFails(as(OUTSIDER).doc('stories/story-1').get());
+      await assertFails(as(OUTSIDER).doc(`users/${OWNER}/books/book-1`).get());
+    });
+
+    it('lets editors change the story text but not its schedule, and only the owner delete it', async () => {
+      await assertSucceeds(as(EDITOR).doc('stories/story-1').update({ title: 'The farm', lastUpdationTime: new Date() }));
+      await assertFails(as(EDITOR).doc('stories/story-1').update({ nextSchedule: { status: 'cancelled' } }));
+      await assertFails(as(VIEWER).doc('stories/story-1').update({ title: 'The farm' }));
+      await assertFails(as(EDITOR).doc('stories/story-1').delete());
+      await assertSucceeds(as(OWNER).doc('stories/story-1').delete());
+    });
+
+    it('lets editors set event dates on the timeline', async () => {
+      const eventDate = { startYear: 1955, endYear: 1958, source: 'user' };
+
+      await assertSucceeds(as(EDITOR).doc('stories/story-1').update({ eventDate }));
+      await assertFails(as(COMMENTER).doc('stories/story-1').update({ eventDate }));
+    });
+
+    it('credits each revision to the editor who saved it', async () => {
+      const revision = { title: 'The farm', source: 'edit', createdAt: new Date() };
+      const revisions = (uid: string) => as(uid).collection('stories/story-1/revisions');
+
+      await assertSucceeds(revisions(EDITOR).add({ ...revision, authorId: EDITOR }));
+      await assertFails(revisions(EDITOR).add({ ...revision, authorId: null }));
+      await assertFails(revisions(EDITOR).add({ ...revision, authorId: OWNER }));
+      await assertFails(revisions(COMMENTER).add({ ...revision, authorId: COMMENTER }));
+    });
+
+    it('lets a member leave but not remove someone else', async () => {
+      await assertFails(as(VIEWER).doc(`collections/${OWNER}`).update(without(COMMENTER)));
+      await assertSucceeds(as(VIEWER).doc(`collections/${OWNER}`).update(without(VIEWER)));
+    });
+  });
+
+  describe('comments and notifications', () => {
+    const comment = (authorId: string) => ({ collectionId: OWNER, authorId, body: 'Lovely', threadId: 'story:story-1' });
+
+    it('lets commenters comment as themselves', async () => {
+      await assertSucceeds(as(COMMENTER).collection('comments').add(comment(COMMENTER)));
+      await assertFails(as(COMMENTER).collection('comments').add(comment(EDITOR)));
+      await assertFails(as(VIEWER).collection('comments').add(comment(VIEWER)));
+    });
+
+    it('lets commenters notify the owner, who alone reads the feed', async () => {
+      const notification = { actorId: COMMENTER, type: 'comment' };
+
+      await assertSucceeds(as(COMMENTER).doc(`users/${OWNER}/notifications/n-1`).set(notification));
+      await assertFails(as(VIEWER).doc(`users/${OWNER}/notifications/n-2`).set({ ...notification, actorId: VIEWER }));
+      await assertSucceeds(as(OWNER).doc(`users/${OWNER}/notifications/n-1`).get());
+      await assertFails(as(COMMENTER).doc(`users/${OWNER}/notifications/n-1`).get());
+    });
+
+    it('lets members read reactions before anyone has reacted', async () => {
+      await assertSucceeds(as(VIEWER).doc('reactions/story:story-1').get());
+    });
+
+    it('lets commenters change their own reactions but nobody else’s', async () => {
+      await env.withSecurityRulesDisabled(async context => {
+        await context.firestore().doc('comments/comment-1').set({ ...comment(EDITOR), reactions: { [EDITOR]: ['heart'] } });
+      });
+      const db = as(COMMENTER);
+
+      await assertSucceeds(db.doc('comments/comment-1').update({ [`reactions.${COMMENTER}`]: ['clap'] }));
+      await assertFails(db.doc('comments/comment-1').update({ [`reactions.${EDITOR}`]: [] }));
+      await assertFails(db.doc('comments/comment-1').update({ reactions: {} }));
+      await assertFails(as(VIEWER).doc('comments/comment-1').update({ [`reactions.${VIEWER}`]: ['wow'] }));
+    });
+
+    it('lets the first reaction to a story be only the reacting member’s own', async () => {
+      const reactions = (uid: string, byUser: Record<string, string[]>) =>
+        as(uid).doc('reactions/story:story-1').set({ collectionId: OWNER, reactions: byUser });
+
+      await assertFails(reactions(COMMENTER, { [EDITOR]: ['sad'] }));
+      await assertSucceeds(reactions(COMMENTER, { [COMMENTER]: ['heart'] }));
+      await assertFails(as(COMMENTER).doc('reactions/story:story-1').update({ [`reactions.${OWNER}`]: ['sad'] }));
+    });
+  });
+
+  describe('agents', () => {
+    it('lets signed-in users read agent skeletons but not change them', async () => {
+      await assertSucceeds(as(OUTSIDER).doc('agent_skeletons/childhood').get());
+      await assertFails(as(OUTSIDER).doc('agent_skeletons/childhood').set({ general_prompt: 'Anything' }));
+      await assertFails(env.unauthenticatedContext().firestore().doc('agent_skeletons/childhood').get());
+    });
+
+    it('keeps agent records to the user they belong to', async () => {
+      await assertSucceeds(as(OWNER).doc(`agents/${OWNER}_childhood`).get());
+      await assertFails(as(EDITOR).doc(`agents/${OWNER}_childhood`).get());
+      await assertFails(as(EDITOR).doc(`agents/${OWNER}_war`).set({ userId: OWNER, categoryId: 'war' }));
+    });
+  });
+
+  describe('schedules and reminders', () => {
+    it('keeps recurring schedules to their owner', async () => {
+      await assertSucceeds(as(OWNER).doc(`users/${OWNER}/schedules/schedule-1`).get());
+      await assertFails(as(EDITOR).doc(`users/${OWNER}/schedules/schedule-1`).get());
+      await assertFails(as(EDITOR).doc(`users/${OWNER}/schedules/schedule-2`).set({ frequency: 'daily' }));
+    });
+
+    it('keeps reminders to the user they are for', async () => {
+      await assertSucceeds(as(OWNER).collection('reminders').add({ userId: OWNER, status: 'pending' }));
+      await assertFails(as(EDITOR).collection('reminders').add({ userId: OWNER, status: 'pending' }));
+      await assertFails(as(EDITOR).doc('reminders/reminder-1').get());
+    });
+  });
+
+  describe('categories and suggestions', () => {
+    it('shares custom categories with members, who cannot change them', async () => {
+      await assertSucceeds(as(VIEWER).doc(`users/${OWNER}/categories/custom-1`).get());
+      await assertFails(as(EDITOR).doc(`users/${OWNER}/categories/custom-1`).update({ title: 'Wartime' }));
+      await assertFails(as(OUTSIDER).doc(`users/${OWNER}/categories/custom-1`).get());
+    });
+
+    it('lets commenters suggest questions as themselves, pending review', async () => {
+      const suggestion = { suggestedBy: COMMENTER, status: 'pending', question: 'What did you do on Sundays?' };
+      const suggestions = (uid: string) => as(uid).collection(`users/${OWNER}/question_suggestions`);
+
+      await assertSucceeds(suggestions(COMMENTER).add(suggestion));
+      await assertFails(suggestions(COMMENTER).add({ ...suggestion, status: 'accepted' }));
+      await assertFails(suggestions(COMMENTER).add({ ...suggestion, suggestedBy: EDITOR }));
+      await assertFails(suggestions(VIEWER).add({ ...suggestion, suggestedBy: VIEWER }));
+      await assertFails(suggestions(COMMENTER).get());
+      await assertSucceeds(suggestions(OWNER).get());
+    });
+  });
+
+  describe('people and places', () => {
+    it('lets members browse the index and only the owner curate it', async () => {
+      await assertSucceeds(as(VIEWER).doc(`users/${OWNER}/entities/person-1`).get());
+      await assertFails(as(EDITOR).doc(`users/${OWNER}/entities/person-1`).update({ name: 'May' }));
+      await assertSucceeds(as(OWNER).doc(`users/${OWNER}/entities/person-1`).update({ name: 'May' }));
+    });
+  });
+});
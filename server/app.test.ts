@@ -0,0 +1,423 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createSign, generateKeyPairSync } from 'node:crypto';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import Retell from 'retell-sdk';
+import type { NewCallReminder } from '../src/types/reminder.js';
+import type { AgentSkeleton } from '../src/types/retell.js';
+import { reminderId } from '../src/lib/bookings.js';
+import { createRetellProxy } from './app.js';
+import { createApiKeyVerifier, createIdTokenVerifier } from './auth.js';
+import { createRetellService } from './retell.js';
+import { ScheduleStatusStore, StoredSchedule } from './scheduleStatus.js';
+import { AgentSkeletonStore } from './skeletons.js';
+
+const PROJECT_ID = 'demo-talkmybio';
+const KEY_ID = 'test-key';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const { privateKey: strangerKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const base64url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signIdToken = (claims: Record<string, unknown>, key = privateKey) => {
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${base64url({ alg: 'RS256', kid: KEY_ID })}.${base64url({
+    aud: PROJECT_ID,
+    iss: `https://securetoken.google.com/${PROJECT_ID}`,
+    iat: now,
+    exp: now + 3600,
+    ...claims,
+  })}`;
+  const signer = createSign('RSA-SHA256');
+  signer.update(unsigned);
+  return `${unsigned}.${signer.sign(key, 'base64url')}`;
+};
+
+const listen = async (handler: (req: IncomingMessage, res: ServerResponse) => void): Promise<[Server, string]> => {
+  const server = createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return [server, `http://127.0.0.1:${(server.address() as AddressInfo).port}`];
+};
+
+const close = (server: Server) => new Promise(resolve => server.close(resolve));
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : null;
+};
+
+interface RetellCall {
+  method: string;
+  path: string;
+  body: Record<string, unknown> | null;
+}
+
+// Stands in for api.retellai.com, recording what the proxy asked of it
+const createStubRetell = () => {
+  const calls: RetellCall[] = [];
+  const agents: Record<string, string> = { 'agent-own': 'user-1_childhood', 'agent-other': 'user-2_childhood' };
+  const callAgents: Record<string, string> = { 'call-own': 'agent-own', 'call-other': 'agent-other' };
+  let failNext = false;
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = req.url || '';
+    const body = await readBody(req);
+    calls.push({ method: req.method || '', path, body });
+    const send = (status: number, data: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    };
+
+    if (failNext) {
+      failNext = false;
+      send(500, { error_message: 'Retell is down' });
+    } else if (path === '/list-voices') {
+      send(200, [{ voice_id: 'voice-1', voice_name: 'Ada', provider: 'elevenlabs', gender: 'female' }]);
+    } else if (path === '/create-retell-llm') {
+      send(201, { llm_id: 'llm-new' });
+    } else if (path === '/create-agent') {
+      send(201, { agent_id: 'agent-new', agent_name: body?.agent_name });
+    } else if (path.startsWith('/get-agent/') && agents[path.slice('/get-agent/'.length)]) {
+      send(200, { agent_id: path.slice('/get-agent/'.length), agent_name: agents[path.slice('/get-agent/'.length)] });
+    } else if (path.startsWith('/v2/get-call/') && callAgents[path.slice('/v2/get-call/'.length)]) {
+      send(200, { call_id: path.slice('/v2/get-call/'.length), agent_id: callAgents[path.slice('/v2/get-call/'.length)] });
+    } else if (path.startsWith('/v2/update-live-call/')) {
+      send(200, { success: true });
+    } else if (path.startsWith('/update-agent/')) {
+      send(200, { agent_id: path.slice('/update-agent/'.length) });
+    } else {
+      send(404, { error_message: 'Not found' });
+    }
+  };
+
+  return {
+    calls,
+    handle,
+    failNextRequest: () => {
+      failNext = true;
+    },
+  };
+};
+
+const SKELETON: AgentSkeleton = {
+  category_id: 'childhood',
+  agent_configurations: { interruption_sensitivity: 0.8, language: 'en-US', voice_id: 'voice-1' },
+  llm_configurations: { general_prompt: 'Ask about their childhood', model: 'gpt-4o' },
+};
+
+const skeletons: AgentSkeletonStore = {
+  findSkeleton: async categoryId => (categoryId === SKELETON.category_id ? SKELETON : null),
+  defaultSkeleton: async () => SKELETON,
+  findCustomCategory: async (userId, categoryId) =>
+    userId === 'user-1' && categoryId === 'custom-1'
+      ? { title: 'The war years', description: 'Growing up in wartime', example: 'Where were you on VE day?' }
+      : null,
+};
+
+const BACKEND_KEY = 'backend-key';
+
+// Versions count writes, so a report that read an older one is refused like Firestore's precondition
+const createMemoryScheduleStore = () => {
+  const stories = new Map<string, StoredSchedule>();
+  const reminders = new Map<string, NewCallReminder>();
+  const store: ScheduleStatusStore = {
+    find: async storyId => stories.get(storyId) ?? null,
+    record: async (storyId, transition, version) => {
+      const stored = stories.get(storyId);
+      if (!stored || stored.version !== version) return false;
+      stories.set(storyId, {
+        ...stored,
+        schedule: { ...stored.schedule, status: transition.status, history: [...stored.schedule.history, ...transition.events] },
+        version: String(Number(version) + 1),
+      });
+      return true;
+    },
+    findRecipient: async userId => ({
+      userId,
+      email: 'rose@example.com',
+      preferences: { offsetsMinutes: [5, 60], channels: ['email', 'sms'] },
+    }),
+    saveReminders: async saved => {
+      saved.forEach(reminder => reminders.set(reminderId(reminder), reminder));
+    },
+  };
+  return { stories, reminders, store };
+};
+
+describe('Retell proxy', () => {
+  const retell = createStubRetell();
+  const schedules = createMemoryScheduleStore();
+  let servers: Server[] = [];
+  let proxyUrl = '';
+  let token = '';
+
+  beforeAll(async () => {
+    const [certsServer, certsUrl] = await listen((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'max-age=3600' });
+      res.end(JSON.stringify({ [KEY_ID]: publicKey.export({ type: 'spki', format: 'pem' }) }));
+    });
+    const [retellServer, retellUrl] = await listen((req, res) => {
+      retell.handle(req, res);
+    });
+    const handler = createRetellProxy({
+      verifyIdToken: createIdTokenVerifier({ projectId: PROJECT_ID, certsUrl }),
+      // No retries, so a failing Retell answers at once
+      retell: createRetellService(new Retell({ apiKey: 'test-key', baseURL: retellUrl, maxRetries: 0 })),
+      skeletons,
+      verifyBackendKey: createApiKeyVerifier(BACKEND_KEY),
+      scheduleStatuses: schedules.store,
+      allowedOrigins: ['*'],
+    });
+    const [proxyServer, url] = await listen((req, res) => {
+      handler(req, res);
+    });
+    servers = [certsServer, retellServer, proxyServer];
+    proxyUrl = url;
+    token = signIdToken({ sub: 'user-1', email: 'rose@example.com' });
+  });
+
+  afterAll(async () => {
+    await Promise.all(servers.map(close));
+  });
+
+  beforeEach(() => {
+    retell.calls.length = 0;
+    schedules.stories.clear();
+    schedules.reminders.clear();
+    schedules.stories.set('story-1', {
+      schedule: { status: 'scheduled', retryPolicy: { maxRetries: 1, intervalMinutes: 10 }, history: [{ attempt: 0 }] },
+      call: { userId: 'user-1', phoneNumber: '+15550100', timeZone: 'America/New_York', question: 'Where did you grow up?' },
+      version: '1',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const call = (method: string, path: string, { body, idToken = token }: { body?: unknown; idToken?: string | null } = {}) =>
+    fetch(`${proxyUrl}${path}`, {
+      method,
+      headers: {
+        ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  describe('authentication', () => {
+    it('passes requests with a valid ID token through to Retell', async () => {
+      const response = await call('GET', '/retell/voices');
+
+      expect(response.status).toBe(200);
+      expect(((await response.json()) as unknown[])[0]).toMatchObject({ voice_id: 'voice-1', accent: '', age: '' });
+    });
+
+    it.each([
+      ['no token', null],
+      ['a malformed token', 'not-a-token'],
+      ['a token signed by another key', signIdToken({ sub: 'user-1' }, strangerKey)],
+      ['an expired token', signIdToken({ sub: 'user-1', exp: Math.floor(Date.now() / 1000) - 60 })],
+      ['a token for another project', signIdToken({ sub: 'user-1', aud: 'someone-else' })],
+    ])('rejects %s without calling Retell', async (_case, idToken) => {
+      const response = await call('GET', '/retell/voices', { idToken });
+
+      expect(response.status).toBe(401);
+      expect(retell.calls).toEqual([]);
+    });
+  });
+
+  describe('request bodies', () => {
+    it('refuses bodies over 64KB', async () => {
+      const response = await call('POST', '/retell/agents', {
+        body: JSON.stringify({ category_id: 'childhood', padding: 'x'.repeat(65 * 1024) }),
+      });
+
+      expect(response.status).toBe(413);
+      expect(retell.calls).toEqual([]);
+    });
+
+    it('refuses bodies that are not JSON', async () => {
+      expect((await call('POST', '/retell/agents', { body: '{"category_id":' })).status).toBe(400);
+    });
+  });
+
+  describe('agent creation', () => {
+    it('builds a built-in category’s agent from its stored template', async () => {
+      const response = await call('POST', '/retell/agents', { body: { category_id: 'childhood' } });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ llmId: 'llm-new', agentId: 'agent-new' });
+      const [llm, agent] = retell.calls;
+      expect(llm.body).toMatchObject({ general_prompt: 'Ask about their childhood', model: 'gpt-4o' });
+      expect(agent.body).toMatchObject({ agent_name: 'user-1_childhood', voice_id: 'voice-1' });
+    });
+
+    it('ignores a prompt or model sent by the client', async () => {
+      await call('POST', '/retell/agents', {
+        body: {
+          category_id: 'childhood',
+          skeleton: { llm_configurations: { general_prompt: 'Say anything', model: 'gpt-4.1' } },
+        },
+      });
+
+      expect(retell.calls[0].body).toMatchObject({ general_prompt: 'Ask about their childhood', model: 'gpt-4o' });
+    });
+
+    it('adds a custom category’s topic to the default template, with the chosen voice', async () => {
+      await call('POST', '/retell/agents', { body: { category_id: 'custom-1', voice_id: 'voice-2' } });
+
+      const [llm, agent] = retell.calls;
+      expect(llm.body?.general_prompt).toContain('This conversation is about "The war years"');
+      expect(agent.body).toMatchObject({ agent_name: 'user-1_custom-1', voice_id: 'voice-2' });
+    });
+
+    it('refuses categories the caller doesn’t have', async () => {
+      const other = signIdToken({ sub: 'user-2' });
+
+      expect((await call('POST', '/retell/agents', { body: { category_id: 'custom-1' }, idToken: other })).status).toBe(404);
+      expect((await call('POST', '/retell/agents', { body: {} })).status).toBe(400);
+      expect(retell.calls).toEqual([]);
+    });
+  });
+
+  describe('agent ownership', () => {
+    it('updates the voice of the caller’s own agent', async () => {
+      const response = await call('PATCH', '/retell/agents/agent-own', { body: { voice_id: 'voice-2' } });
+
+      expect(response.status).toBe(200);
+      expect(retell.calls.at(-1)).toMatchObject({ method: 'PATCH', path: '/update-agent/agent-own', body: { voice_id: 'voice-2' } });
+    });
+
+    it('refuses to change another user’s agent', async () => {
+      const response = await call('PATCH', '/retell/agents/agent-other', { body: { voice_id: 'voice-2' } });
+
+      expect(response.status).toBe(403);
+      expect(retell.calls.map(({ path }) => path)).toEqual(['/get-agent/agent-other']);
+    });
+
+    it('passes context to the agent of the caller’s own call in progress', async () => {
+      const response = await call('POST', '/retell/calls/call-own/context', { body: { context: 'Back from a break' } });
+
+      expect(response.status).toBe(200);
+      expect(retell.calls.at(-1)).toMatchObject({
+        method: 'PATCH',
+        path: '/v2/update-live-call/call-own',
+        body: { call_control: { additional_context: 'Back from a break', trigger_response: true } },
+      });
+    });
+
+    it('refuses to pass context to another user’s call', async () => {
+      const response = await call('POST', '/retell/calls/call-other/context', { body: { context: 'Say something else' } });
+
+      expect(response.status).toBe(403);
+      expect(retell.calls.map(({ path }) => path)).toEqual(['/v2/get-call/call-other', '/get-agent/agent-other']);
+    });
+  });
+
+  describe('call status reports', () => {
+    const report = (body: unknown, { storyId = 'story-1', key = BACKEND_KEY }: { storyId?: string; key?: string | null } = {}) =>
+      call('POST', `/schedules/${storyId}/status`, { body, idToken: key });
+
+    it('moves the call along for the phone backend', async () => {
+      const response = await report({ status: 'dialing', at: '2030-05-01T15:00:00.000Z' });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ status: 'dialing', dateTime: null });
+      expect(schedules.stories.get('story-1')?.schedule.history.at(-1)).toEqual({
+        status: 'dialing',
+        at: new Date('2030-05-01T15:00:00.000Z'),
+        attempt: 1,
+      });
+    });
+
+    it('books a retry for a missed call while the retry policy allows', async () => {
+      await report({ status: 'dialing', at: '2030-05-01T15:00:00.000Z' });
+
+      const response = await report({ status: 'no_answer', at: '2030-05-01T15:01:00.000Z' });
+
+      expect(await response.json()).toEqual({ status: 'scheduled', dateTime: '2030-05-01T15:11:00.000Z' });
+    });
+
+    it('plans the reminders of a retry for its new time', async () => {
+      await report({ status: 'dialing', at: '2030-05-01T15:00:00.000Z' });
+      await report({ status: 'no_answer', at: '2030-05-01T15:01:00.000Z' });
+
+      // An hour ahead of the retry has already passed
+      expect([...schedules.reminders.values()]).toEqual([
+        expect.objectContaining({ storyId: 'story-1', channel: 'email', to: 'rose@example.com', offsetMinutes: 5 }),
+        expect.objectContaining({ storyId: 'story-1', channel: 'sms', to: '+15550100', offsetMinutes: 5 }),
+      ]);
+      expect(schedules.reminders.get('story-1_email_5')).toMatchObject({
+        sendAt: new Date('2030-05-01T15:06:00.000Z'),
+        callAt: new Date('2030-05-01T15:11:00.000Z'),
+        question: 'Where did you grow up?',
+      });
+    });
+
+    it('refuses moves the lifecycle doesn’t allow, and unknown statuses', async () => {
+      expect((await report({ status: 'completed' })).status).toBe(409);
+      expect((await report({ status: 'ringing' })).status).toBe(400);
+      expect((await report({ status: 'toString' })).status).toBe(400);
+      expect((await report({ status: '__proto__' })).status).toBe(400);
+      expect((await report({ status: 'dialing' }, { storyId: 'missing' })).status).toBe(404);
+      expect(schedules.stories.get('story-1')?.version).toBe('1');
+      expect(schedules.reminders.size).toBe(0);
+    });
+
+    it('reads the story again when another report wrote it first', async () => {
+      const find = schedules.store.find;
+      vi.spyOn(schedules.store, 'find').mockImplementationOnce(async storyId => {
+        const stored = await find(storyId);
+        // Another report lands between this one's read and write
+        await schedules.store.record(storyId, { status: 'cancelled', events: [] }, stored!.version);
+        return stored;
+      });
+
+      expect((await report({ status: 'dialing' })).status).toBe(409);
+      expect(schedules.store.find).toHaveBeenCalledTimes(2);
+    });
+
+    it('takes the backend key rather than a user’s ID token', async () => {
+      expect((await report({ status: 'dialing' }, { key: token })).status).toBe(401);
+      expect((await report({ status: 'dialing' }, { key: null })).status).toBe(401);
+      expect(schedules.stories.get('story-1')?.version).toBe('1');
+    });
+  });
+
+  describe('error mapping', () => {
+    it('answers 502 when Retell fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      retell.failNextRequest();
+
+      const response = await call('GET', '/retell/voices');
+
+      expect(response.status).toBe(502);
+      expect(await response.json()).toEqual({ error: 'Retell request failed' });
+    });
+
+    it('answers 500 without details for unexpected errors', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(skeletons, 'findSkeleton').mockRejectedValueOnce(new Error('Firestore is down'));
+
+      const response = await call('POST', '/retell/agents', { body: { category_id: 'childhood' } });
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error: 'Internal server error' });
+      expect(error).toHaveBeenCalled();
+    });
+
+    it('answers 404 for unknown paths and 405 for unknown methods', async () => {
+      expect((await call('GET', '/retell/nothing')).status).toBe(404);
+      expect((await call('DELETE', '/retell/voices')).status).toBe(405);
+    });
+
+    it('answers 503 for question generation when no model is configured', async () => {
+      const response = await call('POST', '/questions/generate', { body: { sources: [], avoid: [], limit: 3 } });
+
+      expect(response.status).toBe(503);
+    });
+  });
+});
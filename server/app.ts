@@ -0,0 +1,248 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { APIError } from 'retell-sdk';
+import type { QuestionGenerationRequest, QuestionSource } from '../src/types/question.js';
+import type { CallContextRequest, CreateAgentRequest, UpdateAgentRequest } from '../src/types/retell.js';
+import type { ScheduleStatus, ScheduleStatusReport } from '../src/types/story.js';
+import { SCHEDULE_STATUS_LABELS } from '../src/lib/scheduleLifecycle.js';
+import { AuthError, VerifiedUser, VerifyApiKey, VerifyIdToken } from './auth.js';
+import { bearerToken, HttpError, readJson, sendJson } from './http.js';
+import { QuestionService } from './questions.js';
+import { RetellService } from './retell.js';
+import { reportScheduleStatus, ScheduleStatusStore } from './scheduleStatus.js';
+import { AgentSkeletonStore, resolveSkeleton } from './skeletons.js';
+
+interface RetellProxyOptions {
+  verifyIdToken: VerifyIdToken;
+  retell: RetellService;
+  // Unset without a service account to read agent templates with; agent creation then answers 503
+  skeletons?: AgentSkeletonStore;
+  // Unset when no language model is configured; question generation then answers 503
+  questions?: QuestionService;
+  // Unset without a backend API key or service account; status reports then answer 503
+  verifyBackendKey?: VerifyApiKey;
+  scheduleStatuses?: ScheduleStatusStore;
+  // Origins allowed to call the proxy from a browser; '*' allows any
+  allowedOrigins: string[];
+}
+
+type Handler = (user: VerifiedUser, req: IncomingMessage, params: string[]) => Promise<unknown>;
+type BackendHandler = (req: IncomingMessage, params: string[]) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+// Called by the phone backend, with the backend API key instead of a user's ID token
+interface BackendRoute {
+  method: string;
+  pattern: RegExp;
+  backendHandler: BackendHandler;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value) {
+    throw new HttpError(400, `${field} must be a non-empty string`);
+  }
+  return value;
+};
+
+const MAX_QUESTION_SOURCES = 20;
+const MAX_QUESTION_LIMIT = 20;
+
+// Like requireString, but empty strings are fine
+const stringField = (value: unknown, field: string): string => {
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `${field} must be a string`);
+  }
+  return value;
+};
+
+const parseQuestionSource = (value: unknown, index: number): QuestionSource => {
+  if (!isRecord(value)) {
+    throw new HttpError(400, `sources[${index}] must be an object`);
+  }
+  return {
+    storyId: requireString(value.storyId, `sources[${index}].storyId`),
+    categoryId: requireString(value.categoryId, `sources[${index}].categoryId`),
+    title: stringField(value.title, `sources[${index}].title`),
+    summary: stringField(value.summary, `sources[${index}].summary`),
+    transcript: stringField(value.transcript, `sources[${index}].transcript`),
+  };
+};
+
+const parseGenerationRequest = (value: unknown): QuestionGenerationRequest => {
+  if (!isRecord(value) || !Array.isArray(value.sources) || !Array.isArray(value.avoid)) {
+    throw new HttpError(400, 'body must have sources and avoid arrays');
+  }
+  if (value.sources.length > MAX_QUESTION_SOURCES) {
+    throw new HttpError(400, `sources may have at most ${MAX_QUESTION_SOURCES} stories`);
+  }
+  if (typeof value.limit !== 'number' || !Number.isInteger(value.limit) || value.limit < 1 || value.limit > MAX_QUESTION_LIMIT) {
+    throw new HttpError(400, `limit must be a whole number from 1 to ${MAX_QUESTION_LIMIT}`);
+  }
+  return {
+    sources: value.sources.map(parseQuestionSource),
+    avoid: value.avoid.map((question, index) => stringField(question, `avoid[${index}]`)),
+    limit: value.limit,
+  };
+};
+
+const parseStatusReport = (value: unknown): ScheduleStatusReport => {
+  if (!isRecord(value) || typeof value.status !== 'string' || !Object.hasOwn(SCHEDULE_STATUS_LABELS, value.status)) {
+    throw new HttpError(400, `status must be one of ${Object.keys(SCHEDULE_STATUS_LABELS).join(', ')}`);
+  }
+  if (value.at !== undefined && (typeof value.at !== 'string' || Number.isNaN(Date.parse(value.at)))) {
+    throw new HttpError(400, 'at must be an ISO date');
+  }
+  return {
+    status: value.status as ScheduleStatus,
+    ...(value.note === undefined ? {} : { note: stringField(value.note, 'note') }),
+    ...(value.at === undefined ? {} : { at: value.at }),
+  };
+};
+
+/**
+ * Request handler for the Retell proxy. Every route but the phone backend's
+ * needs a Firebase ID token and acts only on the caller's own agents; the
+ * Retell API key never leaves the server.
+ */
+export const createRetellProxy = ({
+  verifyIdToken,
+  retell,
+  skeletons,
+  questions,
+  verifyBackendKey,
+  scheduleStatuses,
+  allowedOrigins,
+}: RetellProxyOptions) => {
+  const routes: Array<Route | BackendRoute> = [
+    {
+      method: 'GET',
+      pattern: /^\/retell\/voices$/,
+      handler: () => retell.listVoices(),
+    },
+    {
+      method: 'POST',
+      pattern: /^\/retell\/agents$/,
+      handler: async (user, req) => {
+        if (!skeletons) {
+          throw new HttpError(503, 'Agent creation is not configured');
+        }
+        const body = (await readJson(req)) as Partial<CreateAgentRequest>;
+        const categoryId = requireString(body.category_id, 'category_id');
+        const voiceId = body.voice_id === undefined ? undefined : requireString(body.voice_id, 'voice_id');
+        return retell.createAgent(user.uid, await resolveSkeleton(skeletons, user.uid, categoryId, voiceId));
+      },
+    },
+    {
+      method: 'PATCH',
+      pattern: /^\/retell\/agents\/([^/]+)$/,
+      handler: async (user, req, [agentId]) => {
+        const body = (await readJson(req)) as Partial<UpdateAgentRequest>;
+        await retell.updateAgentVoice(user.uid, decodeURIComponent(agentId), requireString(body.voice_id, 'voice_id'));
+        return { ok: true };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/retell\/calls\/([^/]+)\/context$/,
+      handler: async (user, req, [callId]) => {
+        const body = (await readJson(req)) as Partial<CallContextRequest>;
+        await retell.addCallContext(user.uid, decodeURIComponent(callId), requireString(body.context, 'context'));
+        return { ok: true };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/questions\/generate$/,
+      handler: async (_user, req) => {
+        if (!questions) {
+          throw new HttpError(503, 'Question generation is not configured');
+        }
+        const request = parseGenerationRequest(await readJson(req));
+        return { questions: await questions.proposeQuestions(request) };
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/schedules\/([^/]+)\/status$/,
+      backendHandler: async (req, [storyId]) => {
+        if (!scheduleStatuses) {
+          throw new HttpError(503, 'Status reporting is not configured');
+        }
+        const id = decodeURIComponent(storyId);
+        if (id.includes('/')) {
+          throw new HttpError(400, 'Invalid story id');
+        }
+        const report = parseStatusReport(await readJson(req));
+        const transition = await reportScheduleStatus(scheduleStatuses, id, report.status, {
+          note: report.note,
+          at: report.at ? new Date(report.at) : undefined,
+        });
+        return { status: transition.status, dateTime: transition.dateTime?.toISOString() ?? null };
+      },
+    },
+  ];
+
+  const setCorsHeaders = (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (origin && (allowedOrigins.includes('*') || allowedOrigins.includes(origin))) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    }
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    setCorsHeaders(req, res);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    try {
+      const path = new URL(req.url || '/', 'http://localhost').pathname;
+      const pathMatches = routes
+        .map(route => ({ route, match: route.pattern.exec(path) }))
+        .filter(({ match }) => match !== null);
+      if (pathMatches.length === 0) {
+        throw new HttpError(404, 'Not found');
+      }
+      const matched = pathMatches.find(({ route }) => route.method === req.method);
+      if (!matched) {
+        throw new HttpError(405, 'Method not allowed');
+      }
+
+      const { route, match } = matched;
+      let result: unknown;
+      if ('backendHandler' in route) {
+        if (!verifyBackendKey) {
+          throw new HttpError(503, 'Status reporting is not configured');
+        }
+        verifyBackendKey(bearerToken(req));
+        result = await route.backendHandler(req, match!.slice(1));
+      } else {
+        result = await route.handler(await verifyIdToken(bearerToken(req)), req, match!.slice(1));
+      }
+      sendJson(res, 200, result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+      } else if (error instanceof AuthError) {
+        sendJson(res, 401, { error: error.message });
+      } else if (error instanceof APIError) {
+        console.error('Retell API error:', error);
+        sendJson(res, 502, { error: 'Retell request failed' });
+      } else {
+        console.error('Error handling Retell proxy request:', error);
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  };
+};
@@ -0,0 +1,121 @@
+import { createVerify, timingSafeEqual } from 'node:crypto';
+
+// Certificates Firebase Auth signs ID tokens with, keyed by key id
+const FIREBASE_CERTS_URL =
+  'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+
+// Tolerated clock difference when checking when a token was issued
+const CLOCK_SKEW_SECONDS = 300;
+
+export interface VerifiedUser {
+  uid: string;
+  email: string | null;
+}
+
+export type VerifyIdToken = (token: string) => Promise<VerifiedUser>;
+export type VerifyApiKey = (key: string) => void;
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+interface IdTokenVerifierOptions {
+  projectId: string;
+  // Overridable so tests can sign tokens with their own keys
+  certsUrl?: string;
+  now?: () => number;
+}
+
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  if (typeof value !== 'object' || value === null) {
+    throw new AuthError('Malformed ID token');
+  }
+  return value;
+};
+
+/**
+ * Verifies Firebase ID tokens the way the Admin SDK does: an RS256 signature
+ * by one of Google's published keys, this project as audience and issuer, a
+ * subject, and an expiry in the future.
+ */
+export const createIdTokenVerifier = ({
+  projectId,
+  certsUrl = FIREBASE_CERTS_URL,
+  now = Date.now,
+}: IdTokenVerifierOptions): VerifyIdToken => {
+  let cache: { certs: Record<string, string>; expiresAt: number } | null = null;
+
+  const getCerts = async (): Promise<Record<string, string>> => {
+    if (cache && cache.expiresAt > now()) return cache.certs;
+
+    const response = await fetch(certsUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ID token certificates: ${response.status}`);
+    }
+    const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get('cache-control') || '')?.[1] ?? 0);
+    cache = { certs: (await response.json()) as Record<string, string>, expiresAt: now() + maxAge * 1000 };
+    return cache.certs;
+  };
+
+  return async token => {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new AuthError('Malformed ID token');
+    }
+    const [headerSegment, payloadSegment, signature] = segments;
+
+    let header: Record<string, unknown>;
+    let payload: Record<string, unknown>;
+    try {
+      header = decodeSegment(headerSegment);
+      payload = decodeSegment(payloadSegment);
+    } catch {
+      throw new AuthError('Malformed ID token');
+    }
+
+    if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+      throw new AuthError('ID token has an unexpected algorithm');
+    }
+    const cert = (await getCerts())[header.kid];
+    if (!cert) {
+      throw new AuthError('ID token was signed with an unknown key');
+    }
+
+    const verifier = createVerify('RSA-SHA256');
+    verifier.update(`${headerSegment}.${payloadSegment}`);
+    if (!verifier.verify(cert, signature, 'base64url')) {
+      throw new AuthError('ID token has an invalid signature');
+    }
+
+    const seconds = now() / 1000;
+    if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+      throw new AuthError('ID token was issued for another project');
+    }
+    if (typeof payload.exp !== 'number' || payload.exp <= seconds) {
+      throw new AuthError('ID token has expired');
+    }
+    if (typeof payload.iat !== 'number' || payload.iat > seconds + CLOCK_SKEW_SECONDS) {
+      throw new AuthError('ID token was issued in the future');
+    }
+    if (typeof payload.sub !== 'string' || !payload.sub) {
+      throw new AuthError('ID token has no subject');
+    }
+
+    return { uid: payload.sub, email: typeof payload.email === 'string' ? payload.email : null };
+  };
+};
+
+// Checks the shared key the phone backend calls the server with, in constant time
+export const createApiKeyVerifier = (apiKey: string): VerifyApiKey => {
+  const expected = Buffer.from(apiKey);
+  return key => {
+    const given = Buffer.from(key);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new AuthError('Invalid API key');
+    }
+  };
+};
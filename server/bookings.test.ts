@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BookableSchedule, DEFAULT_REMINDER_PREFERENCES } from '../src/lib/bookings.js';
+import type { NewCallReminder } from '../src/types/reminder.js';
+import { BookingStore, createBookingJob } from './bookings.js';
+
+const NOW = new Date('2030-05-01T12:00:00Z');
+
+const SCHEDULE: BookableSchedule = {
+  id: 'schedule-1',
+  userId: 'user-1',
+  categoryId: 'childhood',
+  initialQuestion: 'Where did you grow up?',
+  phoneNumber: '+15555550100',
+  rrule: 'FREQ=WEEKLY;BYDAY=TH',
+  start: '2030-05-02T10:00',
+  timeZone: 'UTC',
+  endDate: null,
+  exceptions: {},
+};
+
+// Like Firestore, refuses to create a story whose id is taken
+const createMemoryStore = (schedules: BookableSchedule[] = [SCHEDULE]) => {
+  const stories = new Map<string, Record<string, unknown>>();
+  const reminders: NewCallReminder[] = [];
+
+  const store: BookingStore = {
+    listSchedules: async () => schedules,
+    listBookedOccurrences: async schedule =>
+      new Set(
+        [...stories.values()]
+          .map(story => story.nextSchedule as { scheduleId: string; occurrence: string })
+          .filter(nextSchedule => nextSchedule.scheduleId === schedule.id)
+          .map(nextSchedule => nextSchedule.occurrence)
+      ),
+    listQuestions: async () => [],
+    findRecipient: async userId => ({ userId, email: 'rose@example.com', preferences: DEFAULT_REMINDER_PREFERENCES }),
+    createStory: async (id, fields) => {
+      if (stories.has(id)) return false;
+      stories.set(id, fields);
+      return true;
+    },
+    saveReminders: async saved => {
+      reminders.push(...saved);
+    },
+  };
+
+  return { store, stories, reminders };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('booking job', () => {
+  it('books the next three calls of a schedule, with their reminders', async () => {
+    const { store, stories, reminders } = createMemoryStore();
+
+    const result = await createBookingJob({ store, now: () => NOW }).runOnce();
+
+    expect(result).toEqual({ booked: 3, failed: 0 });
+    expect([...stories.keys()]).toEqual([
+      'schedule-1_2030-05-02T10:00',
+      'schedule-1_2030-05-09T10:00',
+      'schedule-1_2030-05-16T10:00',
+    ]);
+    expect(stories.get('schedule-1_2030-05-02T10:00')).toMatchObject({
+      userId: 'user-1',
+      initialQuestion: 'Where did you grow up?',
+      nextSchedule: { status: 'scheduled', dateTime: new Date('2030-05-02T10:00:00Z'), occurrence: '2030-05-02T10:00' },
+    });
+    expect(reminders.map(reminder => reminder.sendAt)).toEqual([
+      new Date('2030-05-02T09:00:00Z'),
+      new Date('2030-05-09T09:00:00Z'),
+      new Date('2030-05-16T09:00:00Z'),
+    ]);
+  });
+
+  it('books nothing twice when runs repeat or overlap', async () => {
+    const { store, stories, reminders } = createMemoryStore();
+    const job = createBookingJob({ store, now: () => NOW });
+
+    await Promise.all([job.runOnce(), job.runOnce()]);
+    await job.runOnce();
+
+    expect(stories.size).toBe(3);
+    expect(reminders).toHaveLength(3);
+  });
+
+  it('keeps the series going as calls fall into the past', async () => {
+    const { store, stories } = createMemoryStore();
+    await createBookingJob({ store, now: () => NOW }).runOnce();
+
+    const result = await createBookingJob({ store, now: () => new Date('2030-05-03T12:00:00Z') }).runOnce();
+
+    expect(result.booked).toBe(1);
+    expect(stories.has('schedule-1_2030-05-23T10:00')).toBe(true);
+  });
+
+  it('carries on with other schedules when one fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { store, stories } = createMemoryStore([{ ...SCHEDULE, id: 'broken', rrule: 'FREQ=YEARLY' }, SCHEDULE]);
+
+    const result = await createBookingJob({ store, now: () => NOW }).runOnce();
+
+    expect(result).toEqual({ booked: 3, failed: 1 });
+    expect(stories.size).toBe(3);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('broken'), expect.any(Error));
+  });
+});
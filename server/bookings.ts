@@ -0,0 +1,105 @@
+import type { UpcomingQuestion } from '../src/types/question.js';
+import type { NewCallReminder } from '../src/types/reminder.js';
+import {
+  BookableSchedule,
+  missingBookings,
+  OccurrenceBooking,
+  plannedReminders,
+  ReminderRecipient,
+} from '../src/lib/bookings.js';
+
+export interface BookingStore {
+  // Every user's recurring schedules
+  listSchedules(): Promise<BookableSchedule[]>;
+  // Occurrences of the schedule that have a story, whatever became of the call
+  listBookedOccurrences(schedule: BookableSchedule): Promise<Set<string>>;
+  listQuestions(userId: string): Promise<UpcomingQuestion[]>;
+  findRecipient(userId: string): Promise<ReminderRecipient>;
+  // Writes the story unless `id` is taken; false when it was
+  createStory(id: string, fields: Record<string, unknown>): Promise<boolean>;
+  saveReminders(reminders: NewCallReminder[]): Promise<void>;
+}
+
+interface BookingJobOptions {
+  store: BookingStore;
+  now?: () => Date;
+}
+
+// A story the phone backend will dial, as the app's story repository writes one
+const bookedStory = (schedule: BookableSchedule, { occurrence, question }: OccurrenceBooking, now: Date) => ({
+  userId: schedule.userId,
+  categoryId: schedule.categoryId,
+  title: null,
+  description: null,
+  storyText: null,
+  creationTime: now,
+  lastUpdationTime: now,
+  initialQuestion: question,
+  isOnboardingStory: false,
+  sessions: {},
+  storySummary: null,
+  nextSchedule: {
+    dateTime: occurrence.dateTime,
+    phoneNumber: schedule.phoneNumber,
+    status: 'scheduled',
+    history: [{ status: 'scheduled', at: now, attempt: 0 }],
+    ...(schedule.retryPolicy ? { retryPolicy: schedule.retryPolicy } : {}),
+    timeZone: schedule.timeZone,
+    scheduleId: schedule.id,
+    occurrence: occurrence.key,
+  },
+});
+
+/**
+ * Keeps the next few calls of every recurring schedule booked, whether or not
+ * the user opens the app. Each occurrence's story has a fixed id and is only
+ * written if missing, so runs that overlap with each other or with the app
+ * book nothing twice.
+ */
+export const createBookingJob = ({ store, now = () => new Date() }: BookingJobOptions) => ({
+  async runOnce(): Promise<{ booked: number; failed: number }> {
+    const current = now();
+    const schedules = await store.listSchedules();
+    let booked = 0;
+    let failed = 0;
+
+    for (const schedule of schedules) {
+      try {
+        const [existing, questions] = await Promise.all([
+          store.listBookedOccurrences(schedule),
+          store.listQuestions(schedule.userId),
+        ]);
+        const bookings = missingBookings(schedule, questions, existing, current);
+        if (bookings.length === 0) continue;
+
+        const recipient = await store.findRecipient(schedule.userId);
+        for (const booking of bookings) {
+          // Booked meanwhile by the app; its reminders came with it
+          if (!(await store.createStory(booking.storyId, bookedStory(schedule, booking, current)))) continue;
+
+          await store.saveReminders(
+            plannedReminders(
+              recipient,
+              {
+                storyId: booking.storyId,
+                dateTime: booking.occurrence.dateTime,
+                timeZone: schedule.timeZone,
+                phoneNumber: schedule.phoneNumber,
+                question: booking.question,
+              },
+              current
+            )
+          );
+          booked++;
+        }
+      } catch (error) {
+        console.error(`Failed to book calls for schedule ${schedule.id}:`, error);
+        failed++;
+      }
+    }
+
+    return { booked, failed };
+  },
+});
+
+export type BookingJob = ReturnType<typeof createBookingJob>;
@@ -0,0 +1,438 @@
+import { createSign } from 'node:crypto';
+import { BookableSchedule, DEFAULT_REMINDER_PREFERENCES, ReminderRecipient, reminderId } from '../src/lib/bookings.js';
+import type { UpcomingQuestion } from '../src/types/question.js';
+import type { NewCallReminder, ReminderChannel, ReminderPreferences } from '../src/types/reminder.js';
+import type { RetryPolicy, ScheduleStatus } from '../src/types/story.js';
+import type { BookingStore } from './bookings.js';
+import type { DueReminder, ReminderStore } from './reminders.js';
+import type { ScheduleStatusStore } from './scheduleStatus.js';
+import { AgentSkeletonStore, parseSkeleton } from './skeletons.js';
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const DATASTORE_SCOPE = 'https://www.googleapis.com/auth/datastore';
+// Access tokens last an hour; a new one is fetched a little before that
+const TOKEN_LIFETIME_SECONDS = 3600;
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// The parts of a service account key file the client needs
+export interface ServiceAccount {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+}
+
+export type FirestoreValue = {
+  stringValue?: string;
+  timestampValue?: string;
+  integerValue?: string;
+  doubleValue?: number;
+  booleanValue?: boolean;
+  nullValue?: null;
+  mapValue?: { fields?: Record<string, FirestoreValue> };
+  arrayValue?: { values?: FirestoreValue[] };
+};
+export type FirestoreDocument = { name: string; fields: Record<string, FirestoreValue>; updateTime?: string };
+
+const base64url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Access tokens for a service account, from a JWT signed with its private key
+const createAccessTokenSource = (account: ServiceAccount) => {
+  let cache: { token: string; expiresAt: number } | null = null;
+
+  return async (): Promise<string> => {
+    if (cache && cache.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) return cache.token;
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const unsigned = `${base64url({ alg: 'RS256', typ: 'JWT' })}.${base64url({
+      iss: account.client_email,
+      scope: DATASTORE_SCOPE,
+      aud: TOKEN_URL,
+      iat: issuedAt,
+      exp: issuedAt + TOKEN_LIFETIME_SECONDS,
+    })}`;
+    const signer = createSign('RSA-SHA256');
+    signer.update(unsigned);
+    const assertion = `${unsigned}.${signer.sign(account.private_key, 'base64url')}`;
+
+    const response = await fetch(TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to get a Firestore access token: ${response.status}`);
+    }
+    const { access_token, expires_in } = (await response.json()) as { access_token: string; expires_in: number };
+    cache = { token: access_token, expiresAt: Date.now() + expires_in * 1000 };
+    return access_token;
+  };
+};
+
+// Plain JSON values from REST ones; timestamps stay ISO strings
+export const decodeValue = (value: FirestoreValue): unknown => {
+  if (value.mapValue) return decodeFields(value.mapValue.fields ?? {});
+  if (value.arrayValue) return (value.arrayValue.values ?? []).map(decodeValue);
+  if (value.integerValue !== undefined) return Number(value.integerValue);
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.booleanValue !== undefined) return value.booleanValue;
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.timestampValue !== undefined) return value.timestampValue;
+  return null;
+};
+
+export const decodeFields = (fields: Record<string, FirestoreValue>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, decodeValue(value)]));
+
+// REST values from plain JSON ones; Dates become timestamps
+export const encodeValue = (value: unknown): FirestoreValue => {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(encodeValue) } };
+  if (typeof value === 'object') return { mapValue: { fields: encodeFields(value as Record<string, unknown>) } };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  return { stringValue: String(value) };
+};
+
+export const encodeFields = (fields: Record<string, unknown>): Record<string, FirestoreValue> =>
+  Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, encodeValue(value)]));
+
+export const documentId = (document: FirestoreDocument) => document.name.split('/').pop() as string;
+
+/**
+ * The few Firestore REST calls the server makes, authorized as the service
+ * account. Saves pulling in the Admin SDK.
+ */
+export const createFirestoreClient = (account: ServiceAccount) => {
+  const accessToken = createAccessTokenSource(account);
+  const databaseName = `projects/${account.project_id}/databases/(default)`;
+  const databaseUrl = `https://firestore.googleapis.com/v1/${databaseName}`;
+  const documentsUrl = `${databaseUrl}/documents`;
+
+  const request = async (url: string, init: { method: string; body?: unknown }) => {
+    const response = await fetch(url, {
+      method: init.method,
+      headers: { Authorization: `Bearer ${await accessToken()}`, 'Content-Type': 'application/json' },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+    if (!response.ok) {
+      throw new Error(`Firestore request failed: ${response.status} ${await response.text()}`);
+    }
+    return response.json();
+  };
+
+  return {
+    documentsName: `${databaseName}/documents`,
+    documentsUrl,
+    request,
+
+    // `path` is slash separated, e.g. `users/{uid}/categories/{id}`; null when the document doesn't exist
+    async get(path: string): Promise<FirestoreDocument | null> {
+      const response = await fetch(`${documentsUrl}/${path}`, {
+        headers: { Authorization: `Bearer ${await accessToken()}` },
+      });
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Firestore request failed: ${response.status} ${await response.text()}`);
+      }
+      return (await response.json()) as FirestoreDocument;
+    },
+
+    // Writes a new document; false, and nothing written, when `id` is already taken
+    async create(collectionPath: string, id: string, fields: Record<string, FirestoreValue>): Promise<boolean> {
+      const response = await fetch(`${documentsUrl}/${collectionPath}?documentId=${encodeURIComponent(id)}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${await accessToken()}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fields }),
+      });
+      if (response.status === 409) return false;
+      if (!response.ok) {
+        throw new Error(`Firestore request failed: ${response.status} ${await response.text()}`);
+      }
+      return true;
+    },
+
+    // Applies one REST `Write`; false when its `currentDocument` precondition doesn't hold
+    async commit(write: Record<string, unknown>): Promise<boolean> {
+      const response = await fetch(`${databaseUrl}/documents:commit`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${await accessToken()}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ writes: [write] }),
+      });
+      if (!response.ok) {
+        const text = await response.text();
+        if (text.includes('FAILED_PRECONDITION')) return false;
+        throw new Error(`Firestore request failed: ${response.status} ${text}`);
+      }
+      return true;
+    },
+
+    // Creates or replaces the document at `path`
+    async set(path: string, fields: Record<string, FirestoreValue>): Promise<void> {
+      await request(`${documentsUrl}/${path}`, { method: 'PATCH', body: { fields } });
+    },
+
+    async runQuery(structuredQuery: Record<string, unknown>): Promise<FirestoreDocument[]> {
+      const results = (await request(`${documentsUrl}:runQuery`, {
+        method: 'POST',
+        body: { structuredQuery },
+      })) as Array<{ document?: FirestoreDocument }>;
+      return results.flatMap(result => (result.document ? [result.document] : []));
+    },
+  };
+};
+
+export type FirestoreClient = ReturnType<typeof createFirestoreClient>;
+
+const parseReminder = (document: FirestoreDocument): DueReminder => {
+  const { fields } = document;
+  return {
+    id: documentId(document),
+    channel: fields.channel?.stringValue as ReminderChannel,
+    to: fields.to?.stringValue ?? '',
+    callAt: new Date(fields.callAt?.timestampValue ?? 0),
+    timeZone: fields.timeZone?.stringValue || 'UTC',
+    question: fields.question?.stringValue ?? '',
+  };
+};
+
+/** Reads and updates the top-level `reminders` collection. */
+export const createFirestoreReminderStore = (firestore: FirestoreClient): ReminderStore => {
+  // Only touches reminders that still exist; a cancelled one is not brought back
+  const setStatus = (id: string, fields: Record<string, FirestoreValue>) =>
+    firestore.request(
+      `${firestore.documentsUrl}/reminders/${encodeURIComponent(id)}?${Object.keys(fields)
+        .map(field => `updateMask.fieldPaths=${field}`)
+        .join('&')}&currentDocument.exists=true`,
+      { method: 'PATCH', body: { fields } }
+    );
+
+  return {
+    async listDue(now, limit) {
+      const documents = await firestore.runQuery({
+        from: [{ collectionId: 'reminders' }],
+        where: {
+          compositeFilter: {
+            op: 'AND',
+            filters: [
+              { fieldFilter: { field: { fieldPath: 'status' }, op: 'EQUAL', value: { stringValue: 'pending' } } },
+              {
+                fieldFilter: {
+                  field: { fieldPath: 'sendAt' },
+                  op: 'LESS_THAN_OR_EQUAL',
+                  value: { timestampValue: now.toISOString() },
+                },
+              },
+            ],
+          },
+        },
+        orderBy: [{ field: { fieldPath: 'sendAt' }, direction: 'ASCENDING' }],
+        limit,
+      });
+      return documents.map(parseReminder);
+    },
+
+    async markSent(id) {
+      await setStatus(id, { status: { stringValue: 'sent' }, sentAt: { timestampValue: new Date().toISOString() } });
+    },
+
+    async markFailed(id, reason) {
+      await setStatus(id, { status: { stringValue: 'failed' }, failureReason: { stringValue: reason } });
+    },
+  };
+};
+
+/** Agent templates from `agent_skeletons`, and the users' own categories. */
+export const createFirestoreSkeletonStore = (firestore: FirestoreClient): AgentSkeletonStore => {
+  const firstSkeleton = async (where?: Record<string, unknown>) => {
+    const [document] = await firestore.runQuery({
+      from: [{ collectionId: 'agent_skeletons' }],
+      ...(where ? { where } : { orderBy: [{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }] }),
+      limit: 1,
+    });
+    return document ? parseSkeleton(documentId(document), decodeFields(document.fields)) : null;
+  };
+
+  return {
+    findSkeleton: categoryId =>
+      firstSkeleton({
+        fieldFilter: { field: { fieldPath: 'category_id' }, op: 'EQUAL', value: { stringValue: categoryId } },
+      }),
+
+    defaultSkeleton: () => firstSkeleton(),
+
+    async findCustomCategory(userId, categoryId) {
+      const document = await firestore.get(
+        `users/${encodeURIComponent(userId)}/categories/${encodeURIComponent(categoryId)}`
+      );
+      if (!document) return null;
+      const fields = decodeFields(document.fields);
+      return {
+        title: String(fields.title ?? ''),
+        description: String(fields.description ?? ''),
+        example: String(fields.example ?? ''),
+      };
+    },
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const parseSchedule = (document: FirestoreDocument): BookableSchedule => {
+  const fields = decodeFields(document.fields);
+  const retryPolicy = fields.retryPolicy as RetryPolicy | undefined;
+  return {
+    id: documentId(document),
+    userId: String(fields.userId ?? ''),
+    categoryId: String(fields.categoryId ?? ''),
+    initialQuestion: String(fields.initialQuestion ?? ''),
+    phoneNumber: String(fields.phoneNumber ?? ''),
+    rrule: String(fields.rrule ?? ''),
+    start: String(fields.start ?? ''),
+    timeZone: String(fields.timeZone || 'UTC'),
+    endDate: typeof fields.endDate === 'string' ? fields.endDate : null,
+    ...(isRecord(retryPolicy) ? { retryPolicy } : {}),
+    exceptions: isRecord(fields.exceptions) ? (fields.exceptions as BookableSchedule['exceptions']) : {},
+  };
+};
+
+const parseQuestion = (document: FirestoreDocument): UpcomingQuestion => {
+  const fields = decodeFields(document.fields);
+  return {
+    id: documentId(document),
+    userId: String(fields.userId ?? ''),
+    categoryId: String(fields.categoryId ?? ''),
+    categoryTitle: String(fields.categoryTitle ?? ''),
+    question: String(fields.question ?? ''),
+    createdAt: new Date(typeof fields.createdAt === 'string' ? fields.createdAt : 0),
+    // Questions written before feedback existed have no status
+    status: (fields.status as UpcomingQuestion['status']) || 'pending',
+    snoozedUntil: typeof fields.snoozedUntil === 'string' ? new Date(fields.snoozedUntil) : null,
+  };
+};
+
+const equals = (fieldPath: string, value: string) => ({
+  fieldFilter: { field: { fieldPath }, op: 'EQUAL', value: { stringValue: value } },
+});
+
+// Shared by the booking job and status reports, which both plan reminders
+const findRecipient = async (firestore: FirestoreClient, userId: string): Promise<ReminderRecipient> => {
+  const document = await firestore.get(`users/${encodeURIComponent(userId)}`);
+  const fields = document ? decodeFields(document.fields) : {};
+  return {
+    userId,
+    email: typeof fields.email === 'string' && fields.email ? fields.email : null,
+    preferences: isRecord(fields.reminders)
+      ? (fields.reminders as unknown as ReminderPreferences)
+      : DEFAULT_REMINDER_PREFERENCES,
+  };
+};
+
+const saveReminders = async (firestore: FirestoreClient, reminders: NewCallReminder[]) => {
+  await Promise.all(
+    reminders.map(reminder =>
+      firestore.set(
+        `reminders/${encodeURIComponent(reminderId(reminder))}`,
+        encodeFields({ ...reminder, status: 'pending' })
+      )
+    )
+  );
+};
+
+/** Recurring schedules across all users, and the stories and reminders their calls are booked as. */
+export const createFirestoreBookingStore = (firestore: FirestoreClient): BookingStore => ({
+  async listSchedules() {
+    const documents = await firestore.runQuery({ from: [{ collectionId: 'schedules', allDescendants: true }] });
+    return documents.map(parseSchedule);
+  },
+
+  async listBookedOccurrences(schedule) {
+    const documents = await firestore.runQuery({
+      from: [{ collectionId: 'stories' }],
+      where: {
+        compositeFilter: {
+          op: 'AND',
+          filters: [equals('userId', schedule.userId), equals('nextSchedule.scheduleId', schedule.id)],
+        },
+      },
+      select: { fields: [{ fieldPath: 'nextSchedule.occurrence' }] },
+    });
+    return new Set(
+      documents.map(document => {
+        // A select leaves `fields` out of documents that have none of the selected ones
+        const { nextSchedule } = decodeFields(document.fields ?? {}) as { nextSchedule?: { occurrence?: string } };
+        return nextSchedule?.occurrence ?? '';
+      })
+    );
+  },
+
+  async listQuestions(userId) {
+    const documents = await firestore.runQuery({
+      from: [{ collectionId: 'upcoming_questions' }],
+      where: equals('userId', userId),
+    });
+    return documents.map(parseQuestion);
+  },
+
+  findRecipient: userId => findRecipient(firestore, userId),
+
+  createStory: (id, fields) => firestore.create('stories', id, encodeFields(fields)),
+
+  saveReminders: reminders => saveReminders(firestore, reminders),
+});
+
+/** Scheduled calls on `stories`, moved along as the phone backend reports them. */
+export const createFirestoreScheduleStatusStore = (firestore: FirestoreClient): ScheduleStatusStore => ({
+  async find(storyId) {
+    const document = await firestore.get(`stories/${encodeURIComponent(storyId)}`);
+    const schedule = document?.fields.nextSchedule?.mapValue?.fields;
+    if (!document?.updateTime || !schedule) return null;
+
+    const { status, retryPolicy, history, phoneNumber, timeZone } = decodeFields(schedule);
+    const { userId, initialQuestion } = decodeFields(document.fields);
+    return {
+      schedule: {
+        status: status as ScheduleStatus,
+        ...(isRecord(retryPolicy) ? { retryPolicy: retryPolicy as unknown as RetryPolicy } : {}),
+        history: Array.isArray(history) ? (history as Array<{ attempt: number }>) : [],
+      },
+      call: {
+        userId: String(userId ?? ''),
+        phoneNumber: String(phoneNumber ?? ''),
+        timeZone: String(timeZone || 'UTC'),
+        question: String(initialQuestion ?? ''),
+      },
+      version: document.updateTime,
+    };
+  },
+
+  // Like the app's recordScheduleEvents, but only if nothing wrote the story since it was read
+  record: (storyId, transition, version) =>
+    firestore.commit({
+      update: {
+        name: `${firestore.documentsName}/stories/${storyId}`,
+        fields: {
+          nextSchedule: {
+            mapValue: {
+              fields: {
+                status: encodeValue(transition.status),
+                ...(transition.dateTime ? { dateTime: encodeValue(transition.dateTime) } : {}),
+              },
+            },
+          },
+        },
+      },
+      updateMask: {
+        fieldPaths: ['nextSchedule.status', ...(transition.dateTime ? ['nextSchedule.dateTime'] : [])],
+      },
+      updateTransforms: [
+        { fieldPath: 'nextSchedule.history', appendMissingElements: { values: transition.events.map(encodeValue) } },
+        { fieldPath: 'lastUpdationTime', setToServerValue: 'REQUEST_TIME' },
+      ],
+      currentDocument: { updateTime: version },
+    }),
+
+  findRecipient: userId => findRecipient(firestore, userId),
+
+  saveReminders: reminders => saveReminders(firestore, reminders),
+});
@@ -0,0 +1,102 @@
+import { createServer } from 'node:http';
+import Retell from 'retell-sdk';
+import { createRetellProxy } from './app.js';
+import { createApiKeyVerifier, createIdTokenVerifier } from './auth.js';
+import { createBookingJob } from './bookings.js';
+import {
+  createFirestoreBookingStore,
+  createFirestoreClient,
+  createFirestoreReminderStore,
+  createFirestoreScheduleStatusStore,
+  createFirestoreSkeletonStore,
+} from './firestore.js';
+import { createLogNotifier, createSendGridNotifier, createTwilioNotifier } from './notifiers.js';
+import { createOpenAiQuestionService } from './questions.js';
+import { createReminderDispatcher } from './reminders.js';
+import { createRetellService } from './retell.js';
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set in environment variables`);
+  }
+  return value;
+};
+
+// RETELL_BASE_URL points the proxy at a fake Retell server in tests
+const client = new Retell({
+  apiKey: requireEnv('RETELL_API_KEY'),
+  baseURL: process.env.RETELL_BASE_URL || undefined,
+});
+
+// Agent templates, recurring calls and call reminders are read with a service account
+const firestore = process.env.FIREBASE_SERVICE_ACCOUNT
+  ? createFirestoreClient(JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT))
+  : undefined;
+
+const handler = createRetellProxy({
+  verifyIdToken: createIdTokenVerifier({ projectId: requireEnv('FIREBASE_PROJECT_ID') }),
+  retell: createRetellService(client),
+  skeletons: firestore ? createFirestoreSkeletonStore(firestore) : undefined,
+  questions: process.env.OPENAI_API_KEY
+    ? createOpenAiQuestionService({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        baseUrl: process.env.OPENAI_BASE_URL || undefined,
+      })
+    : undefined,
+  // The phone backend reports call statuses with this key
+  verifyBackendKey: process.env.BACKEND_API_KEY ? createApiKeyVerifier(process.env.BACKEND_API_KEY) : undefined,
+  scheduleStatuses: firestore ? createFirestoreScheduleStatusStore(firestore) : undefined,
+  allowedOrigins: (process.env.ALLOWED_ORIGINS || '*').split(',').map(origin => origin.trim()),
+});
+
+const port = Number(process.env.PORT || 3001);
+createServer((req, res) => {
+  handler(req, res);
+}).listen(port, () => {
+  console.log(`Retell proxy listening on port ${port}`);
+});
+
+const REMINDER_INTERVAL_MS = 60 * 1000;
+// Calls are booked a few occurrences ahead, so the series needn't be checked as often
+const BOOKING_INTERVAL_MS = 15 * 60 * 1000;
+
+if (firestore) {
+  const dispatcher = createReminderDispatcher({
+    store: createFirestoreReminderStore(firestore),
+    notifiers: {
+      email: process.env.SENDGRID_API_KEY
+        ? createSendGridNotifier({ apiKey: process.env.SENDGRID_API_KEY, from: requireEnv('REMINDER_EMAIL_FROM') })
+        : createLogNotifier('email'),
+      sms: process.env.TWILIO_ACCOUNT_SID
+        ? createTwilioNotifier({
+            accountSid: process.env.TWILIO_ACCOUNT_SID,
+            authToken: requireEnv('TWILIO_AUTH_TOKEN'),
+            from: requireEnv('TWILIO_FROM_NUMBER'),
+          })
+        : createLogNotifier('sms'),
+    },
+  });
+
+  const bookings = createBookingJob({ store: createFirestoreBookingStore(firestore) });
+
+  let running = false;
+  let lastBookingRun = 0;
+  setInterval(async () => {
+    // A slow run is left to finish rather than overlapped
+    if (running) return;
+    running = true;
+    try {
+      if (Date.now() - lastBookingRun >= BOOKING_INTERVAL_MS) {
+        lastBookingRun = Date.now();
+        await bookings.runOnce().catch(error => console.error('Error booking recurring calls:', error));
+      }
+      await dispatcher.runOnce();
+    } catch (error) {
+      console.error('Error sending call reminders:', error);
+    } finally {
+      running = false;
+    }
+  }, REMINDER_INTERVAL_MS);
+}
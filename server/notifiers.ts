@@ -0,0 +1,58 @@
+import type { ReminderMessage, ReminderNotifier } from './reminders.js';
+
+const ensureOk = async (response: Response, provider: string) => {
+  if (!response.ok) {
+    throw new Error(`${provider} rejected the reminder: ${response.status} ${await response.text()}`);
+  }
+};
+
+// Writes reminders to the console; used where no provider is configured
+export const createLogNotifier = (channel: string): ReminderNotifier => ({
+  async send(message: ReminderMessage) {
+    console.log(`[${channel} reminder] to ${message.to}: ${message.text}`);
+  },
+});
+
+interface TwilioOptions {
+  accountSid: string;
+  authToken: string;
+  from: string;
+}
+
+export const createTwilioNotifier = ({ accountSid, authToken, from }: TwilioOptions): ReminderNotifier => ({
+  async send(message: ReminderMessage) {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: message.to, From: from, Body: message.text }),
+    });
+    await ensureOk(response, 'Twilio');
+  },
+});
+
+interface SendGridOptions {
+  apiKey: string;
+  from: string;
+}
+
+export const createSendGridNotifier = ({ apiKey, from }: SendGridOptions): ReminderNotifier => ({
+  async send(message: ReminderMessage) {
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: from },
+        subject: message.subject,
+        content: [{ type: 'text/plain', value: message.text }],
+      }),
+    });
+    await ensureOk(response, 'SendGrid');
+  },
+});
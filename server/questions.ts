@@ -0,0 +1,84 @@
+import type { ProposedQuestion, QuestionGenerationRequest, QuestionSubjectKind } from '../src/types/question.js';
+import { HttpError } from './http.js';
+
+export interface QuestionService {
+  proposeQuestions(request: QuestionGenerationRequest): Promise<ProposedQuestion[]>;
+}
+
+const SUBJECT_KINDS: QuestionSubjectKind[] = ['person', 'place', 'event'];
+
+const SYSTEM_PROMPT = `You help an older adult record their life story. You are given summaries and transcript excerpts of stories they have already told.
+Find people, places and events that a story mentions but does not explore, and write one warm, open-ended follow-up question about each, addressed to the storyteller as "you".
+Do not repeat or rephrase any question in the "avoid" list, and don't ask about anything those questions already cover.
+Reply with JSON only: {"questions": [{"question": string, "subject": string, "kind": "person" | "place" | "event", "storyId": string}]}, where storyId is the id of the story the subject comes from.`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Keeps only well-formed questions about the stories that were sent
+const parseProposals = (content: string, request: QuestionGenerationRequest): ProposedQuestion[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new HttpError(502, 'The language model did not return JSON');
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.questions)) {
+    throw new HttpError(502, 'The language model did not return any questions');
+  }
+
+  const storyIds = new Set(request.sources.map(source => source.storyId));
+  return parsed.questions
+    .filter(
+      (item): item is ProposedQuestion =>
+        isRecord(item) &&
+        typeof item.question === 'string' &&
+        typeof item.subject === 'string' &&
+        typeof item.storyId === 'string' &&
+        storyIds.has(item.storyId) &&
+        SUBJECT_KINDS.includes(item.kind as QuestionSubjectKind)
+    )
+    .map(({ question, subject, kind, storyId }) => ({ question: question.trim(), subject: subject.trim(), kind, storyId }))
+    .filter(item => item.question && item.subject)
+    .slice(0, request.limit);
+};
+
+interface OpenAiOptions {
+  apiKey: string;
+  model: string;
+  // Any OpenAI-compatible chat completions endpoint
+  baseUrl?: string;
+}
+
+export const createOpenAiQuestionService = ({
+  apiKey,
+  model,
+  baseUrl = 'https://api.openai.com/v1',
+}: OpenAiOptions): QuestionService => ({
+  async proposeQuestions(request: QuestionGenerationRequest) {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: JSON.stringify({ limit: request.limit, avoid: request.avoid, stories: request.sources }),
+          },
+        ],
+      }),
+    });
+    if (!response.ok) {
+      console.error('Language model request failed:', response.status, await response.text());
+      throw new HttpError(502, 'Question generation failed');
+    }
+
+    const data = (await response.json()) as { choices?: { message?: { content?: string } }[] };
+    return parseProposals(data.choices?.[0]?.message?.content ?? '', request);
+  },
+});
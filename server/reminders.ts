@@ -0,0 +1,105 @@
+import type { ReminderChannel } from '../src/types/reminder.js';
+
+// A reminder as the dispatcher reads it from the store
+export interface DueReminder {
+  id: string;
+  channel: ReminderChannel;
+  to: string;
+  callAt: Date;
+  timeZone: string;
+  question: string;
+}
+
+export interface ReminderMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Delivers reminders over one channel; email and SMS providers plug in here
+export interface ReminderNotifier {
+  send(message: ReminderMessage): Promise<void>;
+}
+
+export interface ReminderStore {
+  // Pending reminders whose send time has passed, oldest first
+  listDue(now: Date, limit: number): Promise<DueReminder[]>;
+  markSent(id: string): Promise<void>;
+  markFailed(id: string, reason: string): Promise<void>;
+}
+
+interface ReminderDispatcherOptions {
+  store: ReminderStore;
+  notifiers: Partial<Record<ReminderChannel, ReminderNotifier>>;
+  now?: () => Date;
+  // Reminders handled per run
+  batchSize?: number;
+}
+
+/** Reminder wording, with the call time as the callee's clocks show it. */
+export const formatReminder = (reminder: DueReminder, now: Date): ReminderMessage => {
+  const callTime = new Intl.DateTimeFormat('en-US', {
+    timeZone: reminder.timeZone,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(reminder.callAt);
+  const minutesAway = Math.max(0, Math.round((reminder.callAt.getTime() - now.getTime()) / 60000));
+  const plural = (count: number, unit: string) => `in ${count} ${unit}${count === 1 ? '' : 's'}`;
+  const away =
+    minutesAway >= 24 * 60
+      ? plural(Math.round(minutesAway / (24 * 60)), 'day')
+      : minutesAway >= 60
+        ? plural(Math.round(minutesAway / 60), 'hour')
+        : plural(minutesAway, 'minute');
+
+  return {
+    to: reminder.to,
+    subject: `Your story call is ${away}`,
+    text: `Your story call is ${away}, on ${callTime}. We'll start with: "${reminder.question}"`,
+  };
+};
+
+/**
+ * Sends the reminders that have come due. A reminder is marked sent or failed
+ * once tried, so a failing provider doesn't send duplicates on the next run.
+ */
+export const createReminderDispatcher = ({
+  store,
+  notifiers,
+  now = () => new Date(),
+  batchSize = 50,
+}: ReminderDispatcherOptions) => ({
+  async runOnce(): Promise<{ sent: number; failed: number }> {
+    const current = now();
+    const due = await store.listDue(current, batchSize);
+    let sent = 0;
+    let failed = 0;
+
+    for (const reminder of due) {
+      const notifier = notifiers[reminder.channel];
+      try {
+        if (!notifier) {
+          throw new Error(`No notifier is configured for ${reminder.channel}`);
+        }
+        await notifier.send(formatReminder(reminder, current));
+        await store.markSent(reminder.id);
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send reminder ${reminder.id}:`, error);
+        // The reminder may have been cancelled while it was being sent
+        await store
+          .markFailed(reminder.id, error instanceof Error ? error.message : String(error))
+          .catch(markError => console.error(`Failed to record reminder ${reminder.id} as failed:`, markError));
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  },
+});
+
+export type ReminderDispatcher = ReturnType<typeof createReminderDispatcher>;
@@ -0,0 +1,81 @@
+import Retell from 'retell-sdk';
+import type { AgentSkeleton, CreateAgentResponse, RetellVoice } from '../src/types/retell.js';
+import { HttpError } from './http.js';
+
+const END_CALL_TOOL = {
+  name: 'end_call',
+  type: 'end_call' as const,
+  description:
+    'End the call if: conversation is complete; user is not interested; user is not eligible; or user wants to reschedule',
+};
+
+// Agents are named after their owner so later requests can be checked against the caller
+const agentName = (userId: string, categoryId: string) => `${userId}_${categoryId}`;
+
+const assertOwnAgent = async (client: Retell, userId: string, agentId: string) => {
+  const agent = await client.agent.retrieve(agentId);
+  if (!agent.agent_name?.startsWith(`${userId}_`)) {
+    throw new HttpError(403, 'Agent belongs to another user');
+  }
+};
+
+// Text the agent takes into account on its next turn of a call in progress
+interface LiveCallUpdate {
+  call_control: { additional_context: string; trigger_response: boolean };
+}
+
+export const createRetellService = (client: Retell) => ({
+  async createAgent(userId: string, skeleton: AgentSkeleton): Promise<CreateAgentResponse> {
+    const llm = await client.llm.create({
+      general_prompt: skeleton.llm_configurations.general_prompt,
+      general_tools: [END_CALL_TOOL],
+      model: skeleton.llm_configurations.model as Retell.LlmCreateParams['model'],
+    });
+    if (!llm?.llm_id) {
+      throw new Error('Failed to create LLM - no ID returned');
+    }
+
+    const { interruption_sensitivity, language, voice_id } = skeleton.agent_configurations;
+    const agent = await client.agent.create({
+      response_engine: { llm_id: llm.llm_id, type: 'retell-llm' },
+      agent_name: agentName(userId, skeleton.category_id),
+      interruption_sensitivity,
+      language: language as Retell.AgentCreateParams['language'],
+      voice_id,
+    });
+    if (!agent?.agent_id) {
+      throw new Error('Failed to create agent - no ID returned');
+    }
+
+    return { llmId: llm.llm_id, agentId: agent.agent_id };
+  },
+
+  async listVoices(): Promise<RetellVoice[]> {
+    const voices = await client.voice.list();
+    return voices.map(voice => ({
+      voice_id: voice.voice_id,
+      voice_name: voice.voice_name,
+      provider: voice.provider,
+      accent: voice.accent ?? '',
+      gender: voice.gender,
+      age: voice.age ?? '',
+      preview_audio_url: voice.preview_audio_url ?? '',
+    }));
+  },
+
+  async updateAgentVoice(userId: string, agentId: string, voiceId: string): Promise<void> {
+    await assertOwnAgent(client, userId, agentId);
+    await client.agent.update(agentId, { voice_id: voiceId });
+  },
+
+  // The SDK has no method for live-call updates yet, so this goes to the endpoint directly
+  async addCallContext(userId: string, callId: string, context: string): Promise<void> {
+    const call = await client.call.retrieve(callId);
+    await assertOwnAgent(client, userId, call.agent_id);
+    await client.patch<LiveCallUpdate, unknown>(`/v2/update-live-call/${encodeURIComponent(callId)}`, {
+      body: { call_control: { additional_context: context, trigger_response: true } },
+    });
+  },
+});
+
+export type RetellService = ReturnType<typeof createRetellService>;
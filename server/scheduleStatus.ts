@@ -0,0 +1,84 @@
+import type { NewCallReminder } from '../src/types/reminder.js';
+import type { ScheduleStatus } from '../src/types/story.js';
+import { BookedCall, plannedReminders, ReminderRecipient } from '../src/lib/bookings.js';
+import {
+  ScheduleTransition,
+  ScheduleTransitionError,
+  TransitionableSchedule,
+  transitionSchedule,
+} from '../src/lib/scheduleLifecycle.js';
+import { HttpError } from './http.js';
+
+// A story's scheduled call; `version` changes whenever the story is written
+export interface StoredSchedule {
+  schedule: TransitionableSchedule;
+  // Who is called and about what, to remind them of a retry
+  call: Omit<BookedCall, 'storyId' | 'dateTime'> & { userId: string };
+  version: string;
+}
+
+export interface ScheduleStatusStore {
+  // null when the story doesn't exist or has no scheduled call
+  find(storyId: string): Promise<StoredSchedule | null>;
+  // Writes the transition unless the story changed after `version` was read; false when it had
+  record(storyId: string, transition: ScheduleTransition, version: string): Promise<boolean>;
+  findRecipient(userId: string): Promise<ReminderRecipient>;
+  // Replaces reminders with the same ids, so a retry's take the place of the missed call's
+  saveReminders(reminders: NewCallReminder[]): Promise<void>;
+}
+
+// The retry is booked whether or not its reminders could be; the phone backend can't do anything about them
+const remindOfRetry = async (
+  store: ScheduleStatusStore,
+  storyId: string,
+  { call: { userId, ...call } }: StoredSchedule,
+  dateTime: Date,
+  now: Date
+) => {
+  try {
+    const recipient = await store.findRecipient(userId);
+    await store.saveReminders(plannedReminders(recipient, { ...call, storyId, dateTime }, now));
+  } catch (error) {
+    console.error(`Failed to plan reminders for the retry of story ${storyId}:`, error);
+  }
+};
+
+// Reports that arrive moments apart, like dialing and then in_progress, can both read the same version
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * Records that a scheduled call reached `status`, as the phone backend
+ * reports it: dialing, in_progress, completed, no_answer or failed. A missed
+ * or failed dial is booked again while the call's retry policy allows, and
+ * its reminders are planned for the new time. Moves the lifecycle doesn't
+ * allow answer 409.
+ */
+export const reportScheduleStatus = async (
+  store: ScheduleStatusStore,
+  storyId: string,
+  status: ScheduleStatus,
+  { note, at = new Date() }: { note?: string; at?: Date } = {}
+): Promise<ScheduleTransition> => {
+  for (let attempt = 1; ; attempt++) {
+    const stored = await store.find(storyId);
+    if (!stored) {
+      throw new HttpError(404, `Story ${storyId} has no scheduled call`);
+    }
+
+    let transition: ScheduleTransition;
+    try {
+      transition = transitionSchedule(stored.schedule, status, at, note);
+    } catch (error) {
+      if (error instanceof ScheduleTransitionError) throw new HttpError(409, error.message);
+      throw error;
+    }
+
+    if (await store.record(storyId, transition, stored.version)) {
+      if (transition.dateTime) await remindOfRetry(store, storyId, stored, transition.dateTime, at);
+      return transition;
+    }
+    if (attempt === MAX_WRITE_ATTEMPTS) {
+      throw new HttpError(409, `Story ${storyId} kept changing while its status was recorded`);
+    }
+  }
+};
@@ -0,0 +1,89 @@
+import type { AgentSkeleton } from '../src/types/retell.js';
+import { HttpError } from './http.js';
+
+// The parts of a user's own category its agent's prompt is written from
+export interface CustomCategory {
+  title: string;
+  description: string;
+  example: string;
+}
+
+export interface AgentSkeletonStore {
+  // The template of a built-in category, or null for any other id
+  findSkeleton(categoryId: string): Promise<AgentSkeleton | null>;
+  // The template custom categories start from
+  defaultSkeleton(): Promise<AgentSkeleton | null>;
+  findCustomCategory(userId: string, categoryId: string): Promise<CustomCategory | null>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const stringAt = (value: unknown, id: string, field: string): string => {
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`Agent skeleton ${id} has no ${field}`);
+  }
+  return value;
+};
+
+// Templates are stored data, so a malformed one is a server error rather than the caller's
+export const parseSkeleton = (id: string, value: Record<string, unknown>): AgentSkeleton => {
+  const { agent_configurations: agent, llm_configurations: llm } = value;
+  if (!isRecord(agent) || !isRecord(llm) || typeof agent.interruption_sensitivity !== 'number') {
+    throw new Error(`Agent skeleton ${id} is malformed`);
+  }
+  return {
+    category_id: stringAt(value.category_id, id, 'category_id'),
+    agent_configurations: {
+      interruption_sensitivity: agent.interruption_sensitivity,
+      language: stringAt(agent.language, id, 'language'),
+      voice_id: stringAt(agent.voice_id, id, 'voice_id'),
+    },
+    llm_configurations: {
+      general_prompt: stringAt(llm.general_prompt, id, 'general_prompt'),
+      model: stringAt(llm.model, id, 'model'),
+    },
+  };
+};
+
+/**
+ * The template an agent for `categoryId` is made from. Built-in categories
+ * have their own; a user's own category gets the default template with its
+ * topic added to the prompt. Callers only choose the category and voice, so
+ * they can't put their own prompt or model on the Retell account.
+ */
+export const resolveSkeleton = async (
+  store: AgentSkeletonStore,
+  userId: string,
+  categoryId: string,
+  voiceId?: string
+): Promise<AgentSkeleton> => {
+  const withVoice = (skeleton: AgentSkeleton): AgentSkeleton =>
+    voiceId ? { ...skeleton, agent_configurations: { ...skeleton.agent_configurations, voice_id: voiceId } } : skeleton;
+
+  const builtIn = await store.findSkeleton(categoryId);
+  if (builtIn) return withVoice(builtIn);
+
+  const [category, template] = await Promise.all([
+    store.findCustomCategory(userId, categoryId),
+    store.defaultSkeleton(),
+  ]);
+  if (!category) {
+    throw new HttpError(404, `No category ${categoryId}`);
+  }
+  if (!template) {
+    throw new Error('No agent template is available');
+  }
+
+  return withVoice({
+    ...template,
+    category_id: categoryId,
+    llm_configurations: {
+      ...template.llm_configurations,
+      general_prompt: [
+        template.llm_configurations.general_prompt,
+        `This conversation is about "${category.title}": ${category.description}`,
+        `For example: ${category.example}`,
+      ].join('\n\n'),
+    },
+  });
+};
@@ -8,15 +8,25 @@ import { QuestionsView } from './components/QuestionsView';
 import { SettingsView } from './components/SettingsView';
 import { BookList } from './components/books/BookList';
 import { BookViewer } from './components/books/BookViewer';
+import { BookEditor } from './components/books/BookEditor';
 import { OnboardingModal } from './components/OnboardingModal';
 import { ScheduledView } from './components/ScheduledView';
 import { CallHistoryView } from './components/CallHistoryView';
-import { Toaster } from 'react-hot-toast';
+import { AcceptInvite } from './components/collections/AcceptInvite';
+import { NotificationsView } from './components/NotificationsView';
+import { CategoriesView } from './components/categories/CategoriesView';
+import { EntitiesView } from './components/entities/EntitiesView';
+import { EntityView } from './components/entities/EntityView';
+import { TimelineView } from './components/timeline/TimelineView';
+import toast, { Toaster } from 'react-hot-toast';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { doc, getDoc } from 'firebase/firestore';
 import { auth, db } from './lib/firebase';
 import { Sidebar } from './components/Sidebar';
 import { User } from './types/user';
+import { useRepositories } from './lib/repositories';
+import { CollectionContext, useCollectionState } from './hooks/useCollections';
+import { recoverRecordings } from './lib/recording';
 
 function App() {
   const [user, loading] = useAuthState(auth);
@@ -24,6 +34,8 @@ function App() {
   const [sidebarRefreshTrigger, setSidebarRefreshTrigger] = useState(0);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [isCheckingOnboarding, setIsCheckingOnboarding] = useState(false);
+  const repositories = useRepositories();
+  const collectionState = useCollectionState(user?.uid);
 
   React.useEffect(() => {
     const checkOnboardingStatus = async () => {
@@ -35,11 +47,17 @@ function App() {
       setIsCheckingOnboarding(true);
       try {
         const userDoc = await getDoc(doc(db, 'users', user.uid));
-        if (userDoc.exists()) {
-          const data = userDoc.data() as User;
+        const data = userDoc.exists() ? (userDoc.data() as User) : null;
+        if (data) {
           setUserData(data);
           setShowOnboarding(!data.isOnboarded);
         }
+
+        const name = data?.name || user.displayName || user.email?.split('@')[0] || 'User';
+        await repositories.collections.ensureOwn({ id: user.uid, name, email: user.email || '' });
+        // Members read the storyteller's name and birth year from here, not the private profile. A new
+        // account has no profile yet; sign-up writes both, and later changes go through profiles.update
+        if (data) await repositories.profiles.savePublic(user.uid, { name, birthYear: data.birthYear });
       } catch (error) {
         console.error('Error checking onboarding status:', error);
       } finally {
@@ -48,6 +66,19 @@ function App() {
     };
 
     checkOnboardingStatus();
+  }, [user, repositories]);
+
+  // Finish video uploads a closed or crashed tab left behind
+  React.useEffect(() => {
+    if (!user) return;
+
+    recoverRecordings(user.uid)
+      .then(recovered => {
+        if (recovered > 0) {
+          toast.success(recovered === 1 ? 'Finished uploading an interrupted recording' : `Finished uploading ${recovered} interrupted recordings`);
+        }
+      })
+      .catch(error => console.error('Error recovering recordings:', error));
   }, [user]);
 
   const handleSettingsUpdate = () => {
@@ -70,6 +101,7 @@ function App() {
           <Routes>
             <Route path="/signin" element={<AuthForm />} />
             <Route path="/signup" element={<AuthForm isSignUp />} />
+            <Route path="/invite/:id" element={<AcceptInvite />} />
             <Route path="*" element={<Navigate to="/signin" />} />
           </Routes>
         </Router>
@@ -86,13 +118,12 @@ function App() {
   }
 
   return (
-    <>
+    <CollectionContext.Provider value={collectionState}>
       <Toaster position="top-right" />
       <Router>
         <div className="flex min-h-screen bg-gray-50">
           <Sidebar 
             userName={userData?.name || user.email?.split('@')[0] || 'User'} 
-            collectionName="Family Collection"
             profileImageUrl={user.photoURL || userData?.profileImageUrl}
             refreshTrigger={sidebarRefreshTrigger}
           />
@@ -100,13 +131,22 @@ function App() {
             <Routes>
               <Route path="/stories" element={<Dashboard />} />
               <Route path="/stories/:id" element={<StoryView />} />
+              <Route path="/timeline" element={<TimelineView />} />
               <Route path="/prompts" element={<PromptsView />} />
               <Route path="/scheduled" element={<ScheduledView />} />
               <Route path="/questions" element={<QuestionsView />} />
+              <Route path="/categories" element={<CategoriesView />} />
+              <Route path="/people" element={<EntitiesView key="person" kind="person" />} />
+              <Route path="/people/:id" element={<EntityView kind="person" />} />
+              <Route path="/places" element={<EntitiesView key="place" kind="place" />} />
+              <Route path="/places/:id" element={<EntityView kind="place" />} />
               <Route path="/settings" element={<SettingsView onSettingsUpdate={handleSettingsUpdate} />} />
               <Route path="/books" element={<BookList />} />
               <Route path="/books/:id" element={<BookViewer />} />
+              <Route path="/books/:id/edit" element={<BookEditor />} />
               <Route path="/call-history" element={<CallHistoryView />} />
+              <Route path="/notifications" element={<NotificationsView />} />
+              <Route path="/invite/:id" element={<AcceptInvite />} />
               <Route path="/" element={<Navigate to="/stories" />} />
             </Routes>
           </main>
@@ -117,7 +157,7 @@ function App() {
         isOpen={showOnboarding} 
         onClose={() => setShowOnboarding(false)} 
       />
-    </>
+    </CollectionContext.Provider>
   );
 }
 
@@ -6,11 +6,8 @@ import {
 } from "firebase/auth";
 import { doc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore";
 import { auth, db } from "../lib/firebase";
-import {
-  createRetellLLM,
-  createRetellAgent,
-  fetchAgentSkeletons,
-} from "../lib/retell";
+import { useRepositories } from "../lib/repositories";
+import { createRetellAgent, fetchAgentSkeletons } from "../lib/retell";
 import { UserPlus, LogIn } from "lucide-react";
 import toast from "react-hot-toast";
 import { Link, useNavigate } from "react-router-dom";
@@ -26,6 +23,7 @@ export const AuthForm: React.FC<AuthFormProps> = ({ isSignUp = false }) => {
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
+  const repositories = useRepositories();
 
   const setupUserResources = async (userId: string) => {
     try {
@@ -44,6 +42,7 @@ export const AuthForm: React.FC<AuthFormProps> = ({ isSignUp = false }) => {
         ...userData,
         updatedAt: serverTimestamp(),
       });
+      await repositories.profiles.savePublic(userId, { name });
 
       // Create Retell resources in the background
       createRetellResources(userId).catch((error) => {
@@ -70,27 +69,9 @@ export const AuthForm: React.FC<AuthFormProps> = ({ isSignUp = false }) => {
 
       // Create an LLM and agent for each skeleton
       for (const skeleton of skeletons) {
-        // Create LLM with skeleton configurations
-        const llmId = await createRetellLLM(skeleton.llm_configurations);
-        if (!llmId) {
-          throw new Error(
-            `Failed to create LLM for category ${skeleton.category_id}`,
-          );
-        }
+        // The proxy creates the LLM and an agent that uses it
+        const { llmId, agentId } = await createRetellAgent(skeleton.category_id, userId);
         llmIds.push(llmId);
-
-        // Create agent with the LLM ID and skeleton configurations
-        const agentId = await createRetellAgent(
-          llmId,
-          skeleton.agent_configurations,
-          userId,
-          skeleton.category_id,
-        );
-        if (!agentId) {
-          throw new Error(
-            `Failed to create agent for category ${skeleton.category_id}`,
-          );
-        }
         agentIds.push(agentId);
       }
 
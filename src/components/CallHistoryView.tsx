@@ -1,57 +1,41 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuthState } from 'react-firebase-hooks/auth';
-import { collection, query, orderBy, limit, getDocs, startAfter, DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
-import { auth, db } from '../lib/firebase';
+import { auth } from '../lib/firebase';
+import { useRepositories } from '../lib/repositories';
+import { CallHistoryEntry } from '../types/callHistory';
+import { TranscriptMessage } from '../types/story';
+import { sessionIdFromFieldKey } from '../lib/search';
+import { useStorySearch } from '../hooks/useStorySearch';
 import { format } from 'date-fns';
 import { ChevronRight, Search, Loader2, MessageSquare } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useNavigate } from 'react-router-dom';
 import { ConversationDialog } from './ConversationDialog';
+import { SearchSnippet } from './search/SearchSnippet';
 
-interface CallEntry {
-  id: string;
-  callId: string;
-  category: string;
-  creationTime: Date;
-  initialQuestion: string;
-  lastUpdated: Date;
-  recording_url: string;
-  sessionId: string;
-  storyId: string;
-  summary: string;
+const CALLS_PER_PAGE = 10;
+
+interface SelectedConversation {
   title: string;
-  transcript: string;
-  transcript_object: Array<{
-    content: string;
-    role: string;
-    metadata?: {
-      response_id: number;
-    };
-    words: Array<{
-      word: string;
-      start: number;
-      end: number;
-    }>;
-  }>;
-  updated: boolean;
-  videoComplete: boolean;
-  videoUrl: string;
+  transcript: TranscriptMessage[];
+  videoUrl?: string;
+  videoHasAudio?: boolean;
+  audioUrl?: string;
 }
 
-const CALLS_PER_PAGE = 10;
-
 export const CallHistoryView: React.FC = () => {
   const [user] = useAuthState(auth);
-  const [calls, setCalls] = useState<CallEntry[]>([]);
+  const [calls, setCalls] = useState<CallHistoryEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [lastVisible, setLastVisible] = useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const [lastVisible, setLastVisible] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [selectedCall, setSelectedCall] = useState<CallEntry | null>(null);
-  const [isConversationOpen, setIsConversationOpen] = useState(false);
+  const [selectedConversation, setSelectedConversation] = useState<SelectedConversation | null>(null);
   const mobile = window.innerWidth <= 768;
   const navigate = useNavigate();
+  const repositories = useRepositories();
+  const { search, stories } = useStorySearch(user?.uid);
 
   const fetchCalls = async (isInitial = true) => {
     if (!user?.uid) return;
@@ -63,28 +47,11 @@ export const CallHistoryView: React.FC = () => {
         setIsLoadingMore(true);
       }
 
-      let callQuery = query(
-        collection(db, 'users', user.uid, 'call_history'),
-        orderBy('lastUpdated', 'desc'),
-        limit(CALLS_PER_PAGE)
-      );
-
-      if (!isInitial && lastVisible) {
-        callQuery = query(
-          collection(db, 'users', user.uid, 'call_history'),
-          orderBy('lastUpdated', 'desc'),
-          startAfter(lastVisible),
-          limit(CALLS_PER_PAGE)
-        );
-      }
-
-      const snapshot = await getDocs(callQuery);
-      const callsData = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        creationTime: doc.data().creationTime.toDate(),
-        lastUpdated: doc.data().lastUpdated.toDate()
-      } as CallEntry));
+      const page = await repositories.callHistory.listPage(user.uid, {
+        pageSize: CALLS_PER_PAGE,
+        after: isInitial ? null : lastVisible,
+      });
+      const callsData = page.entries;
 
       if (isInitial) {
         setCalls(callsData);
@@ -92,8 +59,8 @@ export const CallHistoryView: React.FC = () => {
         setCalls(prev => [...prev, ...callsData]);
       }
 
-      setLastVisible(snapshot.docs[snapshot.docs.length - 1] || null);
-      setHasMore(snapshot.docs.length === CALLS_PER_PAGE);
+      setLastVisible(page.cursor);
+      setHasMore(page.hasMore);
     } catch (error) {
       console.error('Error fetching calls:', error);
       toast.error('Failed to load call history');
@@ -116,17 +83,43 @@ export const CallHistoryView: React.FC = () => {
     }
   };
 
-  const handleViewConversation = (call: CallEntry) => {
-    setSelectedCall(call);
-    setIsConversationOpen(true);
+  const handleViewConversation = (call: CallHistoryEntry) => {
+    setSelectedConversation({
+      title: call.title,
+      transcript: call.transcript_object,
+      videoUrl: call.videoUrl,
+      videoHasAudio: call.videoHasAudio,
+      audioUrl: call.recording_url,
+    });
   };
 
-  const filteredCalls = calls.filter(call => {
-    const matchesSearch = searchQuery.toLowerCase().split(' ').every(term =>
-      call.title.toLowerCase().includes(term)
-    );
-    return matchesSearch;
-  });
+  // Searches every call, not just the loaded pages; one row per matching session
+  const searchMatches = useMemo(() => {
+    if (!searchQuery.trim()) return null;
+
+    const storiesById = new Map(stories.map(story => [story.id, story]));
+    return search(searchQuery).flatMap(result => {
+      const story = storiesById.get(result.id);
+      if (!story) return [];
+
+      const sessionMatches = result.matches.flatMap(match => {
+        const sessionId = sessionIdFromFieldKey(match.key);
+        return sessionId && story.sessions[sessionId] ? [{ sessionId, match }] : [];
+      });
+      // Matches on the story itself apply to all of its calls
+      const storyMatch = result.matches.find(match => !sessionIdFromFieldKey(match.key));
+      const rows = sessionMatches.length > 0 || !storyMatch
+        ? sessionMatches
+        : Object.keys(story.sessions).map(sessionId => ({ sessionId, match: storyMatch }));
+
+      return rows.map(({ sessionId, match }) => ({
+        story,
+        sessionId,
+        session: story.sessions[sessionId],
+        match,
+      }));
+    });
+  }, [search, searchQuery, stories]);
 
   if (isLoading) {
     return (
@@ -154,7 +147,7 @@ export const CallHistoryView: React.FC = () => {
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
                 <input
                   type="text"
-                  placeholder="Search by title..."
+                  placeholder="Search titles, summaries and conversations..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
@@ -164,12 +157,60 @@ export const CallHistoryView: React.FC = () => {
 
             {/* Call List */}
             <div className="flex p-3 flex-col gap-2">
-              {filteredCalls.length === 0 ? (
+              {searchMatches ? (
+                searchMatches.length === 0 ? (
+                  <div className="p-8 text-center">
+                    <p className="text-gray-500">No calls found matching your criteria</p>
+                  </div>
+                ) : (
+                  searchMatches.map(({ story, sessionId, session, match }) => (
+                    <div key={`${story.id}-${sessionId}`} className="p-6 hover:bg-gray-50 rounded-lg border-2">
+                      <div className="flex flex-col md:flex-row items-start justify-between md:justify-normal">
+                        <div className="flex-1">
+                          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                            {story.title || story.initialQuestion}
+                          </h3>
+                          <div className="mb-3">
+                            <SearchSnippet kind={match.kind} parts={match.snippet} />
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {format(session.creationTime.toDate(), 'PPpp')}
+                          </div>
+                        </div>
+                        <div className="w-full md:w-fit flex justify-between items-center gap-3 md:ml-4">
+                          {session.transcript_object && (
+                            <button
+                              onClick={() => setSelectedConversation({
+                                title: story.title || story.initialQuestion,
+                                transcript: session.transcript_object || [],
+                                videoUrl: session.videoUrl,
+                                videoHasAudio: session.videoHasAudio,
+                                audioUrl: session.audioComplete && session.audioUrl ? session.audioUrl : session.recording_url,
+                              })}
+                              className="flex items-center md:px-4 py-2 text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+                            >
+                              <MessageSquare className="w-4 h-4 mr-2" />
+                              View Conversation
+                            </button>
+                          )}
+                          <button
+                            onClick={() => navigate(`/stories/${story.id}`)}
+                            className="flex items-center px-4 py-2 text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+                          >
+                            View Story
+                            <ChevronRight className="w-4 h-4 md:ml-1" />
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ))
+                )
+              ) : calls.length === 0 ? (
                 <div className="p-8 text-center">
                   <p className="text-gray-500">No calls found matching your criteria</p>
                 </div>
               ) : (
-                filteredCalls.map(call => (
+                calls.map(call => (
                   <div key={call.id} className="p-6 hover:bg-gray-50 rounded-lg border-2">
                     <div className="flex flex-col md:flex-row items-start justify-between md:justify-normal">
                       <div className="flex-1">
@@ -211,7 +252,7 @@ export const CallHistoryView: React.FC = () => {
             </div>
 
             {/* Load More */}
-            {hasMore && (
+            {hasMore && !searchMatches && (
               <div className="p-4 text-center">
                 <button
                   onClick={handleLoadMore}
@@ -233,17 +274,15 @@ export const CallHistoryView: React.FC = () => {
         </div>
       </div>
 
-      {selectedCall && (
+      {selectedConversation && (
         <ConversationDialog
-          isOpen={isConversationOpen}
-          onClose={() => {
-            setIsConversationOpen(false);
-            setSelectedCall(null);
-          }}
-          transcript={selectedCall.transcript_object}
-          title={selectedCall.title}
-          videoUrl={selectedCall.videoUrl}
-          audioUrl={selectedCall.recording_url}
+          isOpen
+          onClose={() => setSelectedConversation(null)}
+          transcript={selectedConversation.transcript}
+          title={selectedConversation.title}
+          videoUrl={selectedConversation.videoUrl}
+          videoHasAudio={selectedConversation.videoHasAudio}
+          audioUrl={selectedConversation.audioUrl}
         />
       )}
     </>
@@ -1,12 +1,48 @@
 import React, { useEffect, useState, useRef } from "react";
 import { useAuthState } from "react-firebase-hooks/auth";
-import { doc, getDoc, updateDoc, serverTimestamp } from "firebase/firestore";
+import { doc, getDoc, updateDoc } from "firebase/firestore";
 import { auth, db } from "../lib/firebase";
 import { Category } from "../types/category";
-import { Phone, X, Mic, MicOff, Video, VideoOff, Sparkles } from "lucide-react";
+import { RecordingMode } from "../types/user";
+import {
+  Phone,
+  X,
+  Mic,
+  MicOff,
+  Video,
+  VideoOff,
+  Sparkles,
+  AlertCircle,
+  Coffee,
+  Play,
+} from "lucide-react";
 import toast from "react-hot-toast";
 import { RetellWebClient } from "retell-client-js-sdk";
 import { VideoRecorder } from "../lib/recording";
+import { onAgentAudioTrack, setAgentAudioEnabled } from "../lib/callAudio";
+import { sendCallContext } from "../lib/retell";
+import {
+  DeviceSelection,
+  loadDeviceSelection,
+  requestCallMedia,
+  saveDeviceSelection,
+} from "../lib/media";
+import { DeviceCheck } from "./call/DeviceCheck";
+import { LiveCaptions, LiveTranscriptPanel } from "./call/LiveCaptions";
+import { useCaptionSize } from "../hooks/useCaptionSize";
+import { mergeLiveTranscript, resumeReminder } from "../lib/transcript";
+import { LiveUtterance } from "../types/story";
+import { useSessionProcessing } from "../hooks/useSessionProcessing";
+import { CountdownTimer } from "./CountdownTimer";
+
+// Breaks end the call after this long unless the user picked another limit;
+// Retell hangs up on its own after ten minutes of silence
+const DEFAULT_MAX_PAUSE_MINUTES = 5;
+
+// Retell's `update` event; its transcript holds only the latest turns
+interface CallUpdate {
+  transcript?: LiveUtterance[];
+}
 
 interface CallModalProps {
   isOpen: boolean;
@@ -14,6 +50,7 @@ interface CallModalProps {
   category: Category;
   question: string;
   existingStoryId?: string;
+  recordingMode?: RecordingMode;
 }
 
 export const CallModal: React.FC<CallModalProps> = ({
@@ -22,12 +59,25 @@ export const CallModal: React.FC<CallModalProps> = ({
   category,
   question,
   existingStoryId,
+  recordingMode = "video",
 }) => {
   const [user] = useAuthState(auth);
   const [isCallActive, setIsCallActive] = useState(false);
   const [isMicPermissionGranted, setIsMicPermissionGranted] = useState(false);
   const [isCameraPermissionGranted, setCameraPermissionGranted] =
     useState(false);
+  // Falls back to audio when the camera can't be used
+  const [mode, setMode] = useState<RecordingMode>(recordingMode);
+  const [devices, setDevices] = useState<DeviceSelection>({});
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+  const [isNetworkReady, setIsNetworkReady] = useState(true);
+  const [liveTranscript, setLiveTranscript] = useState<LiveUtterance[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const [pauseEndsAt, setPauseEndsAt] = useState<Date | null>(null);
+  const [maxPauseMinutes, setMaxPauseMinutes] = useState(
+    DEFAULT_MAX_PAUSE_MINUTES,
+  );
+  const captionSize = useCaptionSize();
   const [isLoading, setIsLoading] = useState(false);
   const [isAgentTalking, setIsAgentTalking] = useState(false);
   const [currentStoryId, setCurrentStoryId] = useState<string | null>(null);
@@ -40,8 +90,14 @@ export const CallModal: React.FC<CallModalProps> = ({
   const timeoutRef = useRef<NodeJS.Timeout>();
   const startTimeRef = useRef<number>();
   const streamRef = useRef<MediaStream | null>(null);
-  const processingIntervalRef = useRef<NodeJS.Timeout>();
   const videoRecorderRef = useRef<VideoRecorder | null>(null);
+  const stopAgentAudioRef = useRef<() => void>(() => {});
+
+  const processingStatus = useSessionProcessing(
+    currentStoryId,
+    currentSessionId,
+    isProcessing,
+  );
 
   // Handle tab/window close
   useEffect(() => {
@@ -77,12 +133,16 @@ export const CallModal: React.FC<CallModalProps> = ({
       setIsCallActive(false);
       setIsMicPermissionGranted(false);
       setCameraPermissionGranted(false);
+      setMode(recordingMode);
       setIsLoading(false);
       setIsAgentTalking(false);
       setCurrentStoryId(existingStoryId || null);
       setCurrentSessionId(null);
       setIsProcessing(false);
       setProcessingProgress(0);
+      setLiveTranscript([]);
+      setIsPaused(false);
+      setPauseEndsAt(null);
 
       if (retellWebClientRef.current) {
         try {
@@ -93,61 +153,114 @@ export const CallModal: React.FC<CallModalProps> = ({
         retellWebClientRef.current = null;
       }
 
-      requestPermissions();
+      const selection = auth.currentUser
+        ? loadDeviceSelection(auth.currentUser.uid)
+        : {};
+      setDevices(selection);
+      requestPermissions(recordingMode, selection);
+
+      if (auth.currentUser) {
+        getDoc(doc(db, "users", auth.currentUser.uid))
+          .then((userDoc) =>
+            setMaxPauseMinutes(
+              userDoc.data()?.maxPauseMinutes || DEFAULT_MAX_PAUSE_MINUTES,
+            ),
+          )
+          .catch((error) => {
+            console.error("Error loading break limit:", error);
+          });
+      }
     }
-  }, [isOpen, existingStoryId]);
+  }, [isOpen, existingStoryId, recordingMode]);
 
-  const checkProcessingStatus = async () => {
-    if (!currentStoryId || !currentSessionId) return;
+  // A break that runs too long ends the call rather than leaving it open
+  useEffect(() => {
+    if (!isPaused) return;
 
-    try {
-      const storyDoc = await getDoc(doc(db, "stories", currentStoryId));
-      if (!storyDoc.exists()) return;
+    const timer = setTimeout(() => {
+      toast("Your break ran long, so we ended the call. Your conversation was saved.");
+      retellWebClientRef.current?.stopCall();
+    }, maxPauseMinutes * 60 * 1000);
+    return () => clearTimeout(timer);
+  }, [isPaused, maxPauseMinutes]);
 
-      const story = storyDoc.data();
-      const session = story.sessions?.[currentSessionId];
+  // The preview element only exists in video mode, so attach the stream once it renders
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = mode === "video" ? previewStream : null;
+    }
+  }, [mode, previewStream]);
 
-      if (session?.updated) {
-        clearInterval(processingIntervalRef.current);
-        setIsProcessing(false);
-        setProcessingProgress(100);
-        onClose(true);
-      } else {
-        setProcessingProgress((prev) => Math.min(prev + 5, 90));
-      }
-    } catch (error) {
-      console.error("Error checking processing status:", error);
+  // Finish as soon as the backend marks the session as processed
+  useEffect(() => {
+    if (processingStatus === "complete") {
+      setProcessingProgress(100);
+      setIsProcessing(false);
+      onClose(true);
     }
-  };
+  }, [processingStatus, onClose]);
+
+  // Keep what the captions caught when the backend never finished the session
+  useEffect(() => {
+    if (processingStatus !== "timed_out" && processingStatus !== "error") return;
+    if (!currentStoryId || !currentSessionId || liveTranscript.length === 0) return;
+
+    updateDoc(doc(db, "stories", currentStoryId), {
+      [`sessions.${currentSessionId}.liveTranscript`]: liveTranscript,
+    }).catch((error) => {
+      console.error("Error saving live transcript:", error);
+    });
+  }, [processingStatus, currentStoryId, currentSessionId, liveTranscript]);
+
+  // Advance the progress bar while waiting; it never reaches 100 on its own
+  useEffect(() => {
+    if (processingStatus !== "processing") return;
+
+    const interval = setInterval(() => {
+      setProcessingProgress((prev) => Math.min(prev + 5, 90));
+    }, 2000);
+    return () => clearInterval(interval);
+  }, [processingStatus]);
+
+  const requestPermissions = async (
+    requested: RecordingMode,
+    selection: DeviceSelection,
+  ) => {
+    // Switching devices replaces the stream, so release the old one first
+    streamRef.current?.getTracks().forEach((track) => track.stop());
 
-  const requestPermissions = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
-        video: true,
-      });
+      const media = await requestCallMedia(requested, selection);
 
+      setMode(media.mode);
       setIsMicPermissionGranted(true);
-      setCameraPermissionGranted(true);
-
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
+      setCameraPermissionGranted(media.mode === "video");
+      if (media.cameraUnavailable) {
+        toast("Your camera isn't available, so this conversation will be recorded as audio only");
       }
-      streamRef.current = stream;
+
+      streamRef.current = media.stream;
+      setPreviewStream(media.stream);
     } catch (error: any) {
       console.error("Error getting permissions:", error);
       if (error.name === "NotAllowedError") {
-        toast.error(
-          "Please grant camera and microphone permissions to continue",
-        );
+        toast.error("Please grant microphone permission to continue");
       } else {
-        toast.error("Error accessing camera or microphone");
+        toast.error("Error accessing your microphone");
       }
       setIsMicPermissionGranted(false);
       setCameraPermissionGranted(false);
+      streamRef.current = null;
+      setPreviewStream(null);
     }
   };
 
+  const handleDevicesChange = (selection: DeviceSelection) => {
+    setDevices(selection);
+    if (user) saveDeviceSelection(user.uid, selection);
+    requestPermissions(recordingMode, selection);
+  };
+
   useEffect(() => {
     if (!retellWebClientRef.current) {
       retellWebClientRef.current = new RetellWebClient({
@@ -172,29 +285,15 @@ export const CallModal: React.FC<CallModalProps> = ({
       // Start video recording
       if (streamRef.current && currentStoryId && currentSessionId) {
         try {
-          videoRecorderRef.current = new VideoRecorder(
-            currentStoryId,
-            currentSessionId,
-            async (url, isFinal) => {
-              // Update the session with video URL
-              const storyRef = doc(db, "stories", currentStoryId);
-              if (isFinal) {
-                await updateDoc(storyRef, {
-                  [`sessions.${currentSessionId}.videoUrl`]: url,
-                  [`sessions.${currentSessionId}.videoComplete`]: true,
-                  [`sessions.${currentSessionId}.lastUpdated`]:
-                    serverTimestamp(),
-                });
-              } else {
-                await updateDoc(storyRef, {
-                  [`sessions.${currentSessionId}.videoChunkUrl`]: url,
-                  [`sessions.${currentSessionId}.lastUpdated`]:
-                    serverTimestamp(),
-                });
-              }
-            },
-          );
+          // Stores the finished video or audio on the session itself
+          videoRecorderRef.current = new VideoRecorder(currentStoryId, currentSessionId);
           await videoRecorderRef.current.start(streamRef.current);
+
+          // Record the agent's voice alongside the user's
+          const recorder = videoRecorderRef.current;
+          stopAgentAudioRef.current = onAgentAudioTrack(client, (track) =>
+            recorder.addAudioTrack(track),
+          );
         } catch (error) {
           console.error("Error starting video recording:", error);
           toast.error("Failed to start video recording");
@@ -208,6 +307,7 @@ export const CallModal: React.FC<CallModalProps> = ({
       setIsProcessing(true);
       setProcessingProgress(0);
       setIsAgentTalking(false);
+      setIsPaused(false);
 
       try {
         // Check for valid story/session IDs
@@ -216,6 +316,8 @@ export const CallModal: React.FC<CallModalProps> = ({
           return;
         }
 
+        stopAgentAudioRef.current();
+
         // Stop video recording
         if (videoRecorderRef.current) {
           console.log("[Recorder] Stopping video recording...");
@@ -225,14 +327,6 @@ export const CallModal: React.FC<CallModalProps> = ({
           console.warn("No videoRecorderRef found when call ended.");
         }
 
-        // Wait briefly before checking processing
-        await new Promise((res) => setTimeout(res, 1000));
-
-        // Start polling Firestore for updated session
-        processingIntervalRef.current = setInterval(
-          checkProcessingStatus,
-          2000,
-        );
       } catch (error) {
         console.error("[Error] During call end or video finalization:", error);
         toast.error("Error finalizing video recording.");
@@ -242,9 +336,7 @@ export const CallModal: React.FC<CallModalProps> = ({
           streamRef.current.getTracks().forEach((track) => track.stop());
           streamRef.current = null;
         }
-        if (videoRef.current) {
-          videoRef.current.srcObject = null;
-        }
+        setPreviewStream(null);
       }
     };
 
@@ -256,6 +348,14 @@ export const CallModal: React.FC<CallModalProps> = ({
       setIsAgentTalking(false);
     };
 
+    const handleUpdate = (update: CallUpdate) => {
+      const turns = (update.transcript || []).map(({ role, content }) => ({
+        role,
+        content,
+      }));
+      setLiveTranscript((prev) => mergeLiveTranscript(prev, turns));
+    };
+
     const handleError = (error: Error) => {
       console.error("Call error:", error);
       clearTimeout(timeoutRef.current);
@@ -268,6 +368,7 @@ export const CallModal: React.FC<CallModalProps> = ({
     client.on("call_ended", handleCallEnded);
     client.on("agent_start_talking", handleAgentStartTalking);
     client.on("agent_stop_talking", handleAgentStopTalking);
+    client.on("update", handleUpdate);
     client.on("error", handleError);
 
     return () => {
@@ -275,10 +376,10 @@ export const CallModal: React.FC<CallModalProps> = ({
       client.off("call_ended", handleCallEnded);
       client.off("agent_start_talking", handleAgentStartTalking);
       client.off("agent_stop_talking", handleAgentStopTalking);
+      client.off("update", handleUpdate);
       client.off("error", handleError);
-      clearInterval(processingIntervalRef.current);
     };
-  }, [onClose, currentStoryId, currentSessionId]);
+  }, [currentStoryId, currentSessionId, mode]);
 
   const handleTimeout = () => {
     const elapsedTime = Date.now() - (startTimeRef.current || 0);
@@ -331,6 +432,8 @@ export const CallModal: React.FC<CallModalProps> = ({
 
       await retellWebClientRef.current.startCall({
         accessToken: data.accessToken,
+        captureDeviceId: devices.audioInputId,
+        playbackDeviceId: devices.audioOutputId,
       });
     } catch (error: any) {
       console.error("Error starting call:", error);
@@ -340,6 +443,46 @@ export const CallModal: React.FC<CallModalProps> = ({
     }
   };
 
+  // Mutes both sides and the recording but keeps the call connected
+  const pauseCall = () => {
+    const client = retellWebClientRef.current;
+    if (!client) return;
+
+    client.mute();
+    setAgentAudioEnabled(client, false);
+    videoRecorderRef.current?.pause();
+    setIsPaused(true);
+    setPauseEndsAt(new Date(Date.now() + maxPauseMinutes * 60 * 1000));
+  };
+
+  const resumeCall = () => {
+    const client = retellWebClientRef.current;
+    if (!client) return;
+
+    setAgentAudioEnabled(client, true);
+    client.unmute();
+    videoRecorderRef.current?.resume();
+    setIsPaused(false);
+    setPauseEndsAt(null);
+    remindAgent();
+  };
+
+  // The agent is told where the conversation stopped, so the user can just carry on talking
+  const remindAgent = async () => {
+    if (!currentStoryId || !currentSessionId) return;
+    try {
+      const storyDoc = await getDoc(doc(db, "stories", currentStoryId));
+      const callId = storyDoc.data()?.sessions?.[currentSessionId]?.callId;
+      if (!callId) {
+        console.warn("No call ID for this session – cannot remind the agent.");
+        return;
+      }
+      await sendCallContext(callId, resumeReminder(liveTranscript));
+    } catch (error) {
+      console.error("Error reminding the agent after a break:", error);
+    }
+  };
+
   const endCall = () => {
     if (retellWebClientRef.current) {
       try {
@@ -364,15 +507,44 @@ export const CallModal: React.FC<CallModalProps> = ({
         streamRef.current.getTracks().forEach((track) => track.stop());
         streamRef.current = null;
       }
-      if (videoRef.current) {
-        videoRef.current.srcObject = null;
-      }
+      setPreviewStream(null);
       onClose(false);
     }
   };
 
   if (!isOpen) return null;
 
+  if (
+    isProcessing &&
+    (processingStatus === "timed_out" || processingStatus === "error")
+  ) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white rounded-xl p-8 max-w-md w-full text-center">
+          <AlertCircle className="w-12 h-12 text-orange-500 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            {processingStatus === "timed_out"
+              ? "This is taking longer than expected"
+              : "We couldn't follow your story's progress"}
+          </h3>
+          <p className="text-gray-600 mb-6">
+            Your conversation was saved. The story will appear in your
+            collection as soon as it's ready.
+          </p>
+          <button
+            onClick={() => {
+              setIsProcessing(false);
+              onClose(false);
+            }}
+            className="w-full px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (isProcessing) {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -415,13 +587,56 @@ export const CallModal: React.FC<CallModalProps> = ({
       <div className="bg-white rounded-xl w-full h-[80vh] max-w-6xl flex flex-col md:flex-row items-center">
         {/* Main content area with video */}
         <div className="flex w-full h-[40dvh] md:h-full bg-gray-900 relative">
-          <video
-            ref={videoRef}
-            autoPlay
-            playsInline
-            muted
-            className="w-full h-full object-cover"
-          />
+          {mode === "video" ? (
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <div className="w-full h-full flex flex-col items-center justify-center text-white">
+              <div
+                className={`w-24 h-24 rounded-full bg-orange-500/20 flex items-center justify-center mb-4 ${
+                  isCallActive ? "animate-pulse" : ""
+                }`}
+              >
+                <Mic className="w-10 h-10 text-orange-400" />
+              </div>
+              <p className="text-lg">Audio only</p>
+              <p className="text-sm text-white/60">Your camera is off</p>
+            </div>
+          )}
+
+          {isCallActive && !isPaused && (
+            <LiveCaptions utterances={liveTranscript} size={captionSize} />
+          )}
+
+          {isPaused && (
+            <div className="absolute inset-0 bg-gray-900/90 flex flex-col items-center justify-center text-white text-center px-6">
+              <Coffee className="w-12 h-12 text-orange-400 mb-4" />
+              <p className="text-2xl font-semibold mb-2">Taking a break</p>
+              <p className="text-white/70 mb-4">
+                Your interviewer is waiting and nothing is being recorded.
+              </p>
+              {pauseEndsAt && (
+                <div className="flex flex-col items-center mb-6">
+                  <CountdownTimer targetDate={pauseEndsAt} />
+                  <p className="text-xs text-white/60 mt-1">
+                    until the call ends on its own
+                  </p>
+                </div>
+              )}
+              <button
+                onClick={resumeCall}
+                className="px-6 py-3 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors flex items-center space-x-2"
+              >
+                <Play className="w-5 h-5" />
+                <span>I'm Back</span>
+              </button>
+            </div>
+          )}
 
           <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 flex items-center space-x-4">
             <div className="bg-white/10 backdrop-blur-sm px-4 py-2 rounded-full text-white flex items-center space-x-2">
@@ -433,14 +648,16 @@ export const CallModal: React.FC<CallModalProps> = ({
               {isCameraPermissionGranted ? (
                 <Video className="w-5 h-5 text-green-400" />
               ) : (
-                <VideoOff className="w-5 h-5 text-red-400" />
+                <VideoOff
+                  className={`w-5 h-5 ${mode === "audio" ? "text-white/60" : "text-red-400"}`}
+                />
               )}
             </div>
           </div>
         </div>
 
         {/* Sidebar */}
-        <div className="w-full h-full md:w-80 border-l border-gray-200 flex flex-col md:justify-center">
+        <div className="w-full h-full md:w-80 border-l border-gray-200 flex flex-col md:justify-center overflow-y-auto">
           <div className="w-full p-6 border-b border-gray-200">
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-xl w-full text-center md:text-left font-semibold text-gray-900">
@@ -467,10 +684,33 @@ export const CallModal: React.FC<CallModalProps> = ({
                 <div className="space-y-4">
                   <div className="flex items-center justify-center">
                     <div className="animate-pulse text-orange-500">
-                      {isAgentTalking ? "Agent is speaking..." : "Listening..."}
+                      {isPaused
+                        ? "On a break"
+                        : isAgentTalking
+                          ? "Agent is speaking..."
+                          : "Listening..."}
                     </div>
                   </div>
 
+                  <LiveTranscriptPanel
+                    utterances={liveTranscript}
+                    size={captionSize}
+                  />
+
+                  <button
+                    onClick={isPaused ? resumeCall : pauseCall}
+                    className="w-full px-4 py-2 border border-orange-500 text-orange-600 rounded-lg hover:bg-orange-50 transition-colors flex items-center justify-center space-x-2"
+                  >
+                    {isPaused ? (
+                      <Play className="w-5 h-5" />
+                    ) : (
+                      <Coffee className="w-5 h-5" />
+                    )}
+                    <span>
+                      {isPaused ? "Resume Conversation" : "I Need a Break"}
+                    </span>
+                  </button>
+
                   <button
                     onClick={endCall}
                     className="w-full px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors flex items-center justify-center space-x-2"
@@ -480,12 +720,20 @@ export const CallModal: React.FC<CallModalProps> = ({
                   </button>
                 </div>
               ) : (
+                <DeviceCheck
+                  stream={previewStream}
+                  showCamera={recordingMode === "video"}
+                  selection={devices}
+                  onSelectionChange={handleDevicesChange}
+                  onReadyChange={setIsNetworkReady}
+                />
+              )}
+
+              {!isCallActive && (
                 <button
                   onClick={startCall}
                   disabled={
-                    !isMicPermissionGranted ||
-                    !isCameraPermissionGranted ||
-                    isLoading
+                    !isMicPermissionGranted || !isNetworkReady || isLoading
                   }
                   className="w-full px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                 >
@@ -494,10 +742,9 @@ export const CallModal: React.FC<CallModalProps> = ({
                 </button>
               )}
 
-              {(!isMicPermissionGranted || !isCameraPermissionGranted) && (
+              {!isMicPermissionGranted && (
                 <p className="text-sm text-red-500 text-center">
-                  Please grant camera and microphone permissions to start the
-                  call
+                  Please grant microphone permission to start the call
                 </p>
               )}
             </div>
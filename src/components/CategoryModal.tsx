@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
 import { Category } from '../types/category';
+import { CoverageMap } from '../lib/coverage';
+import { RecordingMode } from '../types/user';
 import { QuestionModal } from './QuestionModal';
 import { ConversationTypeModal } from './scheduling/ConversationTypeModal';
 import { SchedulingModal } from './scheduling/SchedulingModal';
@@ -10,8 +12,9 @@ interface CategoryModalProps {
   isOpen: boolean;
   onClose: () => void;
   categories: Category[];
-  onSelectCategory: (category: Category, question: string) => void;
+  onSelectCategory: (category: Category, question: string, recordingMode: RecordingMode) => void;
   showOnboarding: boolean;
+  coverage?: CoverageMap;
 }
 
 export const CategoryModal: React.FC<CategoryModalProps> = ({
@@ -19,7 +22,8 @@ export const CategoryModal: React.FC<CategoryModalProps> = ({
   onClose,
   categories,
   onSelectCategory,
-  showOnboarding
+  showOnboarding,
+  coverage
 }) => {
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
   const [selectedQuestion, setSelectedQuestion] = useState<string>('');
@@ -56,9 +60,9 @@ export const CategoryModal: React.FC<CategoryModalProps> = ({
     setShowConversationTypeModal(true);
   };
 
-  const handleStartNow = () => {
+  const handleStartNow = (recordingMode: RecordingMode) => {
     if (selectedCategory && selectedQuestion) {
-      onSelectCategory(selectedCategory, selectedQuestion);
+      onSelectCategory(selectedCategory, selectedQuestion, recordingMode);
     }
     setShowConversationTypeModal(false);
   };
@@ -112,6 +116,7 @@ export const CategoryModal: React.FC<CategoryModalProps> = ({
         onBack={() => setSelectedCategory(null)}
         onClose={onClose}
         onSelectQuestion={handleQuestionSelect}
+        coverage={coverage?.[selectedCategory.id]}
       />
     );
   }
@@ -10,15 +10,24 @@ interface ConversationDialogProps {
   }>;
   title: string;
   videoUrl?: string;
+  // The video carries the call audio itself, so the WAV is not played alongside it
+  videoHasAudio?: boolean;
   audioUrl?: string;
 }
 
+// Recordings may be WAV, WebM or MP4; the URL's path says which
+const downloadName = (url: string, name: string, fallback: string) => {
+  const extension = /\.(\w+)$/.exec(decodeURIComponent(new URL(url).pathname))?.[1];
+  return `${name}.${extension || fallback}`;
+};
+
 export const ConversationDialog: React.FC<ConversationDialogProps> = ({
   isOpen,
   onClose,
   transcript,
   title,
   videoUrl,
+  videoHasAudio,
   audioUrl,
 }) => {
   const [audioMuted, setAudioMuted] = useState(false);
@@ -77,7 +86,7 @@ export const ConversationDialog: React.FC<ConversationDialogProps> = ({
             {audioUrl && (
               <a
                 href={audioUrl}
-                download="audio_recording.wav"
+                download={downloadName(audioUrl, 'audio_recording', 'wav')}
                 className="text-orange-600 hover:text-orange-700 flex items-center"
               >
                 <Download className="w-4 h-4 mr-1" />
@@ -87,7 +96,7 @@ export const ConversationDialog: React.FC<ConversationDialogProps> = ({
             {videoUrl && (
               <a
                 href={videoUrl}
-                download="video_recording.webm"
+                download={downloadName(videoUrl, 'video_recording', 'webm')}
                 className="text-orange-600 hover:text-orange-700 flex items-center"
               >
                 <Download className="w-4 h-4 mr-1" />
@@ -117,14 +126,14 @@ export const ConversationDialog: React.FC<ConversationDialogProps> = ({
                 onEnded={handleVideoEnded}
                 controls
                 playsInline
-                muted
+                muted={!videoHasAudio}
                 preload="metadata"
               >
-                <source src={videoUrl} type="video/webm" />
+                <source src={videoUrl} />
                 Your browser does not support the video element.
               </video>
 
-              {audioUrl && (
+              {audioUrl && !videoHasAudio && (
                 <>
                   <audio ref={audioRef} src={audioUrl} preload="auto" />
                   <button
@@ -148,7 +157,7 @@ export const ConversationDialog: React.FC<ConversationDialogProps> = ({
             <div className="p-4 border-b border-gray-200">
               <div className="max-w-2xl mx-auto">
                 <audio controls className="w-full" preload="metadata">
-                  <source src={audioUrl} type="audio/wav" />
+                  <source src={audioUrl} />
                   Your browser does not support the audio element.
                 </audio>
               </div>
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
+import { formatCallTime } from '../lib/timeZones';
 
 interface CountdownTimerProps {
   targetDate: Date;
+  // The other party's zone; when its clocks differ from the browser's, both times are shown
+  timeZone?: string;
 }
 
 interface TimeLeft {
@@ -11,7 +14,7 @@ interface TimeLeft {
   seconds: number;
 }
 
-export const CountdownTimer: React.FC<CountdownTimerProps> = ({ targetDate }) => {
+export const CountdownTimer: React.FC<CountdownTimerProps> = ({ targetDate, timeZone }) => {
   const [timeLeft, setTimeLeft] = useState<TimeLeft>({ days: 0, hours: 0, minutes: 0, seconds: 0 });
 
   useEffect(() => {
@@ -39,25 +42,28 @@ export const CountdownTimer: React.FC<CountdownTimerProps> = ({ targetDate }) =>
   const formatNumber = (num: number): string => num.toString().padStart(2, '0');
 
   return (
-    <div className="flex items-center space-x-4 font-mono">
-      {timeLeft.days > 0 && (
+    <div>
+      <div className="flex items-center space-x-4 font-mono">
+        {timeLeft.days > 0 && (
+          <div className="flex items-baseline">
+            <span className="text-lg font-bold">{timeLeft.days}</span>
+            <span className="text-xs ml-1">d</span>
+          </div>
+        )}
         <div className="flex items-baseline">
-          <span className="text-lg font-bold">{timeLeft.days}</span>
-          <span className="text-xs ml-1">d</span>
+          <span className="text-lg font-bold">{formatNumber(timeLeft.hours)}</span>
+          <span className="text-xs ml-1">h</span>
+        </div>
+        <div className="flex items-baseline">
+          <span className="text-lg font-bold">{formatNumber(timeLeft.minutes)}</span>
+          <span className="text-xs ml-1">m</span>
+        </div>
+        <div className="flex items-baseline">
+          <span className="text-lg font-bold">{formatNumber(timeLeft.seconds)}</span>
+          <span className="text-xs ml-1">s</span>
         </div>
-      )}
-      <div className="flex items-baseline">
-        <span className="text-lg font-bold">{formatNumber(timeLeft.hours)}</span>
-        <span className="text-xs ml-1">h</span>
-      </div>
-      <div className="flex items-baseline">
-        <span className="text-lg font-bold">{formatNumber(timeLeft.minutes)}</span>
-        <span className="text-xs ml-1">m</span>
-      </div>
-      <div className="flex items-baseline">
-        <span className="text-lg font-bold">{formatNumber(timeLeft.seconds)}</span>
-        <span className="text-xs ml-1">s</span>
       </div>
+      {timeZone && <p className="text-xs mt-1">{formatCallTime(targetDate, timeZone)}</p>}
     </div>
   );
 };
\ No newline at end of file
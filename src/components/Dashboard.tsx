@@ -1,14 +1,22 @@
-import React, { useState, useEffect } from 'react';
-import { collection, getDocs, doc, getDoc, query, where, Timestamp } from 'firebase/firestore';
+import React, { useState, useEffect, useMemo } from 'react';
+import { doc, getDoc, Timestamp } from 'firebase/firestore';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { useNavigate } from 'react-router-dom';
 import { auth, db } from '../lib/firebase';
+import { isCompletedStory, useRepositories } from '../lib/repositories';
+import { useStorySearch } from '../hooks/useStorySearch';
+import { useCollections } from '../hooks/useCollections';
+import { useUnreadComments } from '../hooks/useComments';
+import { threadIdFor } from '../lib/comments';
+import { EMPTY_SEARCH, isSearchActive, StorySearchValue, toSearchFilters } from '../lib/search';
+import { buildCoverage } from '../lib/coverage';
 import { Category } from '../types/category';
-import { User } from '../types/user';
-import { Story } from '../types/story';
+import { RecordingMode, User } from '../types/user';
 import { CategoryModal } from './CategoryModal';
 import { CallModal } from './CallModal';
-import { PlusCircle, Image as ImageIcon } from 'lucide-react';
+import { StorySearchBar } from './search/StorySearchBar';
+import { SearchSnippet } from './search/SearchSnippet';
+import { PlusCircle, Image as ImageIcon, Search, MessageSquare } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import toast from 'react-hot-toast';
 
@@ -16,13 +24,46 @@ export const Dashboard: React.FC = () => {
   const [user] = useAuthState(auth);
   const [userData, setUserData] = useState<User | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [stories, setStories] = useState<Story[]>([]);
   const [isCategoryModalOpen, setIsCategoryModalOpen] = useState(false);
   const [isCallModalOpen, setIsCallModalOpen] = useState(false);
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>('video');
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
   const [selectedQuestion, setSelectedQuestion] = useState<string>('');
   const [isLoading, setIsLoading] = useState(true);
+  const [searchValue, setSearchValue] = useState<StorySearchValue>(EMPTY_SEARCH);
   const navigate = useNavigate();
+  const repositories = useRepositories();
+  const { active, ownerId, role } = useCollections();
+  // Stories are recorded by the collection owner; members only browse them
+  const isOwnCollection = role === 'owner';
+  const { search, stories: userStories, isLoading: isLoadingStories, error: storiesError } = useStorySearch(ownerId);
+  const stories = useMemo(() => userStories.filter(isCompletedStory), [userStories]);
+  const { byThread: unreadComments } = useUnreadComments(ownerId, user?.uid);
+  const unreadCount = (storyId: string) => unreadComments[threadIdFor({ type: 'story', storyId })] || 0;
+
+  // null while no search or filter is active
+  const searchResults = useMemo(() => {
+    if (!isSearchActive(searchValue)) return null;
+
+    const storiesById = new Map(userStories.map(story => [story.id, story]));
+    return search(searchValue.query, toSearchFilters(searchValue)).flatMap(result => {
+      const story = storiesById.get(result.id);
+      return story ? [{ story, result }] : [];
+    });
+  }, [search, searchValue, userStories]);
+
+  const coverage = useMemo(() => buildCoverage(categories, stories), [categories, stories]);
+
+  const categoryTitles = useMemo(
+    () => Object.fromEntries(categories.map(category => [category.id, category.title])),
+    [categories]
+  );
+
+  useEffect(() => {
+    if (storiesError) {
+      toast.error('Failed to load stories');
+    }
+  }, [storiesError]);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -37,37 +78,8 @@ export const Dashboard: React.FC = () => {
           setUserData(userData);
         }
 
-        // Fetch categories
-        const categoriesSnapshot = await getDocs(collection(db, 'categories'));
-        const categoriesData = categoriesSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as Category));
-        setCategories(categoriesData);
-
-        // Fetch all stories for the user
-        const storiesQuery = query(
-          collection(db, 'stories'),
-          where('userId', '==', user.uid)
-          // ,where('isOnboardingStory', 'in', [false, null])
-        );
-
-        const storiesSnapshot = await getDocs(storiesQuery);
-        const storiesData = storiesSnapshot.docs
-          .map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          } as Story))
-          // .filter(story => (story.title !== null && story.isOnboardingStory !== true));
-        .filter(story => (story.title !== null));
-        
-        storiesData.sort((a, b) => {
-          const timeA = (a.lastUpdationTime as Timestamp).toMillis();
-          const timeB = (b.lastUpdationTime as Timestamp).toMillis();
-          return timeB - timeA;
-        });
-        
-        setStories(storiesData);
+        // Archived categories still title the stories told in them
+        setCategories(await repositories.categories.listForUser(ownerId ?? user.uid, { includeArchived: true }));
       } catch (error) {
         console.error('Error fetching data:', error);
         toast.error('Failed to load stories');
@@ -77,56 +89,27 @@ export const Dashboard: React.FC = () => {
     };
 
     fetchData();
-  }, [user]);
+  }, [user, ownerId, repositories]);
 
-  const handleCategorySelect = (category: Category, question: string) => {
+  const handleCategorySelect = (category: Category, question: string, mode: RecordingMode) => {
     setSelectedCategory(category);
     setSelectedQuestion(question);
+    setRecordingMode(mode);
     setIsCategoryModalOpen(false);
     setIsCallModalOpen(true);
   };
 
-  const handleCallModalClose = async (isProcessingComplete?: boolean) => {
+  const handleCallModalClose = () => {
     setIsCallModalOpen(false);
     setSelectedCategory(null);
     setSelectedQuestion('');
-    
-    // Refresh stories
-    if (user?.uid) {
-      try {
-        const storiesQuery = query(
-          collection(db, 'stories'),
-          where('userId', '==', user.uid)
-          // ,where('isOnboardingStory', 'in', [false, null])
-        );
-
-        const storiesSnapshot = await getDocs(storiesQuery);
-        const storiesData = storiesSnapshot.docs
-          .map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          } as Story))
-          .filter(story => story.title !== null);
-        
-        storiesData.sort((a, b) => {
-          const timeA = (a.lastUpdationTime as Timestamp).toMillis();
-          const timeB = (b.lastUpdationTime as Timestamp).toMillis();
-          return timeB - timeA;
-        });
-        
-        setStories(storiesData);
-      } catch (error) {
-        console.error('Error refreshing stories:', error);
-        toast.error('Failed to refresh stories');
-      }
-    }
   };
 
   const formatRelativeTime = (timestamp: Timestamp) => {
     return formatDistanceToNow(timestamp.toDate(), { addSuffix: true });
   };
 
-  if (isLoading) {
+  if (isLoading || isLoadingStories) {
     return (
       <div className="flex items-center justify-center h-screen">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
@@ -139,27 +122,76 @@ export const Dashboard: React.FC = () => {
       <div className="max-w-5xl mx-auto">
         <div className="flex flex-col md:flex-row gap-3 justify-between items-center mb-8">
           <div>
-            <h1 className="text-3xl text-center md:text-left font-bold text-gray-900">Your Stories</h1>
+            <h1 className="text-3xl text-center md:text-left font-bold text-gray-900">
+              {isOwnCollection ? 'Your Stories' : active?.name}
+            </h1>
             <p className="text-gray-600 mt-1 text-center md:text-left">
-              Preserve and share your precious memories
+              {isOwnCollection
+                ? 'Preserve and share your precious memories'
+                : `Stories shared by ${active?.members[active.ownerId]?.name}`}
             </p>
           </div>
-          <button
-            onClick={() => setIsCategoryModalOpen(true)}
-            className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
-          >
-            <PlusCircle className="w-5 h-5 mr-2" />
-            Create New Story
-          </button>
+          {isOwnCollection && (
+            <button
+              onClick={() => setIsCategoryModalOpen(true)}
+              className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+            >
+              <PlusCircle className="w-5 h-5 mr-2" />
+              Create New Story
+            </button>
+          )}
         </div>
 
-        {stories.length === 0 ? (
+        {userStories.length > 0 && (
+          <StorySearchBar value={searchValue} onChange={setSearchValue} categories={categories} />
+        )}
+
+        {searchResults ? (
+          searchResults.length === 0 ? (
+            <div className="text-center py-12">
+              <Search className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No matching stories</h3>
+              <p className="text-gray-600">Try different words or remove some filters</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {searchResults.map(({ story, result }) => (
+                <div
+                  key={story.id}
+                  className="bg-white rounded-lg shadow-sm p-6 hover:shadow-md transition-shadow cursor-pointer"
+                  onClick={() => navigate(`/stories/${story.id}`)}
+                >
+                  <div className="flex flex-col md:flex-row md:items-center gap-2 mb-2">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {story.title || story.initialQuestion}
+                    </h3>
+                    {categoryTitles[story.categoryId] && (
+                      <span className="px-2 py-1 w-fit bg-gray-100 text-gray-600 text-xs rounded-full">
+                        {categoryTitles[story.categoryId]}
+                      </span>
+                    )}
+                    <span className="text-sm text-gray-500 md:ml-auto">
+                      {formatRelativeTime(story.creationTime)}
+                    </span>
+                  </div>
+                  <div className="space-y-1">
+                    {result.matches.slice(0, 2).map((match) => (
+                      <SearchSnippet key={match.key} kind={match.kind} parts={match.snippet} />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        ) : stories.length === 0 ? (
           <div className="text-center py-12">
             <ImageIcon className="w-16 h-16 mx-auto text-gray-400 mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No completed stories yet</h3>
-            <p className="text-gray-600 mb-6">
-              Start creating your first story by clicking the "Create New Story" button
-            </p>
+            {isOwnCollection && (
+              <p className="text-gray-600 mb-6">
+                Start creating your first story by clicking the "Create New Story" button
+              </p>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -193,9 +225,20 @@ export const Dashboard: React.FC = () => {
                     <span className="text-sm text-gray-500">
                       {story.lastUpdationTime && formatRelativeTime(story.lastUpdationTime as Timestamp)}
                     </span>
-                    <span className="text-orange-500 hover:text-orange-600 font-medium text-sm">
-                      Read Story
-                    </span>
+                    <div className="flex items-center gap-3">
+                      {unreadCount(story.id) > 0 && (
+                        <span
+                          className="flex items-center px-2 py-0.5 bg-orange-100 text-orange-700 text-xs font-medium rounded-full"
+                          title="New comments"
+                        >
+                          <MessageSquare className="w-3 h-3 mr-1" />
+                          {unreadCount(story.id)}
+                        </span>
+                      )}
+                      <span className="text-orange-500 hover:text-orange-600 font-medium text-sm">
+                        Read Story
+                      </span>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -207,15 +250,17 @@ export const Dashboard: React.FC = () => {
       <CategoryModal
         isOpen={isCategoryModalOpen}
         onClose={() => setIsCategoryModalOpen(false)}
-        categories={categories}
+        categories={categories.filter(category => !category.archived)}
         onSelectCategory={handleCategorySelect}
         showOnboarding={!userData?.isOnboarded}
+        coverage={coverage}
       />
 
       {selectedCategory && (
         <CallModal
           isOpen={isCallModalOpen}
           onClose={handleCallModalClose}
+          recordingMode={recordingMode}
           category={selectedCategory}
           question={selectedQuestion}
         />
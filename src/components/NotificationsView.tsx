@@ -0,0 +1,125 @@
+import React from 'react';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, MessageSquare, Reply, Heart, CheckCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { auth } from '../lib/firebase';
+import { useRepositories } from '../lib/repositories';
+import { useNotifications } from '../hooks/useNotifications';
+import { useCollections } from '../hooks/useCollections';
+import { ActivityNotification, NotificationType } from '../types/comment';
+
+const NOTIFICATION_ICONS: Record<NotificationType, typeof Bell> = {
+  comment: MessageSquare,
+  reply: Reply,
+  reaction: Heart,
+};
+
+const NOTIFICATION_VERBS: Record<NotificationType, string> = {
+  comment: 'commented on',
+  reply: 'replied to a comment on',
+  reaction: 'reacted to',
+};
+
+export const NotificationsView: React.FC = () => {
+  const [user] = useAuthState(auth);
+  const navigate = useNavigate();
+  const repositories = useRepositories();
+  const { setActiveId } = useCollections();
+  const { notifications, unreadCount, isLoading } = useNotifications(user?.uid);
+
+  const markRead = async (ids: string[]) => {
+    if (!user?.uid || ids.length === 0) return;
+    try {
+      await repositories.notifications.markRead(user.uid, ids);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast.error('Failed to update notifications');
+    }
+  };
+
+  const handleOpen = (notification: ActivityNotification) => {
+    if (!notification.read) {
+      markRead([notification.id]);
+    }
+    // Notifications are about the user's own collection
+    if (user?.uid) {
+      setActiveId(user.uid);
+    }
+    navigate(notification.link);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pt-8 p-4 md:p-8">
+      <div className="md:max-w-3xl md:mx-auto">
+        <div className="flex flex-col md:flex-row gap-3 justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 text-center md:text-left">Notifications</h1>
+            <p className="text-gray-600 mt-1 text-center md:text-left">
+              What your family is saying about your stories
+            </p>
+          </div>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markRead(notifications.filter(n => !n.read).map(n => n.id))}
+              className="flex items-center px-4 py-2 text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+            >
+              <CheckCheck className="w-5 h-5 mr-2" />
+              Mark all as read
+            </button>
+          )}
+        </div>
+
+        {notifications.length === 0 ? (
+          <div className="text-center py-12">
+            <Bell className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No notifications yet</h3>
+            <p className="text-gray-600">
+              Comments and reactions from family members will show up here
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+            {notifications.map((notification) => {
+              const Icon = NOTIFICATION_ICONS[notification.type];
+              return (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpen(notification)}
+                  className={`w-full flex items-start gap-4 p-4 text-left hover:bg-gray-50 transition-colors ${
+                    notification.read ? '' : 'bg-orange-50/50'
+                  }`}
+                >
+                  <div className="w-9 h-9 rounded-full bg-orange-100 flex items-center justify-center flex-shrink-0">
+                    <Icon className="w-4 h-4 text-orange-600" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-gray-900">
+                      <span className="font-medium">{notification.actorName}</span>{' '}
+                      {NOTIFICATION_VERBS[notification.type]}{' '}
+                      <span className="font-medium">{notification.targetTitle}</span>
+                    </p>
+                    <p className="text-sm text-gray-600 truncate">{notification.preview}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatDistanceToNow(notification.createdAt.toDate(), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.read && <span className="w-2 h-2 mt-2 rounded-full bg-orange-500 flex-shrink-0" />}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
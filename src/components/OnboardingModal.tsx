@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useRef } from "react";
-import { doc, updateDoc, serverTimestamp, getDoc } from "firebase/firestore";
+import { doc, updateDoc, serverTimestamp } from "firebase/firestore";
 import { auth, db } from "../lib/firebase";
 import { RetellWebClient } from "retell-client-js-sdk";
 import {
@@ -11,9 +11,20 @@ import {
   Camera,
   CameraOff,
   Sparkles,
+  AlertCircle,
 } from "lucide-react";
 import toast from "react-hot-toast";
 import { VideoRecorder } from "../lib/recording";
+import { onAgentAudioTrack } from "../lib/callAudio";
+import {
+  DeviceSelection,
+  loadDeviceSelection,
+  requestCallMedia,
+  saveDeviceSelection,
+} from "../lib/media";
+import { DeviceCheck } from "./call/DeviceCheck";
+import { RecordingMode } from "../types/user";
+import { useSessionProcessing } from "../hooks/useSessionProcessing";
 
 interface OnboardingModalProps {
   isOpen: boolean;
@@ -36,6 +47,12 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
   const [isMicPermissionGranted, setIsMicPermissionGranted] = useState(false);
   const [isCameraPermissionGranted, setCameraPermissionGranted] =
     useState(false);
+  // What the user asked for, and what the call records once the camera has been tried
+  const [requestedMode, setRequestedMode] = useState<RecordingMode>("video");
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>("video");
+  const [devices, setDevices] = useState<DeviceSelection>({});
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+  const [isNetworkReady, setIsNetworkReady] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [isAgentTalking, setIsAgentTalking] = useState(false);
   const [currentStoryId, setCurrentStoryId] = useState<string | null>(null);
@@ -51,12 +68,31 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
   const timeoutRef = useRef<NodeJS.Timeout>();
   const startTimeRef = useRef<number>();
   const streamRef = useRef<MediaStream | null>(null);
-  const processingIntervalRef = useRef<NodeJS.Timeout>();
   const videoRecorderRef = useRef<VideoRecorder | null>(null);
+  const stopAgentAudioRef = useRef<() => void>(() => {});
+
+  const processingStatus = useSessionProcessing(
+    currentStoryId,
+    currentSessionId,
+    isProcessing,
+  );
 
   useEffect(() => {
-    if (showCallModal) requestPermissions();
-  }, [showCallModal]);
+    if (!showCallModal) return;
+
+    const selection = auth.currentUser
+      ? loadDeviceSelection(auth.currentUser.uid)
+      : {};
+    setDevices(selection);
+    requestPermissions(requestedMode, selection);
+  }, [showCallModal, requestedMode]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject =
+        recordingMode === "video" ? previewStream : null;
+    }
+  }, [recordingMode, previewStream]);
 
   useEffect(() => {
     if (isProcessing) {
@@ -69,55 +105,76 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
     }
   }, [isProcessing]);
 
-  const checkProcessingStatus = async () => {
-    if (!currentStoryId || !currentSessionId) return;
-    try {
-      const storySnap = await getDoc(doc(db, "stories", currentStoryId));
-      if (!storySnap.exists()) return;
-      const story = storySnap.data();
-      const session = story.sessions?.[currentSessionId];
+  useEffect(() => {
+    if (processingStatus !== "complete") return;
 
-      if (session?.updated) {
-        clearInterval(processingIntervalRef.current);
-        setIsProcessing(false);
-        setProcessingProgress(100);
+    const completeOnboarding = async () => {
+      setIsProcessing(false);
+      setProcessingProgress(100);
 
+      try {
         if (auth.currentUser) {
           await updateDoc(doc(db, "users", auth.currentUser.uid), {
             isOnboarded: true,
             onboardingStoryId: currentStoryId,
+            recordingMode,
             updatedAt: serverTimestamp(),
           });
         }
-        onClose();
-      } else setProcessingProgress((p) => Math.min(p + 5, 90));
-    } catch (err) {
-      console.error("Error checking processing status:", err);
-    }
-  };
+      } catch (err) {
+        console.error("Error completing onboarding:", err);
+      }
+      onClose();
+    };
+
+    completeOnboarding();
+  }, [processingStatus, currentStoryId, recordingMode, onClose]);
+
+  useEffect(() => {
+    if (processingStatus !== "processing") return;
+
+    const interval = setInterval(() => {
+      setProcessingProgress((p) => Math.min(p + 5, 90));
+    }, 2000);
+    return () => clearInterval(interval);
+  }, [processingStatus]);
+
+  const requestPermissions = async (
+    mode: RecordingMode,
+    selection: DeviceSelection,
+  ) => {
+    streamRef.current?.getTracks().forEach((t) => t.stop());
 
-  const requestPermissions = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
-        video: true,
-      });
+      const media = await requestCallMedia(mode, selection);
+      setRecordingMode(media.mode);
       setIsMicPermissionGranted(true);
-      setCameraPermissionGranted(true);
-      if (videoRef.current) videoRef.current.srcObject = stream;
-      streamRef.current = stream;
+      setCameraPermissionGranted(media.mode === "video");
+      if (media.cameraUnavailable) {
+        toast("Your camera isn't available, so we'll record audio only");
+      }
+      streamRef.current = media.stream;
+      setPreviewStream(media.stream);
     } catch (err: any) {
       console.error("Error getting permissions:", err);
       toast.error(
         err.name === "NotAllowedError"
-          ? "Please grant camera and microphone permissions to continue"
-          : "Error accessing camera or microphone",
+          ? "Please grant microphone permission to continue"
+          : "Error accessing your microphone",
       );
       setIsMicPermissionGranted(false);
       setCameraPermissionGranted(false);
+      streamRef.current = null;
+      setPreviewStream(null);
     }
   };
 
+  const handleDevicesChange = (selection: DeviceSelection) => {
+    setDevices(selection);
+    if (auth.currentUser) saveDeviceSelection(auth.currentUser.uid, selection);
+    requestPermissions(requestedMode, selection);
+  };
+
   useEffect(() => {
     if (!retellWebClientRef.current) {
       retellWebClientRef.current = new RetellWebClient({
@@ -139,22 +196,14 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
 
       if (streamRef.current && currentStoryId && currentSessionId) {
         try {
-          videoRecorderRef.current = new VideoRecorder(
-            currentStoryId,
-            currentSessionId,
-            async (url, isFinal) => {
-              const storyRef = doc(db, "stories", currentStoryId);
-              await updateDoc(storyRef, {
-                [`sessions.${currentSessionId}.${
-                  isFinal ? "videoUrl" : "videoChunkUrl"
-                }`]: url,
-                [`sessions.${currentSessionId}.${
-                  isFinal ? "videoComplete" : "lastUpdated"
-                }`]: isFinal ? true : serverTimestamp(),
-              });
-            },
-          );
+          // Stores the finished video or audio on the session itself
+          videoRecorderRef.current = new VideoRecorder(currentStoryId, currentSessionId);
           await videoRecorderRef.current.start(streamRef.current);
+
+          const recorder = videoRecorderRef.current;
+          stopAgentAudioRef.current = onAgentAudioTrack(client, (track) =>
+            recorder.addAudioTrack(track),
+          );
         } catch (err) {
           console.error("Error starting video recording:", err);
           toast.error("Failed to start video recording");
@@ -169,8 +218,8 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
       setProcessingProgress(0);
 
       try {
+        stopAgentAudioRef.current();
         if (videoRecorderRef.current) await videoRecorderRef.current.stop();
-        processingIntervalRef.current = setInterval(checkProcessingStatus, 2000);
       } catch (err) {
         console.error("Error finalizing call:", err);
         toast.error("Error processing call recording");
@@ -179,7 +228,7 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
           streamRef.current.getTracks().forEach((t) => t.stop());
           streamRef.current = null;
         }
-        if (videoRef.current) videoRef.current.srcObject = null;
+        setPreviewStream(null);
       }
     };
 
@@ -205,9 +254,8 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
       client.off("agent_start_talking", handleAgentStartTalking);
       client.off("agent_stop_talking", handleAgentStopTalking);
       client.off("error", handleError);
-      clearInterval(processingIntervalRef.current);
     };
-  }, [onClose, currentStoryId, currentSessionId]);
+  }, [currentStoryId, currentSessionId, recordingMode]);
 
   const startCall = async () => {
     if (!auth.currentUser || !retellWebClientRef.current) {
@@ -243,6 +291,8 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
 
       await retellWebClientRef.current.startCall({
         accessToken: data.accessToken,
+        captureDeviceId: devices.audioInputId,
+        playbackDeviceId: devices.audioOutputId,
       });
     } catch (err: any) {
       console.error("Error starting call:", err);
@@ -255,6 +305,36 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
   /* ------------------ UI ------------------ */
   if (!isOpen) return null;
 
+  if (
+    isProcessing &&
+    (processingStatus === "timed_out" || processingStatus === "error")
+  )
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white rounded-xl p-8 max-w-md w-full text-center">
+          <AlertCircle className="w-12 h-12 text-orange-500 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            {processingStatus === "timed_out"
+              ? "This is taking longer than expected"
+              : "We couldn't follow your story's progress"}
+          </h3>
+          <p className="text-gray-600 mb-6">
+            Your conversation was saved. Your first story will appear in your
+            collection as soon as it's ready.
+          </p>
+          <button
+            onClick={() => {
+              setIsProcessing(false);
+              onClose();
+            }}
+            className="w-full px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    );
+
   if (isProcessing)
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -318,17 +398,32 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
               <span className="w-8 h-8 bg-orange-100 rounded-full flex items-center justify-center mr-3">
                 <Video className="w-4 h-4 text-orange-600" />
               </span>
-              Video and audio recording
+              Video and audio recording, or audio only if you prefer
             </li>
           </ul>
 
           <button
-            onClick={() => setShowCallModal(true)}
+            onClick={() => {
+              setRequestedMode("video");
+              setRecordingMode("video");
+              setShowCallModal(true);
+            }}
             className="w-full px-4 py-3 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors flex items-center justify-center space-x-2"
           >
             <Video className="w-5 h-5" />
             <span>Start Onboarding</span>
           </button>
+          <button
+            onClick={() => {
+              setRequestedMode("audio");
+              setRecordingMode("audio");
+              setShowCallModal(true);
+            }}
+            className="w-full mt-3 px-4 py-3 text-orange-600 border border-orange-200 rounded-lg hover:bg-orange-50 transition-colors flex items-center justify-center space-x-2"
+          >
+            <Mic className="w-5 h-5" />
+            <span>Start with Audio Only</span>
+          </button>
         </div>
       </div>
     );
@@ -339,13 +434,27 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
       <div className="bg-white rounded-xl w-full h-[80vh] max-w-6xl flex flex-col md:flex-row overflow-hidden">
         {/* Video section */}
         <div className="flex w-full h-[40dvh] md:h-full bg-gray-900 relative">
-          <video
-            ref={videoRef}
-            autoPlay
-            playsInline
-            muted
-            className="w-full h-full object-cover"
-          />
+          {recordingMode === "video" ? (
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <div className="w-full h-full flex flex-col items-center justify-center text-white">
+              <div
+                className={`w-24 h-24 rounded-full bg-orange-500/20 flex items-center justify-center mb-4 ${
+                  isCallActive ? "animate-pulse" : ""
+                }`}
+              >
+                <Mic className="w-10 h-10 text-orange-400" />
+              </div>
+              <p className="text-lg">Audio only</p>
+              <p className="text-sm text-white/60">Your camera is off</p>
+            </div>
+          )}
 
           <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex space-x-4">
             <div className="bg-white/10 backdrop-blur-sm px-4 py-2 rounded-full flex items-center space-x-4 text-white">
@@ -357,14 +466,16 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
               {isCameraPermissionGranted ? (
                 <Camera className="w-5 h-5 text-green-400" />
               ) : (
-                <CameraOff className="w-5 h-5 text-red-400" />
+                <CameraOff
+                  className={`w-5 h-5 ${recordingMode === "audio" ? "text-white/60" : "text-red-400"}`}
+                />
               )}
             </div>
           </div>
         </div>
 
         {/* Sidebar */}
-        <div className="w-full md:w-80 md:border-l border-gray-200 flex flex-col">
+        <div className="w-full md:w-80 md:border-l border-gray-200 flex flex-col overflow-y-auto">
           <div className="p-6 flex-1">
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-xl font-semibold text-gray-900">
@@ -396,23 +507,28 @@ export const OnboardingModal: React.FC<OnboardingModalProps> = ({
                 </button>
               </div>
             ) : (
-              <button
-                onClick={startCall}
-                disabled={
-                  !isMicPermissionGranted ||
-                  !isCameraPermissionGranted ||
-                  isLoading
-                }
-                className="w-full px-4 py-3 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
-              >
-                <Video className="w-5 h-5" />
-                <span>{isLoading ? "Connecting..." : "Start Call"}</span>
-              </button>
+              <div className="space-y-6">
+                <DeviceCheck
+                  stream={previewStream}
+                  showCamera={requestedMode === "video"}
+                  selection={devices}
+                  onSelectionChange={handleDevicesChange}
+                  onReadyChange={setIsNetworkReady}
+                />
+                <button
+                  onClick={startCall}
+                  disabled={!isMicPermissionGranted || !isNetworkReady || isLoading}
+                  className="w-full px-4 py-3 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                >
+                  <Video className="w-5 h-5" />
+                  <span>{isLoading ? "Connecting..." : "Start Call"}</span>
+                </button>
+              </div>
             )}
 
-            {(!isMicPermissionGranted || !isCameraPermissionGranted) && (
+            {!isMicPermissionGranted && (
               <p className="text-sm text-red-500 mt-4 text-center">
-                Please grant camera and microphone permissions to continue
+                Please grant microphone permission to continue
               </p>
             )}
           </div>
@@ -1,26 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuthState } from 'react-firebase-hooks/auth';
-import { collection, query, where, getDocs, doc, getDoc, Timestamp } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { useNavigate } from 'react-router-dom';
 import { auth, db } from '../lib/firebase';
+import { isContinuableStory, useRepositories } from '../lib/repositories';
+import { useUserStories } from '../hooks/useStory';
 import { Story } from '../types/story';
 import { Category } from '../types/category';
-import { User } from '../types/user';
+import { RecordingMode, User } from '../types/user';
 import { CallModal } from './CallModal';
 import { ConversationTypeModal } from './scheduling/ConversationTypeModal';
 import { SchedulingModal } from './scheduling/SchedulingModal';
 import { OnboardingModal } from './OnboardingModal';
-import { MessageSquare, Clock, Plus, ArrowLeft, Sparkles } from 'lucide-react';
+import { CoverageRing } from './coverage/CoverageRing';
+import { LifeTimelineHeatmap } from './coverage/LifeTimelineHeatmap';
+import { buildCoverage } from '../lib/coverage';
+import { MessageSquare, Clock, Plus, ArrowLeft, Sparkles, CheckCircle } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import toast from 'react-hot-toast';
 
 export const PromptsView: React.FC = () => {
   const [user] = useAuthState(auth);
   const [userData, setUserData] = useState<User | null>(null);
-  const [stories, setStories] = useState<Story[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [selectedStory, setSelectedStory] = useState<Story | null>(null);
   const [isCallModalOpen, setIsCallModalOpen] = useState(false);
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>('video');
   const [isLoading, setIsLoading] = useState(true);
   const [isCreatingNew, setIsCreatingNew] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
@@ -31,6 +36,16 @@ export const PromptsView: React.FC = () => {
   const [showSchedulingModal, setShowSchedulingModal] = useState(false);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const navigate = useNavigate();
+  const repositories = useRepositories();
+  const { stories: userStories, isLoading: isLoadingStories, error: storiesError } = useUserStories(user?.uid);
+  const stories = useMemo(() => userStories.filter(isContinuableStory), [userStories]);
+  const coverage = useMemo(() => buildCoverage(categories, userStories), [categories, userStories]);
+
+  useEffect(() => {
+    if (storiesError) {
+      toast.error('Failed to load prompts');
+    }
+  }, [storiesError]);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -47,37 +62,7 @@ export const PromptsView: React.FC = () => {
           setShowOnboarding(!userData.isOnboarded);
         }
 
-        // Fetch stories
-        const storiesQuery = query(
-          collection(db, 'stories'),
-          where('userId', '==', user.uid)
-          // ,where('isOnboardingStory', 'in', [false, null])
-        );
-        const storiesSnapshot = await getDocs(storiesQuery);
-        const storiesData = storiesSnapshot.docs
-          .map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          } as Story))
-          .filter(story => !story.nextSchedule?.status);
-
-        // Sort by last update
-        storiesData.sort((a, b) => {
-          const timeA = (a.lastUpdationTime as Timestamp).toMillis();
-          const timeB = (b.lastUpdationTime as Timestamp).toMillis();
-          return timeB - timeA;
-        });
-        
-        setStories(storiesData);
-
-        // Fetch categories
-        const categoriesSnapshot = await getDocs(collection(db, 'categories'));
-        const categoriesData = categoriesSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as Category));
-
-        setCategories(categoriesData);
+        setCategories(await repositories.categories.listForUser(user.uid, { includeArchived: true }));
       } catch (error) {
         console.error('Error fetching data:', error);
         toast.error('Failed to load prompts');
@@ -87,7 +72,7 @@ export const PromptsView: React.FC = () => {
     };
 
     fetchData();
-  }, [user]);
+  }, [user, repositories]);
 
   const handleContinueStory = (story: Story) => {
     setSelectedStory(story);
@@ -143,7 +128,8 @@ export const PromptsView: React.FC = () => {
     setShowConversationTypeModal(true);
   };
 
-  const handleStartNow = () => {
+  const handleStartNow = (mode: RecordingMode) => {
+    setRecordingMode(mode);
     setShowConversationTypeModal(false);
     setIsCallModalOpen(true);
   };
@@ -185,7 +171,7 @@ export const PromptsView: React.FC = () => {
     return `Last conversation ${formatDistanceToNow(lastSession.creationTime.toDate(), { addSuffix: true })}`;
   };
 
-  if (isLoading || !userData) {
+  if (isLoading || isLoadingStories || !userData) {
     return (
       <div className="flex items-center justify-center h-screen">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
@@ -283,24 +269,34 @@ export const PromptsView: React.FC = () => {
             </div>
 
             {!selectedCategory ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {categories.map((category) => (
-                  <button
-                    key={category.id}
-                    onClick={() => handleCategorySelect(category)}
-                    className="bg-white border border-gray-200 rounded-lg p-6 text-left hover:border-orange-500 transition-colors group"
-                  >
-                    <div className="text-4xl mb-4">{decodeEmoji(category.emoji_unicode)}</div>
-                    <h3 className="text-xl font-semibold text-gray-900 mb-2 group-hover:text-orange-600">
-                      {category.title}
-                    </h3>
-                    <p className="text-gray-600 mb-4">{category.description}</p>
-                    <div className="text-sm text-gray-500">
-                      <span className="font-medium">Example:</span> {category.example}
-                    </div>
-                  </button>
-                ))}
-              </div>
+              <>
+                <LifeTimelineHeatmap
+                  stories={userStories}
+                  birthYear={userData.birthYear}
+                  onBirthYearSaved={(birthYear) => setUserData({ ...userData, birthYear })}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {categories.filter(category => !category.archived).map((category) => (
+                    <button
+                      key={category.id}
+                      onClick={() => handleCategorySelect(category)}
+                      className="bg-white border border-gray-200 rounded-lg p-6 text-left hover:border-orange-500 transition-colors group"
+                    >
+                      <div className="flex items-start justify-between mb-4">
+                        <div className="text-4xl">{decodeEmoji(category.emoji_unicode)}</div>
+                        <CoverageRing coverage={coverage[category.id]} />
+                      </div>
+                      <h3 className="text-xl font-semibold text-gray-900 mb-2 group-hover:text-orange-600">
+                        {category.title}
+                      </h3>
+                      <p className="text-gray-600 mb-4">{category.description}</p>
+                      <div className="text-sm text-gray-500">
+                        <span className="font-medium">Example:</span> {category.example}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </>
             ) : (
               <div className="space-y-6">
                 <div className="bg-white rounded-lg p-6 shadow-sm">
@@ -332,7 +328,13 @@ export const PromptsView: React.FC = () => {
                           }}
                           className="w-4 h-4 text-orange-500 focus:ring-orange-500"
                         />
-                        <span className="text-gray-900">{question}</span>
+                        <span className="text-gray-900 flex-1">{question}</span>
+                        {coverage[selectedCategory.id]?.answered[question] && (
+                          <span className="flex items-center px-2 py-0.5 bg-green-50 text-green-700 rounded-full text-xs font-medium whitespace-nowrap">
+                            <CheckCircle className="w-3 h-3 mr-1" />
+                            Answered
+                          </span>
+                        )}
                       </label>
                     ))}
 
@@ -389,6 +391,7 @@ export const PromptsView: React.FC = () => {
           <CallModal
             isOpen={isCallModalOpen}
             onClose={handleCallModalClose}
+            recordingMode={recordingMode}
             category={selectedStory ? categories.find(c => c.id === selectedStory.categoryId)! : selectedCategory!}
             question={selectedStory ? selectedStory.initialQuestion : (isCustomQuestion ? customQuestion : selectedQuestion)}
             existingStoryId={selectedStory?.id}
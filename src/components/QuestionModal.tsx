@@ -1,12 +1,15 @@
 import React, { useState } from 'react';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, CheckCircle } from 'lucide-react';
 import { Category } from '../types/category';
+import { CategoryCoverage } from '../lib/coverage';
 
 interface QuestionModalProps {
   category: Category;
   onBack: () => void;
   onClose: () => void;
   onSelectQuestion: (question: string) => void;
+  // Marks questions that already have a story
+  coverage?: CategoryCoverage;
 }
 
 export const QuestionModal: React.FC<QuestionModalProps> = ({
@@ -14,6 +17,7 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({
   onBack,
   onClose,
   onSelectQuestion,
+  coverage,
 }) => {
   const [selectedQuestion, setSelectedQuestion] = useState<string>('');
   const [customQuestion, setCustomQuestion] = useState('');
@@ -86,7 +90,16 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({
                   }}
                   className="w-4 h-4 text-orange-500 focus:ring-orange-500"
                 />
-                <span className="text-gray-900">{question}</span>
+                <span className="text-gray-900 flex-1">{question}</span>
+                {coverage?.answered[question] && (
+                  <span
+                    className="flex items-center px-2 py-0.5 bg-green-50 text-green-700 rounded-full text-xs font-medium whitespace-nowrap"
+                    title={`Told in ${coverage.answered[question].length} ${coverage.answered[question].length === 1 ? 'story' : 'stories'}`}
+                  >
+                    <CheckCircle className="w-3 h-3 mr-1" />
+                    Answered
+                  </span>
+                )}
               </label>
             ))}
 
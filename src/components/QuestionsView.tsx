@@ -1,16 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useAuthState } from 'react-firebase-hooks/auth';
-import { collection, query, where, getDocs, doc, getDoc } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
+import { addDays } from 'date-fns';
 import { auth, db } from '../lib/firebase';
+import { isAvailableQuestion, isCompletedStory, useRepositories } from '../lib/repositories';
+import { createQuestionProvider, generateAiPicks } from '../lib/questionGeneration';
+import { useUserStories } from '../hooks/useStory';
 import { UpcomingQuestion } from '../types/question';
 import { Category } from '../types/category';
-import { User } from '../types/user';
+import { RecordingMode, User } from '../types/user';
 import { CallModal } from './CallModal';
 import { ConversationTypeModal } from './scheduling/ConversationTypeModal';
 import { SchedulingModal } from './scheduling/SchedulingModal';
-import { HelpCircle, Play } from 'lucide-react';
+import { Clock, HelpCircle, Loader2, Play, Sparkles, X } from 'lucide-react';
 import toast from 'react-hot-toast';
 
+const questionProvider = createQuestionProvider();
+
+const SNOOZE_OPTIONS = [
+  { label: 'Tomorrow', days: 1 },
+  { label: 'Next week', days: 7 },
+  { label: 'Next month', days: 30 },
+];
+
 export const QuestionsView: React.FC = () => {
   const [user] = useAuthState(auth);
   const [userData, setUserData] = useState<User | null>(null);
@@ -19,9 +31,23 @@ export const QuestionsView: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
   const [selectedQuestion, setSelectedQuestion] = useState<string>('');
   const [isCallModalOpen, setIsCallModalOpen] = useState(false);
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>('video');
   const [showConversationTypeModal, setShowConversationTypeModal] = useState(false);
   const [showSchedulingModal, setShowSchedulingModal] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [snoozingId, setSnoozingId] = useState<string | null>(null);
+  const repositories = useRepositories();
+  const { stories, isLoading: isLoadingStories } = useUserStories(user?.uid);
+  // Picks are generated unasked at most once per visit
+  const hasAutoGenerated = useRef(false);
+  const availableQuestions = useMemo(
+    () => upcomingQuestions.filter(question => isAvailableQuestion(question)),
+    [upcomingQuestions]
+  );
+  const snoozedCount = upcomingQuestions.filter(
+    question => question.status === 'snoozed' && !isAvailableQuestion(question)
+  ).length;
 
   useEffect(() => {
     const fetchData = async () => {
@@ -36,25 +62,11 @@ export const QuestionsView: React.FC = () => {
           setUserData(userDoc.data() as User);
         }
 
-        // Fetch categories
-        const categoriesSnapshot = await getDocs(collection(db, 'categories'));
-        const categoriesData = categoriesSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as Category));
+        const [categoriesData, questionsData] = await Promise.all([
+          repositories.categories.listForUser(user.uid, { includeArchived: true }),
+          repositories.upcomingQuestions.listByUser(user.uid),
+        ]);
         setCategories(categoriesData);
-
-        // Fetch upcoming questions
-        const questionsQuery = query(
-          collection(db, 'upcoming_questions'),
-          where('userId', '==', user.uid)
-        );
-        const questionsSnapshot = await getDocs(questionsQuery);
-        const questionsData = questionsSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as UpcomingQuestion));
-        
         setUpcomingQuestions(questionsData);
       } catch (error) {
         console.error('Error fetching data:', error);
@@ -65,7 +77,66 @@ export const QuestionsView: React.FC = () => {
     };
 
     fetchData();
-  }, [user]);
+  }, [user, repositories]);
+
+  const handleGenerate = useCallback(async (quiet = false) => {
+    if (!user?.uid) return;
+
+    setIsGenerating(true);
+    try {
+      const existing = await repositories.upcomingQuestions.listByUser(user.uid);
+      const added = await generateAiPicks(repositories, questionProvider, {
+        userId: user.uid,
+        stories,
+        categories,
+        existing,
+      });
+      setUpcomingQuestions(added ? await repositories.upcomingQuestions.listByUser(user.uid) : existing);
+      if (!quiet) {
+        if (added) {
+          toast.success(added === 1 ? 'Added a new question' : `Added ${added} new questions`);
+        } else {
+          toast('No new questions right now. Tell a few more stories and try again.');
+        }
+      }
+    } catch (error) {
+      console.error('Error generating questions:', error);
+      if (!quiet) toast.error('Failed to suggest new questions');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [user, repositories, stories, categories]);
+
+  // Runs out of picks: look for new ones in the stories told so far
+  useEffect(() => {
+    if (isLoading || isLoadingStories || hasAutoGenerated.current) return;
+    if (availableQuestions.length > 0 || !stories.some(isCompletedStory)) return;
+
+    hasAutoGenerated.current = true;
+    handleGenerate(true);
+  }, [isLoading, isLoadingStories, availableQuestions, stories, handleGenerate]);
+
+  const handleDismiss = async (question: UpcomingQuestion) => {
+    try {
+      await repositories.upcomingQuestions.dismiss(question.id);
+      setUpcomingQuestions(prev => prev.map(q => (q.id === question.id ? { ...q, status: 'dismissed', snoozedUntil: null } : q)));
+    } catch (error) {
+      console.error('Error dismissing question:', error);
+      toast.error('Failed to dismiss question');
+    }
+  };
+
+  const handleSnooze = async (question: UpcomingQuestion, days: number) => {
+    const until = addDays(new Date(), days);
+    setSnoozingId(null);
+    try {
+      await repositories.upcomingQuestions.snooze(question.id, until);
+      setUpcomingQuestions(prev => prev.map(q => (q.id === question.id ? { ...q, status: 'snoozed', snoozedUntil: until } : q)));
+    } catch (error) {
+      console.error('Error snoozing question:', error);
+      toast.error('Failed to snooze question');
+    }
+  };
 
   const handleStartQuestion = (question: UpcomingQuestion) => {
     const category = categories.find(c => c.id === question.categoryId);
@@ -76,7 +147,8 @@ export const QuestionsView: React.FC = () => {
     }
   };
 
-  const handleStartNow = () => {
+  const handleStartNow = (mode: RecordingMode) => {
+    setRecordingMode(mode);
     setShowConversationTypeModal(false);
     setIsCallModalOpen(true);
   };
@@ -92,15 +164,7 @@ export const QuestionsView: React.FC = () => {
     const fetchQuestions = async () => {
       if (!user?.uid) return;
       try {
-        const questionsQuery = query(
-          collection(db, 'upcoming_questions'),
-          where('userId', '==', user.uid)
-        );
-        const questionsSnapshot = await getDocs(questionsQuery);
-        const questionsData = questionsSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as UpcomingQuestion));
+        const questionsData = await repositories.upcomingQuestions.listByUser(user.uid);
         setUpcomingQuestions(questionsData);
       } catch (error) {
         console.error('Error refreshing questions:', error);
@@ -126,14 +190,24 @@ export const QuestionsView: React.FC = () => {
   return (
     <div className="p-8">
       <div className="max-w-5xl mx-auto">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 text-center md:text-left">AI Picks</h1>
-          <p className="text-gray-600 mt-1 text-center md:text-left">
-            Questions we've prepared to help you share your stories
-          </p>
+        <div className="flex flex-col md:flex-row gap-3 justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 text-center md:text-left">AI Picks</h1>
+            <p className="text-gray-600 mt-1 text-center md:text-left">
+              Questions we've prepared to help you share your stories
+            </p>
+          </div>
+          <button
+            onClick={() => handleGenerate()}
+            disabled={isGenerating}
+            className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+          >
+            {isGenerating ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Sparkles className="w-5 h-5 mr-2" />}
+            Suggest New Questions
+          </button>
         </div>
 
-        {upcomingQuestions.length === 0 ? (
+        {availableQuestions.length === 0 ? (
           <div className="text-center py-12">
             <HelpCircle className="w-16 h-16 mx-auto text-gray-400 mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No AI picks</h3>
@@ -143,7 +217,7 @@ export const QuestionsView: React.FC = () => {
           </div>
         ) : (
           <div className="space-y-4">
-            {upcomingQuestions.map((question) => (
+            {availableQuestions.map((question) => (
               <div
                 key={question.id}
                 className="bg-white rounded-lg shadow-sm px-3 md:p-6 flex flex-col-reverse md:flex-col gap-3"
@@ -153,14 +227,48 @@ export const QuestionsView: React.FC = () => {
                     <span className="px-3 py-1 bg-gray-100 rounded-full text-sm font-medium text-gray-700">
                       {question.categoryTitle}
                     </span>
+                    {question.subject && (
+                      <span className="text-sm text-gray-500">Follows up on {question.subject}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <div className="relative">
+                      <button
+                        onClick={() => setSnoozingId(snoozingId === question.id ? null : question.id)}
+                        className="p-1 text-gray-500 hover:text-gray-700"
+                        title="Snooze"
+                      >
+                        <Clock className="w-4 h-4" />
+                      </button>
+                      {snoozingId === question.id && (
+                        <div className="absolute right-0 mt-2 w-36 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+                          {SNOOZE_OPTIONS.map(option => (
+                            <button
+                              key={option.days}
+                              onClick={() => handleSnooze(question, option.days)}
+                              className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-orange-50"
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleDismiss(question)}
+                      className="p-1 text-gray-500 hover:text-gray-700"
+                      title="Not interested"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleStartQuestion(question)}
+                      className="flex items-center space-x-2 text-orange-600 hover:text-orange-700 font-medium"
+                    >
+                      <Play className="w-4 h-4" />
+                      <span>Start</span>
+                    </button>
                   </div>
-                  <button
-                    onClick={() => handleStartQuestion(question)}
-                    className="flex items-center space-x-2 text-orange-600 hover:text-orange-700 font-medium"
-                  >
-                    <Play className="w-4 h-4" />
-                    <span>Start</span>
-                  </button>
                 </div>
 
                 <h3 className="text-xl font-semibold text-gray-900">
@@ -170,6 +278,12 @@ export const QuestionsView: React.FC = () => {
             ))}
           </div>
         )}
+
+        {snoozedCount > 0 && (
+          <p className="text-sm text-gray-500 text-center mt-6">
+            {snoozedCount === 1 ? '1 snoozed question will' : `${snoozedCount} snoozed questions will`} come back later
+          </p>
+        )}
       </div>
 
       {selectedCategory && (
@@ -187,6 +301,7 @@ export const QuestionsView: React.FC = () => {
           <CallModal
             isOpen={isCallModalOpen}
             onClose={handleCallModalClose}
+            recordingMode={recordingMode}
             category={selectedCategory}
             question={selectedQuestion}
           />
@@ -1,22 +1,50 @@
 import React, { useState, useEffect } from 'react';
 import { useAuthState } from 'react-firebase-hooks/auth';
-import { collection, query, where, getDocs, doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { auth, db } from '../lib/firebase';
+import { useRepositories } from '../lib/repositories';
 import { Story } from '../types/story';
 import { Category } from '../types/category';
+import { RecurringSchedule } from '../types/schedule';
 import { User } from '../types/user';
 import { CallModal } from './CallModal';
 import { ConversationTypeModal } from './scheduling/ConversationTypeModal';
 import { SchedulingModal } from './scheduling/SchedulingModal';
+import { ScheduleHistory } from './scheduling/ScheduleHistory';
+import { ScheduleStatusBadge } from './scheduling/ScheduleStatusBadge';
 import { CountdownTimer } from './CountdownTimer';
-import { Calendar, Edit2, Trash2, Clock } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { Calendar, CalendarClock, Edit2, Trash2, Clock, Repeat, SkipForward, XCircle, PhoneCall } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
 import toast from 'react-hot-toast';
+import { describeRule } from '../lib/recurrence';
+import {
+  cancelScheduledCall,
+  removeRecurringSchedule,
+  rescheduleOccurrence,
+  skipOccurrence,
+  syncRecurringSchedules,
+} from '../lib/scheduling';
+import { reminderRecipient } from '../lib/reminders';
+import { dateToZonedTime, formatCallTime, parseLocalDateTime, timeZoneLabel } from '../lib/timeZones';
+
+// Most recent finished calls listed under the schedule
+const PAST_CALLS_SHOWN = 10;
+
+// "10:00 AM" for a schedule's wall-clock start
+const formatStartTime = (schedule: RecurringSchedule) => {
+  const { hour, minute } = parseLocalDateTime(schedule.start);
+  return format(new Date(2000, 0, 1, hour, minute), 'h:mm a');
+};
 
 export const ScheduledView: React.FC = () => {
   const [user] = useAuthState(auth);
   const [userData, setUserData] = useState<User | null>(null);
   const [stories, setStories] = useState<Story[]>([]);
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([]);
+  // Calls that are over, kept for their audit trail
+  const [pastCalls, setPastCalls] = useState<Story[]>([]);
+  // Occurrence being moved, and its new time in the schedule's time zone
+  const [rescheduling, setRescheduling] = useState<{ storyId: string; dateTime: string } | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [selectedStory, setSelectedStory] = useState<Story | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
@@ -24,6 +52,7 @@ export const ScheduledView: React.FC = () => {
   const [showSchedulingModal, setShowSchedulingModal] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const mobile = window.innerWidth <= 768;
+  const repositories = useRepositories();
 
   useEffect(() => {
     const fetchData = async () => {
@@ -34,40 +63,21 @@ export const ScheduledView: React.FC = () => {
 
         // Fetch user data
         const userDoc = await getDoc(doc(db, 'users', user.uid));
-        if (userDoc.exists()) {
-          setUserData(userDoc.data() as User);
-        }
-
-        // Fetch categories
-        const categoriesSnapshot = await getDocs(collection(db, 'categories'));
-        const categoriesData = categoriesSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as Category));
-        setCategories(categoriesData);
+        const profile = userDoc.exists() ? (userDoc.data() as User) : null;
+        setUserData(profile);
 
-        // Fetch scheduled stories
-        const storiesQuery = query(
-          collection(db, 'stories'),
-          where('userId', '==', user.uid),
-          where('nextSchedule.status', '==', 'scheduled')
-        );
-        const storiesSnapshot = await getDocs(storiesQuery);
-        const storiesData = storiesSnapshot.docs
-          .map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          } as Story))
-          // .filter(story => !story.isOnboardingStory);
-
-        // Sort by scheduled date
-        storiesData.sort((a, b) => {
-          const dateA = a.nextSchedule?.dateTime.toDate() || new Date();
-          const dateB = b.nextSchedule?.dateTime.toDate() || new Date();
-          return dateA.getTime() - dateB.getTime();
-        });
-        
-        setStories(storiesData);
+        const [categoriesData, schedulesData] = await Promise.all([
+          repositories.categories.listForUser(user.uid, { includeArchived: true }),
+          syncRecurringSchedules(repositories, reminderRecipient(user.uid, profile)),
+        ]);
+        setCategories(categoriesData);
+        setSchedules(schedulesData);
+        const [scheduled, finished] = await Promise.all([
+          repositories.stories.listScheduled(user.uid),
+          repositories.stories.listFinishedSchedules(user.uid),
+        ]);
+        setStories(scheduled);
+        setPastCalls(finished);
       } catch (error) {
         console.error('Error fetching data:', error);
         toast.error('Failed to load scheduled conversations');
@@ -77,7 +87,64 @@ export const ScheduledView: React.FC = () => {
     };
 
     fetchData();
-  }, [user]);
+  }, [user, repositories]);
+
+  const refreshSchedules = async () => {
+    if (!user?.uid) return;
+    try {
+      setSchedules(await syncRecurringSchedules(repositories, reminderRecipient(user.uid, userData)));
+      setStories(await repositories.stories.listScheduled(user.uid));
+    } catch (error) {
+      console.error('Error refreshing schedules:', error);
+    }
+  };
+
+  const scheduleFor = (story: Story) => schedules.find(schedule => schedule.id === story.nextSchedule?.scheduleId);
+
+  const handleSkipOccurrence = async (story: Story, schedule: RecurringSchedule) => {
+    try {
+      await skipOccurrence(repositories, schedule, story);
+      toast.success('This call was skipped');
+      await refreshSchedules();
+    } catch (error) {
+      console.error('Error skipping call:', error);
+      toast.error('Failed to skip this call');
+    }
+  };
+
+  const handleRescheduleOccurrence = async (story: Story, schedule: RecurringSchedule) => {
+    if (!rescheduling?.dateTime || !user?.uid) return;
+    try {
+      await rescheduleOccurrence(
+        repositories,
+        reminderRecipient(user.uid, userData),
+        schedule,
+        story,
+        rescheduling.dateTime
+      );
+      setRescheduling(null);
+      toast.success('Call rescheduled');
+      await refreshSchedules();
+    } catch (error) {
+      console.error('Error rescheduling call:', error);
+      toast.error('Failed to reschedule this call');
+    }
+  };
+
+  const handleStopRepeating = async (schedule: RecurringSchedule) => {
+    if (!window.confirm('Stop these recurring calls? Calls already booked will be cancelled.')) return;
+    try {
+      await removeRecurringSchedule(repositories, schedule, stories);
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+      setStories(prev =>
+        prev.filter(s => s.nextSchedule?.scheduleId !== schedule.id || s.nextSchedule.status !== 'scheduled')
+      );
+      toast.success('Recurring calls stopped');
+    } catch (error) {
+      console.error('Error removing recurring schedule:', error);
+      toast.error('Failed to stop recurring calls');
+    }
+  };
 
   const handleEditSchedule = (story: Story) => {
     const category = categories.find(c => c.id === story.categoryId);
@@ -88,18 +155,19 @@ export const ScheduledView: React.FC = () => {
     }
   };
 
-  const handleDeleteSchedule = async (story: Story) => {
+  const handleCancelSchedule = async (story: Story) => {
+    if (!window.confirm('Cancel this call?')) return;
     try {
-      await updateDoc(doc(db, 'stories', story.id), {
-        nextSchedule: null,
-        lastUpdationTime: serverTimestamp()
-      });
-      
+      await cancelScheduledCall(repositories, story);
+
       setStories(prevStories => prevStories.filter(s => s.id !== story.id));
-      toast.success('Schedule deleted successfully');
+      if (user?.uid) {
+        setPastCalls(await repositories.stories.listFinishedSchedules(user.uid));
+      }
+      toast.success('Call cancelled');
     } catch (error) {
-      console.error('Error deleting schedule:', error);
-      toast.error('Failed to delete schedule');
+      console.error('Error cancelling call:', error);
+      toast.error('Failed to cancel call');
     }
   };
 
@@ -112,25 +180,7 @@ export const ScheduledView: React.FC = () => {
     const fetchStories = async () => {
       if (!user?.uid) return;
       try {
-        const storiesQuery = query(
-          collection(db, 'stories'),
-          where('userId', '==', user.uid),
-          where('nextSchedule.status', '==', 'scheduled')
-        );
-        const storiesSnapshot = await getDocs(storiesQuery);
-        const storiesData = storiesSnapshot.docs
-          .map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          } as Story))
-          // .filter(story => !story.isOnboardingStory);
-
-        storiesData.sort((a, b) => {
-          const dateA = a.nextSchedule?.dateTime.toDate() || new Date();
-          const dateB = b.nextSchedule?.dateTime.toDate() || new Date();
-          return dateA.getTime() - dateB.getTime();
-        });
-        
+        const storiesData = await repositories.stories.listScheduled(user.uid);
         setStories(storiesData);
       } catch (error) {
         console.error('Error refreshing stories:', error);
@@ -157,7 +207,7 @@ export const ScheduledView: React.FC = () => {
           </p>
         </div>
 
-        {stories.length === 0 ? (
+        {stories.length === 0 && schedules.length === 0 ? (
           <div className="text-center py-12">
             <Calendar className="w-16 h-16 mx-auto text-gray-400 mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No scheduled conversations</h3>
@@ -167,54 +217,196 @@ export const ScheduledView: React.FC = () => {
           </div>
         ) : (
           <div className="space-y-4">
-            {stories.map((story, index) => (
-              <div
-                key={story.id}
-                className={`bg-white rounded-lg shadow-sm p-6 ${index === 0 ? 'ring-2 ring-orange-500' : ''}`}
-              >
-                <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center space-x-3">
-                    <span className="px-3 py-1 bg-gray-100 rounded-full text-sm font-medium text-gray-700">
-                      {categories.find(c => c.id === story.categoryId)?.title}
-                    </span>
-                    {!mobile?<span className="text-gray-500">
-                      {index === 0 ? 'Upcoming Conversation' : 'Scheduled Conversation'}
-                    </span>:""}
+            {stories.map((story, index) => {
+              const schedule = scheduleFor(story);
+              // Calls being dialed or under way can no longer be changed
+              const waiting = story.nextSchedule?.status === 'scheduled';
+
+              return (
+                <div
+                  key={story.id}
+                  className={`bg-white rounded-lg shadow-sm p-6 ${index === 0 ? 'ring-2 ring-orange-500' : ''}`}
+                >
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center space-x-3">
+                      <span className="px-3 py-1 bg-gray-100 rounded-full text-sm font-medium text-gray-700">
+                        {categories.find(c => c.id === story.categoryId)?.title}
+                      </span>
+                      {story.nextSchedule && <ScheduleStatusBadge status={story.nextSchedule.status} />}
+                      {!mobile?<span className="text-gray-500">
+                        {index === 0 ? 'Upcoming Conversation' : 'Scheduled Conversation'}
+                      </span>:""}
+                      {schedule && (
+                        <span className="flex items-center text-sm text-orange-600">
+                          <Repeat className="w-4 h-4 mr-1" />
+                          {describeRule(schedule.rrule)}
+                        </span>
+                      )}
+                    </div>
+                    {waiting && schedule && (
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() =>
+                            setRescheduling({
+                              storyId: story.id,
+                              dateTime: dateToZonedTime(story.nextSchedule!.dateTime.toDate(), schedule.timeZone),
+                            })
+                          }
+                          className="p-2 text-orange-600 hover:text-orange-700 hover:bg-orange-50 rounded-full transition-colors"
+                          title="Reschedule This Call"
+                        >
+                          <CalendarClock className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleSkipOccurrence(story, schedule)}
+                          className="p-2 text-gray-600 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+                          title="Skip This Call"
+                        >
+                          <SkipForward className="w-5 h-5" />
+                        </button>
+                      </div>
+                    )}
+                    {waiting && !schedule && (
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleEditSchedule(story)}
+                          className="p-2 text-orange-600 hover:text-orange-700 hover:bg-orange-50 rounded-full transition-colors"
+                          title="Edit Schedule"
+                        >
+                          <Edit2 className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleCancelSchedule(story)}
+                          className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-full transition-colors"
+                          title="Cancel Call"
+                        >
+                          <XCircle className="w-5 h-5" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  <h3 className="text-xl font-semibold text-gray-900 mb-4">
+                    {story.initialQuestion}
+                  </h3>
+
+                  <div className="flex items-center space-x-6 text-sm text-gray-500">
+                    <div className="flex items-center">
+                      <Clock className="w-4 h-4 mr-2" />
+                      {!waiting ? (
+                        <span className="flex items-center text-blue-700">
+                          <PhoneCall className="w-4 h-4 mr-2" />
+                          {story.nextSchedule?.status === 'dialing' ? 'Calling now' : 'Conversation in progress'}
+                        </span>
+                      ) : index === 0 ? (
+                        <CountdownTimer
+                          targetDate={story.nextSchedule?.dateTime.toDate() || new Date()}
+                          timeZone={story.nextSchedule?.timeZone}
+                        />
+                      ) : (
+                        <div>
+                          <p>{`Scheduled for ${formatDistanceToNow(story.nextSchedule?.dateTime.toDate() || new Date(), { addSuffix: true })}`}</p>
+                          {story.nextSchedule && (
+                            <p className="text-xs mt-1">
+                              {formatCallTime(story.nextSchedule.dateTime.toDate(), story.nextSchedule.timeZone)}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <button
-                      onClick={() => handleEditSchedule(story)}
-                      className="p-2 text-orange-600 hover:text-orange-700 hover:bg-orange-50 rounded-full transition-colors"
-                      title="Edit Schedule"
-                    >
-                      <Edit2 className="w-5 h-5" />
-                    </button>
-                    <button
-                      onClick={() => handleDeleteSchedule(story)}
-                      className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-full transition-colors"
-                      title="Delete Schedule"
-                    >
-                      <Trash2 className="w-5 h-5" />
-                    </button>
+
+                  {story.nextSchedule && <ScheduleHistory schedule={story.nextSchedule} />}
+
+                  {schedule && rescheduling?.storyId === story.id && (
+                    <div className="mt-4 pt-4 border-t border-gray-100 flex flex-wrap items-center gap-3">
+                      <input
+                        type="datetime-local"
+                        value={rescheduling.dateTime}
+                        onChange={(e) => setRescheduling({ storyId: story.id, dateTime: e.target.value })}
+                        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                      />
+                      <span className="text-sm text-gray-500">{timeZoneLabel(schedule.timeZone)}</span>
+                      <button
+                        onClick={() => handleRescheduleOccurrence(story, schedule)}
+                        className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setRescheduling(null)}
+                        className="px-4 py-2 text-gray-700 hover:text-gray-900"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {schedules.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4 text-center md:text-left">Recurring Calls</h2>
+            <div className="space-y-4">
+              {schedules.map(schedule => (
+                <div key={schedule.id} className="bg-white rounded-lg shadow-sm p-6 flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center space-x-3 mb-2">
+                      <span className="px-3 py-1 bg-gray-100 rounded-full text-sm font-medium text-gray-700">
+                        {categories.find(c => c.id === schedule.categoryId)?.title}
+                      </span>
+                    </div>
+                    <p className="flex items-center font-medium text-gray-900">
+                      <Repeat className="w-4 h-4 mr-2 text-orange-500" />
+                      {describeRule(schedule.rrule)} at {formatStartTime(schedule)}
+                    </p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {timeZoneLabel(schedule.timeZone)} ·{' '}
+                      {schedule.endDate
+                        ? `Until ${format(new Date(`${schedule.endDate}T00:00`), 'MMMM d, yyyy')}`
+                        : 'No end date'}
+                    </p>
                   </div>
+                  <button
+                    onClick={() => handleStopRepeating(schedule)}
+                    className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-full transition-colors"
+                    title="Stop Repeating"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
                 </div>
+              ))}
+            </div>
+          </div>
+        )}
 
-                <h3 className="text-xl font-semibold text-gray-900 mb-4">
-                  {story.initialQuestion}
-                </h3>
-
-                <div className="flex items-center space-x-6 text-sm text-gray-500">
-                  <div className="flex items-center">
-                    <Clock className="w-4 h-4 mr-2" />
-                    {index === 0 ? (
-                      <CountdownTimer targetDate={story.nextSchedule?.dateTime.toDate() || new Date()} />
-                    ) : (
-                      `Scheduled for ${formatDistanceToNow(story.nextSchedule?.dateTime.toDate() || new Date(), { addSuffix: true })}`
-                    )}
+        {pastCalls.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4 text-center md:text-left">Past Calls</h2>
+            <div className="space-y-4">
+              {pastCalls.slice(0, PAST_CALLS_SHOWN).map(story => (
+                <div key={story.id} className="bg-white rounded-lg shadow-sm p-6">
+                  <div className="flex items-center space-x-3 mb-3">
+                    <span className="px-3 py-1 bg-gray-100 rounded-full text-sm font-medium text-gray-700">
+                      {categories.find(c => c.id === story.categoryId)?.title}
+                    </span>
+                    {story.nextSchedule && <ScheduleStatusBadge status={story.nextSchedule.status} />}
                   </div>
+                  <h3 className="text-lg font-medium text-gray-900">{story.initialQuestion}</h3>
+                  {story.nextSchedule && (
+                    <>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {formatCallTime(story.nextSchedule.dateTime.toDate(), story.nextSchedule.timeZone)}
+                      </p>
+                      <ScheduleHistory schedule={story.nextSchedule} />
+                    </>
+                  )}
                 </div>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
         )}
       </div>
@@ -15,6 +15,8 @@ import {
 import { AccountSettings } from './settings/AccountSettings';
 import { AISettings } from './settings/AISettings';
 import { StorySettings } from './settings/StorySettings';
+import { NotificationSettings } from './settings/NotificationSettings';
+import { CollectionSettings } from './settings/CollectionSettings';
 
 type SettingsTab = 'account' | 'ai' | 'story' | 'notifications' | 'privacy' | 'media' | 'billing';
 
@@ -82,6 +84,10 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ onSettingsUpdate })
         return <AISettings userData={userData} onSettingsUpdate={handleSettingsUpdate} />;
       case 'story':
         return <StorySettings userData={userData} onSettingsUpdate={handleSettingsUpdate} />;
+      case 'notifications':
+        return <NotificationSettings userData={userData} onSettingsUpdate={handleSettingsUpdate} />;
+      case 'privacy':
+        return <CollectionSettings userData={userData} />;
       default:
         return (
           <div className="p-6">
@@ -1,21 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { NavLink, useNavigate } from 'react-router-dom';
-import { Book, Settings, Package, HelpCircle, LogOut, Calendar, History, X, Menu } from 'lucide-react';
+import { Book, Settings, Package, HelpCircle, LogOut, Calendar, History, X, Menu, Bell, FolderHeart, Users, MapPin, GanttChart } from 'lucide-react';
 import { signOut } from 'firebase/auth';
+import { useAuthState } from 'react-firebase-hooks/auth';
 import { auth, storage } from '../lib/firebase';
 import { ref, getDownloadURL } from 'firebase/storage';
 import toast from 'react-hot-toast';
+import { useCollections } from '../hooks/useCollections';
+import { useUnreadComments } from '../hooks/useComments';
+import { useNotifications } from '../hooks/useNotifications';
+import { DEFAULT_COLLECTION_NAME } from '../lib/repositories';
 
 interface SidebarProps {
   userName: string;
-  collectionName: string;
   profileImageUrl?: string;
   refreshTrigger?: number;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({ 
   userName, 
-  collectionName, 
   profileImageUrl,
   refreshTrigger = 0
 }) => {
@@ -24,6 +27,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const [imageError, setImageError] = useState(false);
   const [open, setOpen] = useState(window.innerWidth>768);
   const [mobile, setMobile] = useState(window.innerWidth<=768);
+  const [user] = useAuthState(auth);
+  const { collections, active, ownerId, role, setActiveId } = useCollections();
+  const { total: unreadComments } = useUnreadComments(ownerId, user?.uid);
+  const { unreadCount: unreadNotifications } = useNotifications(user?.uid);
+  // Shared collections are titled after the family member who owns them
+  const ownerName = active && role !== 'owner' ? active.members[active.ownerId]?.name || userName : userName;
 
   useEffect(() => {
     const loadProfileImage = async () => {
@@ -83,7 +92,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
       </div>:""}
       <div className="p-4">
         <div className="flex items-center space-x-3 mb-6">
-          {!imageError && imageUrl ? (
+          {role === 'owner' && !imageError && imageUrl ? (
             <img
               src={imageUrl}
               alt={userName}
@@ -96,15 +105,33 @@ export const Sidebar: React.FC<SidebarProps> = ({
             />
           ) : (
             <div className="w-8 h-8 rounded-full bg-orange-500 flex items-center justify-center">
-              <span className="text-white font-semibold">{userName[0]?.toUpperCase() || '?'}</span>
+              <span className="text-white font-semibold">{ownerName[0]?.toUpperCase() || '?'}</span>
             </div>
           )}
           <div>
-            <h2 className="font-semibold text-gray-900">{userName}'s Stories</h2>
-            <p className="text-sm text-gray-500">{collectionName}</p>
+            <h2 className="font-semibold text-gray-900">{ownerName}'s Stories</h2>
+            <p className="text-sm text-gray-500">{active?.name || DEFAULT_COLLECTION_NAME}</p>
           </div>
         </div>
 
+        {collections.length > 1 && (
+          <select
+            value={active?.id}
+            onChange={(e) => {
+              setActiveId(e.target.value);
+              navigate('/stories');
+            }}
+            className="w-full mb-6 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+            aria-label="Switch collection"
+          >
+            {collections.map((collection) => (
+              <option key={collection.id} value={collection.id}>
+                {collection.name} · {collection.members[collection.ownerId]?.name}
+              </option>
+            ))}
+          </select>
+        )}
+
         <nav className="space-y-1">
           <NavLink
             to="/stories"
@@ -119,6 +146,76 @@ export const Sidebar: React.FC<SidebarProps> = ({
           >
             <Book className="w-5 h-5" />
             <span>Stories</span>
+            {unreadComments > 0 && (
+              <span className="ml-auto px-2 py-0.5 bg-orange-500 text-white text-xs font-medium rounded-full" title="New comments">
+                {unreadComments}
+              </span>
+            )}
+          </NavLink>
+
+          <NavLink
+            to="/timeline"
+            className={({ isActive }) =>
+              `flex items-center space-x-3 px-3 py-2 rounded-lg transition-colors ${
+                isActive
+                  ? 'bg-orange-50 text-orange-600'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`
+            }
+            onClick={() => {if(mobile) setOpen(false);}}
+          >
+            <GanttChart className="w-5 h-5" />
+            <span>Timeline</span>
+          </NavLink>
+
+          <NavLink
+            to="/notifications"
+            className={({ isActive }) =>
+              `flex items-center space-x-3 px-3 py-2 rounded-lg transition-colors ${
+                isActive
+                  ? 'bg-orange-50 text-orange-600'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`
+            }
+            onClick={() => {if(mobile) setOpen(false);}}
+          >
+            <Bell className="w-5 h-5" />
+            <span>Notifications</span>
+            {unreadNotifications > 0 && (
+              <span className="ml-auto px-2 py-0.5 bg-orange-500 text-white text-xs font-medium rounded-full">
+                {unreadNotifications}
+              </span>
+            )}
+          </NavLink>
+
+          <NavLink
+            to="/people"
+            className={({ isActive }) =>
+              `flex items-center space-x-3 px-3 py-2 rounded-lg transition-colors ${
+                isActive
+                  ? 'bg-orange-50 text-orange-600'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`
+            }
+            onClick={() => {if(mobile) setOpen(false);}}
+          >
+            <Users className="w-5 h-5" />
+            <span>People</span>
+          </NavLink>
+
+          <NavLink
+            to="/places"
+            className={({ isActive }) =>
+              `flex items-center space-x-3 px-3 py-2 rounded-lg transition-colors ${
+                isActive
+                  ? 'bg-orange-50 text-orange-600'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`
+            }
+            onClick={() => {if(mobile) setOpen(false);}}
+          >
+            <MapPin className="w-5 h-5" />
+            <span>Places</span>
           </NavLink>
 
           <NavLink
@@ -136,6 +233,21 @@ export const Sidebar: React.FC<SidebarProps> = ({
             <span>Questions</span>
           </NavLink>
 
+          <NavLink
+            to="/categories"
+            className={({ isActive }) =>
+              `flex items-center space-x-3 px-3 py-2 rounded-lg transition-colors ${
+                isActive
+                  ? 'bg-orange-50 text-orange-600'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`
+            }
+            onClick={() => {if(mobile) setOpen(false);}}
+          >
+            <FolderHeart className="w-5 h-5" />
+            <span>{role === 'owner' ? 'My Categories' : 'Suggest a Question'}</span>
+          </NavLink>
+
           <NavLink
             to="/scheduled"
             className={({ isActive }) =>
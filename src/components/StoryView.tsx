@@ -1,85 +1,212 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { Story } from '../types/story';
-import { ArrowLeft, Share, Download, User, Bot, Image as ImageIcon, Volume2, VolumeX, Play, MessageSquare, Book } from 'lucide-react';
+import { StorySession } from '../types/story';
+import { ArrowLeft, Share, Download, Image as ImageIcon, Volume2, VolumeX, Play, MessageSquare, Book, Pencil, History } from 'lucide-react';
 import { format } from 'date-fns';
-import { Timestamp, doc, getDoc } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { Timestamp } from 'firebase/firestore';
+import { sanitizeHtml } from '../lib/sanitize';
+import { findWordAt, indexWords, isSameWord, pauseEndAt, TranscriptMatch, transcriptWordId, WordPosition } from '../lib/transcript';
+import { useRepositories } from '../lib/repositories';
+import { useStory } from '../hooks/useStory';
+import { useCollections } from '../hooks/useCollections';
+import { useCommentAuthor, useComments, useTargetReactions } from '../hooks/useComments';
+import { can } from '../lib/permissions';
+import { threadIdFor } from '../lib/comments';
+import { locateAnchor, renderedText, TextRange } from '../lib/textAnchors';
+import { BrowsableKind, ENTITY_ROUTES, findEntityMentions } from '../lib/entities';
+import { CommentAnchor, ReactionKey, StoryComment } from '../types/comment';
 import toast from 'react-hot-toast';
 import { CallModal } from './CallModal';
 import { ConversationTypeModal } from './scheduling/ConversationTypeModal';
 import { SchedulingModal } from './scheduling/SchedulingModal';
 import { Category } from '../types/category';
+import { Entity } from '../types/entity';
+import { RecordingMode } from '../types/user';
+import { StoryEditor } from './story/StoryEditor';
+import { RevisionHistory } from './story/RevisionHistory';
+import { TranscriptView } from './story/TranscriptView';
+import { TranscriptSearch } from './story/TranscriptSearch';
+import { AnnotatedStoryText } from './comments/AnnotatedStoryText';
+import { CommentThread } from './comments/CommentThread';
+import { ReactionBar } from './comments/ReactionBar';
 
 type Tab = 'story' | 'conversation';
 
-interface TranscriptMessage {
-  role: string;
-  content: string;
-  words: Array<{
-    word: string;
-    start: number;
-    end: number;
-  }>;
-  metadata?: {
-    response_id: number;
-  };
-}
+// Session comments are shown with their conversation, everything else under the story
+const isStoryComment = (anchor: CommentAnchor) => anchor.type !== 'session';
+
+const isSessionComment = (sessionId: string) => (anchor: CommentAnchor) =>
+  anchor.type === 'session' && anchor.sessionId === sessionId;
 
 export const StoryView: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('story');
-  const [story, setStory] = useState<Story | null>(null);
+  const [entities, setEntities] = useState<Entity[]>([]);
   const [category, setCategory] = useState<Category | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
   const [audioMuted, setAudioMuted] = useState<{ [key: string]: boolean }>({});
   const [isCallModalOpen, setIsCallModalOpen] = useState(false);
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>('video');
   const [showConversationTypeModal, setShowConversationTypeModal] = useState(false);
   const [showSchedulingModal, setShowSchedulingModal] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [activeWord, setActiveWord] = useState<(WordPosition & { sessionId: string }) | null>(null);
+  const [selectedMatch, setSelectedMatch] = useState<TranscriptMatch | null>(null);
+  const [commentAnchor, setCommentAnchor] = useState<CommentAnchor>({ type: 'whole' });
+  const [focusedCommentId, setFocusedCommentId] = useState<string | null>(null);
+  const [openSessionComments, setOpenSessionComments] = useState<{ [key: string]: boolean }>({});
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
+  const repositories = useRepositories();
+  const { story, isLoading, error } = useStory(id);
+  const { roleIn } = useCollections();
+  const threadId = id ? threadIdFor({ type: 'story', storyId: id }) : undefined;
+  const { comments } = useComments(threadId);
+  const storyReactions = useTargetReactions(threadId);
+  const { author, canComment } = useCommentAuthor(story?.userId);
+  const commenterId = author?.id;
   const audioRefs = useRef<{ [key: string]: HTMLAudioElement }>({});
   const videoRefs = useRef<{ [key: string]: HTMLVideoElement }>({});
+  const playbackFrameRef = useRef<number>();
 
   useEffect(() => {
-    const fetchData = async () => {
-      if (!id) {
-        toast.error('Story ID not found');
-        navigate('/stories');
-        return;
-      }
+    if (!id) {
+      toast.error('Story ID not found');
+      navigate('/stories');
+      return;
+    }
+    if (isLoading) return;
+
+    if (error) {
+      toast.error('Failed to load story');
+      navigate('/stories');
+    } else if (!story) {
+      toast.error('Story not found');
+      navigate('/stories');
+    }
+  }, [id, story, isLoading, error, navigate]);
 
-      try {
-        const storyDoc = await getDoc(doc(db, 'stories', id));
-        if (!storyDoc.exists()) {
-          toast.error('Story not found');
-          navigate('/stories');
-          return;
-        }
+  const categoryId = story?.categoryId;
+  const storyOwnerId = story?.userId;
 
-        const storyData = { id: storyDoc.id, ...storyDoc.data() } as Story;
-        setStory(storyData);
+  useEffect(() => {
+    if (!categoryId) return;
 
-        // Fetch category data
-        const categoryDoc = await getDoc(doc(db, 'categories', storyData.categoryId));
-        if (categoryDoc.exists()) {
-          setCategory({ id: categoryDoc.id, ...categoryDoc.data() } as Category);
-        }
+    const fetchCategory = async () => {
+      try {
+        setCategory(await repositories.categories.getById(categoryId, storyOwnerId));
       } catch (error) {
-        console.error('Error fetching story:', error);
-        toast.error('Failed to load story');
-        navigate('/stories');
-      } finally {
-        setIsLoading(false);
+        console.error('Error fetching category:', error);
       }
     };
 
-    fetchData();
-  }, [id, navigate]);
+    fetchCategory();
+  }, [categoryId, storyOwnerId, repositories]);
+
+  useEffect(() => {
+    if (!storyOwnerId) return;
+
+    repositories.entities
+      .listByUser(storyOwnerId)
+      .then(setEntities)
+      .catch(error => console.error('Error fetching entities:', error));
+  }, [storyOwnerId, repositories]);
+
+  const sessions = story?.sessions;
+
+  const sortedSessions = useMemo(
+    () =>
+      sessions
+        ? Object.entries(sessions).sort((a, b) => b[1].creationTime.toMillis() - a[1].creationTime.toMillis())
+        : [],
+    [sessions]
+  );
+
+  const timedWords = useMemo(
+    () =>
+      Object.fromEntries(
+        sortedSessions.map(([sessionId, session]) => [sessionId, indexWords(session.transcript_object || [])])
+      ),
+    [sortedSessions]
+  );
+
+  useEffect(() => () => cancelAnimationFrame(playbackFrameRef.current ?? 0), []);
+
+  // Video drives playback when there is one; the audio element is only synced to it
+  const getPlaybackElement = (sessionId: string): HTMLMediaElement | undefined =>
+    videoRefs.current[sessionId] || audioRefs.current[sessionId];
+
+  const updateActiveWord = (sessionId: string) => {
+    const element = getPlaybackElement(sessionId);
+    if (!element) return;
+
+    const word = findWordAt(timedWords[sessionId] || [], element.currentTime);
+    setActiveWord(prev =>
+      prev?.sessionId === sessionId && isSameWord(prev, word)
+        ? prev
+        : word && { sessionId, messageIndex: word.messageIndex, wordIndex: word.wordIndex }
+    );
+  };
+
+  // timeupdate only fires a few times a second, too coarse to follow single words
+  const trackPlayback = (sessionId: string) => {
+    cancelAnimationFrame(playbackFrameRef.current ?? 0);
+
+    const pauses = story?.sessions[sessionId]?.recordingPauses ?? [];
+    const tick = () => {
+      // Breaks were recorded as silence, so play straight past them
+      const element = getPlaybackElement(sessionId);
+      const resumeAt = element ? pauseEndAt(pauses, element.currentTime) : null;
+      if (element && resumeAt !== null) {
+        element.currentTime = resumeAt;
+      }
+      updateActiveWord(sessionId);
+      if (!getPlaybackElement(sessionId)?.paused) {
+        playbackFrameRef.current = requestAnimationFrame(tick);
+      }
+    };
+    tick();
+  };
+
+  const seekTo = (sessionId: string, time: number) => {
+    const element = getPlaybackElement(sessionId);
+    if (!element) return;
+
+    element.currentTime = time;
+    element.play().catch(error => {
+      console.error('Error playing recording:', error);
+    });
+    updateActiveWord(sessionId);
+  };
+
+  const handleMatchSelect = (match: TranscriptMatch) => {
+    setSelectedMatch(match);
+    document
+      .getElementById(transcriptWordId(match.sessionId, match))
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    if (getPlaybackElement(match.sessionId)) {
+      seekTo(match.sessionId, match.start);
+    }
+  };
 
   const formatDate = (timestamp: Timestamp) => {
     return format(timestamp.toDate(), 'MMMM d, yyyy');
   };
 
+  // Recordings made before the call audio was mixed in are silent, so they play the Retell WAV alongside
+  const hasSeparateAudio = (session: StorySession) => !session.videoHasAudio && !!session.recording_url;
+
+  // Audio-only sessions have their own mixed recording; otherwise fall back to Retell's WAV
+  const sessionAudio = (session: StorySession) =>
+    session.audioUrl && session.audioComplete
+      ? {
+          url: session.audioUrl,
+          type: session.audioMimeType || 'audio/webm',
+          fileName: session.audioMimeType === 'audio/mp4' ? 'audio_recording.m4a' : 'audio_recording.webm',
+        }
+      : session.recording_url
+        ? { url: session.recording_url, type: 'audio/wav', fileName: 'audio_recording.wav' }
+        : null;
+
   const handleVideoPlay = (sessionId: string) => {
     const video = videoRefs.current[sessionId];
     const audio = audioRefs.current[sessionId];
@@ -148,45 +275,17 @@ export const StoryView: React.FC = () => {
     });
   };
 
-  const renderTranscriptObject = (messages: TranscriptMessage[]) => {
-    return messages.map((message, index) => {
-      const isAgent = message.role === 'agent';
-      
-      return (
-        <div
-          key={index}
-          className={`p-4 rounded-lg mb-4 ${
-            isAgent ? 'bg-orange-50' : 'bg-blue-50'
-          }`}
-        >
-          <div className="flex items-center mb-2">
-            <div
-              className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                isAgent ? 'bg-orange-500' : 'bg-blue-500'
-              } text-white`}
-            >
-              {isAgent ? <Bot className="w-5 h-5" /> : <User className="w-5 h-5" />}
-            </div>
-            <span className="ml-3 font-medium">
-              {isAgent ? 'StoryMindAI' : 'You'}
-            </span>
-          </div>
-          <p className="text-gray-700 whitespace-pre-wrap">{message.content}</p>
-        </div>
-      );
-    });
-  };
-
-  const renderSessionMedia = (sessionId: string, session: any) => {
-    if (!session.videoUrl && !session.recording_url) return null;
+  const renderSessionMedia = (sessionId: string, session: StorySession) => {
+    const audio = sessionAudio(session);
+    if (!session.videoUrl && !audio) return null;
 
     return (
       <div className="mb-6">
         <div className="flex justify-end items-center space-x-4 mb-4">
-          {session.recording_url && (
+          {audio && (
             <a 
-              href={session.recording_url}
-              download="audio_recording.wav"
+              href={audio.url}
+              download={audio.fileName}
               className="text-orange-600 hover:text-orange-700 flex items-center"
             >
               <Download className="w-4 h-4 mr-1" />
@@ -196,7 +295,7 @@ export const StoryView: React.FC = () => {
           {session.videoUrl && session.videoComplete && (
             <a 
               href={session.videoUrl}
-              download="video_recording.webm"
+              download={session.videoMimeType === 'video/mp4' ? 'video_recording.mp4' : 'video_recording.webm'}
               className="text-orange-600 hover:text-orange-700 flex items-center"
             >
               <Download className="w-4 h-4 mr-1" />
@@ -212,20 +311,24 @@ export const StoryView: React.FC = () => {
                 if (el) videoRefs.current[sessionId] = el;
               }}
               className="w-full h-full"
-              onPlay={() => handleVideoPlay(sessionId)}
+              onPlay={() => {
+                handleVideoPlay(sessionId);
+                trackPlayback(sessionId);
+              }}
               onPause={() => handleVideoPause(sessionId)}
+              onSeeked={() => updateActiveWord(sessionId)}
               onTimeUpdate={() => handleVideoTimeUpdate(sessionId)}
               onEnded={() => handleVideoEnded(sessionId)}
               controls
               playsInline
-              muted
+              muted={!session.videoHasAudio}
               preload="metadata"
             >
-              <source src={session.videoUrl} type="video/webm" />
+              <source src={session.videoUrl} type={session.videoMimeType || 'video/webm'} />
               Your browser does not support the video element.
             </video>
             
-            {session.recording_url && (
+            {hasSeparateAudio(session) && (
               <audio
                 ref={el => {
                   if (el) {
@@ -238,7 +341,7 @@ export const StoryView: React.FC = () => {
               />
             )}
 
-            {session.recording_url && (
+            {hasSeparateAudio(session) && (
               <button
                 onClick={() => toggleAudio(sessionId)}
                 className="absolute bottom-4 right-4 p-2 bg-white/90 rounded-full hover:bg-white transition-colors"
@@ -254,13 +357,18 @@ export const StoryView: React.FC = () => {
           </div>
         )}
         
-        {!session.videoUrl && session.recording_url && (
-          <audio 
-            controls 
+        {!session.videoUrl && audio && (
+          <audio
+            ref={el => {
+              if (el) audioRefs.current[sessionId] = el;
+            }}
+            controls
             className="w-full"
             preload="metadata"
+            onPlay={() => trackPlayback(sessionId)}
+            onSeeked={() => updateActiveWord(sessionId)}
           >
-            <source src={session.recording_url} type="audio/wav" />
+            <source src={audio.url} type={audio.type} />
             Your browser does not support the audio element.
           </audio>
         )}
@@ -268,26 +376,52 @@ export const StoryView: React.FC = () => {
     );
   };
 
-  const handleCallModalClose = (isProcessingComplete?: boolean) => {
+  const storyHtml = useMemo(() => (story?.storyText ? sanitizeHtml(story.storyText) : ''), [story?.storyText]);
+
+  // Commented passages that are still in the text; edits can remove the rest
+  const { passageHighlights, stalePassageIds } = useMemo(() => {
+    const text = renderedText(storyHtml);
+    const highlights: TextRange[] = [];
+    const stale = new Set<string>();
+    comments.forEach(comment => {
+      if (comment.anchor.type !== 'selection' || comment.parentId || comment.deleted) return;
+      const range = locateAnchor(text, comment.anchor);
+      if (range) {
+        highlights.push({ id: comment.id, ...range });
+      } else {
+        stale.add(comment.id);
+      }
+    });
+    return { passageHighlights: highlights, stalePassageIds: stale };
+  }, [storyHtml, comments]);
+
+  // People and places of the index link to their pages wherever the story mentions them
+  const entityLinks = useMemo(() => {
+    const linkable = entities.filter(
+      (entity): entity is Entity & { kind: BrowsableKind } => entity.kind !== 'date' && !entity.ignored
+    );
+    return findEntityMentions(renderedText(storyHtml), linkable).map(({ entity, start, end }) => ({
+      id: `${ENTITY_ROUTES[entity.kind]}/${entity.id}`,
+      start,
+      end,
+    }));
+  }, [storyHtml, entities]);
+
+  // Viewing the story marks its comments as read, including ones arriving while it is open
+  useEffect(() => {
+    if (!threadId || !commenterId) return;
+    repositories.comments.markRead(commenterId, threadId).catch(error => {
+      console.error('Error marking comments as read:', error);
+    });
+  }, [threadId, commenterId, comments.length, repositories]);
+
+  // The story subscription picks up the new session once processing finishes
+  const handleCallModalClose = () => {
     setIsCallModalOpen(false);
-    if (isProcessingComplete) {
-      // Refresh the story data
-      const fetchStory = async () => {
-        if (!id) return;
-        try {
-          const storyDoc = await getDoc(doc(db, 'stories', id));
-          if (storyDoc.exists()) {
-            setStory({ id: storyDoc.id, ...storyDoc.data() } as Story);
-          }
-        } catch (error) {
-          console.error('Error refreshing story:', error);
-        }
-      };
-      fetchStory();
-    }
   };
 
-  const handleStartNow = () => {
+  const handleStartNow = (mode: RecordingMode) => {
+    setRecordingMode(mode);
     setShowConversationTypeModal(false);
     setIsCallModalOpen(true);
   };
@@ -299,19 +433,6 @@ export const StoryView: React.FC = () => {
 
   const handleSchedulingComplete = () => {
     setShowSchedulingModal(false);
-    // Refresh the story data
-    const fetchStory = async () => {
-      if (!id) return;
-      try {
-        const storyDoc = await getDoc(doc(db, 'stories', id));
-        if (storyDoc.exists()) {
-          setStory({ id: storyDoc.id, ...storyDoc.data() } as Story);
-        }
-      } catch (error) {
-        console.error('Error refreshing story:', error);
-      }
-    };
-    fetchStory();
   };
 
   if (isLoading) {
@@ -326,13 +447,41 @@ export const StoryView: React.FC = () => {
     return null;
   }
 
-  const sortedSessions = story.sessions ? 
-    Object.entries(story.sessions)
-      .sort((a, b) => {
-        const timeA = (a[1].creationTime as Timestamp).toMillis();
-        const timeB = (b[1].creationTime as Timestamp).toMillis();
-        return timeB - timeA; // Sort in descending order
-      }) : [];
+  const role = roleIn(story.userId);
+  const canEdit = can(role, 'edit');
+  // Only the storyteller records new sessions
+  const canContinue = role === 'owner';
+  const commentContext = {
+    target: { type: 'story' as const, storyId: story.id },
+    collectionId: story.userId,
+    title: story.title || story.initialQuestion,
+    link: `/stories/${story.id}`,
+  };
+
+  const handleStoryReaction = async (key: ReactionKey, active: boolean) => {
+    if (!author) return;
+    try {
+      await repositories.comments.toggleTargetReaction(commentContext, author, key, active);
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      toast.error('Failed to update reaction');
+    }
+  };
+
+  const sessionCommentCount = (sessionId: string) =>
+    comments.filter(
+      comment => !comment.parentId && !comment.deleted && isSessionComment(sessionId)(comment.anchor)
+    ).length;
+
+  const describePassage = (comment: StoryComment) =>
+    comment.anchor.type === 'selection' ? (
+      <div className="mb-2 p-2 bg-yellow-50 border-l-4 border-yellow-300 rounded text-sm text-gray-700">
+        <span className="italic line-clamp-2">“{comment.anchor.quote}”</span>
+        {stalePassageIds.has(comment.id) && (
+          <span className="text-xs text-gray-400">This passage has since been edited</span>
+        )}
+      </div>
+    ) : null;
 
   return (
     <div className="p-8">
@@ -346,13 +495,33 @@ export const StoryView: React.FC = () => {
             <span className='hidden md:block'>Back to Stories</span>
           </button>
           <div className="flex items-center space-x-4">
-            <button
-              onClick={() => setShowConversationTypeModal(true)}
-              className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
-            >
-              <Play className="w-5 h-5 mr-2" />
-              Continue Story
-            </button>
+            {canContinue && (
+              <button
+                onClick={() => setShowConversationTypeModal(true)}
+                className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+              >
+                <Play className="w-5 h-5 mr-2" />
+                Continue Story
+              </button>
+            )}
+            {canEdit && !isEditing && (
+              <>
+                <button
+                  onClick={() => setIsEditing(true)}
+                  title="Edit story"
+                  className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                >
+                  <Pencil className="w-5 h-5 text-gray-600" />
+                </button>
+                <button
+                  onClick={() => setShowHistory(true)}
+                  title="Story history"
+                  className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                >
+                  <History className="w-5 h-5 text-gray-600" />
+                </button>
+              </>
+            )}
             <button className="p-2 hover:bg-gray-100 rounded-full transition-colors">
               <Share className="w-5 h-5 text-gray-600" />
             </button>
@@ -379,79 +548,175 @@ export const StoryView: React.FC = () => {
             )}
           </div>
           
-          <div className="p-6">
-            <div className="mb-6">
-              <h1 className="text-3xl font-bold text-gray-900 mb-2">
-                {story.title || story.initialQuestion}
-              </h1>
-              <p className="text-gray-600 italic">
-                {story.description || "A collection of cherished memories"}
-              </p>
-              <div className="mt-2 text-sm text-gray-500">
-                Created on {formatDate(story.creationTime as Timestamp)}
-              </div>
+          {isEditing ? (
+            <div className="p-6">
+              <StoryEditor story={story} onClose={() => setIsEditing(false)} />
             </div>
+          ) : (
+            <div className="p-6">
+              <div className="mb-6">
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                  {story.title || story.initialQuestion}
+                </h1>
+                <p className="text-gray-600 italic">
+                  {story.description || "A collection of cherished memories"}
+                </p>
+                <div className="mt-2 text-sm text-gray-500">
+                  Created on {formatDate(story.creationTime as Timestamp)}
+                </div>
+              </div>
 
-            <div className="border-b border-gray-200">
-              <nav className="flex space-x-8">
-                {(['story', 'conversation'] as Tab[]).map((tab) => (
-                  <button
-                    key={tab}
-                    onClick={() => setActiveTab(tab)}
-                    className={`py-4 px-1 border-b-2 font-medium text-sm ${
-                      activeTab === tab
-                        ? 'border-orange-500 text-orange-600'
-                        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-                    } flex items-center space-x-2`}
-                  >
-                    {tab === 'story' ? (
-                      <Book className="w-4 h-4" />
-                    ) : (
-                      <MessageSquare className="w-4 h-4" />
-                    )}
-                    <span>{tab.charAt(0).toUpperCase() + tab.slice(1)}</span>
-                  </button>
-                ))}
-              </nav>
-            </div>
+              <div className="border-b border-gray-200">
+                <nav className="flex space-x-8">
+                  {(['story', 'conversation'] as Tab[]).map((tab) => (
+                    <button
+                      key={tab}
+                      onClick={() => setActiveTab(tab)}
+                      className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                        activeTab === tab
+                          ? 'border-orange-500 text-orange-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                      } flex items-center space-x-2`}
+                    >
+                      {tab === 'story' ? (
+                        <Book className="w-4 h-4" />
+                      ) : (
+                        <MessageSquare className="w-4 h-4" />
+                      )}
+                      <span>{tab.charAt(0).toUpperCase() + tab.slice(1)}</span>
+                    </button>
+                  ))}
+                </nav>
+              </div>
 
-            <div className="py-6">
-              {activeTab === 'story' && (
-                <div className="prose max-w-none">
-                  {story.storyText ? (
-                    <div dangerouslySetInnerHTML={{ __html: story.storyText }} />
-                  ) : (
-                    <p className="text-gray-600">
-                      This story is still being written. Click "Continue Story" to add more content.
-                    </p>
-                  )}
-                </div>
-              )}
-
-              {activeTab === 'conversation' && (
-                <div className="space-y-8">
-                  {sortedSessions.map(([sessionId, session]) => {
-                    if (!session.transcript_object?.length) return null;
-
-                    return (
-                      <div key={sessionId} className="bg-white rounded-lg shadow-sm p-6">
-                        <div className="mb-4">
-                          <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                            Conversation {formatDate(session.creationTime as Timestamp)}
-                          </h3>
-                          {renderSessionMedia(sessionId, session)}
+              <div className="py-6">
+                {activeTab === 'story' && (
+                  <>
+                    <div className="prose max-w-none">
+                      {story.storyText ? (
+                        <AnnotatedStoryText
+                          html={storyHtml}
+                          highlights={passageHighlights}
+                          links={entityLinks}
+                          canComment={canComment}
+                          onCommentOnPassage={(anchor) => setCommentAnchor({ type: 'selection', ...anchor })}
+                          onHighlightClick={setFocusedCommentId}
+                          onLinkClick={(path) => navigate(path)}
+                        />
+                      ) : (
+                        <p className="text-gray-600">
+                          {canContinue
+                            ? 'This story is still being written. Click "Continue Story" to add more content.'
+                            : 'This story is still being written.'}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="mt-8 pt-6 border-t border-gray-200 space-y-4">
+                      <ReactionBar
+                        reactions={storyReactions}
+                        userId={author?.id}
+                        canReact={canComment}
+                        onToggle={handleStoryReaction}
+                      />
+                      <h3 className="text-lg font-semibold text-gray-900">Comments</h3>
+                      <CommentThread
+                        context={commentContext}
+                        comments={comments}
+                        filter={isStoryComment}
+                        anchor={commentAnchor}
+                        onClearAnchor={() => setCommentAnchor({ type: 'whole' })}
+                        describeAnchor={describePassage}
+                        focusedCommentId={focusedCommentId}
+                      />
+                    </div>
+                  </>
+                )}
+
+                {activeTab === 'conversation' && (
+                  <div className="space-y-8">
+                    <TranscriptSearch
+                      sessions={sortedSessions}
+                      selected={selectedMatch}
+                      onSelect={handleMatchSelect}
+                    />
+                    {sortedSessions.map(([sessionId, session]) => {
+                      // A call whose processing never finished keeps only its live captions
+                      const liveTranscript = session.transcript_object?.length ? null : session.liveTranscript;
+                      if (!session.transcript_object?.length && !liveTranscript?.length) return null;
+
+                      return (
+                        <div key={sessionId} className="bg-white rounded-lg shadow-sm p-6">
+                          <div className="mb-4">
+                            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                              Conversation {formatDate(session.creationTime as Timestamp)}
+                            </h3>
+                            {renderSessionMedia(sessionId, session)}
+                          </div>
+                          {liveTranscript ? (
+                            <div className="space-y-3">
+                              <p className="text-sm text-gray-500">
+                                Live captions from the call. The full transcript could not be processed.
+                              </p>
+                              {liveTranscript.map((utterance, index) => (
+                                <div key={index}>
+                                  <p className={`text-xs font-semibold ${utterance.role === 'agent' ? 'text-orange-600' : 'text-gray-500'}`}>
+                                    {utterance.role === 'agent' ? 'Interviewer' : 'You'}
+                                  </p>
+                                  <p className="text-gray-800">{utterance.content}</p>
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <TranscriptView
+                              sessionId={sessionId}
+                              messages={session.transcript_object ?? []}
+                              activeWord={activeWord?.sessionId === sessionId ? activeWord : null}
+                              highlighted={selectedMatch?.sessionId === sessionId ? selectedMatch.positions : []}
+                              onSeek={
+                                session.videoUrl || sessionAudio(session)
+                                  ? (time) => seekTo(sessionId, time)
+                                  : undefined
+                              }
+                            />
+                          )}
+                          <div className="mt-4 pt-4 border-t border-gray-100">
+                            <button
+                              onClick={() =>
+                                setOpenSessionComments(prev => ({ ...prev, [sessionId]: !prev[sessionId] }))
+                              }
+                              className="flex items-center text-sm text-gray-600 hover:text-orange-600"
+                            >
+                              <MessageSquare className="w-4 h-4 mr-2" />
+                              {sessionCommentCount(sessionId) > 0
+                                ? `${sessionCommentCount(sessionId)} comments`
+                                : 'Comment on this conversation'}
+                            </button>
+                            {openSessionComments[sessionId] && (
+                              <div className="mt-3">
+                                <CommentThread
+                                  context={commentContext}
+                                  comments={comments}
+                                  filter={isSessionComment(sessionId)}
+                                  anchor={{ type: 'session', sessionId }}
+                                  emptyMessage="No comments on this conversation yet"
+                                />
+                              </div>
+                            )}
+                          </div>
                         </div>
-                        {renderTranscriptObject(session.transcript_object)}
-                      </div>
-                    );
-                  })}
-                </div>
-              )}
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
 
+      <RevisionHistory story={story} isOpen={showHistory} onClose={() => setShowHistory(false)} />
+
       {category && (
         <>
           <ConversationTypeModal
@@ -467,6 +732,7 @@ export const StoryView: React.FC = () => {
           <CallModal
             isOpen={isCallModalOpen}
             onClose={handleCallModalClose}
+            recordingMode={recordingMode}
             category={category}
             question={story?.initialQuestion || ''}
             existingStoryId={story?.id}
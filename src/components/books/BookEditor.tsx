@@ -0,0 +1,514 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Timestamp } from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ArrowLeft,
+  ChevronDown,
+  ChevronUp,
+  Copy,
+  GripVertical,
+  ImagePlus,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+  X,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useRepositories } from '../../lib/repositories';
+import { useCollections } from '../../hooks/useCollections';
+import { htmlToText } from '../../lib/sanitize';
+import { uploadBookImage } from '../../lib/storage';
+import { Book, Chapter } from '../../types/book';
+import { Story } from '../../types/story';
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+const COVER = 'cover';
+
+const newChapter = (): Chapter => ({
+  id: uuidv4(),
+  title: 'New chapter',
+  imageUrl: '',
+  story: '',
+  createdAt: Timestamp.now(),
+});
+
+// Chapters hold plain text while stories are edited as HTML
+const chapterFromStory = (story: Story): Chapter => ({
+  id: uuidv4(),
+  title: story.title || story.initialQuestion,
+  imageUrl: story.imageUrl || '',
+  story: htmlToText(story.storyText || ''),
+  createdAt: Timestamp.now(),
+  storyId: story.id,
+});
+
+const chapterKey = ({ id, title, imageUrl, story }: Chapter) => JSON.stringify([id, title, imageUrl, story]);
+
+export const BookEditor: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const repositories = useRepositories();
+  const { ownerId, role } = useCollections();
+  const [book, setBook] = useState<Book | null>(null);
+  const [title, setTitle] = useState('');
+  const [imageUrl, setImageUrl] = useState('');
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [stories, setStories] = useState<Story[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showStoryPicker, setShowStoryPicker] = useState(false);
+  // Rows only become draggable from their handle so text in them stays selectable
+  const [draggableId, setDraggableId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (role && role !== 'owner') {
+      toast.error('Only the owner can edit books');
+      navigate(`/books/${id}`);
+    }
+  }, [role, id, navigate]);
+
+  useEffect(() => {
+    const fetchBook = async () => {
+      if (!id || !ownerId) return;
+      try {
+        const [bookData, storiesData] = await Promise.all([
+          repositories.books.getById(ownerId, id),
+          repositories.stories.listCompleted(ownerId),
+        ]);
+        if (!bookData) {
+          toast.error('Book not found');
+          navigate('/books');
+          return;
+        }
+        setBook(bookData);
+        setTitle(bookData.title);
+        setImageUrl(bookData.imageUrl);
+        setChapters(bookData.chapters);
+        setStories(storiesData);
+      } catch (error) {
+        console.error('Error fetching book:', error);
+        toast.error('Failed to load book');
+        navigate('/books');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchBook();
+  }, [id, ownerId, navigate, repositories]);
+
+  const isDirty = useMemo(() => {
+    if (!book) return false;
+    return (
+      title !== book.title ||
+      imageUrl !== book.imageUrl ||
+      chapters.map(chapterKey).join() !== book.chapters.map(chapterKey).join()
+    );
+  }, [book, title, imageUrl, chapters]);
+
+  const updateChapter = (chapterId: string, changes: Partial<Chapter>) => {
+    setChapters(prev => prev.map(chapter => (chapter.id === chapterId ? { ...chapter, ...changes } : chapter)));
+  };
+
+  const moveChapter = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= chapters.length) return;
+    setChapters(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const removeChapter = (chapter: Chapter) => {
+    if (!window.confirm(`Remove "${chapter.title}" from this book?`)) return;
+    setChapters(prev => prev.filter(item => item.id !== chapter.id));
+  };
+
+  const addChapter = () => {
+    const chapter = newChapter();
+    setChapters(prev => [...prev, chapter]);
+    setExpandedId(chapter.id);
+  };
+
+  const toggleStory = (story: Story) => {
+    const existing = chapters.find(chapter => chapter.storyId === story.id);
+    if (existing) {
+      setChapters(prev => prev.filter(chapter => chapter.id !== existing.id));
+    } else {
+      setChapters(prev => [...prev, chapterFromStory(story)]);
+    }
+  };
+
+  const handleImageChange = async (target: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !book || !ownerId) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+      toast.error('Image size must be less than 5MB');
+      return;
+    }
+
+    setUploadingId(target);
+    try {
+      const url = await uploadBookImage(ownerId, book.id, file);
+      if (target === COVER) {
+        setImageUrl(url);
+      } else {
+        updateChapter(target, { imageUrl: url });
+      }
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      toast.error('Failed to upload image');
+    } finally {
+      setUploadingId(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!book || !ownerId) return;
+
+    if (!title.trim()) {
+      toast.error('Please give the book a title');
+      return;
+    }
+    if (chapters.some(chapter => !chapter.title.trim())) {
+      toast.error('Every chapter needs a title');
+      return;
+    }
+
+    const changes = {
+      title: title.trim(),
+      imageUrl,
+      chapters: chapters.map(chapter => ({ ...chapter, title: chapter.title.trim() })),
+    };
+
+    setIsSaving(true);
+    try {
+      await repositories.books.update(ownerId, book.id, changes);
+      setBook({ ...book, ...changes });
+      setTitle(changes.title);
+      setChapters(changes.chapters);
+      toast.success('Book saved');
+    } catch (error) {
+      console.error('Error saving book:', error);
+      toast.error('Failed to save book');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDuplicate = async () => {
+    if (!book || !ownerId) return;
+    if (isDirty && !window.confirm('The copy is made from the last saved version. Continue without your unsaved changes?')) {
+      return;
+    }
+
+    try {
+      const copyId = await repositories.books.duplicate(ownerId, book);
+      toast.success('Book duplicated');
+      navigate(`/books/${copyId}/edit`);
+    } catch (error) {
+      console.error('Error duplicating book:', error);
+      toast.error('Failed to duplicate book');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!book || !ownerId) return;
+    if (!window.confirm(`Delete "${book.title}"? This cannot be undone.`)) return;
+
+    try {
+      await repositories.books.remove(ownerId, book.id);
+      toast.success('Book deleted');
+      navigate('/books');
+    } catch (error) {
+      console.error('Error deleting book:', error);
+      toast.error('Failed to delete book');
+    }
+  };
+
+  const handleBack = () => {
+    if (isDirty && !window.confirm('Discard your unsaved changes?')) return;
+    navigate(book ? `/books/${book.id}` : '/books');
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragIndex !== null && dropIndex !== null) {
+      // Dropping below the dragged row shifts the target up by one once the row is removed
+      moveChapter(dragIndex, dropIndex > dragIndex ? dropIndex - 1 : dropIndex);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+    setDraggableId(null);
+  };
+
+  if (isLoading || !book) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-col md:flex-row justify-between items-center gap-3 mb-8">
+          <button onClick={handleBack} className="flex items-center text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back to Book
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={handleDuplicate}
+              className="flex items-center px-3 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <Copy className="w-5 h-5 mr-2" />
+              Duplicate
+            </button>
+            <button
+              onClick={handleDelete}
+              className="flex items-center px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              <Trash2 className="w-5 h-5 mr-2" />
+              Delete
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || isSaving || uploadingId !== null}
+              className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Save className="w-5 h-5 mr-2" />}
+              Save
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6 mb-6 flex flex-col md:flex-row gap-6">
+          <div className="w-40 flex-shrink-0 mx-auto md:mx-0">
+            <div
+              className="aspect-[3/4] rounded-lg bg-gray-100 bg-cover bg-center shadow-md"
+              style={imageUrl ? { backgroundImage: `url(${imageUrl})` } : undefined}
+            />
+            <label className="mt-3 flex items-center justify-center px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 rounded-lg cursor-pointer transition-colors">
+              {uploadingId === COVER ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <ImagePlus className="w-4 h-4 mr-2" />
+              )}
+              Replace cover
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                disabled={uploadingId !== null}
+                onChange={(e) => handleImageChange(COVER, e)}
+              />
+            </label>
+          </div>
+          <div className="flex-1">
+            <label htmlFor="book-title" className="block text-sm font-medium text-gray-700 mb-1">
+              Title
+            </label>
+            <input
+              id="book-title"
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg text-lg font-serif focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            />
+            <p className="text-sm text-gray-500 mt-3">
+              {chapters.length} {chapters.length === 1 ? 'chapter' : 'chapters'}. Drag chapters to reorder them.
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm">
+          <div className="flex justify-between items-center p-4 border-b border-gray-100">
+            <h2 className="text-lg font-semibold text-gray-900">Chapters</h2>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowStoryPicker(!showStoryPicker)}
+                className="flex items-center px-3 py-1.5 text-sm text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+              >
+                {showStoryPicker ? <X className="w-4 h-4 mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+                {showStoryPicker ? 'Done' : 'Choose stories'}
+              </button>
+              <button
+                onClick={addChapter}
+                className="flex items-center px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Blank chapter
+              </button>
+            </div>
+          </div>
+
+          {showStoryPicker && (
+            <div className="p-4 bg-orange-50/50 border-b border-gray-100">
+              {stories.length === 0 ? (
+                <p className="text-sm text-gray-600">No finished stories yet</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {stories.map(story => (
+                    <label
+                      key={story.id}
+                      className="flex items-center gap-3 p-2 bg-white rounded-lg border border-gray-200 cursor-pointer hover:border-orange-300"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={chapters.some(chapter => chapter.storyId === story.id)}
+                        onChange={() => toggleStory(story)}
+                        className="rounded text-orange-500 focus:ring-orange-500"
+                      />
+                      <span className="text-sm text-gray-900 line-clamp-1">{story.title || story.initialQuestion}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {chapters.length === 0 ? (
+            <p className="p-6 text-center text-gray-500">This book has no chapters yet</p>
+          ) : (
+            <ol onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
+              {chapters.map((chapter, index) => {
+                const isExpanded = expandedId === chapter.id;
+                return (
+                  <li
+                    key={chapter.id}
+                    draggable={draggableId === chapter.id}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDragIndex(index);
+                    }}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      const rect = e.currentTarget.getBoundingClientRect();
+                      setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+                    }}
+                    onDragEnd={() => {
+                      setDragIndex(null);
+                      setDropIndex(null);
+                      setDraggableId(null);
+                    }}
+                    className={`border-b border-gray-100 last:border-b-0 ${dragIndex === index ? 'opacity-50' : ''} ${
+                      dragIndex !== null && dropIndex === index ? 'border-t-2 border-t-orange-500' : ''
+                    } ${dragIndex !== null && dropIndex === index + 1 && index === chapters.length - 1 ? 'border-b-2 border-b-orange-500' : ''}`}
+                  >
+                    <div className="flex items-center gap-3 p-4">
+                      <button
+                        onMouseDown={() => setDraggableId(chapter.id)}
+                        onMouseUp={() => setDraggableId(null)}
+                        className="text-gray-400 hover:text-gray-600 cursor-grab active:cursor-grabbing"
+                        aria-label="Drag to reorder"
+                      >
+                        <GripVertical className="w-5 h-5" />
+                      </button>
+                      <span className="w-6 text-sm text-orange-500 font-medium font-serif">{index + 1}</span>
+                      <div
+                        className="w-12 h-12 rounded bg-gray-100 bg-cover bg-center flex-shrink-0"
+                        style={chapter.imageUrl ? { backgroundImage: `url(${chapter.imageUrl})` } : undefined}
+                      />
+                      <input
+                        type="text"
+                        value={chapter.title}
+                        onChange={(e) => updateChapter(chapter.id, { title: e.target.value })}
+                        aria-label={`Chapter ${index + 1} title`}
+                        className="flex-1 min-w-0 px-3 py-1.5 border border-transparent hover:border-gray-300 rounded-lg font-serif focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                      />
+                      <div className="flex items-center">
+                        <button
+                          onClick={() => moveChapter(index, index - 1)}
+                          disabled={index === 0}
+                          className="p-1.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                          aria-label="Move up"
+                        >
+                          <ChevronUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => moveChapter(index, index + 1)}
+                          disabled={index === chapters.length - 1}
+                          className="p-1.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                          aria-label="Move down"
+                        >
+                          <ChevronDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setExpandedId(isExpanded ? null : chapter.id)}
+                          className="px-2 py-1 text-sm text-orange-600 hover:bg-orange-50 rounded-lg"
+                        >
+                          {isExpanded ? 'Close' : 'Edit'}
+                        </button>
+                        <button
+                          onClick={() => removeChapter(chapter)}
+                          className="p-1.5 text-gray-400 hover:text-red-600"
+                          aria-label="Remove chapter"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+
+                    {isExpanded && (
+                      <div className="px-4 pb-4 md:pl-24 space-y-3">
+                        <textarea
+                          value={chapter.story}
+                          onChange={(e) => updateChapter(chapter.id, { story: e.target.value })}
+                          rows={12}
+                          aria-label={`Chapter ${index + 1} text`}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg font-serif text-sm leading-relaxed focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                        />
+                        <div className="flex gap-2">
+                          <label className="flex items-center px-3 py-1.5 text-sm text-orange-600 hover:bg-orange-50 rounded-lg cursor-pointer transition-colors">
+                            {uploadingId === chapter.id ? (
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            ) : (
+                              <ImagePlus className="w-4 h-4 mr-2" />
+                            )}
+                            {chapter.imageUrl ? 'Replace image' : 'Add image'}
+                            <input
+                              type="file"
+                              accept="image/*"
+                              className="hidden"
+                              disabled={uploadingId !== null}
+                              onChange={(e) => handleImageChange(chapter.id, e)}
+                            />
+                          </label>
+                          {chapter.imageUrl && (
+                            <button
+                              onClick={() => updateChapter(chapter.id, { imageUrl: '' })}
+                              className="flex items-center px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                            >
+                              <X className="w-4 h-4 mr-2" />
+                              Remove image
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
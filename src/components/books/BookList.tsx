@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { collection, getDocs, Timestamp } from 'firebase/firestore';
 import { useAuthState } from 'react-firebase-hooks/auth';
 import { useNavigate } from 'react-router-dom';
-import { auth, db } from '../../lib/firebase';
+import { auth } from '../../lib/firebase';
+import { useRepositories } from '../../lib/repositories';
+import { useCollections } from '../../hooks/useCollections';
 import { Book } from '../../types/book';
-import { PlusCircle, Download, Clock, Sparkles, BookOpen } from 'lucide-react';
+import { PlusCircle, Download, Clock, Sparkles, BookOpen, Pencil, Copy, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
@@ -23,27 +24,17 @@ export const BookList: React.FC = () => {
   const [isCreating, setIsCreating] = useState(false);
   const [creationMessage, setCreationMessage] = useState('');
   const navigate = useNavigate();
+  const repositories = useRepositories();
+  const { ownerId, role } = useCollections();
+  const isOwnCollection = role === 'owner';
 
   useEffect(() => {
     const fetchBooks = async () => {
-      if (!user?.uid) return;
+      if (!ownerId) return;
 
       setIsLoading(true);
       try {
-        const booksRef = collection(db, 'users', user.uid, 'books');
-        const booksSnapshot = await getDocs(booksRef);
-        
-        const booksData = booksSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as Book));
-
-        booksData.sort((a, b) => {
-          const timeA = (a.createdAt as Timestamp).toMillis();
-          const timeB = (b.createdAt as Timestamp).toMillis();
-          return timeB - timeA;
-        });
-
+        const booksData = await repositories.books.listByUser(ownerId);
         setBooks(booksData);
       } catch (error) {
         console.error('Error fetching books:', error);
@@ -54,7 +45,7 @@ export const BookList: React.FC = () => {
     };
 
     fetchBooks();
-  }, [user]);
+  }, [ownerId, repositories]);
 
   useEffect(() => {
     if (isCreating) {
@@ -85,12 +76,7 @@ export const BookList: React.FC = () => {
       
       if (data.status === 'success') {
         // Refresh the books list
-        const booksRef = collection(db, 'users', user.uid, 'books');
-        const booksSnapshot = await getDocs(booksRef);
-        const booksData = booksSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as Book));
+        const booksData = await repositories.books.listByUser(user.uid);
         setBooks(booksData);
         
         toast.success('Book created successfully!');
@@ -105,7 +91,32 @@ export const BookList: React.FC = () => {
     }
   };
 
-  const hasInProgressBook = books.some(book => book.status === 'in-progress');
+  const handleDuplicateBook = async (book: Book) => {
+    if (!ownerId) return;
+    try {
+      await repositories.books.duplicate(ownerId, book);
+      setBooks(await repositories.books.listByUser(ownerId));
+      toast.success('Book duplicated');
+    } catch (error) {
+      console.error('Error duplicating book:', error);
+      toast.error('Failed to duplicate book');
+    }
+  };
+
+  const handleDeleteBook = async (book: Book) => {
+    if (!ownerId) return;
+    if (!window.confirm(`Delete "${book.title}"? This cannot be undone.`)) return;
+    try {
+      await repositories.books.remove(ownerId, book.id);
+      setBooks(prev => prev.filter(({ id }) => id !== book.id));
+      toast.success('Book deleted');
+    } catch (error) {
+      console.error('Error deleting book:', error);
+      toast.error('Failed to delete book');
+    }
+  };
+
+  const hasInProgressBook = books.some(book => book.status === 'in_progress');
 
   if (isLoading) {
     return (
@@ -141,19 +152,25 @@ export const BookList: React.FC = () => {
       <div className="max-w-5xl mx-auto">
         <div className="flex justify-between items-center mb-8 flex-col md:flex-row gap-3">
           <div>
-            <h1 className="text-3xl font-bold text-gray-900 text-center md:text-left">Your Books</h1>
+            <h1 className="text-3xl font-bold text-gray-900 text-center md:text-left">
+              {isOwnCollection ? 'Your Books' : 'Books'}
+            </h1>
             <p className="text-gray-600 mt-1 text-center md:text-left">
-              Create and manage your collection of stories
+              {isOwnCollection
+                ? 'Create and manage your collection of stories'
+                : 'Books made from this collection\'s stories'}
             </p>
           </div>
-          <button
-            onClick={handleCreateBook}
-            disabled={hasInProgressBook}
-            className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <PlusCircle className="w-5 h-5 mr-2" />
-            Create New Book
-          </button>
+          {isOwnCollection && (
+            <button
+              onClick={handleCreateBook}
+              disabled={hasInProgressBook}
+              className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <PlusCircle className="w-5 h-5 mr-2" />
+              Create New Book
+            </button>
+          )}
         </div>
 
         {hasInProgressBook ? (
@@ -174,17 +191,19 @@ export const BookList: React.FC = () => {
           <div className="text-center py-12">
             <BookOpen className="w-16 h-16 mx-auto text-gray-400 mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No books yet</h3>
-            <p className="text-gray-600 mb-6">
-              Start creating your first book by clicking the "Create New Book" button
-            </p>
+            {isOwnCollection && (
+              <p className="text-gray-600 mb-6">
+                Start creating your first book by clicking the "Create New Book" button
+              </p>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
             {books.map((book) => (
               <div
                 key={book.id}
-                className={`group relative cursor-pointer ${book.status === 'in-progress' ? 'pointer-events-none' : ''}`}
-                onClick={() => book.status !== 'in-progress' && navigate(`/books/${book.id}`)}
+                className={`group relative cursor-pointer ${book.status === 'in_progress' ? 'pointer-events-none' : ''}`}
+                onClick={() => book.status !== 'in_progress' && navigate(`/books/${book.id}`)}
               >
                 {/* Book Container */}
                 <div className="relative w-full aspect-[3/4] bg-white rounded-lg shadow-md transform transition-transform group-hover:-translate-y-2">
@@ -204,7 +223,7 @@ export const BookList: React.FC = () => {
                             <div className="text-white/80 text-sm">
                               {format(book.createdAt.toDate(), 'MMM d, yyyy')}
                             </div>
-                            {book.status === 'in-progress' && (
+                            {book.status === 'in_progress' && (
                               <span className="px-2 py-1 bg-orange-500/20 backdrop-blur-sm text-white rounded-full text-sm flex items-center">
                                 <Clock className="w-4 h-4 mr-1 animate-spin" />
                                 In Progress
@@ -216,6 +235,29 @@ export const BookList: React.FC = () => {
                     </div>
                   </div>
 
+                  {isOwnCollection && book.status !== 'in_progress' && (
+                    <div className="absolute top-3 right-3 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {[
+                        { label: 'Edit', Icon: Pencil, onClick: () => navigate(`/books/${book.id}/edit`) },
+                        { label: 'Duplicate', Icon: Copy, onClick: () => handleDuplicateBook(book) },
+                        { label: 'Delete', Icon: Trash2, onClick: () => handleDeleteBook(book) },
+                      ].map(({ label, Icon, onClick }) => (
+                        <button
+                          key={label}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onClick();
+                          }}
+                          title={label}
+                          aria-label={label}
+                          className="p-2 bg-black/50 backdrop-blur-sm text-white rounded-full hover:bg-black/70"
+                        >
+                          <Icon className="w-4 h-4" />
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Book Spine Effect */}
                   <div className="absolute left-0 top-0 bottom-0 w-4 bg-gradient-to-r from-black/30 to-transparent rounded-l-lg"></div>
 
@@ -1,15 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { doc, getDoc } from 'firebase/firestore';
-import { auth, db } from '../../lib/firebase';
+import { useRepositories } from '../../lib/repositories';
+import { useCollections } from '../../hooks/useCollections';
+import { useCommentAuthor, useComments, useTargetReactions } from '../../hooks/useComments';
+import { threadIdFor } from '../../lib/comments';
+import { ReactionKey } from '../../types/comment';
+import { CommentThread } from '../comments/CommentThread';
+import { ReactionBar } from '../comments/ReactionBar';
 import { Book } from '../../types/book';
-import { ArrowLeft, Share, Download, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ArrowLeft, Share, Download, ChevronLeft, ChevronRight, BookOpen, Pencil } from 'lucide-react';
 import { format } from 'date-fns';
-import { jsPDF } from 'jspdf';
+import { createEpub } from '../../lib/epub';
 import toast from 'react-hot-toast';
 import { ThreeDBookIcon } from './ThreeDBookIcon';
 import { useSpring, animated } from '@react-spring/web';
-import { getImageWithToken } from '../../lib/storage';
+import { createPrintPdf, TRIM_SIZES, TrimSizeId } from '../../lib/print';
 
 interface Page {
   type: 'cover' | 'toc' | 'chapter' | 'content';
@@ -25,10 +30,22 @@ export const BookViewer: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
+  const [isGeneratingEPUB, setIsGeneratingEPUB] = useState(false);
+  const [trimSize, setTrimSize] = useState<TrimSizeId>('6x9');
   const [isBookOpen, setIsBookOpen] = useState(false);
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
+  const repositories = useRepositories();
+  const { ownerId, role } = useCollections();
   const containerRef = useRef<HTMLDivElement>(null);
+  const chapterIndex = pages[currentPage]?.chapterIndex ?? pages[currentPage + 1]?.chapterIndex;
+  const currentChapter = book && chapterIndex !== undefined ? book.chapters[chapterIndex] : null;
+  const chapterThreadId =
+    book && currentChapter ? threadIdFor({ type: 'chapter', bookId: book.id, chapterId: currentChapter.id }) : undefined;
+  const { comments: chapterComments } = useComments(chapterThreadId);
+  const chapterReactions = useTargetReactions(chapterThreadId);
+  const { author, canComment } = useCommentAuthor(ownerId);
+  const commenterId = author?.id;
 
   const [{ x }, api] = useSpring(() => ({
     x: 0,
@@ -56,13 +73,13 @@ export const BookViewer: React.FC = () => {
         return;
       }
       try {
-        const bookDoc = await getDoc(doc(db, 'users', auth.currentUser!.uid, 'books', id));
-        if (!bookDoc.exists()) {
+        if (!ownerId) return;
+        const bookData = await repositories.books.getById(ownerId, id);
+        if (!bookData) {
           toast.error('Book not found');
           navigate('/books');
           return;
         }
-        const bookData = { id: bookDoc.id, ...bookDoc.data() } as Book;
         setBook(bookData);
         generatePages(bookData);
       } catch (error) {
@@ -75,7 +92,14 @@ export const BookViewer: React.FC = () => {
     };
 
     fetchBook();
-  }, [id, navigate]);
+  }, [id, ownerId, navigate, repositories]);
+
+  useEffect(() => {
+    if (!chapterThreadId || !commenterId) return;
+    repositories.comments.markRead(commenterId, chapterThreadId).catch(error => {
+      console.error('Error marking comments as read:', error);
+    });
+  }, [chapterThreadId, commenterId, chapterComments.length, repositories]);
 
   const generatePages = (book: Book) => {
     const allPages: Page[] = [];
@@ -126,156 +150,19 @@ export const BookViewer: React.FC = () => {
     }
   };
 
+  const getAuthorName = async (): Promise<string> => {
+    if (!ownerId) return '';
+    const profile = await repositories.profiles.getPublic(ownerId);
+    return profile?.name || '';
+  };
+
   const generatePDF = async () => {
     if (!book) return;
 
     setIsGeneratingPDF(true);
     try {
-      const pdf = new jsPDF({
-        unit: 'mm',
-        format: 'a4',
-        orientation: 'portrait'
-      });
-
-      pdf.setFont('serif');
-      
-      const pageWidth = pdf.internal.pageSize.getWidth();
-      const pageHeight = pdf.internal.pageSize.getHeight();
-      const margin = 20;
-      const contentWidth = pageWidth - (margin * 2);
-
-      const loadImage = async (url: string): Promise<string> => {
-        try {
-          if (url.includes('firebasestorage.googleapis.com')) {
-            const path = url.split('/o/')[1].split('?')[0];
-            url = await getImageWithToken(decodeURIComponent(path));
-          }
-          const response = await fetch(url);
-          if (!response.ok) throw new Error('Failed to fetch image');
-          const blob = await response.blob();
-          return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve(reader.result as string);
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-          });
-        } catch (error) {
-          console.error('Error loading image:', error);
-          throw error;
-        }
-      };
-
-      // Cover page
-      if (book.imageUrl) {
-        const coverImage = await loadImage(book.imageUrl);
-        pdf.addImage(coverImage, 'JPEG', 0, 0, pageWidth, pageHeight);
-        
-        // Add gradient overlay
-        const steps = 20;
-        for (let i = 0; i < steps; i++) {
-          const y = pageHeight * (1 - (i / steps));
-          const opacity = 0.8 - (i * 0.04);
-          pdf.setFillColor(0, 0, 0);
-          pdf.setGState(new pdf.GState({ opacity }));
-          pdf.rect(0, y, pageWidth, pageHeight / steps, 'F');
-        }
-
-        // Add title and date
-        pdf.setTextColor(255, 255, 255);
-        pdf.setFontSize(36);
-        pdf.text(book.title, margin, pageHeight - 40);
-        pdf.setFontSize(14);
-        pdf.text(
-          `Created on ${format(book.createdAt.toDate(), 'MMMM d, yyyy')}`,
-          margin,
-          pageHeight - 25
-        );
-      }
-
-      // Table of Contents
-      pdf.addPage();
-      pdf.setFillColor(252, 249, 242);
-      pdf.rect(0, 0, pageWidth, pageHeight, 'F');
-      pdf.setTextColor(51, 51, 51);
-      pdf.setFontSize(30);
-      pdf.text('Contents', margin, margin + 10);
-
-      book.chapters.forEach((chapter, index) => {
-        const y = margin + 40 + (index * 12);
-        pdf.setFontSize(12);
-        pdf.setTextColor(249, 115, 22);
-        pdf.text(`${index + 1}`, margin, y);
-        pdf.setTextColor(51, 51, 51);
-        pdf.text(chapter.title, margin + 15, y);
-      });
-
-      // Chapters
-      for (const chapter of book.chapters) {
-        // Chapter cover
-        pdf.addPage();
-        if (chapter.imageUrl) {
-          const chapterImage = await loadImage(chapter.imageUrl);
-          pdf.addImage(chapterImage, 'JPEG', 0, 0, pageWidth, pageHeight);
-          
-          // Add gradient overlay
-          const steps = 20;
-          for (let i = 0; i < steps; i++) {
-            const y = pageHeight * (1 - (i / steps));
-            const opacity = 0.8 - (i * 0.04);
-            pdf.setFillColor(0, 0, 0);
-            pdf.setGState(new pdf.GState({ opacity }));
-            pdf.rect(0, y, pageWidth, pageHeight / steps, 'F');
-          }
-
-          // Add chapter title
-          pdf.setTextColor(255, 255, 255);
-          pdf.setFontSize(30);
-          const titleY = pageHeight / 2;
-          pdf.text(chapter.title, pageWidth / 2, titleY, { align: 'center' });
-          
-          // Decorative line
-          pdf.setDrawColor(249, 115, 22);
-          pdf.setLineWidth(1);
-          const lineWidth = 40;
-          pdf.line(
-            (pageWidth - lineWidth) / 2,
-            titleY + 10,
-            (pageWidth + lineWidth) / 2,
-            titleY + 10
-          );
-        }
-
-        // Chapter content
-        pdf.addPage();
-        pdf.setFillColor(252, 249, 242);
-        pdf.rect(0, 0, pageWidth, pageHeight, 'F');
-
-        // Chapter title header
-        pdf.setFontSize(14);
-        pdf.setTextColor(128, 128, 128);
-        pdf.text(chapter.title, margin, margin);
-
-        // Chapter content with pagination
-        pdf.setTextColor(51, 51, 51);
-        pdf.setFontSize(12);
-        const lines = pdf.splitTextToSize(chapter.story, contentWidth);
-        let currentY = margin + 20;
-        const lineHeight = 7;
-        const maxY = pageHeight - margin;
-
-        for (let i = 0; i < lines.length; i++) {
-          if (currentY + lineHeight > maxY) {
-            pdf.addPage();
-            pdf.setFillColor(252, 249, 242);
-            pdf.rect(0, 0, pageWidth, pageHeight, 'F');
-            currentY = margin + 15;
-          }
-          pdf.text(lines[i], margin, currentY);
-          currentY += lineHeight;
-        }
-      }
-
-      pdf.save(`${book.title}.pdf`);
+      const pdf = await createPrintPdf(book, { trimSize, author: await getAuthorName() });
+      pdf.save(`${book.title} (${trimSize}).pdf`);
       toast.success('PDF downloaded successfully');
     } catch (error) {
       console.error('Error generating PDF:', error);
@@ -285,6 +172,28 @@ export const BookViewer: React.FC = () => {
     }
   };
 
+  const generateEPUB = async () => {
+    if (!book || !ownerId) return;
+
+    setIsGeneratingEPUB(true);
+    try {
+      const epub = await createEpub(book, { author: await getAuthorName() });
+
+      const url = URL.createObjectURL(epub);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${book.title}.epub`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('EPUB downloaded successfully');
+    } catch (error) {
+      console.error('Error generating EPUB:', error);
+      toast.error('Failed to generate EPUB');
+    } finally {
+      setIsGeneratingEPUB(false);
+    }
+  };
+
   const nextPage = () => {
     if (currentPage < pages.length - 2) {
       api.start({ x: -100, immediate: true });
@@ -391,6 +300,25 @@ export const BookViewer: React.FC = () => {
     );
   }
 
+  const chapterContext = currentChapter && ownerId
+    ? {
+        target: { type: 'chapter' as const, bookId: book.id, chapterId: currentChapter.id },
+        collectionId: ownerId,
+        title: currentChapter.title,
+        link: `/books/${book.id}`,
+      }
+    : null;
+
+  const handleChapterReaction = async (key: ReactionKey, active: boolean) => {
+    if (!author || !chapterContext) return;
+    try {
+      await repositories.comments.toggleTargetReaction(chapterContext, author, key, active);
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      toast.error('Failed to update reaction');
+    }
+  };
+
   if (!isBookOpen) {
     return (
       <div className="min-h-screen bg-gray-900 p-8 flex items-center justify-center">
@@ -414,14 +342,43 @@ export const BookViewer: React.FC = () => {
             <ArrowLeft className="w-5 h-5 mr-2" />
             Close Book
           </button>
-          <button
-            onClick={generatePDF}
-            disabled={isGeneratingPDF}
-            className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
-          >
-            <Download className="w-5 h-5 mr-2" />
-            {isGeneratingPDF ? 'Generating PDF...' : 'Download PDF'}
-          </button>
+          <div className="flex gap-3">
+            {role === 'owner' && (
+              <button
+                onClick={() => navigate(`/books/${book.id}/edit`)}
+                className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600"
+              >
+                <Pencil className="w-5 h-5 mr-2" />
+                Edit
+              </button>
+            )}
+            <button
+              onClick={generateEPUB}
+              disabled={isGeneratingEPUB}
+              className="flex items-center px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50"
+            >
+              <BookOpen className="w-5 h-5 mr-2" />
+              {isGeneratingEPUB ? 'Generating EPUB...' : 'Download EPUB'}
+            </button>
+            <select
+              value={trimSize}
+              onChange={(e) => setTrimSize(e.target.value as TrimSizeId)}
+              className="px-3 py-2 bg-gray-700 text-white rounded-lg border-none focus:ring-2 focus:ring-orange-500"
+              aria-label="Print size"
+            >
+              {TRIM_SIZES.map(spec => (
+                <option key={spec.id} value={spec.id}>{spec.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={generatePDF}
+              disabled={isGeneratingPDF}
+              className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50"
+            >
+              <Download className="w-5 h-5 mr-2" />
+              {isGeneratingPDF ? 'Generating PDF...' : 'Download PDF'}
+            </button>
+          </div>
         </div>
         
         <div className="relative" ref={containerRef}>
@@ -459,6 +416,19 @@ export const BookViewer: React.FC = () => {
             Pages {currentPage + 1}-{Math.min(currentPage + 2, pages.length)} of {pages.length}
           </div>
         </div>
+
+        {currentChapter && chapterContext && (
+          <div className="max-w-5xl mx-auto mt-8 bg-white rounded-lg p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900">Comments on “{currentChapter.title}”</h3>
+            <ReactionBar
+              reactions={chapterReactions}
+              userId={author?.id}
+              canReact={canComment}
+              onToggle={handleChapterReaction}
+            />
+            <CommentThread context={chapterContext} comments={chapterComments} />
+          </div>
+        )}
       </div>
     </div>
   );
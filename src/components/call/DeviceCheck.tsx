@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Mic, Video, Volume2, Wifi, CheckCircle2, AlertTriangle, XCircle, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  AvailableDevices,
+  DeviceSelection,
+  canChooseSpeaker,
+  listMediaDevices,
+  playTestTone,
+} from '../../lib/media';
+import { checkConnectivity, ConnectivityReport } from '../../lib/connectivity';
+import { useInputLevel } from '../../hooks/useInputLevel';
+
+interface DeviceCheckProps {
+  stream: MediaStream | null;
+  showCamera: boolean;
+  selection: DeviceSelection;
+  onSelectionChange: (selection: DeviceSelection) => void;
+  // Called with false while the browser or network can't make the call at all
+  onReadyChange: (ready: boolean) => void;
+}
+
+const NO_DEVICES: AvailableDevices = { audioInputs: [], videoInputs: [], audioOutputs: [] };
+
+const deviceLabel = (device: MediaDeviceInfo, index: number, kind: string) =>
+  device.label || `${kind} ${index + 1}`;
+
+const CheckRow: React.FC<{ status: 'checking' | 'ok' | 'warning' | 'failed'; label: string }> = ({
+  status,
+  label,
+}) => (
+  <li className="flex items-center text-sm text-gray-700">
+    {status === 'checking' && <Loader2 className="w-4 h-4 mr-2 text-gray-400 animate-spin" />}
+    {status === 'ok' && <CheckCircle2 className="w-4 h-4 mr-2 text-green-500" />}
+    {status === 'warning' && <AlertTriangle className="w-4 h-4 mr-2 text-yellow-500" />}
+    {status === 'failed' && <XCircle className="w-4 h-4 mr-2 text-red-500" />}
+    {label}
+  </li>
+);
+
+/**
+ * Pre-call checks: choose the mic, camera and speaker, watch the mic level,
+ * play a test sound, and confirm the browser and network can carry the call.
+ */
+export const DeviceCheck: React.FC<DeviceCheckProps> = ({
+  stream,
+  showCamera,
+  selection,
+  onSelectionChange,
+  onReadyChange,
+}) => {
+  const [devices, setDevices] = useState<AvailableDevices>(NO_DEVICES);
+  const [connectivity, setConnectivity] = useState<ConnectivityReport | null>(null);
+  const [isPlayingTone, setIsPlayingTone] = useState(false);
+  const level = useInputLevel(stream);
+
+  // Labels only appear once access is granted, so list again whenever the stream changes
+  useEffect(() => {
+    const refresh = () =>
+      listMediaDevices()
+        .then(setDevices)
+        .catch(error => console.error('Error listing devices:', error));
+
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [stream]);
+
+  useEffect(() => {
+    let cancelled = false;
+    checkConnectivity()
+      .then(report => {
+        if (cancelled) return;
+        setConnectivity(report);
+        onReadyChange(report.online && report.webrtc);
+      })
+      .catch(error => console.error('Error checking connectivity:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [onReadyChange]);
+
+  const activeTrackId = (kind: 'audio' | 'video') => {
+    const track = kind === 'audio' ? stream?.getAudioTracks()[0] : stream?.getVideoTracks()[0];
+    return track?.getSettings().deviceId ?? '';
+  };
+
+  const handleTestSpeaker = async () => {
+    setIsPlayingTone(true);
+    try {
+      await playTestTone(selection.audioOutputId);
+    } catch (error) {
+      console.error('Error playing test sound:', error);
+      toast.error('Could not play the test sound on this speaker');
+    } finally {
+      setIsPlayingTone(false);
+    }
+  };
+
+  const selectClassName =
+    'w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="flex items-center text-sm font-medium text-gray-700">
+          <Mic className="w-4 h-4 mr-2" />
+          Microphone
+        </label>
+        <select
+          value={selection.audioInputId || activeTrackId('audio')}
+          onChange={e => onSelectionChange({ ...selection, audioInputId: e.target.value })}
+          className={selectClassName}
+          disabled={devices.audioInputs.length === 0}
+        >
+          {devices.audioInputs.length === 0 && <option value="">No microphone found</option>}
+          {devices.audioInputs.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {deviceLabel(device, index, 'Microphone')}
+            </option>
+          ))}
+        </select>
+        <div className="mt-2 h-2 bg-gray-200 rounded-full overflow-hidden" aria-label="Microphone level">
+          <div
+            className="h-full bg-green-500 transition-[width] duration-75"
+            style={{ width: `${Math.round(level * 100)}%` }}
+          />
+        </div>
+        <p className="mt-1 text-xs text-gray-500">Say a few words; the bar should move as you speak.</p>
+      </div>
+
+      {showCamera && (
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-700">
+            <Video className="w-4 h-4 mr-2" />
+            Camera
+          </label>
+          <select
+            value={selection.videoInputId || activeTrackId('video')}
+            onChange={e => onSelectionChange({ ...selection, videoInputId: e.target.value })}
+            className={selectClassName}
+            disabled={devices.videoInputs.length === 0}
+          >
+            {devices.videoInputs.length === 0 && <option value="">No camera found</option>}
+            {devices.videoInputs.map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {deviceLabel(device, index, 'Camera')}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label className="flex items-center text-sm font-medium text-gray-700">
+          <Volume2 className="w-4 h-4 mr-2" />
+          Speaker
+        </label>
+        {canChooseSpeaker() && devices.audioOutputs.length > 0 && (
+          <select
+            value={selection.audioOutputId || 'default'}
+            onChange={e => onSelectionChange({ ...selection, audioOutputId: e.target.value })}
+            className={selectClassName}
+          >
+            {devices.audioOutputs.map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {deviceLabel(device, index, 'Speaker')}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={handleTestSpeaker}
+          disabled={isPlayingTone}
+          className="mt-2 text-sm text-orange-600 hover:text-orange-700 disabled:opacity-50"
+        >
+          {isPlayingTone ? 'Playing test sound...' : 'Play test sound'}
+        </button>
+      </div>
+
+      <div>
+        <p className="flex items-center text-sm font-medium text-gray-700 mb-2">
+          <Wifi className="w-4 h-4 mr-2" />
+          Connection
+        </p>
+        {connectivity ? (
+          <ul className="space-y-1">
+            <CheckRow
+              status={connectivity.online ? 'ok' : 'failed'}
+              label={connectivity.online ? 'Connected to the internet' : 'You appear to be offline'}
+            />
+            <CheckRow
+              status={connectivity.webrtc ? 'ok' : 'failed'}
+              label={connectivity.webrtc ? 'Browser supports calls' : 'This browser cannot make calls'}
+            />
+            {connectivity.online && connectivity.webrtc && (
+              <CheckRow
+                status={connectivity.stun ? 'ok' : 'warning'}
+                label={connectivity.stun ? 'Network allows calls' : 'Your network may block calls'}
+              />
+            )}
+          </ul>
+        ) : (
+          <ul>
+            <CheckRow status="checking" label="Checking your connection..." />
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
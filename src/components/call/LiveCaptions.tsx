@@ -0,0 +1,95 @@
+import React, { useEffect, useRef } from 'react';
+import { AArrowDown, AArrowUp } from 'lucide-react';
+import { LiveUtterance } from '../../types/story';
+import { CaptionSize } from '../../hooks/useCaptionSize';
+
+// Within this many pixels of the bottom the panel keeps following new captions
+const FOLLOW_THRESHOLD = 48;
+
+const speakerName = (role: string) => (role === 'agent' ? 'Interviewer' : 'You');
+
+/** The line being spoken right now, shown over the video. */
+export const LiveCaptions: React.FC<{ utterances: LiveUtterance[]; size: CaptionSize }> = ({
+  utterances,
+  size,
+}) => {
+  const current = utterances[utterances.length - 1];
+  if (!current?.content) return null;
+
+  return (
+    <div className="absolute bottom-20 inset-x-4 flex justify-center pointer-events-none" aria-live="polite">
+      <p className={`max-w-3xl px-4 py-2 rounded-lg bg-black/70 text-white text-center ${size.className}`}>
+        <span className="font-semibold text-orange-300">{speakerName(current.role)}: </span>
+        {current.content}
+      </p>
+    </div>
+  );
+};
+
+/** Running transcript of the call so far, with caption size controls. */
+export const LiveTranscriptPanel: React.FC<{ utterances: LiveUtterance[]; size: CaptionSize }> = ({
+  utterances,
+  size,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
+
+  // Stay pinned to the newest caption unless the user has scrolled back to reread
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (element && followRef.current) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [utterances]);
+
+  const handleScroll = () => {
+    const element = scrollRef.current;
+    if (element) {
+      followRef.current = element.scrollHeight - element.scrollTop - element.clientHeight < FOLLOW_THRESHOLD;
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-900">Transcript</h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={size.shrink}
+            disabled={!size.canShrink}
+            className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+            title="Smaller text"
+          >
+            <AArrowDown className="w-4 h-4 text-gray-600" />
+          </button>
+          <button
+            onClick={size.grow}
+            disabled={!size.canGrow}
+            className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40"
+            title="Larger text"
+          >
+            <AArrowUp className="w-4 h-4 text-gray-600" />
+          </button>
+        </div>
+      </div>
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="flex-1 min-h-[8rem] max-h-[40vh] md:max-h-none overflow-y-auto bg-gray-50 rounded-lg p-3 space-y-3"
+      >
+        {utterances.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center">Captions will appear here as you talk.</p>
+        ) : (
+          utterances.map((utterance, index) => (
+            <div key={index} className={size.className}>
+              <p className={`text-xs font-semibold ${utterance.role === 'agent' ? 'text-orange-600' : 'text-gray-500'}`}>
+                {speakerName(utterance.role)}
+              </p>
+              <p className="text-gray-800">{utterance.content}</p>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { doc, getDoc } from 'firebase/firestore';
+import { Archive, ArrowDown, ArrowUp, Check, Edit2, FolderHeart, Lightbulb, Plus, RotateCcw, Send, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { auth, db } from '../../lib/firebase';
+import { useRepositories } from '../../lib/repositories';
+import { useCollections } from '../../hooks/useCollections';
+import { can } from '../../lib/permissions';
+import { acceptSuggestion, decodeEmoji, isCustomCategory, moveItem } from '../../lib/categories';
+import { Category, QuestionSuggestion } from '../../types/category';
+import { User } from '../../types/user';
+import { CategoryEditor } from './CategoryEditor';
+import toast from 'react-hot-toast';
+
+export const CategoriesView: React.FC = () => {
+  const [user] = useAuthState(auth);
+  const [userData, setUserData] = useState<User | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [suggestions, setSuggestions] = useState<QuestionSuggestion[]>([]);
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [suggestCategoryId, setSuggestCategoryId] = useState('');
+  const [suggestedQuestion, setSuggestedQuestion] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const repositories = useRepositories();
+  const { active, ownerId, role } = useCollections();
+  // The storyteller manages their categories; family members suggest questions for them
+  const isOwnCollection = role === 'owner';
+  const storytellerName = active?.members[active.ownerId]?.name || 'the storyteller';
+  const customCategories = categories.filter(isCustomCategory);
+
+  const fetchData = useCallback(async () => {
+    if (!user?.uid || !ownerId) return;
+
+    try {
+      setIsLoading(true);
+
+      if (isOwnCollection) {
+        const userDoc = await getDoc(doc(db, 'users', user.uid));
+        setUserData(userDoc.exists() ? (userDoc.data() as User) : null);
+
+        const [categoriesData, suggestionsData] = await Promise.all([
+          repositories.categories.listForUser(user.uid, { includeArchived: true }),
+          repositories.categories.listPendingSuggestions(user.uid),
+        ]);
+        setCategories(categoriesData);
+        setSuggestions(suggestionsData);
+      } else {
+        setCategories(await repositories.categories.listForUser(ownerId));
+      }
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      toast.error('Failed to load categories');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, ownerId, isOwnCollection, repositories]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const openEditor = (category: Category | null) => {
+    setEditing(category);
+    setIsEditorOpen(true);
+  };
+
+  const handleSaved = () => {
+    setIsEditorOpen(false);
+    setEditing(null);
+    fetchData();
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    if (!user) return;
+    const reordered = moveItem(customCategories, index, offset);
+    if (reordered === customCategories) return;
+
+    const builtIn = categories.filter(category => !isCustomCategory(category));
+    setCategories([...builtIn, ...reordered.map((category, order) => ({ ...category, order }))]);
+    try {
+      await repositories.categories.reorderCustom(user.uid, reordered.map(category => category.id));
+    } catch (error) {
+      console.error('Error reordering categories:', error);
+      toast.error('Failed to reorder categories');
+      fetchData();
+    }
+  };
+
+  const handleArchive = async (category: Category, archived: boolean) => {
+    if (!user) return;
+    try {
+      await repositories.categories.updateCustom(user.uid, category.id, { archived });
+      setCategories(prev => prev.map(c => (c.id === category.id ? { ...c, archived } : c)));
+      toast.success(archived ? 'Category archived' : 'Category restored');
+    } catch (error) {
+      console.error('Error archiving category:', error);
+      toast.error(archived ? 'Failed to archive category' : 'Failed to restore category');
+    }
+  };
+
+  const handleAccept = async (suggestion: QuestionSuggestion) => {
+    const category = categories.find(c => c.id === suggestion.categoryId);
+    if (!category) {
+      toast.error('That category no longer exists');
+      return;
+    }
+    try {
+      await acceptSuggestion(repositories, suggestion, category);
+      toast.success(isCustomCategory(category) ? `Added to ${category.title}` : 'Added to your AI Picks');
+      fetchData();
+    } catch (error) {
+      console.error('Error accepting suggestion:', error);
+      toast.error('Failed to add question');
+    }
+  };
+
+  const handleDismiss = async (suggestion: QuestionSuggestion) => {
+    if (!user) return;
+    try {
+      await repositories.categories.setSuggestionStatus(user.uid, suggestion.id, 'dismissed');
+      setSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+    } catch (error) {
+      console.error('Error dismissing suggestion:', error);
+      toast.error('Failed to dismiss suggestion');
+    }
+  };
+
+  const handleSuggest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !ownerId) return;
+    const question = suggestedQuestion.trim();
+    if (!suggestCategoryId || !question) {
+      toast.error('Please choose a category and write a question');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await repositories.categories.suggestQuestion({
+        ownerId,
+        categoryId: suggestCategoryId,
+        question,
+        suggestedBy: user.uid,
+        suggestedByName: active?.members[user.uid]?.name || user.displayName || user.email?.split('@')[0] || 'Family member',
+      });
+      setSuggestedQuestion('');
+      toast.success(`Sent to ${storytellerName}`);
+    } catch (error) {
+      console.error('Error suggesting question:', error);
+      toast.error('Failed to send suggestion');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  if (!isOwnCollection) {
+    return (
+      <div className="p-8">
+        <div className="max-w-3xl mx-auto">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 text-center md:text-left">Suggest a Question</h1>
+            <p className="text-gray-600 mt-1 text-center md:text-left">
+              Is there a story you'd love to hear? {storytellerName} will see your question and can add it to their list.
+            </p>
+          </div>
+
+          {can(role, 'comment') ? (
+            <form onSubmit={handleSuggest} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+                <select
+                  value={suggestCategoryId}
+                  onChange={(e) => setSuggestCategoryId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                >
+                  <option value="">Choose a category...</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {decodeEmoji(category.emoji_unicode)} {category.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Question</label>
+                <textarea
+                  value={suggestedQuestion}
+                  onChange={(e) => setSuggestedQuestion(e.target.value)}
+                  rows={3}
+                  placeholder="e.g. What was your first job like?"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+              </div>
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex items-center px-6 py-3 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  Send Suggestion
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="text-center py-12">
+              <Lightbulb className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-600">Ask {storytellerName} for comment access to suggest questions</p>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex flex-col md:flex-row gap-3 justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 text-center md:text-left">My Categories</h1>
+            <p className="text-gray-600 mt-1 text-center md:text-left">
+              Your own topics and questions, alongside the ones we provide
+            </p>
+          </div>
+          <button
+            onClick={() => openEditor(null)}
+            className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors"
+          >
+            <Plus className="w-5 h-5 mr-2" />
+            New Category
+          </button>
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Suggested by Family</h2>
+            <div className="space-y-3">
+              {suggestions.map((suggestion) => (
+                <div key={suggestion.id} className="bg-white rounded-lg shadow-sm p-4 flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-gray-900 font-medium">{suggestion.question}</p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {suggestion.suggestedByName} · {categories.find(c => c.id === suggestion.categoryId)?.title ?? 'Unknown category'} ·{' '}
+                      {formatDistanceToNow(suggestion.createdAt.toDate(), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <button
+                      onClick={() => handleAccept(suggestion)}
+                      className="p-2 text-green-600 hover:bg-green-50 rounded-full transition-colors"
+                      title="Add Question"
+                    >
+                      <Check className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDismiss(suggestion)}
+                      className="p-2 text-gray-500 hover:bg-gray-100 rounded-full transition-colors"
+                      title="Dismiss"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {customCategories.length === 0 ? (
+          <div className="text-center py-12">
+            <FolderHeart className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No categories of your own yet</h3>
+            <p className="text-gray-600">
+              Create one for a part of your life our categories don't cover, with the questions you want to answer
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {customCategories.map((category, index) => (
+              <div
+                key={category.id}
+                className={`bg-white rounded-lg shadow-sm p-6 flex items-start gap-4 ${category.archived ? 'opacity-60' : ''}`}
+              >
+                <div className="text-4xl">{decodeEmoji(category.emoji_unicode)}</div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-lg font-semibold text-gray-900">{category.title}</h3>
+                    {category.archived && (
+                      <span className="px-2 py-0.5 bg-gray-100 rounded-full text-xs font-medium text-gray-600">Archived</span>
+                    )}
+                  </div>
+                  <p className="text-gray-600 mt-1">{category.description}</p>
+                  <p className="text-sm text-gray-500 mt-2">
+                    {category.questions.length} {category.questions.length === 1 ? 'question' : 'questions'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 shrink-0">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    title="Move Up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === customCategories.length - 1}
+                    className="p-2 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    title="Move Down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => openEditor(category)}
+                    className="p-2 text-gray-600 hover:text-gray-900"
+                    title="Edit"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  {category.archived ? (
+                    <button
+                      onClick={() => handleArchive(category, false)}
+                      className="p-2 text-gray-600 hover:text-gray-900"
+                      title="Restore"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleArchive(category, true)}
+                      className="p-2 text-gray-600 hover:text-gray-900"
+                      title="Archive"
+                    >
+                      <Archive className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <CategoryEditor
+        isOpen={isEditorOpen}
+        category={editing}
+        userData={userData}
+        onClose={() => setIsEditorOpen(false)}
+        onSaved={handleSaved}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { auth } from '../../lib/firebase';
+import { useRepositories } from '../../lib/repositories';
+import { createCustomCategory, decodeEmoji, DEFAULT_CATEGORY_EMOJI, encodeEmoji, moveItem } from '../../lib/categories';
+import { Category } from '../../types/category';
+import { User } from '../../types/user';
+import toast from 'react-hot-toast';
+
+interface CategoryEditorProps {
+  isOpen: boolean;
+  // The category being edited, or null to make a new one
+  category: Category | null;
+  userData: User | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const CategoryEditor: React.FC<CategoryEditorProps> = ({ isOpen, category, userData, onClose, onSaved }) => {
+  const [user] = useAuthState(auth);
+  const [emoji, setEmoji] = useState(DEFAULT_CATEGORY_EMOJI);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [example, setExample] = useState('');
+  const [questions, setQuestions] = useState<string[]>([]);
+  const [newQuestion, setNewQuestion] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const repositories = useRepositories();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEmoji(category ? decodeEmoji(category.emoji_unicode) : DEFAULT_CATEGORY_EMOJI);
+    setTitle(category?.title ?? '');
+    setDescription(category?.description ?? '');
+    setExample(category?.example ?? '');
+    setQuestions(category?.questions ?? []);
+    setNewQuestion('');
+  }, [isOpen, category]);
+
+  if (!isOpen) return null;
+
+  const addQuestion = () => {
+    const question = newQuestion.trim();
+    if (!question) return;
+    if (questions.includes(question)) {
+      toast.error('That question is already on the list');
+      return;
+    }
+    setQuestions(prev => [...prev, question]);
+    setNewQuestion('');
+  };
+
+  const moveQuestion = (index: number, offset: number) => setQuestions(prev => moveItem(prev, index, offset));
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (!title.trim() || !description.trim()) {
+      toast.error('Please give the category a title and description');
+      return;
+    }
+    if (questions.length === 0) {
+      toast.error('Please add at least one question');
+      return;
+    }
+
+    const fields = {
+      title: title.trim(),
+      description: description.trim(),
+      example: example.trim(),
+      emoji_unicode: encodeEmoji(emoji.trim() || DEFAULT_CATEGORY_EMOJI),
+      questions,
+    };
+
+    setIsSaving(true);
+    try {
+      if (category) {
+        await repositories.categories.updateCustom(user.uid, category.id, fields);
+        toast.success('Category updated');
+      } else {
+        const { agentCreated } = await createCustomCategory(repositories, user.uid, userData, fields);
+        if (agentCreated) {
+          toast.success('Category created');
+        } else {
+          toast.error('Category created, but its AI interviewer could not be set up. Please contact support.');
+        }
+      }
+      onSaved();
+    } catch (error) {
+      console.error('Error saving category:', error);
+      toast.error('Failed to save category');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-semibold text-gray-900">
+              {category ? 'Edit Category' : 'New Category'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="w-6 h-6 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            <div className="grid grid-cols-[5rem_1fr] gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Emoji</label>
+                <input
+                  type="text"
+                  value={emoji}
+                  onChange={(e) => setEmoji(e.target.value)}
+                  maxLength={8}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-2xl text-center focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="e.g. Life on the Farm"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                placeholder="What stories belong here?"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Example</label>
+              <input
+                type="text"
+                value={example}
+                onChange={(e) => setExample(e.target.value)}
+                placeholder="e.g. The winter the barn roof caved in"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Questions</label>
+              <ul className="space-y-2 mb-3">
+                {questions.map((question, index) => (
+                  <li key={question} className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg">
+                    <span className="flex-1 text-gray-700">{question}</span>
+                    <button
+                      onClick={() => moveQuestion(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                      title="Move Up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveQuestion(index, 1)}
+                      disabled={index === questions.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                      title="Move Down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setQuestions(prev => prev.filter(q => q !== question))}
+                      className="p-1 text-red-500 hover:text-red-700"
+                      title="Remove Question"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newQuestion}
+                  onChange={(e) => setNewQuestion(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') addQuestion();
+                  }}
+                  placeholder="Add a question..."
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+                <button
+                  onClick={addQuestion}
+                  className="flex items-center px-4 py-2 text-orange-600 border border-orange-500 rounded-lg hover:bg-orange-50 transition-colors"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-8 flex justify-end space-x-4">
+            <button
+              onClick={onClose}
+              className="px-6 py-3 text-gray-700 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center px-6 py-3 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {category ? 'Save Changes' : 'Create Category'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
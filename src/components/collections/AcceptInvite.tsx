@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { Mail, Users, Loader2, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { auth } from '../../lib/firebase';
+import { useRepositories } from '../../lib/repositories';
+import { emailFromInviteId, isInviteLink, signInWithInviteLink } from '../../lib/invitations';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '../../lib/permissions';
+import { useCollections } from '../../hooks/useCollections';
+import { CollectionInvite } from '../../types/collection';
+
+export const AcceptInvite: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const [user, isAuthLoading] = useAuthState(auth);
+  const [email, setEmail] = useState(() => emailFromInviteId(id));
+  const [invite, setInvite] = useState<CollectionInvite | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const repositories = useRepositories();
+  const { setActiveId } = useCollections();
+
+  useEffect(() => {
+    if (isAuthLoading) return;
+    // Rules only honor invites for verified addresses; signing in with the emailed link verifies it
+    if (!user || !user.emailVerified) {
+      setIsLoading(false);
+      return;
+    }
+
+    const fetchInvite = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await repositories.collections.getInvite(id);
+        if (!result || result.status === 'revoked') {
+          setError('This invitation is no longer valid.');
+        } else if (result.status === 'accepted' && result.acceptedBy !== user.uid) {
+          setError('This invitation has already been used.');
+        } else {
+          setInvite(result);
+        }
+      } catch (error) {
+        // Rules only let the invited address read the invite
+        console.error('Error fetching invite:', error);
+        setError(`This invitation was sent to a different email address than ${user.email}.`);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchInvite();
+  }, [id, user, isAuthLoading, repositories]);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await signInWithInviteLink(email.trim(), window.location.href);
+    } catch (error) {
+      console.error('Error signing in with invite link:', error);
+      toast.error('This sign-in link is invalid or has expired');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!user || !invite) return;
+
+    setIsSubmitting(true);
+    try {
+      if (invite.status === 'pending') {
+        await repositories.collections.acceptInvite(invite, {
+          id: user.uid,
+          name: user.displayName || user.email?.split('@')[0] || 'Family member',
+          email: user.email || invite.email,
+        });
+        toast.success(`You joined ${invite.collectionName}`);
+      }
+      setActiveId(invite.collectionId);
+      navigate('/stories');
+    } catch (error) {
+      console.error('Error accepting invite:', error);
+      toast.error('Failed to accept invitation');
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading || isAuthLoading) {
+      return (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+        </div>
+      );
+    }
+
+    if (!user || !user.emailVerified) {
+      if (!isInviteLink(window.location.href)) {
+        return (
+          <p className="text-gray-600 text-center">
+            Open the invitation link from your email to join this collection.
+          </p>
+        );
+      }
+
+      return (
+        <form onSubmit={handleSignIn} className="space-y-4">
+          <p className="text-gray-600">Confirm the email address this invitation was sent to.</p>
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full flex items-center justify-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+          >
+            {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <><Mail className="w-5 h-5 mr-2" />Continue</>}
+          </button>
+        </form>
+      );
+    }
+
+    if (error || !invite) {
+      return (
+        <div className="text-center space-y-4">
+          <AlertCircle className="w-12 h-12 mx-auto text-red-500" />
+          <p className="text-gray-600">{error}</p>
+          <button
+            onClick={() => navigate('/stories')}
+            className="px-4 py-2 text-orange-600 hover:bg-orange-50 rounded-lg transition-colors"
+          >
+            Go to your stories
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <p className="text-gray-600 text-center">
+          <span className="font-medium text-gray-900">{invite.invitedByName}</span> invited you to{' '}
+          <span className="font-medium text-gray-900">{invite.collectionName}</span>
+        </p>
+        <div className="bg-orange-50 rounded-lg p-4">
+          <p className="font-medium text-orange-700">{ROLE_LABELS[invite.role]}</p>
+          <p className="text-sm text-orange-600">{ROLE_DESCRIPTIONS[invite.role]}</p>
+        </div>
+        <button
+          onClick={handleAccept}
+          disabled={isSubmitting}
+          className="w-full flex items-center justify-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+        >
+          {isSubmitting ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : invite.status === 'accepted' ? (
+            'Open collection'
+          ) : (
+            'Accept invitation'
+          )}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4 w-full">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-md p-8">
+        <div className="flex flex-col items-center mb-6">
+          <div className="w-12 h-12 rounded-full bg-orange-100 flex items-center justify-center mb-3">
+            <Users className="w-6 h-6 text-orange-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-center">Join a family collection</h2>
+        </div>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
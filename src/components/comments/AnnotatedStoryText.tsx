@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquarePlus } from 'lucide-react';
+import { anchorFromSelection, highlightIdAt, highlightRanges, linkPathAt, linkRanges, TextAnchor, TextRange } from '../../lib/textAnchors';
+
+interface AnnotatedStoryTextProps {
+  // Already sanitized
+  html: string;
+  // Commented passages to highlight, keyed by comment id
+  highlights: TextRange[];
+  // Passages to link, keyed by the path they lead to
+  links?: TextRange[];
+  canComment: boolean;
+  onCommentOnPassage: (anchor: TextAnchor) => void;
+  onHighlightClick: (commentId: string) => void;
+  onLinkClick?: (path: string) => void;
+}
+
+interface PendingSelection {
+  anchor: TextAnchor;
+  top: number;
+  left: number;
+}
+
+export const AnnotatedStoryText: React.FC<AnnotatedStoryTextProps> = ({
+  html,
+  highlights,
+  links = [],
+  canComment,
+  onCommentOnPassage,
+  onHighlightClick,
+  onLinkClick,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [pending, setPending] = useState<PendingSelection | null>(null);
+
+  // Re-applied after every render of the html, which discards earlier marks
+  useEffect(() => {
+    if (containerRef.current) {
+      highlightRanges(containerRef.current, highlights, 'bg-yellow-100 cursor-pointer rounded-sm');
+    }
+  }, [html, highlights]);
+
+  useEffect(() => {
+    if (containerRef.current) {
+      linkRanges(containerRef.current, links, 'text-orange-700 underline decoration-dotted underline-offset-2 hover:decoration-solid');
+    }
+  }, [html, links]);
+
+  const handleMouseUp = () => {
+    const container = containerRef.current;
+    if (!canComment || !container) return;
+
+    const selection = window.getSelection();
+    const anchor = anchorFromSelection(container, selection);
+    if (!anchor || !selection) {
+      setPending(null);
+      return;
+    }
+
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    setPending({
+      anchor,
+      top: rect.top - containerRect.top - 40,
+      left: rect.left - containerRect.left + rect.width / 2,
+    });
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    const path = linkPathAt(e.target);
+    if (path && onLinkClick) {
+      e.preventDefault();
+      onLinkClick(path);
+      return;
+    }
+
+    const commentId = highlightIdAt(e.target);
+    if (commentId && window.getSelection()?.isCollapsed) {
+      onHighlightClick(commentId);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        ref={containerRef}
+        onMouseUp={handleMouseUp}
+        onClick={handleClick}
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+      {pending && (
+        <button
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => {
+            onCommentOnPassage(pending.anchor);
+            setPending(null);
+            window.getSelection()?.removeAllRanges();
+          }}
+          style={{ top: pending.top, left: pending.left }}
+          className="absolute -translate-x-1/2 flex items-center px-3 py-1.5 bg-gray-900 text-white text-sm rounded-lg shadow-lg hover:bg-gray-800 not-prose"
+        >
+          <MessageSquarePlus className="w-4 h-4 mr-2" />
+          Comment
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { MessageSquare, Reply, Pencil, Trash2, X, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { CommentContext, useRepositories } from '../../lib/repositories';
+import { buildThreads, CommentNode } from '../../lib/comments';
+import { useCommentAuthor } from '../../hooks/useComments';
+import { CommentAnchor, ReactionKey, StoryComment } from '../../types/comment';
+import { ReactionBar } from './ReactionBar';
+
+interface CommentComposerProps {
+  placeholder: string;
+  initialValue?: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+const CommentComposer: React.FC<CommentComposerProps> = ({
+  placeholder,
+  initialValue = '',
+  submitLabel,
+  onSubmit,
+  onCancel,
+  autoFocus = false,
+}) => {
+  const [body, setBody] = useState(initialValue);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(body);
+      setBody('');
+    } catch {
+      // Keep the draft; onSubmit has already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={2}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving || !body.trim()}
+          className="flex items-center px-3 py-1.5 text-sm bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+        >
+          {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface CommentThreadProps {
+  context: CommentContext;
+  comments: StoryComment[];
+  // Top-level comments to show; replies always follow their parent
+  filter?: (anchor: CommentAnchor) => boolean;
+  // Attached to new top-level comments, defaults to the whole story or chapter
+  anchor?: CommentAnchor;
+  onClearAnchor?: () => void;
+  // Short label shown above a comment, e.g. the quoted passage or the session date
+  describeAnchor?: (comment: StoryComment) => React.ReactNode;
+  focusedCommentId?: string | null;
+  emptyMessage?: string;
+}
+
+export const CommentThread: React.FC<CommentThreadProps> = ({
+  context,
+  comments,
+  filter,
+  anchor = { type: 'whole' },
+  onClearAnchor,
+  describeAnchor,
+  focusedCommentId,
+  emptyMessage = 'No comments yet',
+}) => {
+  const repositories = useRepositories();
+  const { author, canComment, canModerate } = useCommentAuthor(context.collectionId);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const focusedRef = useRef<HTMLDivElement>(null);
+
+  const threads = useMemo(
+    () => buildThreads(comments).filter(node => !filter || filter(node.comment.anchor)),
+    [comments, filter]
+  );
+
+  useEffect(() => {
+    focusedRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedCommentId]);
+
+  const handleAdd = async (body: string, parentId: string | null = null) => {
+    if (!author) return;
+    try {
+      await repositories.comments.add(context, author, {
+        // Replies inherit the anchor of the comment they answer
+        anchor: parentId ? comments.find(comment => comment.id === parentId)?.anchor ?? anchor : anchor,
+        parentId,
+        body,
+      });
+      setReplyingTo(null);
+      if (!parentId) onClearAnchor?.();
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      toast.error('Failed to post comment');
+      throw error;
+    }
+  };
+
+  const handleEdit = async (id: string, body: string) => {
+    try {
+      await repositories.comments.edit(id, body);
+      setEditing(null);
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      toast.error('Failed to update comment');
+      throw error;
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this comment?')) return;
+    try {
+      await repositories.comments.remove(id);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error('Failed to delete comment');
+    }
+  };
+
+  const handleReaction = async (id: string, key: ReactionKey, active: boolean) => {
+    if (!author) return;
+    try {
+      await repositories.comments.toggleCommentReaction(id, key, author.id, active);
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      toast.error('Failed to update reaction');
+    }
+  };
+
+  const renderNode = ({ comment, replies }: CommentNode, depth: number): React.ReactNode => {
+    const isOwn = comment.authorId === author?.id;
+    const isFocused = comment.id === focusedCommentId;
+
+    return (
+      <div key={comment.id} className={depth > 0 ? 'ml-6 pl-4 border-l-2 border-gray-100' : ''}>
+        <div
+          ref={isFocused ? focusedRef : undefined}
+          className={`py-3 rounded-lg transition-colors ${isFocused ? 'bg-orange-50 px-3' : ''}`}
+        >
+          {depth === 0 && describeAnchor?.(comment)}
+          <div className="flex items-center gap-2 mb-1">
+            <div className="w-6 h-6 rounded-full bg-orange-500 flex items-center justify-center">
+              <span className="text-white text-xs font-semibold">{comment.authorName[0]?.toUpperCase() || '?'}</span>
+            </div>
+            <span className="text-sm font-medium text-gray-900">{comment.authorName}</span>
+            <span className="text-xs text-gray-500">
+              {formatDistanceToNow(comment.createdAt.toDate(), { addSuffix: true })}
+              {comment.editedAt && ' · edited'}
+            </span>
+          </div>
+
+          {comment.deleted ? (
+            <p className="text-sm text-gray-400 italic">Comment deleted</p>
+          ) : editing === comment.id ? (
+            <CommentComposer
+              placeholder="Edit your comment"
+              initialValue={comment.body}
+              submitLabel="Save"
+              onSubmit={(body) => handleEdit(comment.id, body)}
+              onCancel={() => setEditing(null)}
+              autoFocus
+            />
+          ) : (
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+          )}
+
+          {!comment.deleted && editing !== comment.id && (
+            <div className="flex items-center gap-3 mt-2">
+              <ReactionBar
+                reactions={comment.reactions}
+                userId={author?.id}
+                canReact={canComment}
+                onToggle={(key, active) => handleReaction(comment.id, key, active)}
+                compact
+              />
+              {canComment && (
+                <button
+                  onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                  className="flex items-center text-xs text-gray-500 hover:text-orange-600"
+                >
+                  <Reply className="w-3.5 h-3.5 mr-1" />
+                  Reply
+                </button>
+              )}
+              {isOwn && (
+                <button
+                  onClick={() => setEditing(comment.id)}
+                  className="flex items-center text-xs text-gray-500 hover:text-orange-600"
+                >
+                  <Pencil className="w-3.5 h-3.5 mr-1" />
+                  Edit
+                </button>
+              )}
+              {(isOwn || canModerate) && (
+                <button
+                  onClick={() => handleDelete(comment.id)}
+                  className="flex items-center text-xs text-gray-500 hover:text-red-600"
+                >
+                  <Trash2 className="w-3.5 h-3.5 mr-1" />
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
+
+          {replyingTo === comment.id && (
+            <div className="mt-3">
+              <CommentComposer
+                placeholder={`Reply to ${comment.authorName}`}
+                submitLabel="Reply"
+                onSubmit={(body) => handleAdd(body, comment.id)}
+                onCancel={() => setReplyingTo(null)}
+                autoFocus
+              />
+            </div>
+          )}
+        </div>
+        {replies.map(reply => renderNode(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {threads.length === 0 ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <MessageSquare className="w-4 h-4 mr-2" />
+          {emptyMessage}
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">{threads.map(node => renderNode(node, 0))}</div>
+      )}
+
+      {canComment && (
+        <div>
+          {anchor.type === 'selection' && (
+            <div className="flex items-start gap-2 mb-2 p-2 bg-yellow-50 border-l-4 border-yellow-300 rounded text-sm text-gray-700">
+              <span className="flex-1 italic line-clamp-2">“{anchor.quote}”</span>
+              {onClearAnchor && (
+                <button onClick={onClearAnchor} className="text-gray-400 hover:text-gray-600" title="Comment on the whole story instead">
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
+          <CommentComposer
+            // Remounts for a new passage so the composer takes focus
+            key={anchor.type === 'selection' ? `selection-${anchor.start}` : anchor.type}
+            placeholder={anchor.type === 'selection' ? 'Comment on this passage' : 'Add a comment'}
+            submitLabel="Comment"
+            onSubmit={(body) => handleAdd(body)}
+            autoFocus={anchor.type === 'selection'}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { REACTION_EMOJI, REACTION_KEYS } from '../../lib/comments';
+import { ReactionKey, Reactions } from '../../types/comment';
+
+interface ReactionBarProps {
+  reactions: Reactions;
+  userId: string | undefined;
+  canReact: boolean;
+  onToggle: (key: ReactionKey, active: boolean) => void;
+  // Only shows reactions that were used, with a picker for the rest
+  compact?: boolean;
+}
+
+export const ReactionBar: React.FC<ReactionBarProps> = ({ reactions, userId, canReact, onToggle, compact = false }) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const visibleKeys = compact ? REACTION_KEYS.filter(key => reactions[key]?.length) : REACTION_KEYS;
+
+  const handleToggle = (key: ReactionKey) => {
+    if (!canReact || !userId) return;
+    onToggle(key, !reactions[key]?.includes(userId));
+    setIsPickerOpen(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {visibleKeys.map((key) => {
+        const count = reactions[key]?.length || 0;
+        const isActive = !!userId && !!reactions[key]?.includes(userId);
+        return (
+          <button
+            key={key}
+            onClick={() => handleToggle(key)}
+            disabled={!canReact}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-sm transition-colors disabled:cursor-default ${
+              isActive
+                ? 'bg-orange-50 border-orange-300 text-orange-700'
+                : 'bg-white border-gray-200 text-gray-600 enabled:hover:bg-gray-50'
+            }`}
+          >
+            <span>{REACTION_EMOJI[key]}</span>
+            {count > 0 && <span>{count}</span>}
+          </button>
+        );
+      })}
+      {compact && canReact && (
+        <div className="relative">
+          <button
+            onClick={() => setIsPickerOpen(!isPickerOpen)}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded-full transition-colors"
+            title="Add reaction"
+          >
+            <SmilePlus className="w-4 h-4" />
+          </button>
+          {isPickerOpen && (
+            <div className="absolute left-0 bottom-full mb-1 flex gap-1 bg-white border border-gray-200 rounded-full shadow-md px-2 py-1 z-10">
+              {REACTION_KEYS.map((key) => (
+                <button
+                  key={key}
+                  onClick={() => handleToggle(key)}
+                  className="text-lg hover:scale-125 transition-transform"
+                >
+                  {REACTION_EMOJI[key]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
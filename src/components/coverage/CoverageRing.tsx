@@ -0,0 +1,40 @@
+import React from 'react';
+import { CategoryCoverage } from '../../lib/coverage';
+
+const SIZE = 44;
+const STROKE = 4;
+const RADIUS = (SIZE - STROKE) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+interface CoverageRingProps {
+  coverage: CategoryCoverage | undefined;
+}
+
+// How many of a category's questions have a story, as a ring filling up clockwise
+export const CoverageRing: React.FC<CoverageRingProps> = ({ coverage }) => {
+  const total = coverage?.total ?? 0;
+  const answered = coverage?.answeredCount ?? 0;
+  const ratio = total ? answered / total : 0;
+
+  return (
+    <div className="relative" style={{ width: SIZE, height: SIZE }} title={`${answered} of ${total} questions answered`}>
+      <svg width={SIZE} height={SIZE} className="-rotate-90">
+        <circle cx={SIZE / 2} cy={SIZE / 2} r={RADIUS} fill="none" strokeWidth={STROKE} className="stroke-gray-200" />
+        <circle
+          cx={SIZE / 2}
+          cy={SIZE / 2}
+          r={RADIUS}
+          fill="none"
+          strokeWidth={STROKE}
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - ratio)}
+          className={ratio === 1 ? 'stroke-green-500' : 'stroke-orange-500'}
+        />
+      </svg>
+      <span className="absolute inset-0 flex items-center justify-center text-xs font-medium text-gray-700">
+        {answered}/{total}
+      </span>
+    </div>
+  );
+};
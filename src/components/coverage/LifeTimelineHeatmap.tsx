@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarRange } from 'lucide-react';
+import { auth } from '../../lib/firebase';
+import { useRepositories } from '../../lib/repositories';
+import { buildLifeTimeline, TimelineCell } from '../../lib/coverage';
+import { Story } from '../../types/story';
+import toast from 'react-hot-toast';
+
+// Background by number of stories; empty cells are the gaps
+const heatClass = (count: number) => {
+  if (count === 0) return 'bg-white border-2 border-dashed border-gray-300 text-gray-400';
+  if (count === 1) return 'bg-orange-100 text-orange-800';
+  if (count <= 3) return 'bg-orange-300 text-orange-900';
+  return 'bg-orange-500 text-white';
+};
+
+const HeatmapRow: React.FC<{ title: string; cells: TimelineCell[] }> = ({ title, cells }) => (
+  <div>
+    <h3 className="text-sm font-medium text-gray-700 mb-2">{title}</h3>
+    <div className="flex flex-wrap gap-2">
+      {cells.map((cell) => (
+        <div
+          key={cell.id}
+          className={`px-3 py-2 rounded-lg text-sm min-w-[5.5rem] text-center ${heatClass(cell.storyIds.length)}`}
+          title={cell.storyIds.length === 0 ? 'No stories yet' : `${cell.storyIds.length} ${cell.storyIds.length === 1 ? 'story' : 'stories'}`}
+        >
+          <div className="font-medium">{cell.label}</div>
+          <div className="text-xs">{cell.storyIds.length || '—'}</div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+interface LifeTimelineHeatmapProps {
+  stories: Story[];
+  birthYear?: number;
+  onBirthYearSaved: (birthYear: number) => void;
+}
+
+export const LifeTimelineHeatmap: React.FC<LifeTimelineHeatmapProps> = ({ stories, birthYear, onBirthYearSaved }) => {
+  const [yearInput, setYearInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const repositories = useRepositories();
+  const timeline = useMemo(() => buildLifeTimeline(stories, birthYear), [stories, birthYear]);
+  const gaps = timeline.stages.filter(stage => stage.storyIds.length === 0);
+
+  const handleSaveBirthYear = async () => {
+    if (!auth.currentUser) return;
+    const year = Number(yearInput);
+    if (!Number.isInteger(year) || year < 1900 || year > new Date().getFullYear()) {
+      toast.error('Please enter a valid year');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await repositories.profiles.update(auth.currentUser.uid, { birthYear: year });
+      onBirthYearSaved(year);
+    } catch (error) {
+      console.error('Error saving birth year:', error);
+      toast.error('Failed to save birth year');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+      <div className="flex items-center space-x-2 mb-1">
+        <CalendarRange className="w-5 h-5 text-orange-500" />
+        <h2 className="text-xl font-semibold text-gray-900">Your Life in Stories</h2>
+      </div>
+      <p className="text-gray-600 mb-6">
+        {gaps.length > 0
+          ? `No stories yet about: ${gaps.map(stage => stage.label).join(', ')}`
+          : 'Every part of your life has at least one story'}
+      </p>
+
+      <div className="space-y-6">
+        <HeatmapRow title="Life Stages" cells={timeline.stages} />
+        {timeline.decades.length > 0 && <HeatmapRow title="Decades" cells={timeline.decades} />}
+      </div>
+
+      {!birthYear && (
+        <div className="mt-6 pt-4 border-t border-gray-100 flex flex-col md:flex-row md:items-center gap-3">
+          <p className="text-sm text-gray-600 flex-1">
+            Add the year you were born to place stories that mention your age
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              value={yearInput}
+              onChange={(e) => setYearInput(e.target.value)}
+              placeholder="e.g. 1948"
+              className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+            />
+            <button
+              onClick={handleSaveBirthYear}
+              disabled={isSaving || !yearInput}
+              className="px-4 py-2 text-sm bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { EyeOff, Search } from 'lucide-react';
+import { useCollections } from '../../hooks/useCollections';
+import { useEntityIndex } from '../../hooks/useEntities';
+import { BrowsableKind, ENTITY_LABELS, ENTITY_ROUTES } from '../../lib/entities';
+import { ENTITY_ICONS } from './entityIcons';
+
+interface EntitiesViewProps {
+  kind: BrowsableKind;
+}
+
+export const EntitiesView: React.FC<EntitiesViewProps> = ({ kind }) => {
+  const [filter, setFilter] = useState('');
+  const [showHidden, setShowHidden] = useState(false);
+  const { active, ownerId, role } = useCollections();
+  const isOwnCollection = role === 'owner';
+  const { entities, isLoading } = useEntityIndex(ownerId, isOwnCollection);
+  const storytellerName = active?.members[active.ownerId]?.name || 'the storyteller';
+  const label = ENTITY_LABELS[kind];
+  const Icon = ENTITY_ICONS[kind];
+
+  const ofKind = useMemo(
+    () =>
+      entities
+        .filter(entity => entity.kind === kind)
+        .sort((a, b) => b.storyIds.length - a.storyIds.length || a.name.localeCompare(b.name)),
+    [entities, kind]
+  );
+  const hiddenCount = ofKind.filter(entity => entity.ignored).length;
+  const term = filter.trim().toLowerCase();
+  const visible = ofKind.filter(
+    entity =>
+      (showHidden || !entity.ignored) &&
+      (!term || entity.aliases.some(alias => alias.toLowerCase().includes(term)))
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex flex-col md:flex-row gap-3 justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 text-center md:text-left">{label.plural}</h1>
+            <p className="text-gray-600 mt-1 text-center md:text-left">
+              {kind === 'person'
+                ? `Everyone ${isOwnCollection ? 'you have' : `${storytellerName} has`} talked about`
+                : `Everywhere ${isOwnCollection ? 'your' : `${storytellerName}'s`} stories take place`}
+            </p>
+          </div>
+          <div className="relative w-full md:w-72">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder={`Find ${kind === 'person' ? 'someone' : 'a place'}...`}
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+            />
+          </div>
+        </div>
+
+        {visible.length === 0 ? (
+          <div className="text-center py-12">
+            <Icon className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {term ? `No ${label.plural.toLowerCase()} match "${filter.trim()}"` : `No ${label.plural.toLowerCase()} yet`}
+            </h3>
+            {!term && (
+              <p className="text-gray-600">
+                {kind === 'person' ? 'People' : 'Places'} mentioned in finished stories will show up here
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {visible.map((entity) => (
+              <Link
+                key={entity.id}
+                to={`${ENTITY_ROUTES[kind]}/${entity.id}`}
+                className={`bg-white rounded-lg shadow-sm p-5 hover:shadow-md transition-shadow ${entity.ignored ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full bg-orange-100 flex items-center justify-center shrink-0">
+                    <Icon className="w-5 h-5 text-orange-600" />
+                  </div>
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-gray-900 truncate">{entity.name}</h3>
+                    <p className="text-sm text-gray-500">
+                      {entity.storyIds.length} {entity.storyIds.length === 1 ? 'story' : 'stories'}
+                    </p>
+                  </div>
+                </div>
+                {entity.aliases.length > 1 && (
+                  <p className="text-xs text-gray-500 mt-3 truncate">
+                    Also: {entity.aliases.filter(alias => alias !== entity.name).join(', ')}
+                  </p>
+                )}
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {hiddenCount > 0 && (
+          <button
+            onClick={() => setShowHidden(prev => !prev)}
+            className="mt-6 flex items-center text-sm text-gray-500 hover:text-gray-700"
+          >
+            <EyeOff className="w-4 h-4 mr-2" />
+            {showHidden ? 'Hide' : 'Show'} {hiddenCount} hidden {hiddenCount === 1 ? label.singular.toLowerCase() : label.plural.toLowerCase()}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Eye, EyeOff, GitMerge, Plus, Scissors } from 'lucide-react';
+import { format } from 'date-fns';
+import { useRepositories } from '../../lib/repositories';
+import { useCollections } from '../../hooks/useCollections';
+import { useEntityIndex } from '../../hooks/useEntities';
+import { BrowsableKind, ENTITY_LABELS, ENTITY_ROUTES, mergeEntities, splitAlias } from '../../lib/entities';
+import { ENTITY_ICONS } from './entityIcons';
+import toast from 'react-hot-toast';
+
+interface EntityViewProps {
+  kind: BrowsableKind;
+}
+
+export const EntityView: React.FC<EntityViewProps> = ({ kind }) => {
+  const [newAlias, setNewAlias] = useState('');
+  const [mergeId, setMergeId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const repositories = useRepositories();
+  const { ownerId, role } = useCollections();
+  // Only the storyteller curates their index; family members browse it
+  const isOwnCollection = role === 'owner';
+  const { stories, entities, isLoading, reload } = useEntityIndex(ownerId, isOwnCollection);
+  const label = ENTITY_LABELS[kind];
+  const Icon = ENTITY_ICONS[kind];
+
+  const entity = entities.find(candidate => candidate.id === id && candidate.kind === kind);
+  const mentioningStories = useMemo(
+    () =>
+      entity
+        ? stories
+            .filter(story => entity.storyIds.includes(story.id))
+            .sort((a, b) => b.lastUpdationTime.toMillis() - a.lastUpdationTime.toMillis())
+        : [],
+    [stories, entity]
+  );
+  const mergeCandidates = entities
+    .filter(candidate => candidate.kind === kind && candidate.id !== id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  // Edits change which mentions belong where, so the index is recounted after each
+  const runEdit = async (edit: () => Promise<unknown>, success: string, failure: string) => {
+    setIsSaving(true);
+    try {
+      await edit();
+      toast.success(success);
+      reload();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  if (!ownerId || !entity) {
+    return (
+      <div className="p-8">
+        <div className="max-w-3xl mx-auto text-center py-12">
+          <Icon className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-4">{label.singular} not found</h3>
+          <Link to={ENTITY_ROUTES[kind]} className="text-orange-600 hover:text-orange-700">
+            Back to {label.plural}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const handleAddAlias = (e: React.FormEvent) => {
+    e.preventDefault();
+    const alias = newAlias.trim();
+    if (!alias) return;
+    if (entity.aliases.some(existing => existing.toLowerCase() === alias.toLowerCase())) {
+      toast.error(`${entity.name} already goes by ${alias}`);
+      return;
+    }
+    runEdit(
+      async () => {
+        await repositories.entities.update(ownerId, entity.id, { aliases: [...entity.aliases, alias], edited: true });
+        setNewAlias('');
+      },
+      `Added ${alias}`,
+      'Failed to add name'
+    );
+  };
+
+  const handleMerge = () => {
+    const source = mergeCandidates.find(candidate => candidate.id === mergeId);
+    if (!source) return;
+    runEdit(
+      async () => {
+        await mergeEntities(repositories, ownerId, entity, source);
+        setMergeId('');
+      },
+      `Merged ${source.name} into ${entity.name}`,
+      'Failed to merge'
+    );
+  };
+
+  const handleSplit = (alias: string) =>
+    runEdit(() => splitAlias(repositories, ownerId, entity, alias), `${alias} is now separate`, 'Failed to split');
+
+  const handleRename = (alias: string) =>
+    runEdit(
+      () => repositories.entities.update(ownerId, entity.id, { name: alias, edited: true }),
+      `Renamed to ${alias}`,
+      'Failed to rename'
+    );
+
+  const handleToggleIgnored = () =>
+    runEdit(
+      () => repositories.entities.update(ownerId, entity.id, { ignored: !entity.ignored, edited: true }),
+      entity.ignored ? `${entity.name} is shown again` : `${entity.name} is hidden`,
+      'Failed to update'
+    );
+
+  return (
+    <div className="p-8">
+      <div className="max-w-4xl mx-auto">
+        <button onClick={() => navigate(ENTITY_ROUTES[kind])} className="flex items-center text-gray-600 hover:text-gray-900 mb-6">
+          <ArrowLeft className="w-5 h-5 mr-2" />
+          Back to {label.plural}
+        </button>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="w-14 h-14 rounded-full bg-orange-100 flex items-center justify-center shrink-0">
+                <Icon className="w-7 h-7 text-orange-600" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{entity.name}</h1>
+                <p className="text-gray-600">
+                  Mentioned {entity.mentionCount} {entity.mentionCount === 1 ? 'time' : 'times'} in {entity.storyIds.length}{' '}
+                  {entity.storyIds.length === 1 ? 'story' : 'stories'}
+                </p>
+              </div>
+            </div>
+            {isOwnCollection && (
+              <button
+                onClick={handleToggleIgnored}
+                disabled={isSaving}
+                className="flex items-center px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                title={entity.ignored ? 'Show in lists and link in stories' : `Not a ${label.singular.toLowerCase()}? Hide it`}
+              >
+                {entity.ignored ? <Eye className="w-4 h-4 mr-2" /> : <EyeOff className="w-4 h-4 mr-2" />}
+                {entity.ignored ? 'Show' : 'Hide'}
+              </button>
+            )}
+          </div>
+
+          <div className="mt-6">
+            <h2 className="text-sm font-medium text-gray-700 mb-2">Known as</h2>
+            <div className="flex flex-wrap gap-2">
+              {entity.aliases.map((alias) => (
+                <span
+                  key={alias}
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-sm ${
+                    alias === entity.name ? 'bg-orange-100 text-orange-800' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {isOwnCollection && alias !== entity.name ? (
+                    <button onClick={() => handleRename(alias)} disabled={isSaving} title="Use this name">
+                      {alias}
+                    </button>
+                  ) : (
+                    alias
+                  )}
+                  {isOwnCollection && entity.aliases.length > 1 && (
+                    <button
+                      onClick={() => handleSplit(alias)}
+                      disabled={isSaving}
+                      className="ml-2 text-gray-400 hover:text-gray-700"
+                      title={`Not the same ${label.singular.toLowerCase()}? Split off ${alias}`}
+                    >
+                      <Scissors className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {isOwnCollection && (
+            <div className="mt-6 pt-4 border-t border-gray-100 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <form onSubmit={handleAddAlias} className="flex gap-2">
+                <input
+                  type="text"
+                  value={newAlias}
+                  onChange={(e) => setNewAlias(e.target.value)}
+                  placeholder="Another name, e.g. a nickname"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+                <button
+                  type="submit"
+                  disabled={isSaving || !newAlias.trim()}
+                  className="flex items-center px-3 py-2 text-sm bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add
+                </button>
+              </form>
+              {mergeCandidates.length > 0 && (
+                <div className="flex gap-2">
+                  <select
+                    value={mergeId}
+                    onChange={(e) => setMergeId(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                    aria-label={`Merge another ${label.singular.toLowerCase()} into this one`}
+                  >
+                    <option value="">Same {label.singular.toLowerCase()} as...</option>
+                    {mergeCandidates.map((candidate) => (
+                      <option key={candidate.id} value={candidate.id}>
+                        {candidate.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleMerge}
+                    disabled={isSaving || !mergeId}
+                    className="flex items-center px-3 py-2 text-sm border border-orange-500 text-orange-600 rounded-lg hover:bg-orange-50 transition-colors disabled:opacity-50"
+                  >
+                    <GitMerge className="w-4 h-4 mr-1" />
+                    Merge
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Stories</h2>
+        {mentioningStories.length === 0 ? (
+          <p className="text-gray-600">No finished stories mention {entity.name} right now</p>
+        ) : (
+          <div className="space-y-3">
+            {mentioningStories.map((story) => (
+              <Link
+                key={story.id}
+                to={`/stories/${story.id}`}
+                className="block bg-white rounded-lg shadow-sm p-4 hover:shadow-md transition-shadow"
+              >
+                <h3 className="font-semibold text-gray-900">{story.title || story.initialQuestion}</h3>
+                {story.description && <p className="text-gray-600 text-sm mt-1 line-clamp-2">{story.description}</p>}
+                <p className="text-xs text-gray-500 mt-2">{format(story.lastUpdationTime.toDate(), 'MMMM d, yyyy')}</p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
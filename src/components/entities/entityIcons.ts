@@ -0,0 +1,7 @@
+import { MapPin, Users } from 'lucide-react';
+import { BrowsableKind } from '../../lib/entities';
+
+export const ENTITY_ICONS: Record<BrowsableKind, typeof Users> = {
+  person: Users,
+  place: MapPin,
+};
@@ -1,13 +1,17 @@
-import React from 'react';
-import { Clock, Calendar, Video } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Clock, Calendar, Video, Mic } from 'lucide-react';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { doc, getDoc } from 'firebase/firestore';
+import { auth, db } from '../../lib/firebase';
 import { Category } from '../../types/category';
+import { RecordingMode, User } from '../../types/user';
 
 interface ConversationTypeModalProps {
   isOpen: boolean;
   onClose: () => void;
   category: Category;
   question: string;
-  onStartNow: () => void;
+  onStartNow: (recordingMode: RecordingMode) => void;
   onSchedule: () => void;
   onBack: () => void;
 }
@@ -21,6 +25,21 @@ export const ConversationTypeModal: React.FC<ConversationTypeModalProps> = ({
   onSchedule,
   onBack,
 }) => {
+  const [user] = useAuthState(auth);
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>('video');
+
+  // Start from the mode chosen in settings; it can still be changed for this conversation
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    getDoc(doc(db, 'users', user.uid))
+      .then(userDoc => {
+        const data = userDoc.data() as User | undefined;
+        setRecordingMode(data?.recordingMode || 'video');
+      })
+      .catch(error => console.error('Error loading recording preference:', error));
+  }, [isOpen, user]);
+
   if (!isOpen) return null;
 
   return (
@@ -33,7 +52,7 @@ export const ConversationTypeModal: React.FC<ConversationTypeModalProps> = ({
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
             <button
-              onClick={onStartNow}
+              onClick={() => onStartNow(recordingMode)}
               className="bg-white border border-gray-200 rounded-lg p-6 text-left hover:border-orange-500 transition-colors group"
             >
               <div className="w-12 h-12 bg-orange-100 rounded-full flex items-center justify-center mb-4">
@@ -46,8 +65,17 @@ export const ConversationTypeModal: React.FC<ConversationTypeModalProps> = ({
                 Begin your conversation immediately
               </p>
               <div className="flex items-center text-sm text-gray-500">
-                <Video className="w-4 h-4 mr-2" />
-                Have a face-to-face conversation with your AI interviewer
+                {recordingMode === 'audio' ? (
+                  <>
+                    <Mic className="w-4 h-4 mr-2" />
+                    Talk with your AI interviewer, camera off
+                  </>
+                ) : (
+                  <>
+                    <Video className="w-4 h-4 mr-2" />
+                    Have a face-to-face conversation with your AI interviewer
+                  </>
+                )}
               </div>
             </button>
 
@@ -70,6 +98,30 @@ export const ConversationTypeModal: React.FC<ConversationTypeModalProps> = ({
             </button>
           </div>
 
+          <div className="flex flex-col md:flex-row md:items-center gap-3 mb-8">
+            <span className="text-sm font-medium text-gray-700">If you start now, record:</span>
+            <div className="inline-flex rounded-lg border border-gray-200 p-1">
+              <button
+                onClick={() => setRecordingMode('video')}
+                className={`flex items-center px-3 py-1.5 rounded-md text-sm transition-colors ${
+                  recordingMode === 'video' ? 'bg-orange-100 text-orange-700' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <Video className="w-4 h-4 mr-2" />
+                Video and audio
+              </button>
+              <button
+                onClick={() => setRecordingMode('audio')}
+                className={`flex items-center px-3 py-1.5 rounded-md text-sm transition-colors ${
+                  recordingMode === 'audio' ? 'bg-orange-100 text-orange-700' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <Mic className="w-4 h-4 mr-2" />
+                Audio only
+              </button>
+            </div>
+          </div>
+
           <div className="bg-gray-50 rounded-lg p-6">
             <h4 className="text-sm font-medium text-gray-700 mb-2">Starting Question:</h4>
             <p className="text-gray-600">{question}</p>
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, History } from 'lucide-react';
+import { format } from 'date-fns';
+import { callAttempts, SCHEDULE_STATUS_LABELS } from '../../lib/scheduleLifecycle';
+import { StorySchedule } from '../../types/story';
+
+interface ScheduleHistoryProps {
+  schedule: StorySchedule;
+}
+
+// Dial attempts and the full audit trail of a scheduled call, folded away until asked for
+export const ScheduleHistory: React.FC<ScheduleHistoryProps> = ({ schedule }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const attempts = callAttempts(schedule.history);
+  const { retryPolicy } = schedule;
+
+  if (schedule.history.length === 0) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+      >
+        <History className="w-4 h-4 mr-2" />
+        {attempts.length === 0
+          ? 'Not dialed yet'
+          : `${attempts.length} ${attempts.length === 1 ? 'attempt' : 'attempts'}`}
+        {retryPolicy && retryPolicy.maxRetries > 0 && (
+          <span className="ml-1 text-gray-400">
+            · retries up to {retryPolicy.maxRetries} {retryPolicy.maxRetries === 1 ? 'time' : 'times'}, every{' '}
+            {retryPolicy.intervalMinutes} minutes
+          </span>
+        )}
+        {isOpen ? <ChevronUp className="w-4 h-4 ml-2" /> : <ChevronDown className="w-4 h-4 ml-2" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">Attempts</h4>
+            {attempts.length === 0 ? (
+              <p className="text-gray-500">The call hasn't been dialed yet</p>
+            ) : (
+              <ul className="space-y-1">
+                {attempts.map((attempt, index) => (
+                  <li key={index} className="flex justify-between text-gray-700">
+                    <span>
+                      #{index + 1} · {format(attempt.startedAt, 'MMM d, h:mm a')}
+                    </span>
+                    <span className="text-gray-500">{SCHEDULE_STATUS_LABELS[attempt.status]}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">Activity</h4>
+            <ol className="space-y-2 border-l border-gray-200 pl-4">
+              {schedule.history.map((event, index) => (
+                <li key={index}>
+                  <p className="text-gray-700">
+                    {SCHEDULE_STATUS_LABELS[event.status]}
+                    {event.note && <span className="text-gray-500"> — {event.note}</span>}
+                  </p>
+                  <p className="text-xs text-gray-400">{format(event.at.toDate(), 'MMM d, yyyy h:mm a')}</p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+import { SCHEDULE_STATUS_LABELS } from '../../lib/scheduleLifecycle';
+import { ScheduleStatus } from '../../types/story';
+
+const STATUS_STYLES: Record<ScheduleStatus, string> = {
+  scheduled: 'bg-orange-50 text-orange-700',
+  dialing: 'bg-blue-50 text-blue-700 animate-pulse',
+  in_progress: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-50 text-green-700',
+  no_answer: 'bg-yellow-50 text-yellow-800',
+  failed: 'bg-red-50 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+interface ScheduleStatusBadgeProps {
+  status: ScheduleStatus;
+}
+
+export const ScheduleStatusBadge: React.FC<ScheduleStatusBadgeProps> = ({ status }) => (
+  <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_STYLES[status]}`}>
+    {SCHEDULE_STATUS_LABELS[status]}
+  </span>
+);
@@ -1,15 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Calendar, Clock, Phone } from 'lucide-react';
-import {
-  doc,
-  updateDoc,
-  serverTimestamp,
-  getDoc,
-  addDoc,
-  collection,
-} from 'firebase/firestore';
+import { ArrowLeft, Calendar, Clock, Globe, Phone, PhoneMissed, Repeat } from 'lucide-react';
+import { doc, getDoc } from 'firebase/firestore';
 import { auth, db } from '../../lib/firebase';
+import { useRepositories } from '../../lib/repositories';
+import { repeatOptions } from '../../lib/recurrence';
+import { reminderRecipient, scheduleReminders } from '../../lib/reminders';
+import { DEFAULT_RETRY_POLICY, RETRY_COUNT_OPTIONS, RETRY_INTERVAL_OPTIONS } from '../../lib/scheduleLifecycle';
+import { syncRecurringSchedules } from '../../lib/scheduling';
+import { browserTimeZone, dateToZonedTime, formatInTimeZone, listTimeZones, timeZoneLabel, zonedTimeToDate } from '../../lib/timeZones';
 import { Category } from '../../types/category';
+import { RetryPolicy, ScheduleEvent } from '../../types/story';
+import { User } from '../../types/user';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
 
@@ -34,25 +35,42 @@ export const SchedulingModal: React.FC<SchedulingModalProps> = ({
   const [time, setTime] = useState<string>('');
   const [phoneNumber, setPhoneNumber] = useState('');
   const [phoneError, setPhoneError] = useState<string | null>(null);
+  // Index into repeatOptions(), empty for a single call; options follow the chosen date
+  const [repeat, setRepeat] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [timeZone, setTimeZone] = useState(browserTimeZone);
+  const [userData, setUserData] = useState<User | null>(null);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+  // Audit trail of the call being edited, carried over to the new time
+  const [existingHistory, setExistingHistory] = useState<ScheduleEvent[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const repositories = useRepositories();
 
   useEffect(() => {
     const loadExistingSchedule = async () => {
-      if (!existingStoryId) return;
+      if (!auth.currentUser) return;
 
       try {
-        const storyDoc = doc(db, 'stories', existingStoryId);
-        const storySnapshot = await getDoc(storyDoc);
-
-        if (storySnapshot.exists()) {
-          const storyData = storySnapshot.data();
-          if (storyData.nextSchedule) {
-            const scheduledDate = storyData.nextSchedule.dateTime.toDate();
-            setDate(format(scheduledDate, 'yyyy-MM-dd'));
-            setTime(format(scheduledDate, 'HH:mm'));
-            setPhoneNumber(storyData.nextSchedule.phoneNumber);
+        const userDoc = await getDoc(doc(db, 'users', auth.currentUser.uid));
+        const profile = userDoc.exists() ? (userDoc.data() as User) : null;
+        setUserData(profile);
+        // New calls happen in the profile's zone unless another one is picked
+        let zone = profile?.timeZone || browserTimeZone();
+
+        if (existingStoryId) {
+          const story = await repositories.stories.getById(existingStoryId);
+          if (story?.nextSchedule) {
+            // Older schedules were entered in the browser's zone
+            zone = story.nextSchedule.timeZone || browserTimeZone();
+            const [scheduledDate, scheduledTime] = dateToZonedTime(story.nextSchedule.dateTime.toDate(), zone).split('T');
+            setDate(scheduledDate);
+            setTime(scheduledTime);
+            setPhoneNumber(story.nextSchedule.phoneNumber);
+            setRetryPolicy(story.nextSchedule.retryPolicy ?? DEFAULT_RETRY_POLICY);
+            setExistingHistory(story.nextSchedule.history);
           }
         }
+        setTimeZone(zone);
       } catch (error) {
         console.error('Error loading existing schedule:', error);
         toast.error('Failed to load existing schedule');
@@ -60,9 +78,15 @@ export const SchedulingModal: React.FC<SchedulingModalProps> = ({
     };
 
     if (isOpen) {
+      setRepeat('');
+      setEndDate('');
+      setRetryPolicy(DEFAULT_RETRY_POLICY);
+      setExistingHistory([]);
       loadExistingSchedule();
     }
-  }, [isOpen, existingStoryId]);
+  }, [isOpen, existingStoryId, repositories]);
+
+  const repeatRule = repeat && date ? repeatOptions(`${date}T${time || '00:00'}`)[Number(repeat)].rrule : '';
 
   const validatePhoneNumber = (number: string): boolean => {
     const cleaned = number.replace(/\D/g, '');
@@ -119,49 +143,70 @@ export const SchedulingModal: React.FC<SchedulingModalProps> = ({
       return;
     }
 
-    const scheduledDateTime = new Date(`${date}T${time}`);
+    const scheduledDateTime = zonedTimeToDate(`${date}T${time}`, timeZone);
     if (scheduledDateTime < new Date()) {
       toast.error('Please select a future date and time');
       return;
     }
 
+    if (repeatRule && endDate && endDate < date) {
+      toast.error('The end date must be after the first call');
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       const formattedPhoneNumber = formatPhoneNumber(phoneNumber);
-      
-      if (existingStoryId) {
-        // Update existing story
-        await updateDoc(doc(db, 'stories', existingStoryId), {
-          nextSchedule: {
-            dateTime: scheduledDateTime,
-            phoneNumber: formattedPhoneNumber,
-            status: 'scheduled',
-          },
-          lastUpdationTime: serverTimestamp(),
+      const recipient = reminderRecipient(auth.currentUser.uid, userData);
+
+      if (repeatRule) {
+        await repositories.schedules.create({
+          userId: auth.currentUser.uid,
+          categoryId: category.id,
+          initialQuestion: question,
+          phoneNumber: formattedPhoneNumber,
+          rrule: repeatRule,
+          start: `${date}T${time}`,
+          timeZone,
+          endDate: endDate || null,
+          retryPolicy,
         });
-        toast.success('Schedule updated successfully!');
+        // Books the first calls of the series
+        await syncRecurringSchedules(repositories, recipient);
+        toast.success('Recurring conversation scheduled successfully!');
+        onClose();
+        return;
+      }
+
+      const schedule = {
+        dateTime: scheduledDateTime,
+        phoneNumber: formattedPhoneNumber,
+        retryPolicy,
+        history: existingHistory,
+        timeZone,
+      };
+
+      let storyId = existingStoryId;
+      if (storyId) {
+        // Update existing story
+        await repositories.stories.setSchedule(storyId, schedule);
       } else {
         // Create new story
-        await addDoc(collection(db, 'stories'), {
+        storyId = await repositories.stories.create({
           userId: auth.currentUser.uid,
           categoryId: category.id,
-          title: null,
-          description: null,
-          storyText: null,
-          creationTime: serverTimestamp(),
-          lastUpdationTime: serverTimestamp(),
           initialQuestion: question,
-          isOnboardingStory: false,
-          sessions: {},
-          storySummary: null,
-          nextSchedule: {
-            dateTime: scheduledDateTime,
-            phoneNumber: formattedPhoneNumber,
-            status: 'scheduled',
-          },
+          nextSchedule: schedule,
         });
-        toast.success('Conversation scheduled successfully!');
       }
+      await scheduleReminders(repositories, recipient, {
+        storyId,
+        dateTime: scheduledDateTime,
+        timeZone,
+        phoneNumber: formattedPhoneNumber,
+        question,
+      });
+      toast.success(existingStoryId ? 'Schedule updated successfully!' : 'Conversation scheduled successfully!');
       onClose();
     } catch (error) {
       console.error('Error scheduling conversation:', error);
@@ -241,6 +286,101 @@ export const SchedulingModal: React.FC<SchedulingModalProps> = ({
                   />
                 </div>
               </div>
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Globe className="w-4 h-4 inline-block mr-2" />
+                  Time Zone of the Person Being Called
+                </label>
+                <select
+                  value={timeZone}
+                  onChange={(e) => setTimeZone(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                >
+                  {listTimeZones().map(zone => (
+                    <option key={zone} value={zone}>
+                      {timeZoneLabel(zone)}
+                    </option>
+                  ))}
+                </select>
+                {date && time && timeZone !== browserTimeZone() && (
+                  <p className="mt-2 text-sm text-gray-500">
+                    That's {formatInTimeZone(zonedTimeToDate(`${date}T${time}`, timeZone))} your time
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {!existingStoryId && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Repeat className="w-4 h-4 inline-block mr-2" />
+                  Repeat
+                </label>
+                <select
+                  value={repeat}
+                  onChange={(e) => setRepeat(e.target.value)}
+                  disabled={!date}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500 text-lg disabled:bg-gray-50"
+                >
+                  <option value="">Does not repeat</option>
+                  {date && repeatOptions(`${date}T${time || '00:00'}`).map((option, index) => (
+                    <option key={option.rrule} value={index}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {!date && (
+                  <p className="mt-2 text-sm text-gray-500">Pick the date of the first call to see repeat options</p>
+                )}
+
+                {repeatRule && (
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      <Calendar className="w-4 h-4 inline-block mr-2" />
+                      Ends On (optional)
+                    </label>
+                    <input
+                      type="date"
+                      value={endDate}
+                      onChange={(e) => setEndDate(e.target.value)}
+                      min={date}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <PhoneMissed className="w-4 h-4 inline-block mr-2" />
+                If Nobody Answers
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <select
+                  value={retryPolicy.maxRetries}
+                  onChange={(e) => setRetryPolicy(prev => ({ ...prev, maxRetries: Number(e.target.value) }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                >
+                  {RETRY_COUNT_OPTIONS.map(count => (
+                    <option key={count} value={count}>
+                      {count === 0 ? "Don't try again" : `Try again ${count === 1 ? 'once' : `${count} times`}`}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={retryPolicy.intervalMinutes}
+                  onChange={(e) => setRetryPolicy(prev => ({ ...prev, intervalMinutes: Number(e.target.value) }))}
+                  disabled={retryPolicy.maxRetries === 0}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500 disabled:bg-gray-50"
+                >
+                  {RETRY_INTERVAL_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 60 ? 'Every hour' : `Every ${minutes} minutes`}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div className="bg-orange-50 rounded-lg p-4">
@@ -248,6 +388,11 @@ export const SchedulingModal: React.FC<SchedulingModalProps> = ({
                 Starting Question
               </h4>
               <p className="text-orange-700">{question}</p>
+              {repeatRule && (
+                <p className="text-sm text-orange-600 mt-2">
+                  Later calls take turns through your upcoming questions in this category.
+                </p>
+              )}
             </div>
 
             <div className="flex justify-end space-x-4">
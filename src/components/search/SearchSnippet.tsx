@@ -0,0 +1,29 @@
+import React from 'react';
+import { FieldKind, SnippetPart } from '../../lib/search';
+
+const FIELD_LABELS: Record<FieldKind, string> = {
+  title: 'Title',
+  summary: 'Summary',
+  text: 'Story',
+  transcript: 'Conversation',
+};
+
+interface SearchSnippetProps {
+  kind: FieldKind;
+  parts: SnippetPart[];
+}
+
+export const SearchSnippet: React.FC<SearchSnippetProps> = ({ kind, parts }) => (
+  <p className="text-sm text-gray-600">
+    <span className="text-xs font-medium uppercase tracking-wide text-gray-400 mr-2">
+      {FIELD_LABELS[kind]}
+    </span>
+    {parts.map((part, index) =>
+      part.highlight ? (
+        <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">{part.text}</mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    )}
+  </p>
+);
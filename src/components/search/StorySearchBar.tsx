@@ -0,0 +1,70 @@
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { Category } from '../../types/category';
+import { EMPTY_SEARCH, isSearchActive, StorySearchValue } from '../../lib/search';
+
+interface StorySearchBarProps {
+  value: StorySearchValue;
+  onChange: (value: StorySearchValue) => void;
+  categories: Category[];
+}
+
+export const StorySearchBar: React.FC<StorySearchBarProps> = ({ value, onChange, categories }) => {
+  const update = (changes: Partial<StorySearchValue>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 mb-6 space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+        <input
+          type="text"
+          placeholder='Search stories and conversations, use "quotes" for exact phrases'
+          value={value.query}
+          onChange={(e) => update({ query: e.target.value })}
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+        />
+      </div>
+      <div className="flex flex-col md:flex-row gap-3">
+        <select
+          value={value.categoryId}
+          onChange={(e) => update({ categoryId: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+        >
+          <option value="">All categories</option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.title}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          From
+          <input
+            type="date"
+            value={value.from}
+            onChange={(e) => update({ from: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          To
+          <input
+            type="date"
+            value={value.to}
+            onChange={(e) => update({ to: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+          />
+        </label>
+        {isSearchActive(value) && (
+          <button
+            onClick={() => onChange(EMPTY_SEARCH)}
+            className="flex items-center text-sm text-gray-500 hover:text-gray-700 md:ml-auto"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
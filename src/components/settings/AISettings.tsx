@@ -1,22 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { User } from '../../types/user';
+import { RecordingMode, User } from '../../types/user';
 import { Play, Loader2, Check } from 'lucide-react';
 import { doc, updateDoc } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { auth } from '../../lib/firebase';
-import Retell from 'retell-sdk';
+import { listRetellVoices, updateRetellAgentVoice } from '../../lib/retell';
+import { RetellVoice } from '../../types/retell';
 import toast from 'react-hot-toast';
 
-interface Voice {
-  voice_id: string;
-  voice_name: string;
-  provider: string;
-  accent: string;
-  gender: string;
-  age: string;
-  preview_audio_url: string;
-}
-
 interface AISettingsProps {
   userData: User;
   onSettingsUpdate: () => void;
@@ -36,10 +27,12 @@ const DEFAULT_VOICE = {
 };
 
 export const AISettings: React.FC<AISettingsProps> = ({ userData, onSettingsUpdate }) => {
-  const [voices, setVoices] = useState<Voice[]>([]);
+  const [voices, setVoices] = useState<RetellVoice[]>([]);
   const [selectedVoice, setSelectedVoice] = useState(userData.aiPreferences?.voice || DEFAULT_VOICE);
   const [conversationStyle, setConversationStyle] = useState(userData.aiPreferences?.conversationStyle || 'balanced');
   const [followUpIntensity, setFollowUpIntensity] = useState(userData.aiPreferences?.followUpIntensity || 'balanced');
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>(userData.recordingMode || 'video');
+  const [maxPauseMinutes, setMaxPauseMinutes] = useState(userData.maxPauseMinutes || 5);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -62,12 +55,7 @@ export const AISettings: React.FC<AISettingsProps> = ({ userData, onSettingsUpda
     const fetchVoices = async () => {
       setIsLoading(true);
       try {
-        const client = new Retell({
-          apiKey: import.meta.env.VITE_RETELL_API_KEY,
-        });
-
-        const voiceResponses = await client.voice.list();
-        setVoices(voiceResponses);
+        setVoices(await listRetellVoices());
       } catch (error) {
         console.error('Error fetching voices:', error);
         toast.error('Failed to load voice options');
@@ -85,6 +73,8 @@ export const AISettings: React.FC<AISettingsProps> = ({ userData, onSettingsUpda
       setConversationStyle(userData.aiPreferences.conversationStyle);
       setFollowUpIntensity(userData.aiPreferences.followUpIntensity);
     }
+    setRecordingMode(userData.recordingMode || 'video');
+    setMaxPauseMinutes(userData.maxPauseMinutes || 5);
   }, [userData]);
 
   // Stop current audio when voice changes
@@ -116,15 +106,9 @@ export const AISettings: React.FC<AISettingsProps> = ({ userData, onSettingsUpda
   };
 
   const updateRetellAgents = async () => {
-    const client = new Retell({
-      apiKey: import.meta.env.VITE_RETELL_API_KEY,
-    });
-
     const updatePromises = userData.agentIds.map(async (agentId) => {
       try {
-        await client.agent.update(agentId, {
-          voice_id: selectedVoice.voice_id,
-        });
+        await updateRetellAgentVoice(agentId, selectedVoice.voice_id);
       } catch (error) {
         console.error(`Error updating agent ${agentId}:`, error);
         throw error;
@@ -150,6 +134,8 @@ export const AISettings: React.FC<AISettingsProps> = ({ userData, onSettingsUpda
           followUpIntensity,
           conversationStyle
         },
+        recordingMode,
+        maxPauseMinutes,
         updatedAt: new Date()
       });
 
@@ -333,6 +319,65 @@ export const AISettings: React.FC<AISettingsProps> = ({ userData, onSettingsUpda
               </label>
             </div>
           </div>
+
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Recording</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="relative flex flex-col bg-white p-4 border rounded-lg cursor-pointer hover:border-orange-500 transition-colors">
+                <input
+                  type="radio"
+                  name="recordingMode"
+                  value="video"
+                  checked={recordingMode === 'video'}
+                  onChange={() => setRecordingMode('video')}
+                  className="sr-only"
+                />
+                <div className={`absolute inset-0 rounded-lg border-2 pointer-events-none transition-colors ${
+                  recordingMode === 'video' ? 'border-orange-500' : 'border-transparent'
+                }`} />
+                <div className="font-medium mb-1">Video and Audio</div>
+                <div className="text-sm text-gray-600">
+                  Record yourself on camera while you tell your stories
+                </div>
+              </label>
+
+              <label className="relative flex flex-col bg-white p-4 border rounded-lg cursor-pointer hover:border-orange-500 transition-colors">
+                <input
+                  type="radio"
+                  name="recordingMode"
+                  value="audio"
+                  checked={recordingMode === 'audio'}
+                  onChange={() => setRecordingMode('audio')}
+                  className="sr-only"
+                />
+                <div className={`absolute inset-0 rounded-lg border-2 pointer-events-none transition-colors ${
+                  recordingMode === 'audio' ? 'border-orange-500' : 'border-transparent'
+                }`} />
+                <div className="font-medium mb-1">Audio Only</div>
+                <div className="text-sm text-gray-600">
+                  Keep the camera off and record just your voice
+                </div>
+              </label>
+            </div>
+
+            <label className="block mt-4">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Longest break during a call</span>
+              <select
+                value={maxPauseMinutes}
+                onChange={(e) => setMaxPauseMinutes(Number(e.target.value))}
+                className="w-full md:w-64 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+              >
+                {[2, 5, 8].map(minutes => (
+                  <option key={minutes} value={minutes}>
+                    {minutes} minutes
+                  </option>
+                ))}
+              </select>
+              <span className="block text-sm text-gray-500 mt-1">
+                If you're away longer than this, the call ends and your conversation is saved
+              </span>
+            </label>
+          </div>
         </div>
 
         <div className="mt-6 flex justify-end">
@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Check, Mail, Trash2, LogOut, Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { User } from '../../types/user';
+import { CollectionInvite, InviteRole } from '../../types/collection';
+import { INVITE_ROLES, useRepositories } from '../../lib/repositories';
+import { sendInviteEmail } from '../../lib/invitations';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '../../lib/permissions';
+import { useCollections } from '../../hooks/useCollections';
+
+interface CollectionSettingsProps {
+  userData: User;
+}
+
+export const CollectionSettings: React.FC<CollectionSettingsProps> = ({ userData }) => {
+  const { collections } = useCollections();
+  const repositories = useRepositories();
+  const ownCollection = collections.find(collection => collection.ownerId === userData.id) ?? null;
+  const sharedCollections = collections.filter(collection => collection.ownerId !== userData.id);
+  const [name, setName] = useState(ownCollection?.name ?? '');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InviteRole>('viewer');
+  const [invites, setInvites] = useState<CollectionInvite[]>([]);
+  const [isSavingName, setIsSavingName] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+
+  useEffect(() => {
+    setName(ownCollection?.name ?? '');
+  }, [ownCollection?.name]);
+
+  useEffect(() => {
+    return repositories.collections.watchPendingInvites(
+      userData.id,
+      setInvites,
+      error => console.error('Error watching invites:', error)
+    );
+  }, [userData.id, repositories]);
+
+  const handleRename = async () => {
+    if (!ownCollection || !name.trim()) return;
+
+    setIsSavingName(true);
+    try {
+      await repositories.collections.rename(ownCollection.id, name);
+      toast.success('Collection name updated');
+    } catch (error) {
+      console.error('Error renaming collection:', error);
+      toast.error('Failed to rename collection');
+    } finally {
+      setIsSavingName(false);
+    }
+  };
+
+  const sendInvite = async (email: string, role: InviteRole) => {
+    if (!ownCollection) return;
+
+    const inviteId = await repositories.collections.invite(ownCollection, email, role, {
+      id: userData.id,
+      name: userData.name,
+      email: userData.email,
+    });
+    await sendInviteEmail(inviteId, email.trim().toLowerCase());
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteEmail.trim().toLowerCase();
+    if (!ownCollection || !email) return;
+
+    if (Object.values(ownCollection.members).some(member => member.email.toLowerCase() === email)) {
+      toast.error('This person is already a member');
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      await sendInvite(email, inviteRole);
+      setInviteEmail('');
+      toast.success(`Invitation sent to ${email}`);
+    } catch (error) {
+      console.error('Error sending invite:', error);
+      toast.error('Failed to send invitation');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleResend = async (invite: CollectionInvite) => {
+    try {
+      await sendInvite(invite.email, invite.role);
+      toast.success(`Invitation resent to ${invite.email}`);
+    } catch (error) {
+      console.error('Error resending invite:', error);
+      toast.error('Failed to resend invitation');
+    }
+  };
+
+  const handleRevoke = async (invite: CollectionInvite) => {
+    try {
+      await repositories.collections.revokeInvite(invite.id);
+      toast.success('Invitation revoked');
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      toast.error('Failed to revoke invitation');
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: InviteRole) => {
+    if (!ownCollection) return;
+
+    try {
+      await repositories.collections.updateRole(ownCollection.id, userId, role);
+      toast.success('Role updated');
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error('Failed to update role');
+    }
+  };
+
+  const handleRemove = async (collectionId: string, userId: string, message: string) => {
+    if (!window.confirm(message)) return;
+
+    try {
+      await repositories.collections.removeMember(collectionId, userId);
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast.error('Failed to update members');
+    }
+  };
+
+  if (!ownCollection) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="w-6 h-6 animate-spin text-orange-500" />
+      </div>
+    );
+  }
+
+  const members = Object.entries(ownCollection.members).sort(([a], [b]) =>
+    a === ownCollection.ownerId ? -1 : b === ownCollection.ownerId ? 1 : 0
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl text-center md:text-left font-semibold text-gray-900 mb-4">Privacy & Sharing</h2>
+        <p className="text-gray-600 mb-6 text-center md:text-left">
+          Invite family members to read, comment on or help edit your stories
+        </p>
+
+        <div className="space-y-8">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Collection Name</h3>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+              />
+              <button
+                onClick={handleRename}
+                disabled={isSavingName || !name.trim() || name.trim() === ownCollection.name}
+                className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+              >
+                {isSavingName ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check className="w-5 h-5" />}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Members</h3>
+            <div className="divide-y divide-gray-100 border rounded-lg">
+              {members.map(([userId, member]) => (
+                <div key={userId} className="flex flex-col md:flex-row md:items-center gap-2 p-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{member.name}</p>
+                    <p className="text-sm text-gray-500 truncate">{member.email}</p>
+                  </div>
+                  {member.role === 'owner' ? (
+                    <span className="text-sm text-gray-500">{ROLE_LABELS.owner}</span>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(userId, e.target.value as InviteRole)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                      >
+                        {INVITE_ROLES.map(role => (
+                          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() =>
+                          handleRemove(ownCollection.id, userId, `Remove ${member.name} from ${ownCollection.name}?`)
+                        }
+                        className="p-2 text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+                        title="Remove member"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Invite Someone</h3>
+            <form onSubmit={handleInvite} className="space-y-3">
+              <div className="flex flex-col md:flex-row gap-3">
+                <input
+                  type="email"
+                  required
+                  placeholder="Email address"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                >
+                  {INVITE_ROLES.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={isInviting}
+                  className="flex items-center justify-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+                >
+                  {isInviting ? <Loader2 className="w-5 h-5 animate-spin" /> : <><Mail className="w-5 h-5 mr-2" />Invite</>}
+                </button>
+              </div>
+              <p className="text-sm text-gray-500">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+            </form>
+
+            {invites.length > 0 && (
+              <div className="mt-4 divide-y divide-gray-100 border rounded-lg">
+                {invites.map(invite => (
+                  <div key={invite.id} className="flex items-center gap-2 p-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-gray-900 truncate">{invite.email}</p>
+                      <p className="text-sm text-gray-500">Pending · {ROLE_LABELS[invite.role]}</p>
+                    </div>
+                    <button
+                      onClick={() => handleResend(invite)}
+                      className="p-2 text-gray-400 hover:text-orange-600 rounded-lg transition-colors"
+                      title="Resend invitation"
+                    >
+                      <Send className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(invite)}
+                      className="p-2 text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+                      title="Revoke invitation"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {sharedCollections.length > 0 && (
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Shared With You</h3>
+              <div className="divide-y divide-gray-100 border rounded-lg">
+                {sharedCollections.map(collection => (
+                  <div key={collection.id} className="flex items-center gap-2 p-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{collection.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {collection.members[collection.ownerId]?.name} ·{' '}
+                        {ROLE_LABELS[collection.members[userData.id]?.role ?? 'viewer']}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() =>
+                        handleRemove(collection.id, userData.id, `Leave ${collection.name}? You will need a new invitation to rejoin.`)
+                      }
+                      className="flex items-center px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <LogOut className="w-4 h-4 mr-2" />
+                      Leave
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { User } from '../../types/user';
+import { ReminderChannel } from '../../types/reminder';
+import { Loader2, Check } from 'lucide-react';
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { DEFAULT_REMINDER_PREFERENCES } from '../../lib/bookings';
+import { REMINDER_CHANNELS, REMINDER_OFFSETS } from '../../lib/reminders';
+import { browserTimeZone, listTimeZones, timeZoneLabel } from '../../lib/timeZones';
+import toast from 'react-hot-toast';
+
+interface NotificationSettingsProps {
+  userData: User;
+  onSettingsUpdate: () => void;
+}
+
+// Adds `value` to `list` or takes it out
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+export const NotificationSettings: React.FC<NotificationSettingsProps> = ({ userData, onSettingsUpdate }) => {
+  const preferences = userData.reminders ?? DEFAULT_REMINDER_PREFERENCES;
+  const [timeZone, setTimeZone] = useState(userData.timeZone || browserTimeZone());
+  const [offsetsMinutes, setOffsetsMinutes] = useState<number[]>(preferences.offsetsMinutes);
+  const [channels, setChannels] = useState<ReminderChannel[]>(preferences.channels);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSaveChanges = async () => {
+    if (!userData.id) return;
+
+    setIsSaving(true);
+    try {
+      await updateDoc(doc(db, 'users', userData.id), {
+        timeZone,
+        reminders: {
+          offsetsMinutes: [...offsetsMinutes].sort((a, b) => b - a),
+          channels,
+        },
+        updatedAt: new Date()
+      });
+
+      toast.success('Notification settings updated successfully');
+      onSettingsUpdate();
+    } catch (error) {
+      console.error('Error updating notification settings:', error);
+      toast.error('Failed to update notification settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl text-center md:text-left font-semibold text-gray-900 mb-4">Notifications</h2>
+        <p className="text-gray-600 mb-6 text-center md:text-left">
+          Choose your time zone and how you're reminded before a scheduled call
+        </p>
+
+        <div className="space-y-8">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Time Zone</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              New calls are scheduled in this time zone unless you pick another one
+            </p>
+            <select
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              className="w-full md:w-96 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+            >
+              {listTimeZones().map(zone => (
+                <option key={zone} value={zone}>
+                  {timeZoneLabel(zone)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Call Reminders</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {REMINDER_OFFSETS.map(({ minutes, label }) => (
+                <label
+                  key={minutes}
+                  className="flex items-center space-x-3 bg-white p-4 border rounded-lg cursor-pointer hover:border-orange-500 transition-colors"
+                >
+                  <input
+                    type="checkbox"
+                    checked={offsetsMinutes.includes(minutes)}
+                    onChange={() => setOffsetsMinutes(prev => toggle(prev, minutes))}
+                    className="h-4 w-4 text-orange-500 rounded border-gray-300 focus:ring-orange-500"
+                  />
+                  <span className="font-medium">{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Send Reminders By</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {REMINDER_CHANNELS.map(({ channel, label }) => (
+                <label
+                  key={channel}
+                  className="flex items-center space-x-3 bg-white p-4 border rounded-lg cursor-pointer hover:border-orange-500 transition-colors"
+                >
+                  <input
+                    type="checkbox"
+                    checked={channels.includes(channel)}
+                    onChange={() => setChannels(prev => toggle(prev, channel))}
+                    className="h-4 w-4 text-orange-500 rounded border-gray-300 focus:ring-orange-500"
+                  />
+                  <span className="font-medium">{label}</span>
+                </label>
+              ))}
+            </div>
+            {(channels.length === 0 || offsetsMinutes.length === 0) && (
+              <p className="mt-2 text-sm text-gray-500">You won't be reminded of upcoming calls</p>
+            )}
+            <p className="mt-2 text-sm text-gray-500">
+              Changes apply to calls you schedule from now on
+            </p>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={handleSaveChanges}
+            disabled={isSaving}
+            className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Check className="w-4 h-4 mr-2" />
+                Save Changes
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { History, RotateCcw, X } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { auth } from '../../lib/firebase';
+import { useRepositories } from '../../lib/repositories';
+import { diffWords, DiffSegment, hasChanges } from '../../lib/diff';
+import { htmlToText } from '../../lib/sanitize';
+import { Story } from '../../types/story';
+import { StoryRevision } from '../../types/revision';
+
+interface RevisionHistoryProps {
+  story: Story;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<StoryRevision['source'], string> = {
+  original: 'Original version',
+  edit: 'Edited',
+  restore: 'Restored',
+};
+
+const DiffText: React.FC<{ segments: DiffSegment[] }> = ({ segments }) => (
+  <p className="whitespace-pre-wrap text-gray-800 leading-relaxed">
+    {segments.map((segment, index) => {
+      if (segment.type === 'added') {
+        return <ins key={index} className="bg-green-100 text-green-800 no-underline">{segment.text}</ins>;
+      }
+      if (segment.type === 'removed') {
+        return <del key={index} className="bg-red-100 text-red-700">{segment.text}</del>;
+      }
+      return <span key={index}>{segment.text}</span>;
+    })}
+  </p>
+);
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ story, isOpen, onClose }) => {
+  const [user] = useAuthState(auth);
+  const repositories = useRepositories();
+  const [revisions, setRevisions] = useState<StoryRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsLoading(true);
+    return repositories.revisions.watchByStory(
+      story.id,
+      (revisionsData) => {
+        setRevisions(revisionsData);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('Error fetching revisions:', error);
+        toast.error('Failed to load story history');
+        setIsLoading(false);
+      }
+    );
+  }, [isOpen, story.id, repositories]);
+
+  const selected = revisions.find(revision => revision.id === selectedId) || revisions[0] || null;
+
+  // Changes needed to get from the selected revision to what is shown now
+  const diff = useMemo(() => {
+    if (!selected) return null;
+    return {
+      title: diffWords(selected.title || '', story.title || ''),
+      description: diffWords(selected.description || '', story.description || ''),
+      storyText: diffWords(htmlToText(selected.storyText || ''), htmlToText(story.storyText || '')),
+    };
+  }, [selected, story.title, story.description, story.storyText]);
+
+  const handleRestore = async () => {
+    if (!user || !selected) return;
+
+    setIsRestoring(true);
+    try {
+      await repositories.revisions.restore(story, selected, {
+        id: user.uid,
+        name: user.displayName || user.email,
+      });
+      toast.success('Version restored');
+      setSelectedId(null);
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore this version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isCurrent = !!diff && !hasChanges([...diff.title, ...diff.description, ...diff.storyText]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <History className="w-6 h-6 text-orange-500" />
+            <h2 className="text-2xl font-semibold text-gray-900">Story History</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-6 h-6 text-gray-500" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center text-gray-500 py-16">
+            This story hasn't been edited yet.
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            <ul className="w-64 border-r border-gray-200 overflow-y-auto">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${
+                      selected?.id === revision.id ? 'bg-orange-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-gray-900">
+                      {format(revision.createdAt.toDate(), 'MMM d, yyyy h:mm a')}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {SOURCE_LABELS[revision.source]}
+                      {revision.authorName && ` by ${revision.authorName}`}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-6">
+              {diff && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-500">
+                      {isCurrent
+                        ? 'This version matches the current story.'
+                        : <>Changes since this version: <del className="bg-red-100 text-red-700">removed</del>{' '}<ins className="bg-green-100 text-green-800 no-underline">added</ins></>}
+                    </p>
+                    <button
+                      onClick={handleRestore}
+                      disabled={isRestoring || isCurrent}
+                      className="flex items-center space-x-2 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>{isRestoring ? 'Restoring...' : 'Restore this version'}</span>
+                    </button>
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Title</h3>
+                    <DiffText segments={diff.title} />
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Description</h3>
+                    <DiffText segments={diff.description} />
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Story</h3>
+                    <DiffText segments={diff.storyText} />
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useEffect, useRef } from 'react';
+import { Bold, Italic, Underline, Heading2, List, ListOrdered, Quote, Undo2, Redo2 } from 'lucide-react';
+import { sanitizeHtml } from '../../lib/sanitize';
+
+interface RichTextEditorProps {
+  initialValue: string;
+  onChange: (html: string) => void;
+}
+
+interface ToolbarAction {
+  label: string;
+  icon: React.ElementType;
+  command: string;
+  value?: string;
+}
+
+const TOOLBAR: ToolbarAction[] = [
+  { label: 'Bold', icon: Bold, command: 'bold' },
+  { label: 'Italic', icon: Italic, command: 'italic' },
+  { label: 'Underline', icon: Underline, command: 'underline' },
+  { label: 'Heading', icon: Heading2, command: 'formatBlock', value: 'h2' },
+  { label: 'Quote', icon: Quote, command: 'formatBlock', value: 'blockquote' },
+  { label: 'Bulleted list', icon: List, command: 'insertUnorderedList' },
+  { label: 'Numbered list', icon: ListOrdered, command: 'insertOrderedList' },
+  { label: 'Undo', icon: Undo2, command: 'undo' },
+  { label: 'Redo', icon: Redo2, command: 'redo' },
+];
+
+export const RichTextEditor: React.FC<RichTextEditorProps> = ({ initialValue, onChange }) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  // The editable element owns its content after mount; React only seeds it
+  useEffect(() => {
+    if (editorRef.current) {
+      editorRef.current.innerHTML = sanitizeHtml(initialValue);
+    }
+  }, [initialValue]);
+
+  const emitChange = () => {
+    if (editorRef.current) {
+      onChange(editorRef.current.innerHTML);
+    }
+  };
+
+  const runCommand = (action: ToolbarAction) => {
+    editorRef.current?.focus();
+    document.execCommand(action.command, false, action.value);
+    emitChange();
+  };
+
+  // Pasted content from word processors carries styles and markup we don't keep
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData('text/html');
+    if (html) {
+      document.execCommand('insertHTML', false, sanitizeHtml(html));
+    } else {
+      document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+    }
+    emitChange();
+  };
+
+  return (
+    <div className="border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-orange-500 focus-within:border-transparent">
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+        {TOOLBAR.map((action) => (
+          <button
+            key={action.label}
+            type="button"
+            title={action.label}
+            aria-label={action.label}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => runCommand(action)}
+            className="p-2 text-gray-600 hover:bg-gray-200 rounded transition-colors"
+          >
+            <action.icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        onInput={emitChange}
+        onPaste={handlePaste}
+        className="prose max-w-none min-h-[300px] px-4 py-3 focus:outline-none"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { auth } from '../../lib/firebase';
+import { useRepositories } from '../../lib/repositories';
+import { Story } from '../../types/story';
+import { RichTextEditor } from './RichTextEditor';
+
+interface StoryEditorProps {
+  story: Story;
+  onClose: () => void;
+}
+
+export const StoryEditor: React.FC<StoryEditorProps> = ({ story, onClose }) => {
+  const [user] = useAuthState(auth);
+  const repositories = useRepositories();
+  // Captured once so live updates to the story don't reset the editor mid-edit
+  const [initialText] = useState(story.storyText || '');
+  const [title, setTitle] = useState(story.title || '');
+  const [description, setDescription] = useState(story.description || '');
+  const [storyText, setStoryText] = useState(initialText);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setIsSaving(true);
+    try {
+      await repositories.revisions.save(
+        story,
+        { title, description, storyText },
+        { id: user.uid, name: user.displayName || user.email }
+      );
+      toast.success('Story saved');
+      onClose();
+    } catch (error) {
+      console.error('Error saving story:', error);
+      toast.error('Failed to save story');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="story-title" className="block text-sm font-medium text-gray-700 mb-1">
+          Title
+        </label>
+        <input
+          id="story-title"
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={story.initialQuestion}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="story-description" className="block text-sm font-medium text-gray-700 mb-1">
+          Description
+        </label>
+        <textarea
+          id="story-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent resize-none"
+        />
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-1">Story</span>
+        <RichTextEditor initialValue={initialText} onChange={setStoryText} />
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={onClose}
+          disabled={isSaving}
+          className="flex items-center space-x-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex items-center space-x-2 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : 'Save'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
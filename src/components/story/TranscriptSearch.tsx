@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import { Search } from 'lucide-react';
+import { format } from 'date-fns';
+import { StorySession } from '../../types/story';
+import { formatPlaybackTime, searchTranscripts, TranscriptMatch } from '../../lib/transcript';
+
+interface TranscriptSearchProps {
+  sessions: Array<[string, StorySession]>;
+  selected: TranscriptMatch | null;
+  onSelect: (match: TranscriptMatch) => void;
+}
+
+const MAX_RESULTS = 50;
+
+export const TranscriptSearch: React.FC<TranscriptSearchProps> = ({ sessions, selected, onSelect }) => {
+  const [query, setQuery] = useState('');
+
+  const matches = useMemo(() => searchTranscripts(sessions, query), [sessions, query]);
+  const sessionDates = useMemo(
+    () => Object.fromEntries(sessions.map(([id, session]) => [id, session.creationTime.toDate()])),
+    [sessions]
+  );
+
+  return (
+    <div className="mb-6">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search what was said in these conversations..."
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+        />
+      </div>
+
+      {query.trim() && (
+        <div className="mt-2 border border-gray-200 rounded-lg max-h-64 overflow-y-auto">
+          {matches.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">No matches found</p>
+          ) : (
+            <>
+              <p className="px-4 py-2 text-xs text-gray-500 border-b border-gray-100">
+                {matches.length} {matches.length === 1 ? 'match' : 'matches'}
+                {matches.length > MAX_RESULTS && `, showing the first ${MAX_RESULTS}`}
+              </p>
+              {matches.slice(0, MAX_RESULTS).map((match) => {
+                const isSelected =
+                  selected?.sessionId === match.sessionId &&
+                  selected.messageIndex === match.messageIndex &&
+                  selected.wordIndex === match.wordIndex;
+
+                return (
+                  <button
+                    key={`${match.sessionId}-${match.messageIndex}-${match.wordIndex}`}
+                    onClick={() => onSelect(match)}
+                    className={`w-full text-left px-4 py-2 text-sm border-b border-gray-100 last:border-b-0 transition-colors ${
+                      isSelected ? 'bg-orange-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="text-xs text-gray-500 mr-2">
+                      {format(sessionDates[match.sessionId], 'MMM d')} · {formatPlaybackTime(match.start)}
+                    </span>
+                    <span className="text-gray-600">
+                      {match.before && `…${match.before} `}
+                      <mark className="bg-yellow-200 rounded px-0.5">{match.match}</mark>
+                      {match.after && ` ${match.after}…`}
+                    </span>
+                  </button>
+                );
+              })}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
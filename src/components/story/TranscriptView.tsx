@@ -0,0 +1,83 @@
+import React from 'react';
+import { Bot, User } from 'lucide-react';
+import { TranscriptMessage } from '../../types/story';
+import { transcriptWordId, WordPosition } from '../../lib/transcript';
+
+interface TranscriptViewProps {
+  sessionId: string;
+  messages: TranscriptMessage[];
+  activeWord: WordPosition | null;
+  highlighted: WordPosition[];
+  // Absent when the session has no recording to seek in
+  onSeek?: (time: number) => void;
+}
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({
+  sessionId,
+  messages,
+  activeWord,
+  highlighted,
+  onSeek,
+}) => {
+  const isHighlighted = (messageIndex: number, wordIndex: number) =>
+    highlighted.some(position => position.messageIndex === messageIndex && position.wordIndex === wordIndex);
+
+  return (
+    <>
+      {messages.map((message, messageIndex) => {
+        const isAgent = message.role === 'agent';
+
+        return (
+          <div
+            key={messageIndex}
+            className={`p-4 rounded-lg mb-4 ${
+              isAgent ? 'bg-orange-50' : 'bg-blue-50'
+            }`}
+          >
+            <div className="flex items-center mb-2">
+              <div
+                className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                  isAgent ? 'bg-orange-500' : 'bg-blue-500'
+                } text-white`}
+              >
+                {isAgent ? <Bot className="w-5 h-5" /> : <User className="w-5 h-5" />}
+              </div>
+              <span className="ml-3 font-medium">
+                {isAgent ? 'StoryMindAI' : 'You'}
+              </span>
+            </div>
+            {message.words.length === 0 ? (
+              <p className="text-gray-700 whitespace-pre-wrap">{message.content}</p>
+            ) : (
+              <p className="text-gray-700 leading-relaxed">
+                {message.words.map((word, wordIndex) => {
+                  const isActive = activeWord?.messageIndex === messageIndex && activeWord.wordIndex === wordIndex;
+
+                  return (
+                    <React.Fragment key={wordIndex}>
+                      <span
+                        id={transcriptWordId(sessionId, { messageIndex, wordIndex })}
+                        onClick={onSeek ? () => onSeek(word.start) : undefined}
+                        className={`rounded px-0.5 transition-colors ${
+                          onSeek ? 'cursor-pointer hover:bg-orange-100' : ''
+                        } ${
+                          isActive
+                            ? 'bg-orange-400 text-white'
+                            : isHighlighted(messageIndex, wordIndex)
+                              ? 'bg-yellow-200'
+                              : ''
+                        }`}
+                      >
+                        {word.word}
+                      </span>{' '}
+                    </React.Fragment>
+                  );
+                })}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
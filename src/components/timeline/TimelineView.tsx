@@ -0,0 +1,413 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, GanttChart, RotateCcw, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { isCompletedStory, useRepositories } from '../../lib/repositories';
+import { useCollections } from '../../hooks/useCollections';
+import { useUserStories } from '../../hooks/useStory';
+import { can } from '../../lib/permissions';
+import { decadeOf } from '../../lib/coverage';
+import {
+  categoryColors,
+  estimateEventDate,
+  formatEventDate,
+  layoutTimeline,
+  shiftEventDate,
+  storyEventDate,
+  syncEventDates,
+  TimelineColumn,
+  timelineColumns,
+  TimelineZoom,
+} from '../../lib/timeline';
+import { Category } from '../../types/category';
+import { Story, StoryEventDate } from '../../types/story';
+import { PublicProfile } from '../../types/user';
+import toast from 'react-hot-toast';
+
+const LANE_HEIGHT = 40;
+const COLUMN_MIN_WIDTH = 112;
+
+// The story being dragged, and the column it was picked up from unless it had no date yet
+interface DragState {
+  storyId: string;
+  fromColumn: number | null;
+}
+
+const ageLabel = (column: TimelineColumn, birthYear?: number) => {
+  if (!birthYear || column.end < birthYear) return null;
+  const from = Math.max(0, column.start - birthYear);
+  const to = column.end - birthYear;
+  return from === to ? `age ${from}` : `age ${from}–${to}`;
+};
+
+export const TimelineView: React.FC = () => {
+  const [owner, setOwner] = useState<PublicProfile | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [zoom, setZoom] = useState<TimelineZoom>('decade');
+  const [focusDecade, setFocusDecade] = useState<number | undefined>();
+  const [hiddenCategoryIds, setHiddenCategoryIds] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dropColumn, setDropColumn] = useState<number | null>(null);
+  const [yearInputs, setYearInputs] = useState({ start: '', end: '' });
+  const gridRef = useRef<HTMLDivElement>(null);
+  const repositories = useRepositories();
+  const { active, ownerId, role } = useCollections();
+  const canEdit = can(role, 'edit');
+  const whoseStories = role === 'owner' ? 'Your stories' : `${active?.members[active.ownerId]?.name || 'The storyteller'}'s stories`;
+  const { stories: userStories, isLoading: isLoadingStories } = useUserStories(ownerId);
+  const birthYear = owner?.birthYear;
+
+  useEffect(() => {
+    if (!ownerId) return;
+
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        const [ownerProfile, categoriesData] = await Promise.all([
+          repositories.profiles.getPublic(ownerId),
+          repositories.categories.listForUser(ownerId, { includeArchived: true }),
+        ]);
+        setOwner(ownerProfile);
+        setCategories(categoriesData);
+      } catch (error) {
+        console.error('Error fetching timeline data:', error);
+        toast.error('Failed to load timeline');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [ownerId, repositories]);
+
+  const stories = useMemo(() => userStories.filter(isCompletedStory), [userStories]);
+
+  // Stored dates follow the stories' text; the story subscription brings the result back
+  useEffect(() => {
+    if (!canEdit || isLoading || isLoadingStories) return;
+    syncEventDates(repositories, stories, birthYear).catch(error => {
+      console.error('Error updating story dates:', error);
+    });
+  }, [canEdit, isLoading, isLoadingStories, stories, birthYear, repositories]);
+
+  const colors = useMemo(() => categoryColors(categories), [categories]);
+  const visibleStories = stories.filter(story => !hiddenCategoryIds.includes(story.categoryId));
+  const dated = visibleStories.flatMap(story => {
+    const date = storyEventDate(story, birthYear);
+    return date ? [{ story, date }] : [];
+  });
+  const undated = visibleStories.filter(story => !storyEventDate(story, birthYear));
+  const usedCategories = categories.filter(category => stories.some(story => story.categoryId === category.id));
+
+  const columns = timelineColumns(
+    zoom,
+    dated.map(({ date }) => date),
+    birthYear,
+    focusDecade
+  );
+  const bars = layoutTimeline(dated, columns);
+  const laneCount = Math.max(1, ...bars.map(bar => bar.lane + 1));
+  const selected = stories.find(story => story.id === selectedId) ?? null;
+  const selectedDate = selected ? storyEventDate(selected, birthYear) : null;
+  const selectedStart = selectedDate?.startYear;
+  const selectedEnd = selectedDate?.endYear;
+
+  // The year fields follow the picked story and any move it gets on the timeline
+  useEffect(() => {
+    setYearInputs({ start: selectedStart ? String(selectedStart) : '', end: selectedEnd ? String(selectedEnd) : '' });
+  }, [selectedId, selectedStart, selectedEnd]);
+
+  const zoomInto = (decade: number) => {
+    setFocusDecade(decade);
+    setZoom('year');
+  };
+
+  const saveDate = async (story: Story, date: StoryEventDate | null) => {
+    try {
+      await repositories.stories.setEventDate(story.id, date);
+    } catch (error) {
+      console.error('Error saving story date:', error);
+      toast.error('Failed to save date');
+    }
+  };
+
+  // Column under the pointer; columns share the grid's width evenly
+  const columnFromPointer = (clientX: number) => {
+    const grid = gridRef.current;
+    if (!grid || columns.length === 0) return null;
+    const rect = grid.getBoundingClientRect();
+    const column = Math.floor(((clientX - rect.left) / rect.width) * columns.length);
+    return Math.min(columns.length - 1, Math.max(0, column));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const column = columnFromPointer(e.clientX);
+    const story = stories.find(candidate => candidate.id === drag?.storyId);
+    setDrag(null);
+    setDropColumn(null);
+    if (!drag || !story || column === null) return;
+
+    const target = columns[column];
+    const current = storyEventDate(story, birthYear);
+    const currentYear = new Date().getFullYear();
+    if (current && drag.fromColumn !== null) {
+      const years = (column - drag.fromColumn) * (zoom === 'decade' ? 10 : 1);
+      if (years !== 0) saveDate(story, shiftEventDate(current, years));
+    } else {
+      saveDate(story, { startYear: target.start, endYear: Math.min(target.end, currentYear), source: 'user' });
+    }
+  };
+
+  const handleSaveYears = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    const start = Number(yearInputs.start);
+    const end = yearInputs.end ? Number(yearInputs.end) : start;
+    const currentYear = new Date().getFullYear();
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1800 || end > currentYear || start > end) {
+      toast.error('Please enter valid years');
+      return;
+    }
+    saveDate(selected, { startYear: start, endYear: end, source: 'user' });
+  };
+
+  const toggleCategory = (categoryId: string) =>
+    setHiddenCategoryIds(prev =>
+      prev.includes(categoryId) ? prev.filter(id => id !== categoryId) : [...prev, categoryId]
+    );
+
+  if (isLoading || isLoadingStories) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  const yearZoomDecade = focusDecade ?? decadeOf(dated[0]?.date.startYear ?? new Date().getFullYear());
+  const gridStyle = {
+    gridTemplateColumns: `repeat(${columns.length}, minmax(${COLUMN_MIN_WIDTH}px, 1fr))`,
+  };
+
+  return (
+    <div className="p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col md:flex-row gap-3 justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 text-center md:text-left">Life Timeline</h1>
+            <p className="text-gray-600 mt-1 text-center md:text-left">
+              {whoseStories} in the order they happened{canEdit ? '. Drag a story to move it in time.' : ''}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {zoom === 'year' && (
+              <>
+                <button
+                  onClick={() => setFocusDecade(yearZoomDecade - 10)}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                  title="Previous decade"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                </button>
+                <span className="text-sm font-medium text-gray-700">{yearZoomDecade}s</span>
+                <button
+                  onClick={() => setFocusDecade(yearZoomDecade + 10)}
+                  disabled={yearZoomDecade + 10 > new Date().getFullYear()}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+                  title="Next decade"
+                >
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => (zoom === 'decade' ? zoomInto(yearZoomDecade) : setZoom('decade'))}
+              className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {zoom === 'decade' ? <ZoomIn className="w-4 h-4 mr-2" /> : <ZoomOut className="w-4 h-4 mr-2" />}
+              {zoom === 'decade' ? 'Years' : 'Decades'}
+            </button>
+          </div>
+        </div>
+
+        {usedCategories.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {usedCategories.map((category) => (
+              <button
+                key={category.id}
+                onClick={() => toggleCategory(category.id)}
+                className={`flex items-center px-3 py-1 rounded-full text-sm border border-gray-200 bg-white transition-opacity ${
+                  hiddenCategoryIds.includes(category.id) ? 'opacity-40' : ''
+                }`}
+                title={hiddenCategoryIds.includes(category.id) ? 'Show these stories' : 'Hide these stories'}
+              >
+                <span className={`w-3 h-3 rounded-full mr-2 ${colors[category.id]}`} />
+                {category.title}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {stories.length === 0 ? (
+          <div className="text-center py-12">
+            <GanttChart className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No stories yet</h3>
+            <p className="text-gray-600">Finished stories are placed here by the years and ages they mention</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm p-4 overflow-x-auto">
+            <div className="min-w-max">
+              <div className="grid border-b border-gray-200 pb-2" style={gridStyle}>
+                {columns.map((column) => (
+                  <button
+                    key={column.start}
+                    onClick={() => zoom === 'decade' && zoomInto(column.start)}
+                    className={`text-left px-2 ${zoom === 'decade' ? 'hover:text-orange-600' : 'cursor-default'}`}
+                    title={zoom === 'decade' ? `Zoom into the ${column.label}` : undefined}
+                  >
+                    <div className="text-sm font-semibold text-gray-900">{column.label}</div>
+                    <div className="text-xs text-gray-500 h-4">{ageLabel(column, birthYear)}</div>
+                  </button>
+                ))}
+              </div>
+
+              <div
+                ref={gridRef}
+                className="grid relative pt-2"
+                style={{ ...gridStyle, gridTemplateRows: `repeat(${laneCount}, ${LANE_HEIGHT}px)` }}
+                onDragOver={(e) => {
+                  if (!drag) return;
+                  e.preventDefault();
+                  setDropColumn(columnFromPointer(e.clientX));
+                }}
+                onDragLeave={() => setDropColumn(null)}
+                onDrop={handleDrop}
+              >
+                {columns.map((column, index) => (
+                  <div
+                    key={column.start}
+                    style={{ gridColumn: index + 1, gridRow: '1 / -1' }}
+                    className={`border-l border-gray-100 ${dropColumn === index ? 'bg-orange-50' : ''}`}
+                  />
+                ))}
+                {bars.map((bar) => (
+                  <button
+                    key={bar.story.id}
+                    draggable={canEdit}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDrag({ storyId: bar.story.id, fromColumn: columnFromPointer(e.clientX) });
+                    }}
+                    onDragEnd={() => {
+                      setDrag(null);
+                      setDropColumn(null);
+                    }}
+                    onClick={() => setSelectedId(bar.story.id)}
+                    style={{ gridColumn: `${bar.firstColumn + 1} / ${bar.lastColumn + 2}`, gridRow: bar.lane + 1 }}
+                    className={`relative m-1 px-2 rounded-md text-left text-xs font-medium text-white truncate shadow-sm hover:ring-2 hover:ring-offset-1 hover:ring-orange-300 ${
+                      colors[bar.story.categoryId] ?? 'bg-gray-400'
+                    } ${canEdit ? 'cursor-grab' : ''} ${selectedId === bar.story.id ? 'ring-2 ring-offset-1 ring-gray-900' : ''}`}
+                    title={`${bar.story.title} · ${formatEventDate(bar.date)}`}
+                  >
+                    {bar.story.title}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {selected && (
+          <div className="bg-white rounded-lg shadow-sm p-6 mt-6">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <Link to={`/stories/${selected.id}`} className="text-lg font-semibold text-gray-900 hover:text-orange-600">
+                  {selected.title}
+                </Link>
+                <p className="text-sm text-gray-500 mt-1">
+                  {selectedDate ? formatEventDate(selectedDate) : 'No date yet'}
+                  {selectedDate && (selectedDate.source === 'user' ? ' · set by hand' : ' · from the story')}
+                </p>
+              </div>
+              <button onClick={() => setSelectedId(null)} className="p-1 text-gray-400 hover:text-gray-600" title="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            {canEdit && (
+              <form onSubmit={handleSaveYears} className="flex flex-wrap items-center gap-2 mt-4">
+                <input
+                  type="number"
+                  value={yearInputs.start}
+                  onChange={(e) => setYearInputs(prev => ({ ...prev, start: e.target.value }))}
+                  placeholder="From"
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+                <span className="text-gray-500">to</span>
+                <input
+                  type="number"
+                  value={yearInputs.end}
+                  onChange={(e) => setYearInputs(prev => ({ ...prev, end: e.target.value }))}
+                  placeholder="To"
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!yearInputs.start}
+                  className="px-4 py-2 text-sm bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+                >
+                  Save
+                </button>
+                {selected.eventDate?.source === 'user' && (
+                  <button
+                    type="button"
+                    onClick={() => saveDate(selected, estimateEventDate(selected, birthYear))}
+                    className="flex items-center px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Use date from story
+                  </button>
+                )}
+              </form>
+            )}
+          </div>
+        )}
+
+        {undated.length > 0 && (
+          <div className="mt-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-1">Not on the timeline yet</h2>
+            <p className="text-gray-600 mb-4">
+              {canEdit
+                ? 'These stories mention no year or age. Drag one onto the timeline, or pick it to enter its years.'
+                : 'These stories mention no year or age yet'}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {undated.map((story) => (
+                <button
+                  key={story.id}
+                  draggable={canEdit}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDrag({ storyId: story.id, fromColumn: null });
+                  }}
+                  onDragEnd={() => {
+                    setDrag(null);
+                    setDropColumn(null);
+                  }}
+                  onClick={() => setSelectedId(story.id)}
+                  className={`flex items-center px-3 py-1.5 bg-white border border-gray-200 rounded-full text-sm text-gray-700 hover:border-orange-300 ${
+                    canEdit ? 'cursor-grab' : ''
+                  }`}
+                >
+                  <span className={`w-2.5 h-2.5 rounded-full mr-2 ${colors[story.categoryId] ?? 'bg-gray-400'}`} />
+                  {story.title}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import { useState } from 'react';
+
+const CAPTION_SIZE_KEY = 'captionSize';
+const CAPTION_SIZES = ['text-sm', 'text-base', 'text-lg', 'text-xl', 'text-2xl', 'text-3xl'];
+const DEFAULT_SIZE = 2;
+
+const storedSize = () => {
+  const size = Number(localStorage.getItem(CAPTION_SIZE_KEY) ?? DEFAULT_SIZE);
+  return Number.isInteger(size) && size >= 0 && size < CAPTION_SIZES.length ? size : DEFAULT_SIZE;
+};
+
+export interface CaptionSize {
+  // Tailwind text size class for caption text
+  className: string;
+  canShrink: boolean;
+  canGrow: boolean;
+  shrink: () => void;
+  grow: () => void;
+}
+
+// Caption text size for live calls, remembered per browser
+export const useCaptionSize = (): CaptionSize => {
+  const [size, setSize] = useState(storedSize);
+
+  const change = (next: number) => {
+    setSize(next);
+    localStorage.setItem(CAPTION_SIZE_KEY, String(next));
+  };
+
+  return {
+    className: CAPTION_SIZES[size],
+    canShrink: size > 0,
+    canGrow: size < CAPTION_SIZES.length - 1,
+    shrink: () => change(Math.max(0, size - 1)),
+    grow: () => change(Math.min(CAPTION_SIZES.length - 1, size + 1)),
+  };
+};
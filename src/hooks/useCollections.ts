@@ -0,0 +1,95 @@
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { useRepositories } from '../lib/repositories';
+import { CollectionRole, StoryCollection } from '../types/collection';
+
+const ACTIVE_COLLECTION_KEY = 'activeCollectionId';
+
+export interface CollectionState {
+  // Every collection the user belongs to, their own first
+  collections: StoryCollection[];
+  active: StoryCollection | null;
+  // The user's role in the active collection
+  role: CollectionRole | null;
+  // Whose stories and books are shown; the user's own until collections load
+  ownerId: string | undefined;
+  isLoading: boolean;
+  roleIn(collectionId: string): CollectionRole | null;
+  setActiveId(collectionId: string): void;
+}
+
+const EMPTY_STATE: CollectionState = {
+  collections: [],
+  active: null,
+  role: null,
+  ownerId: undefined,
+  isLoading: false,
+  roleIn: () => null,
+  setActiveId: () => undefined,
+};
+
+export const CollectionContext = createContext<CollectionState>(EMPTY_STATE);
+
+export const useCollections = () => useContext(CollectionContext);
+
+/**
+ * Live list of the user's collections plus the one currently being browsed.
+ * The selection is remembered per browser and falls back to the user's own
+ * collection when they lose access to the selected one.
+ */
+export const useCollectionState = (userId: string | undefined): CollectionState => {
+  const repositories = useRepositories();
+  const [collections, setCollections] = useState<StoryCollection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeId, setActiveId] = useState<string | null>(() => localStorage.getItem(ACTIVE_COLLECTION_KEY));
+
+  useEffect(() => {
+    setCollections([]);
+    if (!userId) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    return repositories.collections.watchForMember(
+      userId,
+      result => {
+        setCollections(
+          result.sort((a, b) =>
+            a.ownerId === userId ? -1 : b.ownerId === userId ? 1 : a.name.localeCompare(b.name)
+          )
+        );
+        setIsLoading(false);
+      },
+      error => {
+        console.error('Error watching collections:', error);
+        setIsLoading(false);
+      }
+    );
+  }, [userId, repositories]);
+
+  return useMemo(() => {
+    const active =
+      collections.find(collection => collection.id === activeId) ??
+      collections.find(collection => collection.ownerId === userId) ??
+      null;
+    const roleIn = (collectionId: string): CollectionRole | null => {
+      if (!userId) return null;
+      if (collectionId === userId) return 'owner';
+      const collection = collections.find(candidate => candidate.id === collectionId);
+      return collection?.members[userId]?.role ?? null;
+    };
+
+    return {
+      collections,
+      active,
+      role: active && userId ? active.members[userId]?.role ?? null : userId ? 'owner' : null,
+      ownerId: active?.ownerId ?? userId,
+      isLoading,
+      roleIn,
+      setActiveId: (collectionId: string) => {
+        localStorage.setItem(ACTIVE_COLLECTION_KEY, collectionId);
+        setActiveId(collectionId);
+      },
+    };
+  }, [collections, activeId, userId, isLoading]);
+};
@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { useAuthState } from 'react-firebase-hooks/auth';
+import { auth } from '../lib/firebase';
+import { CommentAuthor, useRepositories } from '../lib/repositories';
+import { countUnread } from '../lib/comments';
+import { can } from '../lib/permissions';
+import { Reactions, StoryComment } from '../types/comment';
+import { useCollections } from './useCollections';
+
+interface CommentsState {
+  comments: StoryComment[];
+  isLoading: boolean;
+}
+
+// Live comments of one story or chapter, oldest first
+export const useComments = (threadId: string | undefined): CommentsState => {
+  const repositories = useRepositories();
+  const [state, setState] = useState<CommentsState>({ comments: [], isLoading: true });
+
+  useEffect(() => {
+    if (!threadId) {
+      setState({ comments: [], isLoading: false });
+      return;
+    }
+
+    setState({ comments: [], isLoading: true });
+    return repositories.comments.watchByThread(
+      threadId,
+      comments => setState({ comments, isLoading: false }),
+      error => {
+        console.error('Error watching comments:', error);
+        setState(prev => ({ ...prev, isLoading: false }));
+      }
+    );
+  }, [threadId, repositories]);
+
+  return state;
+};
+
+// Reactions on the story or chapter itself
+export const useTargetReactions = (threadId: string | undefined): Reactions => {
+  const repositories = useRepositories();
+  const [reactions, setReactions] = useState<Reactions>({});
+
+  useEffect(() => {
+    setReactions({});
+    if (!threadId) return;
+
+    return repositories.comments.watchTargetReactions(threadId, setReactions, error => {
+      console.error('Error watching reactions:', error);
+    });
+  }, [threadId, repositories]);
+
+  return reactions;
+};
+
+interface UnreadState {
+  // Keyed by thread id
+  byThread: Record<string, number>;
+  total: number;
+}
+
+/**
+ * Counts comments by others in a collection that the user has not seen yet.
+ * A thread counts as seen once the user opens it.
+ */
+export const useUnreadComments = (collectionId: string | undefined, userId: string | undefined): UnreadState => {
+  const repositories = useRepositories();
+  const [comments, setComments] = useState<StoryComment[]>([]);
+  const [reads, setReads] = useState<Record<string, Timestamp> | null>(null);
+
+  useEffect(() => {
+    setComments([]);
+    if (!collectionId) return;
+
+    return repositories.comments.watchByCollection(collectionId, setComments, error => {
+      console.error('Error watching collection comments:', error);
+    });
+  }, [collectionId, repositories]);
+
+  useEffect(() => {
+    setReads(null);
+    if (!userId) return;
+
+    return repositories.comments.watchReads(userId, setReads, error => {
+      console.error('Error watching comment reads:', error);
+    });
+  }, [userId, repositories]);
+
+  return useMemo(() => {
+    // Until read markers load everything would look unread
+    if (!userId || !reads) return { byThread: {}, total: 0 };
+
+    const byThread = countUnread(comments, reads, userId);
+    return { byThread, total: Object.values(byThread).reduce((sum, count) => sum + count, 0) };
+  }, [comments, reads, userId]);
+};
+
+interface CommentAuthorState {
+  author: CommentAuthor | null;
+  canComment: boolean;
+  // Owners moderate every comment in their collection
+  canModerate: boolean;
+}
+
+// The signed-in user as they appear in a collection's comments
+export const useCommentAuthor = (collectionId: string | undefined): CommentAuthorState => {
+  const [user] = useAuthState(auth);
+  const { collections, roleIn } = useCollections();
+
+  return useMemo(() => {
+    if (!user || !collectionId) return { author: null, canComment: false, canModerate: false };
+
+    const member = collections.find(collection => collection.id === collectionId)?.members[user.uid];
+    const role = roleIn(collectionId);
+    return {
+      author: {
+        id: user.uid,
+        name: member?.name || user.displayName || user.email?.split('@')[0] || 'Family member',
+      },
+      canComment: can(role, 'comment'),
+      canModerate: can(role, 'manage'),
+    };
+  }, [user, collectionId, collections, roleIn]);
+};
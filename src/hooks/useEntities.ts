@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useRepositories } from '../lib/repositories';
+import { syncEntityIndex } from '../lib/entities';
+import { Entity } from '../types/entity';
+import { Story } from '../types/story';
+import { useUserStories } from './useStory';
+
+interface EntityIndexState {
+  stories: Story[];
+  entities: Entity[];
+  isLoading: boolean;
+  reload: () => void;
+}
+
+/**
+ * The storyteller's people, places and dates along with their stories. The
+ * storyteller's own view brings the index up to date first when a story
+ * changed, since only they can write it; family members see it as last synced.
+ */
+export const useEntityIndex = (ownerId: string | undefined, canSync: boolean): EntityIndexState => {
+  const repositories = useRepositories();
+  const { stories, isLoading: isLoadingStories } = useUserStories(ownerId);
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!ownerId || isLoadingStories) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const result = canSync
+          ? await syncEntityIndex(repositories, ownerId, stories)
+          : await repositories.entities.listByUser(ownerId);
+        if (!cancelled) setEntities(result);
+      } catch (error) {
+        console.error('Error loading entity index:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [ownerId, canSync, stories, isLoadingStories, version, repositories]);
+
+  const reload = useCallback(() => setVersion(prev => prev + 1), []);
+
+  return { stories, entities, isLoading: isLoading || isLoadingStories, reload };
+};
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { useRepositories } from '../lib/repositories';
+import { ActivityNotification } from '../types/comment';
+
+interface NotificationsState {
+  notifications: ActivityNotification[];
+  unreadCount: number;
+  isLoading: boolean;
+}
+
+// Live feed of comments and reactions on the user's own stories
+export const useNotifications = (userId: string | undefined): NotificationsState => {
+  const repositories = useRepositories();
+  const [notifications, setNotifications] = useState<ActivityNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setNotifications([]);
+    if (!userId) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    return repositories.notifications.watchByUser(
+      userId,
+      result => {
+        setNotifications(result);
+        setIsLoading(false);
+      },
+      error => {
+        console.error('Error watching notifications:', error);
+        setIsLoading(false);
+      }
+    );
+  }, [userId, repositories]);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(notification => !notification.read).length,
+    isLoading,
+  };
+};
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { useStory } from './useStory';
+
+// How long to wait for the backend to finish a session before giving up
+export const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type ProcessingStatus = 'idle' | 'processing' | 'complete' | 'timed_out' | 'error';
+
+/**
+ * Follows a call session until the backend marks it `updated`. Reports
+ * `timed_out` when that has not happened within `timeoutMs`, and `error` when
+ * the story cannot be watched at all.
+ */
+export const useSessionProcessing = (
+  storyId: string | null,
+  sessionId: string | null,
+  enabled: boolean,
+  timeoutMs = PROCESSING_TIMEOUT_MS
+): ProcessingStatus => {
+  const { story, error } = useStory(enabled && storyId ? storyId : undefined);
+  const [timedOut, setTimedOut] = useState(false);
+
+  const isUpdated = !!(sessionId && story?.sessions[sessionId]?.updated);
+
+  useEffect(() => {
+    setTimedOut(false);
+    if (!enabled || isUpdated) return;
+
+    const timeout = setTimeout(() => setTimedOut(true), timeoutMs);
+    return () => clearTimeout(timeout);
+  }, [enabled, isUpdated, storyId, sessionId, timeoutMs]);
+
+  if (!enabled) return 'idle';
+  // Without ids there is nothing to wait for, which only happens if call setup went wrong
+  if (!storyId || !sessionId) return 'error';
+  if (isUpdated) return 'complete';
+  if (error) return 'error';
+  if (timedOut) return 'timed_out';
+  return 'processing';
+};
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { useRepositories } from '../lib/repositories';
+import { Story } from '../types/story';
+
+interface StoryState {
+  story: Story | null;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Live view of a single story. Session processing results, transcripts and
+ * video URLs written by the backend show up without refetching.
+ */
+export const useStory = (id: string | undefined): StoryState => {
+  const repositories = useRepositories();
+  const [state, setState] = useState<StoryState>({ story: null, isLoading: true, error: null });
+
+  useEffect(() => {
+    if (!id) {
+      setState({ story: null, isLoading: false, error: null });
+      return;
+    }
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    return repositories.stories.watchById(
+      id,
+      story => setState({ story, isLoading: false, error: null }),
+      error => {
+        console.error('Error watching story:', error);
+        setState(prev => ({ ...prev, isLoading: false, error }));
+      }
+    );
+  }, [id, repositories]);
+
+  return state;
+};
+
+interface UserStoriesState {
+  stories: Story[];
+  isLoading: boolean;
+  error: Error | null;
+}
+
+// Live list of every story owned by the user, most recently updated first
+export const useUserStories = (userId: string | undefined): UserStoriesState => {
+  const repositories = useRepositories();
+  const [state, setState] = useState<UserStoriesState>({ stories: [], isLoading: true, error: null });
+
+  useEffect(() => {
+    if (!userId) {
+      setState({ stories: [], isLoading: false, error: null });
+      return;
+    }
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    return repositories.stories.watchByUser(
+      userId,
+      stories => setState({ stories, isLoading: false, error: null }),
+      error => {
+        console.error('Error watching stories:', error);
+        setState(prev => ({ ...prev, isLoading: false, error }));
+      }
+    );
+  }, [userId, repositories]);
+
+  return state;
+};
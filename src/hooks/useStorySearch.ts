@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  createSearchIndex,
+  loadSearchSnapshot,
+  saveSearchSnapshot,
+  SearchFilters,
+  SearchIndex,
+  SearchResult,
+  storyToSearchDocument,
+} from '../lib/search';
+import { Story } from '../types/story';
+import { useUserStories } from './useStory';
+
+// Live updates can arrive in bursts while a session is processed
+const SAVE_DELAY_MS = 2000;
+
+type SearchFn = (query: string, filters?: SearchFilters) => SearchResult[];
+
+const noResults: SearchFn = () => [];
+
+// A new function for every index change, so consumers can memoize on it
+const bindSearch = (index: SearchIndex): SearchFn => (query, filters) => index.search(query, filters);
+
+interface StorySearchState {
+  search: SearchFn;
+  // Every story of the user, for rendering results
+  stories: Story[];
+  isLoading: boolean;
+  isIndexReady: boolean;
+  error: Error | null;
+}
+
+/**
+ * Full-text search over the user's stories. The index is restored from
+ * IndexedDB, then kept in sync with the live story subscription: only stories
+ * whose content changed are re-indexed.
+ */
+export const useStorySearch = (userId: string | undefined): StorySearchState => {
+  const { stories, isLoading, error } = useUserStories(userId);
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [search, setSearch] = useState<SearchFn>(() => noResults);
+  const saveTimeoutRef = useRef<NodeJS.Timeout>();
+
+  useEffect(() => {
+    setIndex(null);
+    setSearch(() => noResults);
+    if (!userId) return;
+
+    let cancelled = false;
+    const loadIndex = async () => {
+      let snapshot = null;
+      try {
+        snapshot = await loadSearchSnapshot(userId);
+      } catch (error) {
+        console.error('Error loading search index:', error);
+      }
+      if (!cancelled) {
+        const restored = createSearchIndex(snapshot ?? undefined);
+        setIndex(restored);
+        setSearch(() => bindSearch(restored));
+      }
+    };
+
+    loadIndex();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!index || !userId || isLoading || error) return;
+
+    let changed = false;
+    const storyIds = new Set(stories.map(story => story.id));
+    stories.forEach(story => {
+      const document = storyToSearchDocument(story);
+      if (index.version(story.id) !== document.version) {
+        index.upsert(document);
+        changed = true;
+      }
+    });
+    index.ids().forEach(id => {
+      if (!storyIds.has(id)) {
+        index.remove(id);
+        changed = true;
+      }
+    });
+    if (!changed) return;
+
+    setSearch(() => bindSearch(index));
+    clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = setTimeout(() => {
+      saveTimeoutRef.current = undefined;
+      saveSearchSnapshot(userId, index.toSnapshot()).catch(error => {
+        console.error('Error saving search index:', error);
+      });
+    }, SAVE_DELAY_MS);
+  }, [index, userId, stories, isLoading, error]);
+
+  // Flush a pending save when the user or the index goes away
+  useEffect(() => {
+    return () => {
+      if (saveTimeoutRef.current && index && userId) {
+        clearTimeout(saveTimeoutRef.current);
+        saveSearchSnapshot(userId, index.toSnapshot()).catch(error => {
+          console.error('Error saving search index:', error);
+        });
+      }
+    };
+  }, [index, userId]);
+
+  return { search, stories, isLoading, isIndexReady: !!index && !isLoading, error };
+};
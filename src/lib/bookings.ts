@@ -0,0 +1,103 @@
+// What booking a call writes, shared by the app and the server's booking job (server/bookings.ts).
+// Imports carry .js suffixes so the server can compile this too.
+import type { UpcomingQuestion } from '../types/question.js';
+import type { NewCallReminder, ReminderPreferences } from '../types/reminder.js';
+import type { RecurringSchedule } from '../types/schedule.js';
+import { Occurrence, upcomingOccurrences } from './recurrence.js';
+
+// How many calls of each recurring schedule are kept booked ahead
+export const BOOKED_OCCURRENCES = 3;
+
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = {
+  offsetsMinutes: [60],
+  channels: ['email'],
+};
+
+// Who gets reminded of a user's calls, and when
+export interface ReminderRecipient {
+  userId: string;
+  email: string | null;
+  preferences: ReminderPreferences;
+}
+
+export interface BookedCall {
+  storyId: string;
+  dateTime: Date;
+  timeZone: string;
+  phoneNumber: string;
+  question: string;
+}
+
+// The server reads schedules without their Firestore creation time
+export type BookableSchedule = Omit<RecurringSchedule, 'createdAt'>;
+
+export interface OccurrenceBooking {
+  storyId: string;
+  occurrence: Occurrence;
+  question: string;
+}
+
+// Each occurrence has one story id, so booking it twice writes the same story
+export const occurrenceStoryId = (scheduleId: string, occurrenceKey: string) => `${scheduleId}_${occurrenceKey}`;
+
+/**
+ * Question for a schedule's `index`th call: the one it was set up with first,
+ * then the user's upcoming questions in the same category that they haven't
+ * dismissed, oldest first, in rotation so each call covers something new.
+ */
+export const questionForOccurrence = (
+  schedule: BookableSchedule,
+  questions: UpcomingQuestion[],
+  index: number
+): string => {
+  const rotation = questions
+    .filter(
+      question =>
+        question.categoryId === schedule.categoryId &&
+        question.status !== 'dismissed' &&
+        question.question !== schedule.initialQuestion
+    )
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  if (index === 0 || rotation.length === 0) return schedule.initialQuestion;
+  return rotation[(index - 1) % rotation.length].question;
+};
+
+// The next few occurrences of `schedule` that have no story yet; `booked` holds the occurrence keys that do
+export const missingBookings = (
+  schedule: BookableSchedule,
+  questions: UpcomingQuestion[],
+  booked: Set<string>,
+  now: Date
+): OccurrenceBooking[] =>
+  upcomingOccurrences(schedule, now, BOOKED_OCCURRENCES)
+    .filter(occurrence => !booked.has(occurrence.key))
+    .map(occurrence => ({
+      storyId: occurrenceStoryId(schedule.id, occurrence.key),
+      occurrence,
+      question: questionForOccurrence(schedule, questions, occurrence.index),
+    }));
+
+/** Reminders of a booked call as the user's preferences ask for them, leaving out ones already due. */
+export const plannedReminders = (recipient: ReminderRecipient, call: BookedCall, now: Date): NewCallReminder[] =>
+  recipient.preferences.channels.flatMap(channel => {
+    const to = channel === 'email' ? recipient.email : call.phoneNumber;
+    if (!to) return [];
+
+    return recipient.preferences.offsetsMinutes
+      .map((offsetMinutes): NewCallReminder => ({
+        userId: recipient.userId,
+        storyId: call.storyId,
+        channel,
+        to,
+        sendAt: new Date(call.dateTime.getTime() - offsetMinutes * 60 * 1000),
+        callAt: call.dateTime,
+        timeZone: call.timeZone,
+        question: call.question,
+        offsetMinutes,
+      }))
+      .filter(reminder => reminder.sendAt > now);
+  });
+
+// One reminder per story, channel and offset, so rebooking a call replaces its reminders
+export const reminderId = (reminder: NewCallReminder) =>
+  `${reminder.storyId}_${reminder.channel}_${reminder.offsetMinutes}`;
@@ -0,0 +1,63 @@
+import type { RetellWebClient } from "retell-client-js-sdk";
+
+interface SubscribedTrack {
+  kind: string;
+  mediaStreamTrack: MediaStreamTrack;
+}
+
+// The parts of the LiveKit room RetellWebClient keeps privately that we rely on
+interface CallRoom {
+  remoteParticipants: Map<
+    string,
+    { audioTrackPublications: Map<string, { track?: SubscribedTrack }> }
+  >;
+  on(event: "trackSubscribed", listener: (track: SubscribedTrack) => void): unknown;
+  off(event: "trackSubscribed", listener: (track: SubscribedTrack) => void): unknown;
+}
+
+const callRoom = (client: RetellWebClient) =>
+  (client as unknown as { room?: CallRoom }).room;
+
+const forEachAgentTrack = (room: CallRoom, callback: (track: MediaStreamTrack) => void) =>
+  room.remoteParticipants.forEach((participant) =>
+    participant.audioTrackPublications.forEach((publication) => {
+      if (publication.track) callback(publication.track.mediaStreamTrack);
+    }),
+  );
+
+/**
+ * Calls `listener` with every audio track the agent plays during the current
+ * call, including ones subscribed before this was called. RetellWebClient has
+ * no public accessor for them, so this reads its LiveKit room. Returns a
+ * function that stops listening.
+ */
+export const onAgentAudioTrack = (
+  client: RetellWebClient,
+  listener: (track: MediaStreamTrack) => void,
+): (() => void) => {
+  const room = callRoom(client);
+  if (!room) return () => {};
+
+  forEachAgentTrack(room, listener);
+
+  const handleTrackSubscribed = (track: SubscribedTrack) => {
+    if (track.kind === "audio") listener(track.mediaStreamTrack);
+  };
+  room.on("trackSubscribed", handleTrackSubscribed);
+  return () => {
+    room.off("trackSubscribed", handleTrackSubscribed);
+  };
+};
+
+/**
+ * Silences or restores the agent's voice without leaving the call. A disabled
+ * track plays, and records, as silence.
+ */
+export const setAgentAudioEnabled = (client: RetellWebClient, enabled: boolean) => {
+  const room = callRoom(client);
+  if (!room) return;
+
+  forEachAgentTrack(room, (track) => {
+    track.enabled = enabled;
+  });
+};
@@ -0,0 +1,83 @@
+import { CustomCategoryFields, Repositories } from './repositories';
+import { createCategoryAgent } from './retell';
+import { Category, QuestionSuggestion } from '../types/category';
+import { User } from '../types/user';
+
+export const DEFAULT_CATEGORY_EMOJI = '📝';
+
+// Categories store emoji as hex code points, e.g. "1f3e1" or "1f468 200d 1f373"
+export const encodeEmoji = (emoji: string) =>
+  Array.from(emoji)
+    .map(char => char.codePointAt(0)?.toString(16))
+    .filter(Boolean)
+    .join(' ');
+
+export const decodeEmoji = (unicode: string) => {
+  try {
+    const codePoints = unicode
+      .replace(/\\u/g, '')
+      .split(/[\s,{}]+/)
+      .filter(Boolean)
+      .map(code => parseInt(code, 16));
+    return String.fromCodePoint(...codePoints);
+  } catch (error) {
+    console.error('Error decoding emoji:', error);
+    return DEFAULT_CATEGORY_EMOJI;
+  }
+};
+
+export const isCustomCategory = (category: Category) => !!category.ownerId;
+
+/**
+ * Saves a new category of the user's own and sets up the agent its calls use.
+ * The category is kept even when the agent can't be made, which
+ * `agentCreated` reports.
+ */
+export const createCustomCategory = async (
+  repositories: Repositories,
+  userId: string,
+  user: User | null,
+  fields: CustomCategoryFields
+): Promise<{ id: string; agentCreated: boolean }> => {
+  const id = await repositories.categories.createCustom(userId, fields);
+  try {
+    await createCategoryAgent(userId, id, user?.aiPreferences?.voice.voice_id);
+    return { id, agentCreated: true };
+  } catch (error) {
+    console.error('Error creating agent for category:', error);
+    return { id, agentCreated: false };
+  }
+};
+
+// `items` with the one at `index` moved by `offset` places, for reordering categories and their questions
+export const moveItem = <T>(items: T[], index: number, offset: number): T[] => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+
+  const reordered = [...items];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+};
+
+/**
+ * Adds a family member's suggestion to the storyteller's question bank: the
+ * category's own list for their categories, their upcoming questions for
+ * built-in ones, whose lists everybody shares.
+ */
+export const acceptSuggestion = async (
+  repositories: Repositories,
+  suggestion: QuestionSuggestion,
+  category: Category
+) => {
+  if (category.ownerId === suggestion.ownerId) {
+    await repositories.categories.addQuestion(suggestion.ownerId, category.id, suggestion.question);
+  } else {
+    await repositories.upcomingQuestions.create({
+      userId: suggestion.ownerId,
+      categoryId: category.id,
+      categoryTitle: category.title,
+      question: suggestion.question,
+    });
+  }
+  await repositories.categories.setSuggestionStatus(suggestion.ownerId, suggestion.id, 'accepted');
+};
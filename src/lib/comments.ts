@@ -0,0 +1,61 @@
+import { Timestamp } from 'firebase/firestore';
+import { CommentTarget, ReactionKey, StoryComment } from '../types/comment';
+
+export const REACTION_EMOJI: Record<ReactionKey, string> = {
+  heart: '❤️',
+  laugh: '😂',
+  wow: '😮',
+  sad: '😢',
+  clap: '👏',
+};
+
+export const REACTION_KEYS = Object.keys(REACTION_EMOJI) as ReactionKey[];
+
+// Comments, reactions and read markers of one story or chapter share this id
+export const threadIdFor = (target: CommentTarget) =>
+  target.type === 'story' ? `story:${target.storyId}` : `chapter:${target.bookId}:${target.chapterId}`;
+
+export interface CommentNode {
+  comment: StoryComment;
+  replies: CommentNode[];
+}
+
+/**
+ * Nests replies under the comments they answer, oldest first. Replies whose
+ * parent is missing are shown at the top level rather than dropped.
+ */
+export const buildThreads = (comments: StoryComment[]): CommentNode[] => {
+  const sorted = [...comments].sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+  const nodes = new Map(sorted.map(comment => [comment.id, { comment, replies: [] as CommentNode[] }]));
+  const roots: CommentNode[] = [];
+
+  sorted.forEach(comment => {
+    const node = nodes.get(comment.id)!;
+    const parent = comment.parentId ? nodes.get(comment.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+};
+
+// Comments by others posted after the user last opened each thread
+export const countUnread = (
+  comments: StoryComment[],
+  reads: Record<string, Timestamp>,
+  userId: string
+): Record<string, number> =>
+  comments.reduce<Record<string, number>>((counts, comment) => {
+    const lastRead = reads[comment.threadId];
+    if (
+      comment.authorId !== userId &&
+      !comment.deleted &&
+      (!lastRead || comment.createdAt.toMillis() > lastRead.toMillis())
+    ) {
+      counts[comment.threadId] = (counts[comment.threadId] || 0) + 1;
+    }
+    return counts;
+  }, {});
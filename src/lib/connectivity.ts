@@ -0,0 +1,43 @@
+// Public STUN server used only to learn whether UDP traffic for WebRTC gets out
+const STUN_SERVER = "stun:stun.l.google.com:19302";
+const STUN_TIMEOUT_MS = 5000;
+
+export interface ConnectivityReport {
+  online: boolean;
+  webrtc: boolean;
+  // False behind networks that block UDP; calls may still connect over TURN
+  stun: boolean;
+}
+
+const canReachStun = (): Promise<boolean> =>
+  new Promise((resolve) => {
+    const connection = new RTCPeerConnection({ iceServers: [{ urls: STUN_SERVER }] });
+    const finish = (reachable: boolean) => {
+      clearTimeout(timeout);
+      connection.close();
+      resolve(reachable);
+    };
+    const timeout = setTimeout(() => finish(false), STUN_TIMEOUT_MS);
+
+    connection.onicecandidate = (event) => {
+      // A server-reflexive candidate means the STUN server answered
+      if (event.candidate?.type === "srflx") finish(true);
+      else if (!event.candidate) finish(false);
+    };
+    connection.createDataChannel("check");
+    connection
+      .createOffer()
+      .then((offer) => connection.setLocalDescription(offer))
+      .catch(() => finish(false));
+  });
+
+/** Whether the browser can make the WebRTC call the AI interviewer uses. */
+export const checkConnectivity = async (): Promise<ConnectivityReport> => {
+  const online = navigator.onLine;
+  const webrtc = typeof RTCPeerConnection !== "undefined";
+  return {
+    online,
+    webrtc,
+    stun: online && webrtc ? await canReachStun() : false,
+  };
+};
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import {
+  buildCoverage,
+  buildLifeTimeline,
+  isSameQuestion,
+  matchCategoryQuestion,
+  mentionedAges,
+  mentionedStages,
+  mentionedYearSpans,
+} from './coverage';
+import { parseStory } from './repositories/stories';
+import { Category } from '../types/category';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const category: Category = {
+  id: 'childhood',
+  title: 'Childhood',
+  description: '',
+  emoji_unicode: '',
+  example: '',
+  questions: ['Where did you grow up?', 'Who was your best friend as a child?', 'What games did you play?'],
+};
+
+// A finished story unless its title is null
+const story = (id: string, fields: Record<string, unknown> = {}) =>
+  parseStory(id, {
+    userId: 'user-1',
+    categoryId: 'childhood',
+    title: 'A story',
+    description: null,
+    storyText: null,
+    creationTime: Timestamp.fromDate(NOW),
+    lastUpdationTime: Timestamp.fromDate(NOW),
+    initialQuestion: 'Tell me something.',
+    sessions: {},
+    storySummary: null,
+    nextSchedule: null,
+    ...fields,
+  });
+
+const storyIds = (cells: Array<{ id: string; storyIds: string[] }>) =>
+  Object.fromEntries(cells.map(cell => [cell.id, cell.storyIds]));
+
+describe('matchCategoryQuestion', () => {
+  it('matches a question however it is cased or punctuated', () => {
+    expect(matchCategoryQuestion(category, 'where did you GROW up')).toBe('Where did you grow up?');
+  });
+
+  it('matches a small rewording that keeps the content words', () => {
+    expect(matchCategoryQuestion(category, 'So, who was your best friend back when you were a child?')).toBe(
+      'Who was your best friend as a child?'
+    );
+  });
+
+  it('leaves questions of the user’s own unmatched', () => {
+    expect(matchCategoryQuestion(category, 'What was your first car?')).toBeNull();
+    expect(matchCategoryQuestion(category, 'Who was your friend?')).toBeNull();
+  });
+});
+
+describe('isSameQuestion', () => {
+  it('needs nearly every content word on both sides', () => {
+    expect(isSameQuestion('What games did you play?', 'What games did you play as kids?')).toBe(true);
+    expect(isSameQuestion('What games did you play?', 'What games did your kids play?')).toBe(false);
+    expect(isSameQuestion('Tell me about your mother.', 'Tell me about your father.')).toBe(false);
+  });
+});
+
+describe('buildCoverage', () => {
+  it('counts the questions finished stories of the category answer', () => {
+    const coverage = buildCoverage(
+      [category],
+      [
+        story('a', { initialQuestion: 'Where did you grow up?' }),
+        story('b', { initialQuestion: 'Where did you grow up?' }),
+        story('c', { initialQuestion: 'What games did you play?', title: null }),
+        story('d', { initialQuestion: 'What games did you play?', categoryId: 'family' }),
+        story('e', { initialQuestion: 'What was your first car?' }),
+      ]
+    );
+
+    expect(coverage).toEqual({
+      childhood: {
+        categoryId: 'childhood',
+        total: 3,
+        answeredCount: 1,
+        answered: { 'Where did you grow up?': ['a', 'b'] },
+      },
+    });
+  });
+});
+
+describe('mentionedYearSpans', () => {
+  it('reads years and decades, leaving out numbers that aren’t dates', () => {
+    expect(mentionedYearSpans('We moved in 1962, and by the 1970s we had a farm.', 2024)).toEqual([
+      { start: 1962, end: 1962 },
+      { start: 1970, end: 1979 },
+    ]);
+    expect(mentionedYearSpans('Back in the ’60s and the 80s.', 2024)).toEqual([
+      { start: 1960, end: 1969 },
+      { start: 1980, end: 1989 },
+    ]);
+    expect(mentionedYearSpans('Now that I’m in my 60s, with 1850 acres and a plan for 2050.', 2024)).toEqual([]);
+  });
+
+  it('ends the current decade at the current year', () => {
+    expect(mentionedYearSpans('All through the 1990s.', 1995)).toEqual([{ start: 1990, end: 1995 }]);
+  });
+});
+
+describe('mentionedAges and mentionedStages', () => {
+  it('reads ages however they are said', () => {
+    expect(mentionedAges('When I was 8 we moved; at the age of 12 I left, and by 16 years old I worked.')).toEqual([
+      8, 12, 16,
+    ]);
+  });
+
+  it('finds life stages by whole keywords', () => {
+    expect(mentionedStages('In high school I met my wife.').map(stage => stage.id)).toEqual(['teens']);
+    expect(mentionedStages('The school was highly rated.')).toEqual([]);
+  });
+});
+
+describe('buildLifeTimeline', () => {
+  const stories = [
+    story('moved', { storyText: 'When I was 8 we moved to Ohio.' }),
+    story('married', { storyText: 'In 1975 we got married.' }),
+    story('undated', { storyText: 'The farm had goats.' }),
+    story('unfinished', { storyText: 'In 1990 we retired.', title: null }),
+  ];
+
+  it('places finished stories by decade and life stage from the birth year on', () => {
+    const timeline = buildLifeTimeline(stories, 1950, NOW);
+
+    expect(storyIds(timeline.decades)).toEqual({
+      1950: ['moved'],
+      1960: [],
+      1970: ['married'],
+      1980: [],
+      1990: [],
+      2000: [],
+      2010: [],
+      2020: [],
+    });
+    expect(storyIds(timeline.stages)).toEqual({
+      childhood: ['moved'],
+      teens: [],
+      young_adult: ['married'],
+      adulthood: [],
+      midlife: [],
+      later_life: [],
+    });
+    expect(timeline.undatedStoryIds).toEqual(['undated']);
+  });
+
+  it('starts at the earliest mentioned decade without a birth year, and can’t date ages', () => {
+    const timeline = buildLifeTimeline(stories, undefined, NOW);
+
+    expect(timeline.decades[0]).toEqual({ id: '1970', label: '1970s', storyIds: ['married'] });
+    expect(timeline.decades.at(-1)?.id).toBe('2020');
+    expect(storyIds(timeline.stages).childhood).toEqual(['moved']);
+    expect(storyIds(timeline.stages).young_adult).toEqual(['married']);
+  });
+
+  it('leaves out life stages the storyteller hasn’t reached', () => {
+    expect(buildLifeTimeline([], 2000, NOW).stages.map(stage => stage.id)).toEqual([
+      'childhood',
+      'teens',
+      'young_adult',
+    ]);
+  });
+});
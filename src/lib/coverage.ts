@@ -0,0 +1,258 @@
+import { isCompletedStory } from './repositories';
+import { STOP_WORDS, tokenize } from './search';
+import { Category } from '../types/category';
+import { Story } from '../types/story';
+
+// Share of a question's content words a story's opening question must use to count as asking it
+const MATCH_THRESHOLD = 0.8;
+
+// Mentioned years outside this range are more likely numbers than dates
+const EARLIEST_YEAR = 1900;
+
+export interface CategoryCoverage {
+  categoryId: string;
+  total: number;
+  answeredCount: number;
+  // Question → ids of the stories that answer it, for answered questions only
+  answered: Record<string, string[]>;
+}
+
+export type CoverageMap = Record<string, CategoryCoverage>;
+
+export interface TimelineCell {
+  id: string;
+  label: string;
+  storyIds: string[];
+}
+
+export interface LifeTimeline {
+  decades: TimelineCell[];
+  stages: TimelineCell[];
+  // Stories that mention no year, age or life stage
+  undatedStoryIds: string[];
+}
+
+export interface YearSpan {
+  start: number;
+  end: number;
+}
+
+export interface LifeStage {
+  id: string;
+  label: string;
+  minAge: number;
+  maxAge: number;
+  keywords: string[];
+}
+
+export const LIFE_STAGES: LifeStage[] = [
+  {
+    id: 'childhood',
+    label: 'Childhood',
+    minAge: 0,
+    maxAge: 12,
+    keywords: ['childhood', 'little girl', 'little boy', 'toddler', 'kindergarten', 'elementary school', 'grade school', 'playground'],
+  },
+  {
+    id: 'teens',
+    label: 'Teenage Years',
+    minAge: 13,
+    maxAge: 19,
+    keywords: ['teenager', 'teen', 'high school', 'junior high', 'prom', 'driver license', 'adolescence'],
+  },
+  {
+    id: 'young_adult',
+    label: 'Young Adulthood',
+    minAge: 20,
+    maxAge: 29,
+    keywords: ['college', 'university', 'first job', 'military', 'army', 'navy', 'wedding', 'got married', 'first apartment'],
+  },
+  {
+    id: 'adulthood',
+    label: 'Raising a Family',
+    minAge: 30,
+    maxAge: 49,
+    keywords: ['career', 'our kids', 'our children', 'raising', 'mortgage', 'promotion', 'parenthood'],
+  },
+  {
+    id: 'midlife',
+    label: 'Midlife',
+    minAge: 50,
+    maxAge: 64,
+    keywords: ['empty nest', 'grandchild', 'grandchildren', 'grandson', 'granddaughter', 'midlife'],
+  },
+  {
+    id: 'later_life',
+    label: 'Later Life',
+    minAge: 65,
+    maxAge: Infinity,
+    keywords: ['retirement', 'retired', 'great grandchild', 'great grandchildren', 'nursing home'],
+  },
+];
+
+// Terms separated and wrapped by spaces, so phrases match on word boundaries
+const termString = (text: string) => ` ${tokenize(text).map(token => token.term).join(' ')} `;
+
+const contentTerms = (text: string) =>
+  new Set(tokenize(text).map(token => token.term).filter(term => !STOP_WORDS.has(term)));
+
+const STAGE_KEYWORDS = LIFE_STAGES.map(stage => ({
+  stage,
+  phrases: stage.keywords.map(keyword => termString(keyword)),
+}));
+
+const containment = (asked: Set<string>, question: Set<string>) => {
+  if (question.size === 0) return 0;
+  return Array.from(question).filter(term => asked.has(term)).length / question.size;
+};
+
+/**
+ * Whether two wordings ask the same thing: nearly all their content words are
+ * shared. Stricter than matching a category question, since questions from
+ * the same template differ only in their subject.
+ */
+export const isSameQuestion = (a: string, b: string) => {
+  const aTerms = contentTerms(a);
+  const bTerms = contentTerms(b);
+  const shared = Array.from(aTerms).filter(term => bTerms.has(term)).length;
+  const union = aTerms.size + bTerms.size - shared;
+  return union > 0 && shared / union >= MATCH_THRESHOLD;
+};
+
+/**
+ * The question of `category` a story's opening question asks, allowing for
+ * small rewordings such as an AI pick phrased a little differently. Null for
+ * questions of the user's own.
+ */
+export const matchCategoryQuestion = (category: Category, initialQuestion: string): string | null => {
+  const asked = termString(initialQuestion);
+  const exact = category.questions.find(question => termString(question) === asked);
+  if (exact) return exact;
+
+  const askedTerms = contentTerms(initialQuestion);
+  let best: string | null = null;
+  let bestScore = MATCH_THRESHOLD;
+  category.questions.forEach(question => {
+    const score = containment(askedTerms, contentTerms(question));
+    if (score >= bestScore) {
+      best = question;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/** Which questions of each category have been answered by a finished story. */
+export const buildCoverage = (categories: Category[], stories: Story[]): CoverageMap => {
+  const completed = stories.filter(isCompletedStory);
+  return Object.fromEntries(
+    categories.map(category => {
+      const answered: Record<string, string[]> = {};
+      completed
+        .filter(story => story.categoryId === category.id)
+        .forEach(story => {
+          const question = matchCategoryQuestion(category, story.initialQuestion);
+          if (question) answered[question] = [...(answered[question] ?? []), story.id];
+        });
+      const coverage: CategoryCoverage = {
+        categoryId: category.id,
+        total: category.questions.length,
+        answeredCount: Object.keys(answered).length,
+        answered,
+      };
+      return [category.id, coverage];
+    })
+  );
+};
+
+export const answeringStories = (coverage: CoverageMap | undefined, categoryId: string, question: string) =>
+  coverage?.[categoryId]?.answered[question] ?? [];
+
+export const storyContent = (story: Story) =>
+  [story.initialQuestion, story.title, story.description, story.storyText, story.storySummary].filter(Boolean).join('\n');
+
+// Years a text mentions; a decade spans its ten years, up to the current one
+export const mentionedYearSpans = (text: string, currentYear: number): YearSpan[] => {
+  const years = Array.from(text.matchAll(/\b(1[89]\d{2}|20\d{2})\b/g), match => {
+    const year = Number(match[1]);
+    return { start: year, end: year };
+  });
+  // "the 1960s", "the '60s" and "the 60s", but not "in my 60s"
+  const decades = Array.from(text.matchAll(/(?<!\b(?:my|his|her|their|our)\s)(?:\b19|['’]|\b)([2-9]0)s\b/g), match => {
+    const decade = 1900 + Number(match[1]);
+    return { start: decade, end: Math.min(decade + 9, currentYear) };
+  });
+  return [...years, ...decades].filter(span => span.start >= EARLIEST_YEAR && span.start <= currentYear);
+};
+
+export const mentionedAges = (text: string) =>
+  Array.from(
+    text.matchAll(/\b(?:when I was|at age|at the age of|aged)\s+(\d{1,2})\b|\b(\d{1,2}) years old\b/gi),
+    match => Number(match[1] ?? match[2])
+  );
+
+// Life stages a text talks about by their keywords, like "high school"
+export const mentionedStages = (text: string): LifeStage[] => {
+  const terms = termString(text);
+  return STAGE_KEYWORDS.filter(({ phrases }) => phrases.some(phrase => terms.includes(phrase))).map(({ stage }) => stage);
+};
+
+const stageForAge = (age: number) => LIFE_STAGES.find(stage => age >= stage.minAge && age <= stage.maxAge);
+
+export const decadeOf = (year: number) => Math.floor(year / 10) * 10;
+
+/**
+ * Places finished stories on the user's life: by the decades whose years they
+ * mention and by the life stages they talk about. Ages and years convert into
+ * each other once the birth year is known. Cells without stories are the gaps
+ * worth asking about next.
+ */
+export const buildLifeTimeline = (stories: Story[], birthYear?: number, now = new Date()): LifeTimeline => {
+  const currentYear = now.getFullYear();
+  const decadeStories = new Map<number, Set<string>>();
+  const stageStories = new Map<string, Set<string>>(LIFE_STAGES.map(stage => [stage.id, new Set()]));
+  const undatedStoryIds: string[] = [];
+
+  stories.filter(isCompletedStory).forEach(story => {
+    const text = storyContent(story);
+    const years = mentionedYearSpans(text, currentYear).map(span => span.start);
+    const ages = mentionedAges(text);
+    if (birthYear) {
+      ages.forEach(age => years.push(birthYear + age));
+      years.forEach(year => {
+        if (year >= birthYear) ages.push(year - birthYear);
+      });
+    }
+
+    const stageIds = new Set(mentionedStages(text).map(stage => stage.id));
+    ages.forEach(age => {
+      const stage = stageForAge(age);
+      if (stage) stageIds.add(stage.id);
+    });
+
+    years.forEach(year => {
+      const decade = decadeOf(year);
+      decadeStories.set(decade, (decadeStories.get(decade) ?? new Set()).add(story.id));
+    });
+    stageIds.forEach(id => stageStories.get(id)?.add(story.id));
+    if (years.length === 0 && stageIds.size === 0) undatedStoryIds.push(story.id);
+  });
+
+  const mentioned = Array.from(decadeStories.keys());
+  const firstDecade = birthYear ? decadeOf(birthYear) : mentioned.length ? Math.min(...mentioned) : null;
+  const decades: TimelineCell[] = [];
+  if (firstDecade !== null) {
+    for (let decade = firstDecade; decade <= decadeOf(currentYear); decade += 10) {
+      decades.push({ id: String(decade), label: `${decade}s`, storyIds: Array.from(decadeStories.get(decade) ?? []) });
+    }
+  }
+
+  const lastStageAge = birthYear ? currentYear - birthYear : Infinity;
+  const stages = LIFE_STAGES.filter(stage => stage.minAge <= lastStageAge).map(stage => ({
+    id: stage.id,
+    label: stage.label,
+    storyIds: Array.from(stageStories.get(stage.id) ?? []),
+  }));
+
+  return { decades, stages, undatedStoryIds };
+};
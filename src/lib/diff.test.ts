@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords, DiffSegment, hasChanges } from './diff';
+
+// The text on each side of a diff, put back together from its segments
+const sides = (segments: DiffSegment[]) => ({
+  before: segments.filter(segment => segment.type !== 'added').map(segment => segment.text).join(''),
+  after: segments.filter(segment => segment.type !== 'removed').map(segment => segment.text).join(''),
+});
+
+const changedWords = (segments: DiffSegment[]) =>
+  segments
+    .filter(segment => segment.type !== 'equal')
+    .flatMap(segment => segment.text.match(/\S+/g) ?? []).length;
+
+// Length of the longest common subsequence, the slow way
+const lcsLength = (a: string[], b: string[]) => {
+  let previous = new Array(b.length + 1).fill(0);
+  a.forEach(word => {
+    const current = [0];
+    b.forEach((other, j) => current.push(word === other ? previous[j] + 1 : Math.max(previous[j + 1], current[j])));
+    previous = current;
+  });
+  return previous[b.length];
+};
+
+// Deterministic, so a failure can be replayed
+const randomWords = (seed: number, length: number) => {
+  let state = seed;
+  return Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return ['the', 'farm', 'goats', 'Rose', 'river', 'we'][state % 6];
+  });
+};
+
+describe('diffWords', () => {
+  it('finds no changes between equal texts', () => {
+    const segments = diffWords('We kept goats on the farm.', 'We kept goats on the farm.');
+
+    expect(segments).toEqual([{ type: 'equal', text: 'We kept goats on the farm.' }]);
+    expect(hasChanges(segments)).toBe(false);
+  });
+
+  it('marks a replaced word as removed and added', () => {
+    expect(diffWords('We moved in 1952 to Ohio.', 'We moved in 1953 to Ohio.')).toEqual([
+      { type: 'equal', text: 'We moved in ' },
+      { type: 'removed', text: '1952 ' },
+      { type: 'added', text: '1953 ' },
+      { type: 'equal', text: 'to Ohio.' },
+    ]);
+  });
+
+  it('handles an empty side', () => {
+    expect(diffWords('', 'A new story.')).toEqual([{ type: 'added', text: 'A new story.' }]);
+    expect(diffWords('An old story.', '')).toEqual([{ type: 'removed', text: 'An old story.' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('keeps the words both texts share, even when they moved', () => {
+    const segments = diffWords('aunt Rose and uncle Walter came over', 'uncle Walter and aunt Rose came over');
+
+    expect(sides(segments)).toEqual({
+      before: 'aunt Rose and uncle Walter came over',
+      after: 'uncle Walter and aunt Rose came over',
+    });
+    // One name stays in place; "and" and the other name move around it
+    expect(changedWords(segments)).toBe(6);
+  });
+
+  it('changes as few words as possible', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const a = randomWords(seed, 5 + (seed % 20));
+      const b = randomWords(seed * 7, 5 + (seed % 13));
+      const before = a.map(word => `${word} `).join('');
+      const after = b.map(word => `${word} `).join('');
+
+      const segments = diffWords(before, after);
+
+      expect(sides(segments)).toEqual({ before, after });
+      expect(changedWords(segments)).toBe(a.length + b.length - 2 * lcsLength(a, b));
+    }
+  });
+
+  it('changes nothing but the edited words of a long story', () => {
+    const words = Array.from({ length: 10_000 }, (_, index) => `word${index}`);
+    const edited = words.map((word, index) => (index % 500 === 250 ? `edited${index}` : word));
+
+    const segments = diffWords(words.join(' '), edited.join(' '));
+
+    expect(sides(segments)).toEqual({ before: words.join(' '), after: edited.join(' ') });
+    expect(changedWords(segments)).toBe(40);
+  });
+
+  it('diffs two unrelated long texts without running out of memory', () => {
+    const before = Array.from({ length: 2_000 }, (_, index) => `before${index % 7}`).join(' ');
+    const after = Array.from({ length: 2_000 }, (_, index) => `after${index % 5}`).join(' ');
+
+    expect(sides(diffWords(before, after))).toEqual({ before, after });
+  });
+});
@@ -0,0 +1,147 @@
+export type DiffType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffType;
+  text: string;
+}
+
+// Words and the whitespace after them stay together so segments join back into the original text
+const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) || [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffType, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+// Each distinct token as a number, so the diff compares numbers rather than strings
+const internTokens = (...texts: string[][]) => {
+  const ids = new Map<string, number>();
+  return texts.map(tokens =>
+    Int32Array.from(tokens, token => {
+      if (!ids.has(token)) ids.set(token, ids.size);
+      return ids.get(token)!;
+    })
+  );
+};
+
+type Emit = (type: DiffType, from: number, to: number) => void;
+
+/**
+ * A point where a shortest edit script from a[aLo..aHi) to b[bLo..bHi) can be
+ * split in two, found by searching from both ends at once (Myers' middle
+ * snake). Uses memory linear in the input. Null when the ranges share nothing.
+ */
+const bisect = (a: Int32Array, b: Int32Array, aLo: number, aHi: number, bLo: number, bHi: number) => {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+  // forward[offset + k] is how far along a the furthest forward path on diagonal k reaches; backward likewise from the end
+  const forward = new Int32Array(size).fill(-1);
+  const backward = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet while extending forward, with an even one backward
+  const meetsForward = delta % 2 !== 0;
+  // Diagonals that ran off the edge of the grid
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && forward[index - 1] < forward[index + 1]) ? forward[index + 1] : forward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (meetsForward) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < size && backward[other] !== -1 && x >= n - backward[other]) {
+          return [aLo + x, bLo + y];
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && backward[index - 1] < backward[index + 1]) ? backward[index + 1] : backward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - x - 1] === b[bHi - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[index] = x;
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!meetsForward) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < size && forward[other] !== -1) {
+          const forwardX = forward[other];
+          if (forwardX >= n - x) return [aLo + forwardX, bLo + offset + forwardX - other];
+        }
+      }
+    }
+  }
+  return null;
+};
+
+const diffRange = (a: Int32Array, b: Int32Array, aLo: number, aHi: number, bLo: number, bHi: number, emit: Emit) => {
+  let prefix = 0;
+  while (aLo + prefix < aHi && bLo + prefix < bHi && a[aLo + prefix] === b[bLo + prefix]) prefix++;
+  if (prefix > 0) emit('equal', aLo, aLo + prefix);
+  aLo += prefix;
+  bLo += prefix;
+
+  let suffix = 0;
+  while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - suffix - 1] === b[bHi - suffix - 1]) suffix++;
+  aHi -= suffix;
+  bHi -= suffix;
+
+  const split = aLo < aHi && bLo < bHi ? bisect(a, b, aLo, aHi, bLo, bHi) : null;
+  if (split) {
+    const [x, y] = split;
+    diffRange(a, b, aLo, x, bLo, y, emit);
+    diffRange(a, b, x, aHi, y, bHi, emit);
+  } else {
+    if (aLo < aHi) emit('removed', aLo, aHi);
+    if (bLo < bHi) emit('added', bLo, bHi);
+  }
+
+  if (suffix > 0) emit('equal', aHi, aHi + suffix);
+};
+
+/**
+ * Word-level diff of two texts: a shortest edit script, found with Myers'
+ * algorithm in memory linear in the texts' length, so diffing two long
+ * stories doesn't allocate a table of every pair of words.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const [aIds, bIds] = internTokens(a, b);
+
+  const segments: DiffSegment[] = [];
+  diffRange(aIds, bIds, 0, a.length, 0, b.length, (type, from, to) => {
+    pushSegment(segments, type, (type === 'added' ? b : a).slice(from, to).join(''));
+  });
+  return segments;
+};
+
+export const hasChanges = (segments: DiffSegment[]) => segments.some(segment => segment.type !== 'equal');
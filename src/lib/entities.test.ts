@@ -0,0 +1,249 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import {
+  entityIndexStamp,
+  extractMentions,
+  findEntityMentions,
+  mergeEntities,
+  planEntityIndex,
+  splitAlias,
+  syncEntityIndex,
+} from './entities';
+import { createRepositories } from './repositories';
+import { createMemoryBackend } from './repositories/memoryBackend';
+import { parseStory } from './repositories/stories';
+import { Entity } from '../types/entity';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const storyFields = (fields: Record<string, unknown> = {}) => ({
+  userId: 'user-1',
+  categoryId: 'childhood',
+  title: 'A story',
+  description: null,
+  storyText: null,
+  creationTime: Timestamp.fromDate(NOW),
+  lastUpdationTime: Timestamp.fromDate(NOW),
+  initialQuestion: 'Tell me something.',
+  sessions: {},
+  storySummary: null,
+  nextSchedule: null,
+  ...fields,
+});
+
+// A finished story unless its title is null
+const story = (id: string, storyText: string, fields: Record<string, unknown> = {}) =>
+  parseStory(id, storyFields({ storyText, ...fields }));
+
+const entity = (id: string, fields: Partial<Entity> & Pick<Entity, 'name'>): Entity => ({
+  id,
+  kind: 'person',
+  aliases: [fields.name],
+  storyIds: [],
+  mentionCount: 0,
+  edited: false,
+  ignored: false,
+  updatedAt: Timestamp.fromDate(NOW),
+  ...fields,
+});
+
+const people = (text: string) =>
+  extractMentions(text, NOW)
+    .filter(mention => mention.kind === 'person')
+    .map(mention => mention.name);
+
+const places = (text: string) =>
+  extractMentions(text, NOW)
+    .filter(mention => mention.kind === 'place')
+    .map(mention => mention.name);
+
+const setup = () => {
+  const backend = createMemoryBackend();
+  return { backend, repositories: createRepositories(backend) };
+};
+
+describe('extractMentions', () => {
+  it('finds names, relatives and titled names', () => {
+    expect(people('We visited Walter Brown with Aunt Mae and my grandma.')).toEqual([
+      'Aunt Mae',
+      'Grandma',
+      'Walter Brown',
+    ]);
+  });
+
+  it('leaves out words that start a sentence or are common', () => {
+    expect(people('Summers were long. The farm was quiet on Sunday, and I loved it.')).toEqual([]);
+  });
+
+  it('finds places after "in", "at" and the like, without a leading "the"', () => {
+    expect(places('We moved from Ohio to the Bronx, and lived in New York near Central Park.')).toEqual([
+      'Ohio',
+      'Bronx',
+      'New York',
+      'Central Park',
+    ]);
+  });
+
+  it('doesn’t take people after a preposition for places', () => {
+    const text = 'I wrote to Aunt Mae, heard from Grandma and stayed at Walter’s place.';
+
+    expect(places(text)).toEqual([]);
+    expect(people(text)).toEqual(['Aunt Mae', 'Grandma', 'Walter']);
+  });
+
+  it('reads years and decades up to the current year', () => {
+    const dates = extractMentions('Born in 1948, married in the 1970s, the ’80s were good; by 2050 who knows.', NOW)
+      .filter(mention => mention.kind === 'date');
+
+    expect(dates).toEqual([
+      { kind: 'date', name: '1948', year: 1948, decade: false },
+      { kind: 'date', name: '1970s', year: 1970, decade: true },
+      { kind: 'date', name: '1980s', year: 1980, decade: true },
+    ]);
+  });
+});
+
+describe('findEntityMentions', () => {
+  const rose = { kind: 'person' as const, aliases: ['Grandma Rose', 'Rose'] };
+  const mom = { kind: 'person' as const, aliases: ['Mom'] };
+
+  it('prefers the longest alias where mentions overlap', () => {
+    const text = 'Grandma Rose baked, and Rose sang.';
+
+    expect(findEntityMentions(text, [rose]).map(({ start, end }) => text.slice(start, end))).toEqual([
+      'Grandma Rose',
+      'Rose',
+    ]);
+  });
+
+  it('matches relations in any case but names only as written', () => {
+    expect(findEntityMentions('My mom grew roses.', [rose, mom])).toEqual([{ entity: mom, start: 3, end: 6 }]);
+  });
+
+  it('leaves dates out', () => {
+    expect(findEntityMentions('In 1948.', [{ kind: 'date', aliases: ['1948'] }])).toEqual([]);
+  });
+});
+
+describe('planEntityIndex', () => {
+  it('creates an entity for each new mention of a finished story', () => {
+    const { created } = planEntityIndex(
+      [story('a', 'We drove to Ohio with Walter in 1962. Walter drove.'), story('b', 'Walter again.', { title: null })],
+      [],
+      NOW
+    );
+
+    expect(created).toEqual([
+      expect.objectContaining({ kind: 'place', name: 'Ohio', storyIds: ['a'], mentionCount: 1 }),
+      expect.objectContaining({ kind: 'person', name: 'Walter', aliases: ['Walter'], storyIds: ['a'], mentionCount: 2 }),
+      expect.objectContaining({ kind: 'date', name: '1962', year: 1962, decade: false, storyIds: ['a'] }),
+    ]);
+  });
+
+  it('counts mentions of an alias toward the entity that has it', () => {
+    const rose = entity('rose', { name: 'Grandma Rose', aliases: ['Grandma Rose', 'Rose'], storyIds: ['a'], mentionCount: 1 });
+
+    expect(planEntityIndex([story('a', 'We met Grandma Rose, and later Rose again.')], [rose], NOW)).toEqual({
+      created: [],
+      updated: [{ id: 'rose', changes: { storyIds: ['a'], mentionCount: 2 } }],
+      removed: [],
+    });
+  });
+
+  it('drops entities no story mentions, unless the user edited them', () => {
+    const { removed, updated } = planEntityIndex(
+      [story('a', 'Nothing to see.')],
+      [
+        entity('walter', { name: 'Walter', storyIds: ['a'], mentionCount: 1 }),
+        entity('mae', { name: 'Mae', storyIds: ['a'], mentionCount: 1, edited: true }),
+      ],
+      NOW
+    );
+
+    expect(removed).toEqual(['walter']);
+    expect(updated).toEqual([{ id: 'mae', changes: { storyIds: [], mentionCount: 0 } }]);
+  });
+});
+
+describe('syncEntityIndex', () => {
+  it('writes the index and stamps the stories it read', async () => {
+    const { backend, repositories } = setup();
+    backend.seed('stories', { a: storyFields({ storyText: 'We drove to Ohio with Walter.' }) });
+
+    const entities = await syncEntityIndex(repositories, 'user-1', await repositories.stories.listByUser('user-1'));
+
+    expect(entities.map(candidate => candidate.name).sort()).toEqual(['Ohio', 'Walter']);
+    const [stamped] = await repositories.stories.listByUser('user-1');
+    expect(stamped.entityIndexStamp).toBe(entityIndexStamp(stamped));
+  });
+
+  it('leaves the index alone until a story changes', async () => {
+    const { backend, repositories } = setup();
+    backend.seed('stories', { a: storyFields({ storyText: 'We drove to Ohio with Walter.' }) });
+    await syncEntityIndex(repositories, 'user-1', await repositories.stories.listByUser('user-1'));
+    const synced = backend.dump('users/user-1/entities');
+
+    // A hidden entry would come back if the index were rebuilt from scratch
+    backend.seed('users/user-1/entities', {});
+    expect(await syncEntityIndex(repositories, 'user-1', await repositories.stories.listByUser('user-1'))).toEqual([]);
+
+    backend.seed('users/user-1/entities', synced);
+    await repositories.stories.update('a', { storyText: 'We drove to Ohio with Walter and Mae.' });
+    const entities = await syncEntityIndex(repositories, 'user-1', await repositories.stories.listByUser('user-1'));
+    expect(entities.map(candidate => candidate.name).sort()).toEqual(['Mae', 'Ohio', 'Walter']);
+  });
+
+  it('syncs again once a story it points at is gone', async () => {
+    const { backend, repositories } = setup();
+    backend.seed('stories', { a: storyFields({ storyText: 'We met Walter.' }), b: storyFields({ storyText: 'We met Mae.' }) });
+    await syncEntityIndex(repositories, 'user-1', await repositories.stories.listByUser('user-1'));
+
+    await repositories.stories.remove('b');
+    const entities = await syncEntityIndex(repositories, 'user-1', await repositories.stories.listByUser('user-1'));
+
+    expect(entities.map(candidate => candidate.name)).toEqual(['Walter']);
+  });
+});
+
+describe('mergeEntities and splitAlias', () => {
+  const seed = (backend: ReturnType<typeof createMemoryBackend>, entities: Entity[]) =>
+    backend.seed(
+      'users/user-1/entities',
+      Object.fromEntries(entities.map(({ id, ...fields }) => [id, fields]))
+    );
+
+  it('folds one entity into another, keeping its aliases', async () => {
+    const { backend, repositories } = setup();
+    const rose = entity('rose', { name: 'Grandma Rose', storyIds: ['a'], mentionCount: 2 });
+    const rosie = entity('rosie', { name: 'Rosie', storyIds: ['a', 'b'], mentionCount: 1 });
+    seed(backend, [rose, rosie]);
+
+    await mergeEntities(repositories, 'user-1', rose, rosie);
+
+    expect(await repositories.entities.listByUser('user-1')).toEqual([
+      expect.objectContaining({
+        id: 'rose',
+        aliases: ['Grandma Rose', 'Rosie'],
+        storyIds: ['a', 'b'],
+        mentionCount: 3,
+        edited: true,
+      }),
+    ]);
+  });
+
+  it('splits an alias off into an entity of its own, renaming the rest if it was the name', async () => {
+    const { backend, repositories } = setup();
+    const rose = entity('rose', { name: 'Rose', aliases: ['Rose', 'Grandma Rose'] });
+    seed(backend, [rose]);
+
+    const id = await splitAlias(repositories, 'user-1', rose, 'Rose');
+
+    expect(await repositories.entities.getById('user-1', 'rose')).toMatchObject({
+      name: 'Grandma Rose',
+      aliases: ['Grandma Rose'],
+      edited: true,
+    });
+    expect(await repositories.entities.getById('user-1', id)).toMatchObject({ name: 'Rose', aliases: ['Rose'], edited: true });
+    await expect(splitAlias(repositories, 'user-1', entity('mae', { name: 'Mae' }), 'Mae')).rejects.toThrow(/only name/);
+  });
+});
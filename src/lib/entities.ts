@@ -0,0 +1,316 @@
+import { isCompletedStory, Repositories } from './repositories';
+import type { EntityUpdate, NewEntity } from './repositories';
+import { fingerprint } from './search';
+import { Entity, EntityKind } from '../types/entity';
+import { Story } from '../types/story';
+
+export type BrowsableKind = Exclude<EntityKind, 'date'>;
+
+export const ENTITY_ROUTES: Record<BrowsableKind, string> = {
+  person: '/people',
+  place: '/places',
+};
+
+export const ENTITY_LABELS: Record<BrowsableKind, { singular: string; plural: string }> = {
+  person: { singular: 'Person', plural: 'People' },
+  place: { singular: 'Place', plural: 'Places' },
+};
+
+// Capitalized words that don't name anyone or anywhere
+const COMMON_CAPITALIZED = new Set([
+  'I', 'Agent', 'User', 'The', 'A', 'An', 'We', 'My', 'Our', 'He', 'She', 'They', 'It', 'You', 'Your', 'His', 'Her',
+  'But', 'And', 'So', 'Then', 'When', 'There', 'This', 'That', 'Well', 'Oh', 'Yes', 'No', 'Okay', 'God',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday', 'January', 'February', 'March',
+  'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December', 'Christmas', 'Easter',
+]);
+
+// Family members often called by their relation alone, like "Grandma"
+const RELATIONS = ['grandma', 'grandpa', 'grandmother', 'grandfather', 'mother', 'father', 'mom', 'dad', 'stepmother', 'stepfather'];
+// Relations that come before a name, like "Aunt Mae"
+const TITLES = [...RELATIONS, 'aunt', 'uncle', 'cousin'];
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+const eitherCase = (word: string) => `[${word.charAt(0).toUpperCase()}${word.charAt(0)}]${word.slice(1)}`;
+
+const NAME_WORD = "[A-Z][a-z]+(?:['’][A-Z][a-z]+)?";
+const NAME = new RegExp(`\\b${NAME_WORD}(?:\\s+${NAME_WORD})*`, 'g');
+const TITLED_NAME = new RegExp(`\\b(${TITLES.map(eitherCase).join('|')})\\s+(${NAME_WORD})`, 'g');
+const RELATIVE = new RegExp(`\\b(?:[Mm]y|[Oo]ur)\\s+(${RELATIONS.join('|')})\\b(?!\\s+[A-Z])`, 'g');
+const PLACE = new RegExp(`\\b(?:in|at|from|near|to)\\s+(?:the\\s+)?(${NAME_WORD}(?:\\s+${NAME_WORD})*)`, 'g');
+const YEAR = /\b(19\d{2}|20\d{2})\b(?!['’]?s)/g;
+const DECADE = /(?:\b(19\d0|20\d0)|['’]([2-9]0))['’]?s\b/g;
+
+export interface ExtractedMention {
+  kind: EntityKind;
+  name: string;
+  year?: number;
+  decade?: boolean;
+}
+
+const startsSentence = (text: string, index: number) => /(^|[.!?:\n]\s*)$/.test(text.slice(0, index));
+
+// Leading words of a name that aren't part of it, e.g. "The" in "The Depression"
+const trimName = (name: string) => {
+  const words = name.split(/\s+/);
+  while (words.length && COMMON_CAPITALIZED.has(words[0])) words.shift();
+  return words.join(' ');
+};
+
+/**
+ * Names, places and years a text mentions, found with simple patterns:
+ * capitalized names that don't start a sentence, relatives, capitalized
+ * words after "in", "at" and the like, and four-digit years and decades.
+ * A name that reads as a person, by a title, a relation or a possessive, is
+ * never taken for a place.
+ */
+export const extractMentions = (text: string, now = new Date()): ExtractedMention[] => {
+  const mentions: ExtractedMention[] = [];
+  // Words already taken by a titled name or a place, so they aren't people on their own
+  const claimed = new Set<string>();
+
+  Array.from(text.matchAll(TITLED_NAME)).forEach(match => {
+    mentions.push({ kind: 'person', name: `${capitalize(match[1])} ${match[2]}` });
+    claimed.add(match[2]);
+  });
+  Array.from(text.matchAll(RELATIVE)).forEach(match => {
+    mentions.push({ kind: 'person', name: capitalize(match[1]) });
+  });
+  Array.from(text.matchAll(PLACE)).forEach(match => {
+    const place = trimName(match[1]);
+    if (!place || claimed.has(place)) return;
+    // People come first: "to Aunt Mae", "from Grandma" and "at Walter's" aren't places
+    if (TITLES.includes(place.split(' ')[0].toLowerCase())) return;
+    if (/^['’]s\b/.test(text.slice((match.index ?? 0) + match[0].length))) return;
+    mentions.push({ kind: 'place', name: place });
+    claimed.add(place);
+  });
+  Array.from(text.matchAll(NAME)).forEach(match => {
+    const name = trimName(match[0]);
+    if (!name || claimed.has(name) || startsSentence(text, match.index ?? 0)) return;
+    if (TITLES.some(title => name.startsWith(`${capitalize(title)} `))) return;
+    mentions.push({ kind: 'person', name });
+  });
+
+  const currentYear = now.getFullYear();
+  Array.from(text.matchAll(YEAR)).forEach(match => {
+    const year = Number(match[1]);
+    if (year <= currentYear) mentions.push({ kind: 'date', name: match[1], year, decade: false });
+  });
+  Array.from(text.matchAll(DECADE)).forEach(match => {
+    const year = match[1] ? Number(match[1]) : 1900 + Number(match[2]);
+    if (year <= currentYear) mentions.push({ kind: 'date', name: `${year}s`, year, decade: true });
+  });
+
+  return mentions;
+};
+
+const htmlToText = (html: string) =>
+  html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"');
+
+// Everything the user said about the story: the written story and every call transcript
+export const storySearchableText = (story: Story) =>
+  [
+    story.storyText ? htmlToText(story.storyText) : '',
+    ...Object.values(story.sessions ?? {}).map(session => session.transcript ?? ''),
+  ].join('\n');
+
+export interface EntityMention<T = Entity> {
+  entity: T;
+  start: number;
+  end: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Where `text` mentions people and places of `entities`, by any alias. Longer
+ * aliases win where mentions overlap, so "Grandma Rose" isn't also "Rose".
+ * Relations like "grandma" match in any case; names only capitalized.
+ */
+export const findEntityMentions = <T extends Pick<Entity, 'kind' | 'aliases'>>(
+  text: string,
+  entities: T[]
+): EntityMention<T>[] => {
+  const aliases = entities
+    .filter(entity => entity.kind !== 'date')
+    .flatMap(entity => entity.aliases.map(alias => ({ entity, alias })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+  const mentions: EntityMention<T>[] = [];
+  aliases.forEach(({ entity, alias }) => {
+    const flags = RELATIONS.includes(alias.toLowerCase()) ? 'gi' : 'g';
+    Array.from(text.matchAll(new RegExp(`\\b${escapeRegExp(alias)}\\b`, flags))).forEach(match => {
+      const start = match.index ?? 0;
+      const end = start + alias.length;
+      if (mentions.some(mention => start < mention.end && end > mention.start)) return;
+      mentions.push({ entity, start, end });
+    });
+  });
+  return mentions.sort((a, b) => a.start - b.start);
+};
+
+export interface EntityIndexChanges {
+  created: NewEntity[];
+  updated: { id: string; changes: EntityUpdate }[];
+  removed: string[];
+}
+
+type Draft = NewEntity & { id?: string };
+
+const aliasKey = (kind: EntityKind, alias: string) => `${kind}:${alias.toLowerCase()}`;
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, index) => id === b[index]);
+
+/**
+ * Works out how the index changes to match the stories: new mentions become
+ * entities, and every entity's stories and mention count are recounted. A
+ * mention belongs to whichever entity has it as an alias, so merges and splits
+ * the user made hold. Entities nobody edited are dropped once no story
+ * mentions them.
+ */
+export const planEntityIndex = (stories: Story[], entities: Entity[], now = new Date()): EntityIndexChanges => {
+  const texts = stories.filter(isCompletedStory).map(story => ({ id: story.id, text: storySearchableText(story) }));
+  const drafts: Draft[] = entities.map(entity => ({
+    id: entity.id,
+    kind: entity.kind,
+    name: entity.name,
+    aliases: entity.aliases,
+    storyIds: [],
+    mentionCount: 0,
+    ...(entity.year !== undefined ? { year: entity.year, decade: entity.decade ?? false } : {}),
+    edited: entity.edited,
+    ignored: entity.ignored,
+  }));
+  const byAlias = new Map(drafts.flatMap(draft => draft.aliases.map(alias => [aliasKey(draft.kind, alias), draft] as const)));
+
+  texts.forEach(({ id, text }) => {
+    extractMentions(text, now).forEach(mention => {
+      let draft = byAlias.get(aliasKey(mention.kind, mention.name));
+      if (!draft) {
+        draft = {
+          kind: mention.kind,
+          name: mention.name,
+          aliases: [mention.name],
+          storyIds: [],
+          mentionCount: 0,
+          ...(mention.year !== undefined ? { year: mention.year, decade: mention.decade ?? false } : {}),
+          edited: false,
+          ignored: false,
+        };
+        drafts.push(draft);
+        byAlias.set(aliasKey(mention.kind, mention.name), draft);
+      }
+      // Dates are counted here; people and places below, where they're found by alias
+      if (mention.kind === 'date') {
+        draft.mentionCount++;
+        if (!draft.storyIds.includes(id)) draft.storyIds.push(id);
+      }
+    });
+  });
+
+  texts.forEach(({ id, text }) => {
+    findEntityMentions(text, drafts).forEach(({ entity: draft }) => {
+      draft.mentionCount++;
+      if (!draft.storyIds.includes(id)) draft.storyIds.push(id);
+    });
+  });
+
+  const changes: EntityIndexChanges = { created: [], updated: [], removed: [] };
+  drafts.forEach(draft => {
+    const { id, ...fields } = draft;
+    if (!id) {
+      if (fields.storyIds.length > 0) changes.created.push(fields);
+      return;
+    }
+    const existing = entities.find(entity => entity.id === id);
+    if (!existing) return;
+    if (fields.storyIds.length === 0 && !existing.edited) {
+      changes.removed.push(id);
+    } else if (!sameIds(existing.storyIds, fields.storyIds) || existing.mentionCount !== fields.mentionCount) {
+      changes.updated.push({ id, changes: { storyIds: fields.storyIds, mentionCount: fields.mentionCount } });
+    }
+  });
+  return changes;
+};
+
+// Changes whenever the text the index reads from `story` does
+export const entityIndexStamp = (story: Story) => fingerprint(storySearchableText(story));
+
+/**
+ * Whether the index may be out of date: a finished story's text changed since
+ * it was last read, or a story the index points at is gone or unfinished.
+ */
+export const needsEntitySync = (stories: Story[], entities: Entity[]) => {
+  const completed = stories.filter(isCompletedStory);
+  const completedIds = new Set(completed.map(story => story.id));
+  return (
+    completed.some(story => story.entityIndexStamp !== entityIndexStamp(story)) ||
+    entities.some(entity => entity.storyIds.some(id => !completedIds.has(id)))
+  );
+};
+
+/**
+ * Brings the storyteller's entity index up to date with their stories, and
+ * returns it. Nothing is rebuilt unless a story changed since the last sync;
+ * each story keeps the stamp of the text it was indexed with.
+ */
+export const syncEntityIndex = async (
+  repositories: Repositories,
+  userId: string,
+  stories: Story[]
+): Promise<Entity[]> => {
+  const entities = await repositories.entities.listByUser(userId);
+  if (!needsEntitySync(stories, entities)) return entities;
+
+  const { created, updated, removed } = planEntityIndex(stories, entities);
+  await Promise.all([
+    ...created.map(entity => repositories.entities.create(userId, entity)),
+    ...updated.map(({ id, changes }) => repositories.entities.update(userId, id, changes)),
+    ...removed.map(id => repositories.entities.remove(userId, id)),
+  ]);
+  // Stamped once the index is written, so a failed sync is tried again
+  await Promise.all(
+    stories
+      .filter(story => isCompletedStory(story) && story.entityIndexStamp !== entityIndexStamp(story))
+      .map(story => repositories.stories.setEntityIndexStamp(story.id, entityIndexStamp(story)))
+  );
+  return repositories.entities.listByUser(userId);
+};
+
+// Folds `source` into `target`: its aliases then point at `target`
+export const mergeEntities = async (repositories: Repositories, userId: string, target: Entity, source: Entity) => {
+  await repositories.entities.update(userId, target.id, {
+    aliases: Array.from(new Set([...target.aliases, ...source.aliases])),
+    storyIds: Array.from(new Set([...target.storyIds, ...source.storyIds])),
+    mentionCount: target.mentionCount + source.mentionCount,
+    edited: true,
+  });
+  await repositories.entities.remove(userId, source.id);
+};
+
+// Moves `alias` out into an entity of its own, e.g. when two Roses were taken for one
+export const splitAlias = async (repositories: Repositories, userId: string, entity: Entity, alias: string) => {
+  const aliases = entity.aliases.filter(candidate => candidate !== alias);
+  if (aliases.length === 0) {
+    throw new Error(`${alias} is the only name of ${entity.name}`);
+  }
+  await repositories.entities.update(userId, entity.id, {
+    aliases,
+    name: entity.name === alias ? aliases[0] : entity.name,
+    edited: true,
+  });
+  return repositories.entities.create(userId, {
+    kind: entity.kind,
+    name: alias,
+    aliases: [alias],
+    storyIds: [],
+    mentionCount: 0,
+    edited: true,
+    ignored: false,
+  });
+};
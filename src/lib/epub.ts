@@ -0,0 +1,247 @@
+import { format } from 'date-fns';
+import { v5 as uuidv5 } from 'uuid';
+import { Book } from '../types/book';
+import { loadImageBlob } from './storage';
+import { createZip, ZipEntry } from './zip';
+
+// Namespace for the stable identifiers of exported books
+const BOOK_ID_NAMESPACE = '6f1c4b8e-2d1a-4f5e-9b7c-3a8d2e4f6b10';
+
+// Image types every EPUB 3 reading system supports
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+};
+
+const STYLESHEET = `body {
+  font-family: Georgia, serif;
+  line-height: 1.6;
+  margin: 0 5%;
+}
+h1 {
+  text-align: center;
+  margin: 1.5em 0 1em;
+}
+p {
+  margin: 0 0 0.8em;
+  text-indent: 1.5em;
+}
+figure {
+  margin: 0 0 1.5em;
+  text-align: center;
+}
+img {
+  max-width: 100%;
+  max-height: 60vh;
+}
+.cover {
+  text-align: center;
+}
+.cover img {
+  max-height: 80vh;
+}
+.cover p {
+  text-indent: 0;
+  color: #666;
+}
+nav ol {
+  list-style: none;
+  padding: 0;
+}
+nav li {
+  margin: 0.5em 0;
+}
+`;
+
+interface EpubImage {
+  id: string;
+  href: string;
+  mediaType: string;
+  data: Uint8Array;
+}
+
+interface EpubOptions {
+  // Shown as the creator, normally the storyteller's name
+  author: string;
+  language?: string;
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const xhtmlDocument = (title: string, language: string, body: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const paragraphs = (text: string): string =>
+  text
+    .split(/\n+/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `    <p>${escapeXml(paragraph)}</p>`)
+    .join('\n');
+
+// Missing images leave a gap in the book rather than failing the whole export
+const loadImage = async (url: string, id: string): Promise<EpubImage | null> => {
+  if (!url) return null;
+  try {
+    const blob = await loadImageBlob(url);
+    const extension = IMAGE_EXTENSIONS[blob.type];
+    if (!extension) {
+      console.error(`Skipping image of unsupported type ${blob.type}:`, url);
+      return null;
+    }
+    return {
+      id,
+      href: `images/${id}.${extension}`,
+      mediaType: blob.type,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    };
+  } catch (error) {
+    console.error('Error loading image:', error);
+    return null;
+  }
+};
+
+const chapterFile = (index: number) => `chapter-${index + 1}.xhtml`;
+
+/**
+ * Builds an EPUB 3 package of the book: a cover page, a navigation document
+ * listing the chapters, and one XHTML document per chapter with its image.
+ */
+export const createEpub = async (book: Book, { author, language = 'en' }: EpubOptions): Promise<Blob> => {
+  const cover = await loadImage(book.imageUrl, 'cover');
+  const chapterImages: Array<EpubImage | null> = [];
+  for (const [index, chapter] of book.chapters.entries()) {
+    chapterImages.push(await loadImage(chapter.imageUrl, `chapter-${index + 1}`));
+  }
+
+  const createdAt = book.createdAt.toDate();
+  const identifier = `urn:uuid:${uuidv5(book.id, BOOK_ID_NAMESPACE)}`;
+  // dcterms:modified takes whole seconds
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const coverPage = xhtmlDocument(
+    book.title,
+    language,
+    `  <section epub:type="cover" class="cover">
+${cover ? `    <img src="${cover.href}" alt="${escapeXml(book.title)}"/>\n` : ''}    <h1>${escapeXml(book.title)}</h1>
+${author ? `    <p>${escapeXml(author)}</p>\n` : ''}    <p>${format(createdAt, 'MMMM d, yyyy')}</p>
+  </section>`
+  );
+
+  // The table of contents needs at least one entry
+  const tocEntries = book.chapters.length > 0
+    ? book.chapters
+        .map((chapter, index) => `      <li><a href="${chapterFile(index)}">${escapeXml(chapter.title)}</a></li>`)
+        .join('\n')
+    : `      <li><a href="cover.xhtml">${escapeXml(book.title)}</a></li>`;
+
+  const navigation = xhtmlDocument(
+    'Contents',
+    language,
+    `  <nav epub:type="toc" id="toc">
+    <h1>Contents</h1>
+    <ol>
+${tocEntries}
+    </ol>
+  </nav>
+  <nav epub:type="landmarks" hidden="hidden">
+    <ol>
+      <li><a epub:type="cover" href="cover.xhtml">Cover</a></li>
+      <li><a epub:type="toc" href="nav.xhtml">Contents</a></li>
+${book.chapters.length > 0 ? `      <li><a epub:type="bodymatter" href="${chapterFile(0)}">Start</a></li>\n` : ''}    </ol>
+  </nav>`
+  );
+
+  const chapterPages = book.chapters.map((chapter, index) => {
+    const image = chapterImages[index];
+    return xhtmlDocument(
+      chapter.title,
+      language,
+      `  <section epub:type="chapter">
+    <h1>${escapeXml(chapter.title)}</h1>
+${image ? `    <figure><img src="${image.href}" alt=""/></figure>\n` : ''}${paragraphs(chapter.story)}
+  </section>`
+    );
+  });
+
+  const images = [cover, ...chapterImages].filter((image): image is EpubImage => image !== null);
+
+  const manifest = [
+    '    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '    <item id="style" href="style.css" media-type="text/css"/>',
+    '    <item id="cover-page" href="cover.xhtml" media-type="application/xhtml+xml"/>',
+    ...book.chapters.map(
+      (_, index) => `    <item id="chapter-${index + 1}-page" href="${chapterFile(index)}" media-type="application/xhtml+xml"/>`
+    ),
+    ...images.map(
+      image =>
+        `    <item id="${image.id}-image" href="${image.href}" media-type="${image.mediaType}"${
+          image === cover ? ' properties="cover-image"' : ''
+        }/>`
+    ),
+  ].join('\n');
+
+  const spine = [
+    '    <itemref idref="cover-page"/>',
+    '    <itemref idref="nav"/>',
+    ...book.chapters.map((_, index) => `    <itemref idref="chapter-${index + 1}-page"/>`),
+  ].join('\n');
+
+  const packageDocument = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${escapeXml(book.title)}</dc:title>
+${author ? `    <dc:creator id="author">${escapeXml(author)}</dc:creator>\n` : ''}    <dc:language>${language}</dc:language>
+    <dc:date>${format(createdAt, 'yyyy-MM-dd')}</dc:date>
+    <meta property="dcterms:modified">${modified}</meta>
+${cover ? `    <meta name="cover" content="${cover.id}-image"/>\n` : ''}  </metadata>
+  <manifest>
+${manifest}
+  </manifest>
+  <spine>
+${spine}
+  </spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+  const entries: ZipEntry[] = [
+    // Must come first so readers can identify the file
+    { path: 'mimetype', data: 'application/epub+zip' },
+    { path: 'META-INF/container.xml', data: container },
+    { path: 'OEBPS/content.opf', data: packageDocument },
+    { path: 'OEBPS/nav.xhtml', data: navigation },
+    { path: 'OEBPS/style.css', data: STYLESHEET },
+    { path: 'OEBPS/cover.xhtml', data: coverPage },
+    ...chapterPages.map((page, index) => ({ path: `OEBPS/${chapterFile(index)}`, data: page })),
+    ...images.map(image => ({ path: `OEBPS/${image.href}`, data: image.data })),
+  ];
+
+  return new Blob([createZip(entries)], { type: 'application/epub+zip' });
+};
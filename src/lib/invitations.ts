@@ -0,0 +1,25 @@
+import { isSignInWithEmailLink, sendSignInLinkToEmail, signInWithEmailLink } from 'firebase/auth';
+import { auth } from './firebase';
+
+export const invitePath = (inviteId: string) => `/invite/${encodeURIComponent(inviteId)}`;
+
+// Invite ids end with the invited address, see inviteId() in the collections repository
+export const emailFromInviteId = (inviteId: string) => inviteId.slice(inviteId.indexOf(':') + 1);
+
+/**
+ * Emails the invitee a Firebase sign-in link that opens the invite page. The
+ * link signs them in (creating an account if needed) with the invited
+ * address, which is what the security rules check when they accept.
+ */
+export const sendInviteEmail = async (inviteId: string, email: string): Promise<void> => {
+  await sendSignInLinkToEmail(auth, email, {
+    url: `${window.location.origin}${invitePath(inviteId)}`,
+    handleCodeInApp: true,
+  });
+};
+
+export const isInviteLink = (url: string) => isSignInWithEmailLink(auth, url);
+
+export const signInWithInviteLink = async (email: string, url: string): Promise<void> => {
+  await signInWithEmailLink(auth, email, url);
+};
@@ -0,0 +1,145 @@
+import type { RecordingMode } from "../types/user";
+
+// Ids from enumerateDevices; they only mean something in the browser that reported them
+export interface DeviceSelection {
+  audioInputId?: string;
+  videoInputId?: string;
+  audioOutputId?: string;
+}
+
+// getUserMedia errors a missing, busy or refused camera produces; the mic may still work
+const CAMERA_ERRORS = [
+  "NotFoundError",
+  "NotReadableError",
+  "OverconstrainedError",
+  "NotAllowedError",
+];
+
+export interface CallMedia {
+  stream: MediaStream;
+  // What the stream actually carries, which may be less than was asked for
+  mode: RecordingMode;
+  cameraUnavailable: boolean;
+}
+
+/**
+ * Opens the mic, and the camera too in video mode. When the camera can't be
+ * used the call goes ahead with audio only rather than failing; only a
+ * missing or refused microphone is an error.
+ */
+export const requestCallMedia = async (
+  mode: RecordingMode,
+  devices: DeviceSelection = {},
+): Promise<CallMedia> => {
+  // A remembered device that has since been unplugged falls back to the default one
+  const audio = devices.audioInputId ? { deviceId: devices.audioInputId } : true;
+
+  if (mode === "video") {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio,
+        video: devices.videoInputId ? { deviceId: devices.videoInputId } : true,
+      });
+      return { stream, mode: "video", cameraUnavailable: false };
+    } catch (error) {
+      if (!(error instanceof DOMException) || !CAMERA_ERRORS.includes(error.name)) {
+        throw error;
+      }
+      console.warn("Camera unavailable, continuing with audio only:", error);
+      const stream = await navigator.mediaDevices.getUserMedia({ audio });
+      return { stream, mode: "audio", cameraUnavailable: true };
+    }
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({ audio });
+  return { stream, mode: "audio", cameraUnavailable: false };
+};
+
+export interface AvailableDevices {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+}
+
+// Labels stay empty until the page has been granted access to a device of that kind
+export const listMediaDevices = async (): Promise<AvailableDevices> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const ofKind = (kind: MediaDeviceKind) =>
+    devices.filter((device) => device.kind === kind && device.deviceId);
+  return {
+    audioInputs: ofKind("audioinput"),
+    videoInputs: ofKind("videoinput"),
+    audioOutputs: ofKind("audiooutput"),
+  };
+};
+
+export const canChooseSpeaker = () =>
+  typeof HTMLMediaElement !== "undefined" &&
+  "setSinkId" in HTMLMediaElement.prototype;
+
+// Device ids are per browser, so the choice is remembered locally for each user
+const deviceSelectionKey = (userId: string) => `deviceSelection:${userId}`;
+
+export const loadDeviceSelection = (userId: string): DeviceSelection => {
+  try {
+    return JSON.parse(localStorage.getItem(deviceSelectionKey(userId)) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+export const saveDeviceSelection = (userId: string, selection: DeviceSelection) => {
+  localStorage.setItem(deviceSelectionKey(userId), JSON.stringify(selection));
+};
+
+const TEST_TONE_SECONDS = 1.5;
+const TEST_TONE_SAMPLE_RATE = 22050;
+
+// A short two-note chime as a 16-bit mono WAV, so it can play through an <audio> element's chosen output
+const createTestTone = (): Blob => {
+  const samples = Math.floor(TEST_TONE_SECONDS * TEST_TONE_SAMPLE_RATE);
+  const view = new DataView(new ArrayBuffer(44 + samples * 2));
+  const writeString = (offset: number, value: string) =>
+    [...value].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, TEST_TONE_SAMPLE_RATE, true);
+  view.setUint32(28, TEST_TONE_SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, samples * 2, true);
+
+  for (let i = 0; i < samples; i++) {
+    const t = i / TEST_TONE_SAMPLE_RATE;
+    const frequency = t < TEST_TONE_SECONDS / 2 ? 660 : 880;
+    const envelope = Math.min(1, t * 20, (TEST_TONE_SECONDS - t) * 20);
+    const sample = Math.sin(2 * Math.PI * frequency * t) * envelope * 0.4;
+    view.setInt16(44 + i * 2, sample * 0x7fff, true);
+  }
+  return new Blob([view], { type: "audio/wav" });
+};
+
+// Plays the test tone on the chosen speaker, resolving once it has finished
+export const playTestTone = async (audioOutputId?: string) => {
+  const url = URL.createObjectURL(createTestTone());
+  const audio = new Audio(url);
+  try {
+    if (audioOutputId && canChooseSpeaker()) {
+      await audio.setSinkId(audioOutputId);
+    }
+    await new Promise<void>((resolve, reject) => {
+      audio.onended = () => resolve();
+      audio.onerror = () => reject(new Error("Could not play the test sound"));
+      audio.play().catch(reject);
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,28 @@
+import { CollectionRole } from '../types/collection';
+
+export type CollectionAction = 'view' | 'comment' | 'edit' | 'manage';
+
+// Each role can do everything the roles after it can
+const ALLOWED_ACTIONS: Record<CollectionRole, CollectionAction[]> = {
+  owner: ['view', 'comment', 'edit', 'manage'],
+  editor: ['view', 'comment', 'edit'],
+  commenter: ['view', 'comment'],
+  viewer: ['view'],
+};
+
+export const ROLE_LABELS: Record<CollectionRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  commenter: 'Commenter',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<CollectionRole, string> = {
+  owner: 'Records stories, manages books and members',
+  editor: 'Can read and edit stories',
+  commenter: 'Can read and comment on stories',
+  viewer: 'Can read stories and books',
+};
+
+export const can = (role: CollectionRole | null | undefined, action: CollectionAction): boolean =>
+  !!role && ALLOWED_ACTIONS[role].includes(action);
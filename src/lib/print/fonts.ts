@@ -0,0 +1,57 @@
+import { jsPDF } from 'jspdf';
+import regularUrl from '../../assets/fonts/CrimsonText-Regular.ttf?url';
+import italicUrl from '../../assets/fonts/CrimsonText-Italic.ttf?url';
+import boldUrl from '../../assets/fonts/CrimsonText-Bold.ttf?url';
+import { FontStyle } from './layout';
+
+export const BOOK_FONT = 'CrimsonText';
+
+// Printers reject PDFs with fonts that are not embedded, so the standard PDF fonts won't do.
+// The files ship with the app, so exports don't depend on another host being reachable.
+const FONT_FILES: Record<FontStyle, string> = {
+  normal: 'CrimsonText-Regular.ttf',
+  italic: 'CrimsonText-Italic.ttf',
+  bold: 'CrimsonText-Bold.ttf',
+};
+
+const FONT_URLS: Record<FontStyle, string> = {
+  normal: regularUrl,
+  italic: italicUrl,
+  bold: boldUrl,
+};
+
+// Base64 font files, kept across exports
+const fontCache = new Map<string, Promise<string>>();
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadFont = (style: FontStyle): Promise<string> => {
+  let font = fontCache.get(style);
+  if (!font) {
+    font = fetch(FONT_URLS[style]).then(async response => {
+      if (!response.ok) throw new Error(`Failed to load font ${FONT_FILES[style]}`);
+      return toBase64(await response.arrayBuffer());
+    });
+    // A failed download is retried on the next export
+    font.catch(() => fontCache.delete(style));
+    fontCache.set(style, font);
+  }
+  return font;
+};
+
+export const embedBookFonts = async (pdf: jsPDF): Promise<void> => {
+  const styles = Object.keys(FONT_FILES) as FontStyle[];
+  const fonts = await Promise.all(styles.map(loadFont));
+  styles.forEach((style, index) => {
+    pdf.addFileToVFS(FONT_FILES[style], fonts[index]);
+    pdf.addFont(FONT_FILES[style], BOOK_FONT, style, undefined, 'Identity-H');
+  });
+};
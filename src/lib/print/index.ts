@@ -0,0 +1,6 @@
+export { createPrintPdf } from './render';
+export type { PrintOptions } from './render';
+export { layoutBook } from './layout';
+export type { BookLayoutOptions, FontStyle, LayoutElement, LayoutPage, MeasureText, PageKind } from './layout';
+export { INCH, PRINT_SPECS, TRIM_SIZES } from './specs';
+export type { PrintSpec, TrimSizeId } from './specs';
@@ -0,0 +1,387 @@
+import { format } from 'date-fns';
+import { Book } from '../../types/book';
+import { PrintSpec } from './specs';
+
+export type FontStyle = 'normal' | 'italic' | 'bold';
+
+// Width of the text in points when set in the book font
+export type MeasureText = (text: string, style: FontStyle, size: number) => number;
+
+// Coordinates are measured from the top left of the page including bleed; text y is the baseline
+export interface TextElement {
+  type: 'text';
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  style: FontStyle;
+  align: 'left' | 'center' | 'right';
+  gray: number;
+}
+
+// Scaled to cover the box, anything outside the page is cut off
+export interface ImageElement {
+  type: 'image';
+  src: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RuleElement {
+  type: 'rule';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export type LayoutElement = TextElement | ImageElement | RuleElement;
+
+export type PageKind = 'blank' | 'image' | 'title' | 'colophon' | 'contents' | 'opener' | 'text';
+
+export interface LayoutPage {
+  kind: PageKind;
+  elements: LayoutElement[];
+  // Printed page number: roman in the front matter, arabic from the first chapter
+  folio: string | null;
+  runningHead: string | null;
+}
+
+export interface BookLayoutOptions {
+  spec: PrintSpec;
+  measure: MeasureText;
+  author: string;
+  // Images that loaded; a chapter whose image is missing gets no image page
+  images: Set<string>;
+}
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+];
+
+const toRoman = (value: number): string => {
+  let remaining = value;
+  return ROMAN_NUMERALS.reduce((result, [amount, numeral]) => {
+    const count = Math.floor(remaining / amount);
+    remaining -= count * amount;
+    return result + numeral.repeat(count);
+  }, '');
+};
+
+const splitParagraphs = (text: string): string[] =>
+  text.split(/\n+/).map(paragraph => paragraph.trim()).filter(Boolean);
+
+// Fewest lines of a paragraph allowed alone at the foot or head of a page
+const MIN_LINES = 2;
+
+// Lines looser than this many spaces between words are set ragged instead of justified
+const MAX_WORD_GAP = 3;
+
+/**
+ * Lays a book out into print pages: title pages, a contents page with the
+ * page number of every chapter, chapters opening on right-hand pages with
+ * their image full-bleed on the facing page, and justified body text with
+ * widow and orphan control, running heads and page numbers.
+ *
+ * Pages alternate right (recto) and left (verso) starting with a recto, and
+ * margins are mirrored so the wider inside margin always sits at the spine.
+ */
+export const layoutBook = (book: Book, { spec, measure, author, images }: BookLayoutOptions): LayoutPage[] => {
+  const { width, height, bleed, margins, fontSize, leading } = spec;
+  const pages: LayoutPage[] = [];
+
+  const isRecto = (index: number) => index % 2 === 0;
+
+  const addPage = (kind: PageKind): LayoutPage => {
+    const page: LayoutPage = { kind, elements: [], folio: null, runningHead: null };
+    pages.push(page);
+    return page;
+  };
+
+  // Pads with a blank left-hand page when needed
+  const addRectoPage = (kind: PageKind): LayoutPage => {
+    if (!isRecto(pages.length)) addPage('blank');
+    return addPage(kind);
+  };
+
+  const textBlock = (page: LayoutPage) => {
+    const recto = isRecto(pages.indexOf(page));
+    const left = bleed + (recto ? margins.inside : margins.outside);
+    const right = bleed + width - (recto ? margins.outside : margins.inside);
+    return { left, right, center: (left + right) / 2, top: bleed + margins.top, bottom: bleed + height - margins.bottom };
+  };
+  const measureWidth = width - margins.inside - margins.outside;
+
+  // Body text sits on a grid of baselines so facing pages line up
+  const firstBaseline = bleed + margins.top + fontSize;
+  const linesPerPage = Math.floor((height - margins.top - margins.bottom - fontSize) / leading) + 1;
+  const baseline = (line: number) => firstBaseline + line * leading;
+
+  const setText = (
+    page: LayoutPage,
+    text: string,
+    x: number,
+    y: number,
+    { size = fontSize, style = 'normal' as FontStyle, align = 'left' as TextElement['align'], gray = 0 } = {}
+  ) => {
+    page.elements.push({ type: 'text', text, x, y, size, style, align, gray });
+  };
+
+  const fullBleedImage = (page: LayoutPage, src: string) => {
+    page.elements.push({ type: 'image', src, x: 0, y: 0, width: width + bleed * 2, height: height + bleed * 2 });
+  };
+
+  // Greedy line breaking; words wider than the measure are broken by character
+  const breakLines = (text: string, style: FontStyle, size: number, maxWidth: number, firstIndent = 0): string[][] => {
+    const space = measure(' ', style, size);
+    const lines: string[][] = [];
+    let line: string[] = [];
+    let lineWidth = 0;
+
+    const pieces = text.split(/\s+/).filter(Boolean).flatMap(word => {
+      if (measure(word, style, size) <= maxWidth - firstIndent) return [word];
+      const chunks: string[] = [];
+      let chunk = '';
+      Array.from(word).forEach(char => {
+        if (chunk && measure(chunk + char, style, size) > maxWidth - firstIndent) {
+          chunks.push(chunk);
+          chunk = '';
+        }
+        chunk += char;
+      });
+      return chunk ? [...chunks, chunk] : chunks;
+    });
+
+    pieces.forEach(word => {
+      const wordWidth = measure(word, style, size);
+      const available = maxWidth - (lines.length === 0 ? firstIndent : 0);
+      if (line.length > 0 && lineWidth + space + wordWidth > available) {
+        lines.push(line);
+        line = [word];
+        lineWidth = wordWidth;
+      } else {
+        lineWidth += (line.length > 0 ? space : 0) + wordWidth;
+        line.push(word);
+      }
+    });
+    if (line.length > 0) lines.push(line);
+    return lines;
+  };
+
+  const truncate = (text: string, style: FontStyle, size: number, maxWidth: number): string => {
+    if (measure(text, style, size) <= maxWidth) return text;
+    let shortened = text;
+    while (shortened && measure(`${shortened}…`, style, size) > maxWidth) {
+      shortened = shortened.slice(0, -1);
+    }
+    return `${shortened.trimEnd()}…`;
+  };
+
+  const setBodyLine = (page: LayoutPage, words: string[], x: number, y: number, lineWidth: number, justify: boolean) => {
+    const space = measure(' ', 'normal', fontSize);
+    const natural = words.reduce((total, word) => total + measure(word, 'normal', fontSize), 0);
+    const gap = words.length > 1 ? (lineWidth - natural) / (words.length - 1) : 0;
+
+    if (!justify || words.length === 1 || gap > space * MAX_WORD_GAP) {
+      setText(page, words.join(' '), x, y);
+      return;
+    }
+    let wordX = x;
+    words.forEach(word => {
+      setText(page, word, wordX, y);
+      wordX += measure(word, 'normal', fontSize) + gap;
+    });
+  };
+
+  const setCenteredLines = (page: LayoutPage, text: string, y: number, size: number, style: FontStyle): number => {
+    const { center } = textBlock(page);
+    let lineY = y;
+    breakLines(text, style, size, measureWidth).forEach(words => {
+      setText(page, words.join(' '), center, lineY, { size, style, align: 'center' });
+      lineY += size * 1.25;
+    });
+    return lineY;
+  };
+
+  const createdAt = book.createdAt.toDate();
+  const hasImage = (url: string) => Boolean(url) && images.has(url);
+
+  // Front matter
+  if (hasImage(book.imageUrl)) {
+    const halfTitle = addPage('title');
+    setCenteredLines(halfTitle, book.title, bleed + height * 0.3, fontSize * 1.6, 'normal');
+    fullBleedImage(addPage('image'), book.imageUrl);
+  }
+
+  const titlePage = addPage('title');
+  const afterTitle = setCenteredLines(titlePage, book.title, bleed + height * 0.3, fontSize * 2.4, 'bold');
+  if (author) {
+    setText(titlePage, author, textBlock(titlePage).center, afterTitle + leading * 2, {
+      size: fontSize * 1.3,
+      style: 'italic',
+      align: 'center',
+    });
+  }
+
+  const colophon = addPage('colophon');
+  const colophonBlock = textBlock(colophon);
+  setText(colophon, book.title, colophonBlock.left, colophonBlock.bottom - leading, { size: fontSize - 2, gray: 90 });
+  setText(colophon, `Created on ${format(createdAt, 'MMMM d, yyyy')}`, colophonBlock.left, colophonBlock.bottom, {
+    size: fontSize - 2,
+    gray: 90,
+  });
+
+  // Contents, with page numbers filled in once the chapters are laid out
+  const tocNumbers: Array<{ element: TextElement; chapterIndex: number }> = [];
+  if (book.chapters.length > 0) {
+    let tocPage = addRectoPage('contents');
+    setText(tocPage, 'Contents', textBlock(tocPage).center, baseline(2), {
+      size: fontSize * 1.8,
+      style: 'bold',
+      align: 'center',
+    });
+    let line = 6;
+
+    const numberColumn = measure('0000', 'normal', fontSize);
+    const dotWidth = measure(' .', 'normal', fontSize);
+
+    book.chapters.forEach((chapter, chapterIndex) => {
+      const label = `${chapterIndex + 1}.  `;
+      const labelWidth = measure(label, 'normal', fontSize);
+      const titleLines = breakLines(chapter.title, 'normal', fontSize, measureWidth - labelWidth - numberColumn - dotWidth * 2);
+
+      if (line + titleLines.length > linesPerPage) {
+        tocPage = addPage('contents');
+        line = 0;
+      }
+
+      const block = textBlock(tocPage);
+      setText(tocPage, label, block.left, baseline(line), { gray: 90 });
+      titleLines.forEach((words, index) => {
+        const text = words.join(' ');
+        const y = baseline(line + index);
+        setText(tocPage, text, block.left + labelWidth, y);
+
+        if (index === titleLines.length - 1) {
+          const titleEnd = block.left + labelWidth + measure(text, 'normal', fontSize);
+          const dots = Math.floor((block.right - numberColumn - titleEnd) / dotWidth);
+          if (dots > 1) {
+            setText(tocPage, ' .'.repeat(dots), block.right - numberColumn, y, { align: 'right', gray: 150 });
+          }
+          const element: TextElement = {
+            type: 'text',
+            text: '',
+            x: block.right,
+            y,
+            size: fontSize,
+            style: 'normal',
+            align: 'right',
+            gray: 0,
+          };
+          tocPage.elements.push(element);
+          tocNumbers.push({ element, chapterIndex });
+        }
+      });
+      line += titleLines.length + 1;
+    });
+  }
+
+  // Chapters
+  const openerIndexes: number[] = [];
+
+  book.chapters.forEach((chapter, chapterIndex) => {
+    if (hasImage(chapter.imageUrl)) {
+      // The image faces the chapter's first page
+      if (isRecto(pages.length)) addPage('blank');
+      fullBleedImage(addPage('image'), chapter.imageUrl);
+    }
+
+    let page = addRectoPage('opener');
+    openerIndexes.push(pages.length - 1);
+
+    const opener = textBlock(page);
+    const sink = opener.top + (opener.bottom - opener.top) * 0.2;
+    setText(page, `Chapter ${chapterIndex + 1}`, opener.center, sink, { style: 'italic', align: 'center', gray: 90 });
+    const afterTitle = setCenteredLines(page, chapter.title, sink + leading * 2, fontSize * 1.6, 'bold');
+    page.elements.push({ type: 'rule', x1: opener.center - 20, y1: afterTitle, x2: opener.center + 20, y2: afterTitle });
+
+    let line = Math.ceil((afterTitle + leading * 2 - firstBaseline) / leading);
+
+    const continuePage = () => {
+      page = addPage('text');
+      page.runningHead = isRecto(pages.length - 1) ? chapter.title : book.title;
+      line = 0;
+    };
+
+    splitParagraphs(chapter.story).forEach((paragraph, paragraphIndex) => {
+      // The first paragraph of a chapter is set flush left
+      const indent = paragraphIndex === 0 ? 0 : fontSize * 1.5;
+      const lines = breakLines(paragraph, 'normal', fontSize, measureWidth, indent);
+      let placed = 0;
+
+      while (placed < lines.length) {
+        const left = lines.length - placed;
+        let take = Math.min(linesPerPage - line, left);
+        if (take < left) {
+          // Never carry too few lines over (widows) or leave too few behind (orphans)
+          if (left - take < MIN_LINES) take = left - MIN_LINES;
+          if (placed === 0 && take < MIN_LINES) take = 0;
+          take = Math.max(take, 0);
+        }
+
+        const block = textBlock(page);
+        for (let index = placed; index < placed + take; index++) {
+          const x = block.left + (index === 0 ? indent : 0);
+          const isLast = index === lines.length - 1;
+          setBodyLine(page, lines[index], x, baseline(line), block.right - x, !isLast);
+          line++;
+        }
+        placed += take;
+
+        if (placed < lines.length) continuePage();
+      }
+    });
+  });
+
+  // Printers expect the last page to be a left-hand page
+  if (pages.length % 2 === 1) addPage('blank');
+
+  const firstOpener = openerIndexes[0] ?? pages.length;
+  pages.forEach((page, index) => {
+    if (page.kind === 'contents') {
+      page.folio = toRoman(index + 1);
+    } else if (page.kind === 'opener' || page.kind === 'text') {
+      page.folio = String(index - firstOpener + 1);
+    }
+  });
+
+  tocNumbers.forEach(({ element, chapterIndex }) => {
+    element.text = pages[openerIndexes[chapterIndex]].folio || '';
+  });
+
+  // Running heads and page numbers
+  const headSize = fontSize - 2;
+  pages.forEach(page => {
+    const { center } = textBlock(page);
+    if (page.runningHead) {
+      setText(page, truncate(page.runningHead, 'italic', headSize, measureWidth), center, bleed + margins.top - leading * 1.5, {
+        size: headSize,
+        style: 'italic',
+        align: 'center',
+        gray: 90,
+      });
+    }
+    if (page.folio) {
+      setText(page, page.folio, center, bleed + height - margins.bottom + leading * 1.5, {
+        size: headSize,
+        align: 'center',
+        gray: 90,
+      });
+    }
+  });
+
+  return pages;
+};
@@ -0,0 +1,139 @@
+import { jsPDF } from 'jspdf';
+import { Book } from '../../types/book';
+import { loadImageBlob } from '../storage';
+import { BOOK_FONT, embedBookFonts } from './fonts';
+import { ImageElement, layoutBook, LayoutElement, MeasureText } from './layout';
+import { PRINT_SPECS, TrimSizeId } from './specs';
+
+interface LoadedImage {
+  dataUrl: string;
+  format: 'JPEG' | 'PNG';
+  width: number;
+  height: number;
+}
+
+const IMAGE_FORMATS: Record<string, LoadedImage['format']> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+};
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+const imageSize = (dataUrl: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = dataUrl;
+  });
+
+// Missing images are left out of the layout rather than failing the whole export
+const loadImage = async (url: string): Promise<LoadedImage | null> => {
+  try {
+    const blob = await loadImageBlob(url);
+    const format = IMAGE_FORMATS[blob.type];
+    if (!format) {
+      console.error(`Skipping image of unsupported type ${blob.type}:`, url);
+      return null;
+    }
+    const dataUrl = await readAsDataUrl(blob);
+    return { dataUrl, format, ...(await imageSize(dataUrl)) };
+  } catch (error) {
+    console.error('Error loading image:', error);
+    return null;
+  }
+};
+
+export interface PrintOptions {
+  trimSize: TrimSizeId;
+  author: string;
+}
+
+/**
+ * Renders the book as a print-ready interior PDF. Every page carries bleed on
+ * all four edges, with TrimBox and BleedBox set so printers know where to cut.
+ */
+export const createPrintPdf = async (book: Book, { trimSize, author }: PrintOptions): Promise<jsPDF> => {
+  const spec = PRINT_SPECS[trimSize];
+  const pageWidth = spec.width + spec.bleed * 2;
+  const pageHeight = spec.height + spec.bleed * 2;
+
+  const pdf = new jsPDF({ unit: 'pt', format: [pageWidth, pageHeight], orientation: 'portrait' });
+  pdf.setProperties({ title: book.title, author });
+  await embedBookFonts(pdf);
+
+  const images = new Map<string, LoadedImage>();
+  const urls = new Set([book.imageUrl, ...book.chapters.map(chapter => chapter.imageUrl)].filter(Boolean));
+  for (const url of urls) {
+    const image = await loadImage(url);
+    if (image) images.set(url, image);
+  }
+
+  const measure: MeasureText = (text, style, size) => {
+    pdf.setFont(BOOK_FONT, style);
+    pdf.setFontSize(size);
+    return pdf.getTextWidth(text);
+  };
+
+  const drawImage = (element: ImageElement) => {
+    const image = images.get(element.src);
+    if (!image) return;
+    // Cover the box, centering the overflow
+    const scale = Math.max(element.width / image.width, element.height / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    pdf.addImage(
+      image.dataUrl,
+      image.format,
+      element.x + (element.width - width) / 2,
+      element.y + (element.height - height) / 2,
+      width,
+      height,
+      element.src
+    );
+  };
+
+  const draw = (element: LayoutElement) => {
+    switch (element.type) {
+      case 'text':
+        pdf.setFont(BOOK_FONT, element.style);
+        pdf.setFontSize(element.size);
+        pdf.setTextColor(element.gray);
+        pdf.text(element.text, element.x, element.y, { align: element.align });
+        break;
+      case 'image':
+        drawImage(element);
+        break;
+      case 'rule':
+        pdf.setDrawColor(249, 115, 22);
+        pdf.setLineWidth(1);
+        pdf.line(element.x1, element.y1, element.x2, element.y2);
+        break;
+    }
+  };
+
+  const pages = layoutBook(book, { spec, measure, author, images: new Set(images.keys()) });
+  pages.forEach((page, index) => {
+    if (index > 0) pdf.addPage([pageWidth, pageHeight], 'portrait');
+
+    // PDF boxes are measured from the bottom left; the bleed is the same on every edge
+    const { pageContext } = pdf.getCurrentPageInfo();
+    pageContext.trimBox = {
+      bottomLeftX: spec.bleed,
+      bottomLeftY: spec.bleed,
+      topRightX: spec.bleed + spec.width,
+      topRightY: spec.bleed + spec.height,
+    };
+    pageContext.bleedBox = { bottomLeftX: 0, bottomLeftY: 0, topRightX: pageWidth, topRightY: pageHeight };
+
+    page.elements.forEach(draw);
+  });
+
+  return pdf;
+};
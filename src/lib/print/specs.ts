@@ -0,0 +1,48 @@
+// All print measurements are in PDF points
+export const INCH = 72;
+
+export type TrimSizeId = '6x9' | '8.5x11';
+
+export interface PrintSpec {
+  id: TrimSizeId;
+  label: string;
+  // Trimmed page size
+  width: number;
+  height: number;
+  // Added to every edge so full-bleed images survive trimming
+  bleed: number;
+  // Measured from the trim edge; inside is the gutter at the spine
+  margins: {
+    top: number;
+    bottom: number;
+    inside: number;
+    outside: number;
+  };
+  fontSize: number;
+  leading: number;
+}
+
+export const PRINT_SPECS: Record<TrimSizeId, PrintSpec> = {
+  '6x9': {
+    id: '6x9',
+    label: '6 × 9 in (trade paperback)',
+    width: 6 * INCH,
+    height: 9 * INCH,
+    bleed: 0.125 * INCH,
+    margins: { top: 0.75 * INCH, bottom: 0.75 * INCH, inside: 0.875 * INCH, outside: 0.625 * INCH },
+    fontSize: 11,
+    leading: 15,
+  },
+  '8.5x11': {
+    id: '8.5x11',
+    label: '8.5 × 11 in (letter)',
+    width: 8.5 * INCH,
+    height: 11 * INCH,
+    bleed: 0.125 * INCH,
+    margins: { top: 1 * INCH, bottom: 1 * INCH, inside: 1 * INCH, outside: 0.75 * INCH },
+    fontSize: 12,
+    leading: 17,
+  },
+};
+
+export const TRIM_SIZES = Object.values(PRINT_SPECS);
@@ -0,0 +1,5 @@
+export { buildGenerationRequest, buildQuestionSources, DEFAULT_PICK_COUNT, filterProposals, generateAiPicks } from './pipeline';
+export { createQuestionProvider } from './provider';
+export type { QuestionProvider } from './provider';
+export { createProxyQuestionProvider, QuestionGenerationError } from './proxy';
+export { createStubQuestionProvider } from './stub';
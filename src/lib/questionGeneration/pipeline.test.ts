@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { createMemoryBackend } from '../repositories/memoryBackend';
+import { createRepositories } from '../repositories';
+import { isAvailableQuestion } from '../repositories/upcomingQuestions';
+import { parseStory } from '../repositories/stories';
+import { Category } from '../../types/category';
+import { ProposedQuestion, UpcomingQuestion } from '../../types/question';
+import { buildGenerationRequest, filterProposals, generateAiPicks, MAX_REQUEST_BYTES } from './pipeline';
+import { createStubQuestionProvider } from './stub';
+
+const at = (iso: string) => Timestamp.fromDate(new Date(iso));
+
+const story = (id: string, overrides: Record<string, unknown> = {}) =>
+  parseStory(id, {
+    userId: 'user-1',
+    categoryId: 'childhood',
+    title: 'The old farm',
+    description: null,
+    storyText: null,
+    creationTime: at('2024-01-01T10:00:00Z'),
+    lastUpdationTime: at('2024-01-02T10:00:00Z'),
+    initialQuestion: 'Where did you grow up?',
+    sessions: {},
+    storySummary: 'We lived on a farm near Millbrook, where my aunt Rose taught me to ride.',
+    nextSchedule: null,
+    ...overrides,
+  });
+
+const CATEGORIES = [{ id: 'childhood', title: 'Childhood' } as Category];
+
+const upcoming = (question: string, overrides: Partial<UpcomingQuestion> = {}): UpcomingQuestion => ({
+  id: 'question-1',
+  userId: 'user-1',
+  categoryId: 'childhood',
+  categoryTitle: 'Childhood',
+  question,
+  createdAt: new Date('2024-01-03T10:00:00Z'),
+  status: 'pending',
+  snoozedUntil: null,
+  ...overrides,
+});
+
+const proposal = (question: string, subject: string): ProposedQuestion => ({
+  question,
+  subject,
+  kind: 'person',
+  storyId: 'story-1',
+});
+
+const setup = () => {
+  const repositories = createRepositories(createMemoryBackend());
+  const generate = async (stories = [story('story-1')]) =>
+    generateAiPicks(repositories, createStubQuestionProvider(), {
+      userId: 'user-1',
+      stories,
+      categories: CATEGORIES,
+      existing: await repositories.upcomingQuestions.listByUser('user-1'),
+    });
+  return { repositories, generate };
+};
+
+describe('filterProposals', () => {
+  it('drops rewordings of questions already asked', () => {
+    const kept = filterProposals(
+      [
+        proposal('What did your grandmother cook for you?', 'her cooking'),
+        proposal('What was your first job?', 'first job'),
+      ],
+      { stories: [], existing: [upcoming('What did your grandmother cook for you back then?')] }
+    );
+
+    expect(kept.map(question => question.question)).toEqual(['What was your first job?']);
+  });
+
+  it('keeps only the first of proposals that repeat each other', () => {
+    const kept = filterProposals(
+      [
+        proposal('What was Millbrook like back then?', 'Millbrook'),
+        proposal('What was life like in Millbrook back then?', 'life in Millbrook'),
+      ],
+      { stories: [], existing: [] }
+    );
+
+    expect(kept).toHaveLength(1);
+  });
+
+  it('drops proposals about someone an earlier question mentions', () => {
+    const kept = filterProposals([proposal('How did you meet Walter?', 'Walter')], {
+      stories: [story('story-1', { initialQuestion: 'What did you and Walter build together?' })],
+      existing: [],
+    });
+
+    expect(kept).toEqual([]);
+  });
+
+  it('matches the subject on whole words only', () => {
+    const kept = filterProposals(
+      [proposal('What was Al like as a boss?', 'Al'), proposal('Where did you see that painting?', 'art')],
+      {
+        stories: [story('story-1', { initialQuestion: 'Were you always good at art class?' })],
+        existing: [upcoming('What did you start your career with?')],
+      }
+    );
+
+    expect(kept.map(question => question.subject)).toEqual(['Al']);
+  });
+
+  it('drops proposals about a subject an existing question covers', () => {
+    const kept = filterProposals([proposal('Who was Walter to your family?', 'walter')], {
+      stories: [],
+      existing: [upcoming('Tell me about your neighbor.', { subject: 'Walter', status: 'dismissed' })],
+    });
+
+    expect(kept).toEqual([]);
+  });
+});
+
+describe('generateAiPicks', () => {
+  it('saves new picks in the category of their story', async () => {
+    const { repositories, generate } = setup();
+
+    expect(await generate()).toBe(2);
+
+    const picks = await repositories.upcomingQuestions.listByUser('user-1');
+    expect(picks.map(pick => pick.question).sort()).toEqual([
+      'What do you remember most about your aunt Rose?',
+      'What was life like in Millbrook?',
+    ]);
+    expect(picks[0]).toMatchObject({ categoryId: 'childhood', categoryTitle: 'Childhood', sourceStoryId: 'story-1' });
+  });
+
+  it('adds nothing twice when run again', async () => {
+    const { repositories, generate } = setup();
+    await generate();
+
+    expect(await generate()).toBe(0);
+    expect(await repositories.upcomingQuestions.listByUser('user-1')).toHaveLength(2);
+  });
+
+  it('does not propose a dismissed pick again', async () => {
+    const { repositories, generate } = setup();
+    await generate();
+    const [pick] = await repositories.upcomingQuestions.listByUser('user-1');
+
+    await repositories.upcomingQuestions.dismiss(pick.id);
+    await generate();
+
+    const picks = await repositories.upcomingQuestions.listByUser('user-1');
+    expect(picks).toHaveLength(2);
+    expect(picks.filter(question => question.subject === pick.subject)).toHaveLength(1);
+  });
+
+  it('keeps a snoozed pick out of the way until its snooze ends', async () => {
+    const { repositories, generate } = setup();
+    await generate();
+    const [pick] = await repositories.upcomingQuestions.listByUser('user-1');
+
+    await repositories.upcomingQuestions.snooze(pick.id, new Date('2030-01-08T00:00:00Z'));
+    await generate();
+
+    const picks = await repositories.upcomingQuestions.listByUser('user-1');
+    const snoozed = picks.find(question => question.id === pick.id)!;
+    expect(picks).toHaveLength(2);
+    expect(isAvailableQuestion(snoozed, new Date('2030-01-07T00:00:00Z'))).toBe(false);
+    expect(isAvailableQuestion(snoozed, new Date('2030-01-08T00:00:00Z'))).toBe(true);
+  });
+});
+
+describe('buildGenerationRequest', () => {
+  it('stays under the proxy body limit', () => {
+    const long = 'Ünd then we went down to the river again. '.repeat(500);
+    const stories = Array.from({ length: 10 }, (_, index) =>
+      story(`story-${index}`, {
+        storySummary: long,
+        sessions: { 'session-1': { callId: `call-${index}`, creationTime: at('2024-01-01T10:00:00Z'), transcript: long } },
+      })
+    );
+    const existing = Array.from({ length: 150 }, (_, index) => upcoming(`${index}: ${long.slice(0, 400)}`));
+
+    const request = buildGenerationRequest(stories, existing, 10);
+
+    expect(new TextEncoder().encode(JSON.stringify(request)).length).toBeLessThanOrEqual(MAX_REQUEST_BYTES);
+    expect(request.sources.length).toBeGreaterThan(0);
+    expect(request.sources[0].summary.length).toBeLessThanOrEqual(3000);
+  });
+});
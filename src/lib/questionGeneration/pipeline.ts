@@ -0,0 +1,148 @@
+import { isSameQuestion } from '../coverage';
+import { isCompletedStory, Repositories } from '../repositories';
+import { tokenize } from '../search';
+import { Category } from '../../types/category';
+import { ProposedQuestion, QuestionGenerationRequest, QuestionSource, UpcomingQuestion } from '../../types/question';
+import { Story } from '../../types/story';
+import type { QuestionProvider } from './provider';
+
+// Recent stories only, to keep the request small and the questions about what's fresh
+const MAX_SOURCES = 8;
+const MAX_SUMMARY_CHARS = 3000;
+const MAX_TRANSCRIPT_CHARS = 3000;
+const MAX_AVOIDED = 100;
+// Under the proxy's 64KB body limit (MAX_BODY_BYTES in server/http.ts)
+export const MAX_REQUEST_BYTES = 60 * 1024;
+// Asked for beyond the number wanted, as some proposals repeat earlier questions
+const OVERFETCH = 2;
+
+export const DEFAULT_PICK_COUNT = 5;
+
+const byLastUpdate = (a: Story, b: Story) => b.lastUpdationTime.toMillis() - a.lastUpdationTime.toMillis();
+
+const storyTranscript = (story: Story) =>
+  Object.values(story.sessions ?? {})
+    .sort((a, b) => a.creationTime.toMillis() - b.creationTime.toMillis())
+    .map(session => session.transcript)
+    .filter(Boolean)
+    .join('\n')
+    .slice(-MAX_TRANSCRIPT_CHARS);
+
+/** The user's most recent finished stories, as the generator sees them. */
+export const buildQuestionSources = (stories: Story[]): QuestionSource[] =>
+  stories
+    .filter(isCompletedStory)
+    .sort(byLastUpdate)
+    .map(story => ({
+      storyId: story.id,
+      categoryId: story.categoryId,
+      title: story.title ?? '',
+      summary: (story.storySummary || story.description || '').slice(0, MAX_SUMMARY_CHARS),
+      transcript: storyTranscript(story),
+    }))
+    .filter(source => source.summary || source.transcript)
+    .slice(0, MAX_SOURCES);
+
+const requestBytes = (request: QuestionGenerationRequest) =>
+  new TextEncoder().encode(JSON.stringify(request)).length;
+
+/**
+ * What the generator is sent for `stories`. Trimmed to fit the proxy's body
+ * limit, dropping the oldest sources first and then the oldest questions to
+ * avoid; proposals are checked against every question afterwards anyway.
+ */
+export const buildGenerationRequest = (
+  stories: Story[],
+  existing: UpcomingQuestion[],
+  limit: number
+): QuestionGenerationRequest => {
+  const avoid = [...stories.filter(isCompletedStory).map(story => story.initialQuestion), ...existing.map(question => question.question)];
+  const request = { sources: buildQuestionSources(stories), avoid: avoid.slice(-MAX_AVOIDED), limit };
+
+  while (requestBytes(request) > MAX_REQUEST_BYTES && request.sources.length > 1) {
+    request.sources = request.sources.slice(0, -1);
+  }
+  while (requestBytes(request) > MAX_REQUEST_BYTES && request.avoid.length > 0) {
+    request.avoid = request.avoid.slice(1);
+  }
+  return request;
+};
+
+// Terms separated and wrapped by spaces, so a subject matches whole words only: "Al" isn't in "always"
+const termString = (text: string) => ` ${tokenize(text).map(token => token.term).join(' ')} `;
+
+const mentions = (question: string, subject: string) => {
+  const subjectTerms = termString(subject);
+  return subjectTerms.trim() !== '' && termString(question).includes(subjectTerms);
+};
+
+interface ProposalContext {
+  stories: Story[];
+  // Every upcoming question of the user, dismissed ones included
+  existing: UpcomingQuestion[];
+}
+
+/**
+ * Drops proposals that repeat an answered, pending or dismissed question, or
+ * follow up on someone a story or question is already about, keeping the
+ * first of any that repeat each other.
+ */
+export const filterProposals = (proposals: ProposedQuestion[], { stories, existing }: ProposalContext) => {
+  const asked = [...stories.map(story => story.initialQuestion), ...existing.map(question => question.question)];
+  const coveredSubjects = existing.flatMap(question => (question.subject ? [question.subject.toLowerCase()] : []));
+  const kept: ProposedQuestion[] = [];
+
+  proposals.forEach(proposal => {
+    const repeats = [...asked, ...kept.map(question => question.question)].some(
+      question => isSameQuestion(question, proposal.question) || mentions(question, proposal.subject)
+    );
+    if (repeats || coveredSubjects.includes(proposal.subject.toLowerCase())) return;
+    kept.push(proposal);
+  });
+  return kept;
+};
+
+interface GenerateOptions {
+  userId: string;
+  stories: Story[];
+  categories: Category[];
+  existing: UpcomingQuestion[];
+  limit?: number;
+}
+
+/**
+ * Asks `provider` for follow-up questions about people, places and events the
+ * user's stories mention without exploring, and saves the new ones as AI
+ * Picks in the category of the story they came from. Returns how many were
+ * added.
+ */
+export const generateAiPicks = async (
+  repositories: Repositories,
+  provider: QuestionProvider,
+  { userId, stories, categories, existing, limit = DEFAULT_PICK_COUNT }: GenerateOptions
+): Promise<number> => {
+  const request = buildGenerationRequest(stories, existing, limit * OVERFETCH);
+  if (request.sources.length === 0) return 0;
+
+  const proposals = await provider.proposeQuestions(request);
+
+  const sourceCategories = new Map(request.sources.map(source => [source.storyId, source.categoryId]));
+  const picks = filterProposals(proposals, { stories, existing }).slice(0, limit);
+  let added = 0;
+  for (const pick of picks) {
+    const category = categories.find(c => c.id === sourceCategories.get(pick.storyId));
+    if (!category) continue;
+
+    await repositories.upcomingQuestions.create({
+      userId,
+      categoryId: category.id,
+      categoryTitle: category.title,
+      question: pick.question,
+      subject: pick.subject,
+      subjectKind: pick.kind,
+      sourceStoryId: pick.storyId,
+    });
+    added++;
+  }
+  return added;
+};
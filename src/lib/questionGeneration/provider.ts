@@ -0,0 +1,12 @@
+import { ProposedQuestion, QuestionGenerationRequest } from '../../types/question';
+import { createProxyQuestionProvider } from './proxy';
+import { createStubQuestionProvider } from './stub';
+
+// Anything that can turn stories into follow-up questions: the LLM behind the proxy, or the stub
+export interface QuestionProvider {
+  proposeQuestions(request: QuestionGenerationRequest): Promise<ProposedQuestion[]>;
+}
+
+// VITE_QUESTION_PROVIDER=stub generates questions locally, without the proxy or an LLM
+export const createQuestionProvider = (): QuestionProvider =>
+  import.meta.env.VITE_QUESTION_PROVIDER === 'stub' ? createStubQuestionProvider() : createProxyQuestionProvider();
@@ -0,0 +1,43 @@
+import { auth } from '../firebase';
+import { QuestionGenerationRequest, QuestionGenerationResponse } from '../../types/question';
+import type { QuestionProvider } from './provider';
+
+// The same proxy as the Retell calls, which keeps the LLM's API key too
+const PROXY_URL = import.meta.env.VITE_RETELL_PROXY_URL || 'http://localhost:3001';
+
+export class QuestionGenerationError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'QuestionGenerationError';
+  }
+}
+
+export const createProxyQuestionProvider = (): QuestionProvider => ({
+  async proposeQuestions(request: QuestionGenerationRequest) {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new QuestionGenerationError('You must be signed in', 401);
+    }
+
+    const response = await fetch(`${PROXY_URL}/questions/generate`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${await user.getIdToken()}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new QuestionGenerationError(
+        (data as { error?: string } | null)?.error || `Question generation failed with status ${response.status}`,
+        response.status
+      );
+    }
+    return (data as QuestionGenerationResponse).questions;
+  },
+});
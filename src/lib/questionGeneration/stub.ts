@@ -0,0 +1,101 @@
+import { ProposedQuestion, QuestionGenerationRequest, QuestionSource, QuestionSubjectKind } from '../../types/question';
+import type { QuestionProvider } from './provider';
+
+// Capitalized words that don't name anyone or anywhere
+const NOT_NAMES = new Set([
+  'I', 'Agent', 'User', 'The', 'A', 'An', 'We', 'My', 'Our', 'He', 'She', 'They', 'It', 'You', 'Your', 'His', 'Her',
+  'But', 'And', 'So', 'Then', 'When', 'There', 'This', 'That', 'Well', 'Oh', 'Yes', 'No', 'Okay', 'Mom', 'Dad',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday', 'January', 'February', 'March',
+  'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December', 'Christmas', 'Easter',
+]);
+
+const EVENT = /\b(?:the|our|my|his|her|their)\s+(wedding|funeral|war|move|trip|graduation|flood|fire|storm|accident|reunion|honeymoon|vacation|christening|baptism)\b/gi;
+const RELATIVE = /\b(?:my|our)\s+(aunt|uncle|grandmother|grandfather|grandma|grandpa|cousin|brother|sister|neighbor|teacher|best friend)(?:\s+([A-Z][a-z]+))?/g;
+const PLACE = /\b(?:in|at|to|from|near)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/g;
+const NAME = /\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*/g;
+
+const QUESTION_TEMPLATES: Record<QuestionSubjectKind, (subject: string) => string> = {
+  person: subject => `What do you remember most about ${subject}?`,
+  place: subject => `What was life like in ${subject}?`,
+  event: subject => `Can you tell me more about ${subject}?`,
+};
+
+interface Mention {
+  subject: string;
+  kind: QuestionSubjectKind;
+  index: number;
+}
+
+const startsSentence = (text: string, index: number) => /(^|[.!?:\n]\s*)$/.test(text.slice(0, index));
+
+// Words of a name that aren't names on their own, e.g. "The" in "The Depression"
+const trimName = (name: string) => {
+  const words = name.split(/\s+/);
+  while (words.length && NOT_NAMES.has(words[0])) words.shift();
+  return words.join(' ');
+};
+
+const findMentions = (text: string): Mention[] => {
+  const mentions: Mention[] = [];
+
+  Array.from(text.matchAll(EVENT)).forEach(match => {
+    mentions.push({ subject: `the ${match[1].toLowerCase()}`, kind: 'event', index: match.index ?? 0 });
+  });
+  // Names already asked about as someone's relative, or as places
+  const named = new Set<string>();
+  Array.from(text.matchAll(RELATIVE)).forEach(match => {
+    if (match[2]) named.add(match[2]);
+    const relation = match[1].toLowerCase();
+    mentions.push({
+      subject: match[2] ? `your ${relation} ${match[2]}` : `your ${relation}`,
+      kind: 'person',
+      index: match.index ?? 0,
+    });
+  });
+
+  Array.from(text.matchAll(PLACE)).forEach(match => {
+    const place = trimName(match[1]);
+    if (!place) return;
+    named.add(place);
+    mentions.push({ subject: place, kind: 'place', index: match.index ?? 0 });
+  });
+  Array.from(text.matchAll(NAME)).forEach(match => {
+    const index = match.index ?? 0;
+    const name = trimName(match[0]);
+    if (!name || named.has(name) || startsSentence(text, index)) return;
+    mentions.push({ subject: name, kind: 'person', index });
+  });
+
+  return mentions.sort((a, b) => a.index - b.index);
+};
+
+const sourceText = (source: QuestionSource) => `${source.summary}\n${source.transcript}`;
+
+/**
+ * Finds names, places and events with simple patterns and asks about each
+ * from a template. The same request always gets the same questions, so tests
+ * and offline development don't need an LLM.
+ */
+export const createStubQuestionProvider = (): QuestionProvider => ({
+  async proposeQuestions({ sources, avoid, limit }: QuestionGenerationRequest) {
+    const avoided = avoid.map(question => question.toLowerCase());
+    const seen = new Set<string>();
+    const questions: ProposedQuestion[] = [];
+
+    for (const source of sources) {
+      for (const mention of findMentions(sourceText(source))) {
+        const key = mention.subject.toLowerCase();
+        if (seen.has(key) || avoided.some(question => question.includes(key))) continue;
+        seen.add(key);
+        questions.push({
+          question: QUESTION_TEMPLATES[mention.kind](mention.subject),
+          subject: mention.subject,
+          kind: mention.kind,
+          storyId: source.storyId,
+        });
+        if (questions.length >= limit) return questions;
+      }
+    }
+    return questions;
+  },
+});
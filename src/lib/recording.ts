@@ -1,12 +1,191 @@
-import { v4 as uuidv4 } from "uuid";
-import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
-import { storage } from "./firebase";
-import { doc, updateDoc } from "firebase/firestore";
+import {
+  ref,
+  uploadBytesResumable,
+  getDownloadURL,
+  getBlob,
+  deleteObject,
+} from "firebase/storage";
+import { auth, storage } from "./firebase";
+import { doc, serverTimestamp, updateDoc } from "firebase/firestore";
 import { db } from "./firebase";
+import {
+  StoredRecording,
+  recordingId,
+  saveRecording,
+  saveChunk,
+  getChunk,
+  listRecordings,
+  listPendingChunkIndexes,
+  deleteChunk,
+  deleteRecording,
+} from "./recordingStore";
 
-interface RecordingChunk {
-  blob: Blob;
-  number: number;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 1000;
+
+// In order of preference; Safari only records MP4
+const VIDEO_MIME_TYPES = ["video/webm;codecs=vp8,opus", "video/webm", "video/mp4"];
+const AUDIO_MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4"];
+
+const contentType = (recording: StoredRecording) =>
+  recording.mimeType.split(";")[0];
+
+const isAudioOnly = (recording: StoredRecording) =>
+  contentType(recording).startsWith("audio/");
+
+const extension = (recording: StoredRecording) => {
+  if (contentType(recording) === "audio/mp4") return "m4a";
+  return contentType(recording) === "video/mp4" ? "mp4" : "webm";
+};
+
+const recordingPath = (recording: StoredRecording) =>
+  `recordings/${recording.storyId}/${recording.sessionId}`;
+
+const chunkPath = (recording: StoredRecording, index: number) =>
+  `${recordingPath(recording)}/chunks/chunk_${index}.${extension(recording)}`;
+
+// Held for as long as a recorder owns a recording, so recovery in another tab leaves it alone
+const lockName = (id: string) => `recording:${id}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const withRetry = async <T>(operation: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      await sleep(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+    }
+  }
+};
+
+// Each chunk file is written exactly once; a retried upload overwrites the same path
+const uploadChunk = async (
+  recording: StoredRecording,
+  index: number,
+  blob: Blob,
+) => {
+  await withRetry(async () => {
+    await uploadBytesResumable(ref(storage, chunkPath(recording, index)), blob, {
+      contentType: contentType(recording),
+      customMetadata: { index: String(index) },
+    });
+  });
+  // Acknowledged, so the local copy is no longer needed
+  await deleteChunk(recording.id, index).catch((error) =>
+    console.error("[Recorder] Error clearing buffered chunk:", error),
+  );
+};
+
+const chunkIndexes = (recording: StoredRecording) =>
+  Array.from({ length: recording.chunkCount }, (_, index) => index);
+
+/**
+ * Joins the uploaded chunks into one file and marks the session's video, or
+ * its audio for audio-only sessions, as complete, along with any breaks taken.
+ * Every chunk must already be in storage; `chunks` skips downloading them
+ * again when the recorder still has them in memory.
+ */
+const finishRecording = async (
+  recording: StoredRecording,
+  chunks?: Blob[],
+): Promise<string> => {
+  const parts =
+    chunks ??
+    (await Promise.all(
+      chunkIndexes(recording).map((index) =>
+        withRetry(() => getBlob(ref(storage, chunkPath(recording, index)))),
+      ),
+    ));
+
+  const completeRef = ref(
+    storage,
+    `${recordingPath(recording)}/complete.${extension(recording)}`,
+  );
+  await withRetry(async () => {
+    await uploadBytesResumable(
+      completeRef,
+      new Blob(parts, { type: recording.mimeType }),
+      {
+        contentType: contentType(recording),
+        customMetadata: { complete: "true" },
+      },
+    );
+  });
+  const url = await getDownloadURL(completeRef);
+
+  const session = `sessions.${recording.sessionId}`;
+  await updateDoc(doc(db, "stories", recording.storyId), {
+    [`${session}.lastUpdated`]: serverTimestamp(),
+    ...(isAudioOnly(recording)
+      ? {
+          [`${session}.audioUrl`]: url,
+          [`${session}.audioComplete`]: true,
+          [`${session}.audioMimeType`]: contentType(recording),
+        }
+      : {
+          [`${session}.videoUrl`]: url,
+          [`${session}.videoComplete`]: true,
+          [`${session}.videoHasAudio`]: true,
+          [`${session}.videoMimeType`]: contentType(recording),
+        }),
+    ...(recording.pauses?.length && {
+      [`${session}.recordingPauses`]: recording.pauses,
+    }),
+  });
+  await deleteRecording(recording.id);
+
+  // The complete file replaces the chunks; a chunk left behind only costs storage
+  await Promise.allSettled(
+    chunkIndexes(recording).map((index) =>
+      deleteObject(ref(storage, chunkPath(recording, index))),
+    ),
+  );
+  return url;
+};
+
+// Mixes any number of audio tracks into the single track the recorder captures
+class AudioMixer {
+  private context = new AudioContext();
+  private destination = this.context.createMediaStreamDestination();
+  private output = this.context.createGain();
+  private sources = new Map<string, MediaStreamAudioSourceNode>();
+
+  get track(): MediaStreamTrack {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  constructor() {
+    this.output.connect(this.destination);
+  }
+
+  async resume() {
+    if (this.context.state === "suspended") await this.context.resume();
+  }
+
+  addTrack(track: MediaStreamTrack) {
+    if (this.sources.has(track.id) || track.readyState === "ended") return;
+
+    const source = this.context.createMediaStreamSource(new MediaStream([track]));
+    source.connect(this.output);
+    this.sources.set(track.id, source);
+    track.addEventListener("ended", () => {
+      source.disconnect();
+      this.sources.delete(track.id);
+    });
+  }
+
+  // Silences everything while keeping the recording's timeline running
+  setMuted(muted: boolean) {
+    this.output.gain.value = muted ? 0 : 1;
+  }
+
+  async close() {
+    this.sources.forEach((source) => source.disconnect());
+    this.sources.clear();
+    await this.context.close();
+  }
 }
 
 export class VideoRecorder {
@@ -14,108 +193,122 @@ export class VideoRecorder {
   private chunks: Blob[] = [];
   private storyId: string;
   private sessionId: string;
-  private onChunkUploaded: (url: string, isFinal: boolean) => void;
-  private chunkNumber = 0;
   private audioTrack: MediaStreamTrack | null = null;
+  private videoTrack: MediaStreamTrack | null = null;
+  private mixer: AudioMixer | null = null;
+  private recording: StoredRecording | null = null;
+  // Chunks are buffered in order, then uploaded in order once buffered
+  private buffering: Promise<void> = Promise.resolve();
+  private uploading: Promise<void> = Promise.resolve();
+  private failedChunks = new Set<number>();
+  // Seconds into the recording when the current break began
+  private pausedAt: number | null = null;
+  private releaseLock: () => void = () => {};
 
-  constructor(
-    storyId: string,
-    sessionId: string,
-    onChunkUploaded: (url: string, isFinal: boolean) => void,
-  ) {
+  // The story only changes once, when the finished recording is stored on its session
+  constructor(storyId: string, sessionId: string) {
     this.storyId = storyId;
     this.sessionId = sessionId;
-    this.onChunkUploaded = onChunkUploaded;
   }
 
   async start(stream: MediaStream) {
     try {
-      // Create a new stream with only video track
+      // The camera plus one mixed audio track: the user's mic now, the agent once addAudioTrack is called.
+      // Without a camera in the stream only the audio is recorded.
       const videoTrack = stream.getVideoTracks()[0];
-      const muteStream = new MediaStream([videoTrack]);
+      this.videoTrack = videoTrack ?? null;
+      this.audioTrack = stream.getAudioTracks()[0] ?? null;
 
-      // Store audio track reference
-      this.audioTrack = stream.getAudioTracks()[0];
+      this.mixer = new AudioMixer();
+      if (this.audioTrack) this.mixer.addTrack(this.audioTrack);
+      await this.mixer.resume();
+      const mixedStream = new MediaStream(
+        videoTrack ? [videoTrack, this.mixer.track] : [this.mixer.track],
+      );
 
-      // Check for WebM support with VP8 codec
-      const mimeType = MediaRecorder.isTypeSupported("video/webm;codecs=vp8")
-        ? "video/webm;codecs=vp8"
-        : "video/webm";
+      const mimeTypes = videoTrack ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES;
+      const mimeType =
+        mimeTypes.find((type) => MediaRecorder.isTypeSupported(type)) ??
+        mimeTypes[1];
 
-      this.mediaRecorder = new MediaRecorder(muteStream, {
+      const recording: StoredRecording = {
+        id: recordingId(this.storyId, this.sessionId),
+        userId: auth.currentUser?.uid ?? "",
+        storyId: this.storyId,
+        sessionId: this.sessionId,
         mimeType,
-        videoBitsPerSecond: 2500000, // 2.5 Mbps for better quality
+        chunkCount: 0,
+        startedAt: Date.now(),
+      };
+      this.recording = recording;
+      await this.acquireLock(recording.id);
+      await saveRecording(recording).catch((error) =>
+        console.error("[Recorder] Error buffering recording:", error),
+      );
+
+      this.mediaRecorder = new MediaRecorder(mixedStream, {
+        mimeType,
+        ...(videoTrack && { videoBitsPerSecond: 2500000 }), // 2.5 Mbps for better quality
+        audioBitsPerSecond: 128000,
       });
 
-      this.mediaRecorder.ondataavailable = async (event) => {
+      this.mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          this.chunks.push(event.data);
-
-          // Create a new blob from all chunks so far
-          const fullBlob = new Blob(this.chunks, { type: mimeType });
-
-          const chunk: RecordingChunk = {
-            blob: fullBlob,
-            number: this.chunkNumber++,
-          };
-
-          try {
-            // Upload the chunk and get URL
-            const url = await this.uploadChunk(chunk);
-            this.onChunkUploaded(url, false); // Not final
-          } catch (error) {
-            console.error("Error uploading chunk:", error);
-          }
+          this.enqueueChunk(event.data);
         }
       };
 
-      // Record in 5-second chunks for more frequent updates
+      // Each 5-second chunk is buffered locally, then uploaded on its own
       this.mediaRecorder.start(5000);
     } catch (error) {
       console.error("Error starting recording:", error);
+      this.releaseLock();
+      this.mixer?.close().catch(console.error);
       throw error;
     }
   }
 
   async stop(): Promise<string[]> {
-    if (!this.mediaRecorder) {
+    if (!this.mediaRecorder || !this.recording) {
       console.warn("[Recorder] Tried to stop before mediaRecorder was ready");
       return [];
     }
 
+    this.resume();
     if (this.audioTrack) {
       this.audioTrack.stop();
     }
 
+    const recording = this.recording;
     return new Promise((resolve) => {
       this.mediaRecorder!.onstop = async () => {
         try {
-          console.log("[Recorder] onstop triggered, preparing final blob...");
+          console.log("[Recorder] onstop triggered, waiting for chunk uploads...");
+          await this.buffering;
+          await this.uploading;
 
-          const finalBlob = new Blob(this.chunks, {
-            type: this.mediaRecorder!.mimeType,
-          });
+          // Last chance for chunks whose uploads ran out of retries
+          for (const index of Array.from(this.failedChunks)) {
+            await uploadChunk(recording, index, this.chunks[index]);
+            this.failedChunks.delete(index);
+          }
 
-          const finalChunk: RecordingChunk = {
-            blob: finalBlob,
-            number: -1,
-          };
+          if (recording.chunkCount === 0) {
+            await deleteRecording(recording.id);
+            resolve([]);
+            return;
+          }
 
-          const finalUrl = await this.uploadChunk(finalChunk);
+          const finalUrl = await finishRecording(recording, this.chunks);
           console.log("[Recorder] Final video uploaded:", finalUrl);
-          
-          // Update the session with the final video URL
-          const storyRef = doc(db, "stories", this.storyId);
-          await updateDoc(storyRef, {
-            [`sessions.${this.sessionId}.videoUrl`]: finalUrl,
-            [`sessions.${this.sessionId}.videoComplete`]: true
-          });
-
-          this.onChunkUploaded(finalUrl, true);
           resolve([finalUrl]);
         } catch (error) {
+          // The chunks stay buffered; recoverRecordings finishes the upload on next load
           console.error("[Recorder] Error uploading final video:", error);
           resolve([]);
+        } finally {
+          this.releaseLock();
+          this.mixer?.close().catch(console.error);
         }
       };
 
@@ -124,32 +317,126 @@ export class VideoRecorder {
     });
   }
 
-  private async uploadChunk(chunk: RecordingChunk): Promise<string> {
-    const chunkId = uuidv4();
-    const isFinal = chunk.number === -1;
-    const fileName = isFinal
-      ? `recordings/${this.storyId}/${this.sessionId}/complete.webm`
-      : `recordings/${this.storyId}/${this.sessionId}/chunks/chunk_${chunk.number}.webm`;
+  // Adds another voice to the recording, e.g. the agent's audio once the call has it
+  addAudioTrack(track: MediaStreamTrack) {
+    this.mixer?.addTrack(track);
+  }
 
-    const storageRef = ref(storage, fileName);
+  /**
+   * Starts a break: the recording keeps running so it stays in step with the
+   * call transcript, but records silence and a blank picture until resume.
+   */
+  pause() {
+    if (!this.recording || this.pausedAt !== null) return;
 
-    try {
-      // Set content type explicitly
-      const metadata = {
-        contentType: "video/webm",
-      };
+    this.pausedAt = this.elapsedSeconds();
+    this.mixer?.setMuted(true);
+    if (this.videoTrack) this.videoTrack.enabled = false;
+  }
+
+  resume() {
+    if (!this.recording || this.pausedAt === null) return;
+
+    const recording = this.recording;
+    recording.pauses = [
+      ...(recording.pauses ?? []),
+      { start: this.pausedAt, end: this.elapsedSeconds() },
+    ];
+    this.pausedAt = null;
+    this.mixer?.setMuted(false);
+    if (this.videoTrack) this.videoTrack.enabled = true;
+
+    // Queued behind pending chunks so an older snapshot can't overwrite the pauses
+    const snapshot = { ...recording };
+    this.buffering = this.buffering.then(() =>
+      saveRecording(snapshot).catch((error) =>
+        console.error("[Recorder] Error buffering recording:", error),
+      ),
+    );
+  }
+
+  private elapsedSeconds() {
+    return (Date.now() - this.recording!.startedAt) / 1000;
+  }
+
+  private enqueueChunk(blob: Blob) {
+    const recording = this.recording!;
+    const index = recording.chunkCount++;
+    this.chunks[index] = blob;
+
+    const snapshot = { ...recording };
+    const buffered = (this.buffering = this.buffering.then(() =>
+      saveChunk(snapshot, { recordingId: recording.id, index, blob }).catch(
+        (error) => console.error("[Recorder] Error buffering chunk:", error),
+      ),
+    ));
 
-      // For final video, ensure it's uploaded with the correct metadata
-      if (isFinal) {
-        await uploadBytes(storageRef, chunk.blob, {
-          ...metadata,
-          customMetadata: { complete: "true" },
-        });
+    this.uploading = Promise.all([this.uploading, buffered]).then(async () => {
+      try {
+        await uploadChunk(recording, index, blob);
+      } catch (error) {
+        console.error("Error uploading chunk:", error);
+        this.failedChunks.add(index);
+      }
+    });
+  }
+
+  private acquireLock(id: string): Promise<void> {
+    if (!navigator.locks) return Promise.resolve();
+
+    return new Promise((acquired) => {
+      navigator.locks.request(
+        lockName(id),
+        () =>
+          new Promise<void>((release) => {
+            this.releaseLock = release;
+            acquired();
+          }),
+      );
+    });
+  }
+}
+
+/**
+ * Finishes recordings whose tab closed or crashed before the upload was done:
+ * uploads the chunks still buffered in IndexedDB, then writes the complete file.
+ * Returns how many recordings were finished.
+ */
+export const recoverRecordings = async (userId: string): Promise<number> => {
+  let recovered = 0;
+
+  for (const recording of await listRecordings()) {
+    if (recording.userId !== userId) continue;
+
+    const recover = async () => {
+      if (recording.chunkCount === 0) {
+        await deleteRecording(recording.id);
+        return;
+      }
+
+      for (const index of await listPendingChunkIndexes(recording.id)) {
+        const chunk = await getChunk(recording.id, index);
+        if (chunk) await uploadChunk(recording, index, chunk.blob);
+      }
+      await finishRecording(recording);
+      recovered++;
+    };
+
+    try {
+      if (navigator.locks) {
+        // Skip recordings another tab is still making
+        await navigator.locks.request(
+          lockName(recording.id),
+          { ifAvailable: true },
+          (lock) => (lock ? recover() : undefined),
+        );
+      } else {
+        await recover();
       }
-      return await getDownloadURL(storageRef);
     } catch (error) {
-      console.error("Error uploading chunk:", error);
-      throw error;
+      console.error("[Recorder] Error recovering recording:", recording.id, error);
     }
   }
-}
\ No newline at end of file
+
+  return recovered;
+};
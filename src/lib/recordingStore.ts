@@ -0,0 +1,119 @@
+// IndexedDB buffer for recordings in progress. A chunk stays here until its
+// upload has been acknowledged, so a crashed tab can finish the upload later.
+
+import type { RecordingPause } from "../types/story";
+
+const DB_NAME = "talkmybio-recordings";
+const DB_VERSION = 1;
+const RECORDINGS = "recordings";
+const CHUNKS = "chunks";
+
+export interface StoredRecording {
+  // `${storyId}/${sessionId}`
+  id: string;
+  userId: string;
+  storyId: string;
+  sessionId: string;
+  mimeType: string;
+  // Chunks produced so far; chunk files are numbered 0..chunkCount-1
+  chunkCount: number;
+  startedAt: number;
+  // Breaks taken so far, recorded as silence
+  pauses?: RecordingPause[];
+}
+
+export interface StoredChunk {
+  recordingId: string;
+  index: number;
+  blob: Blob;
+}
+
+export const recordingId = (storyId: string, sessionId: string) =>
+  `${storyId}/${sessionId}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDINGS, { keyPath: "id" });
+        db.createObjectStore(CHUNKS, { keyPath: ["recordingId", "index"] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  operation: (transaction: IDBTransaction) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = operation(transaction);
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const chunkRange = (id: string) =>
+  IDBKeyRange.bound([id, 0], [id, Number.MAX_SAFE_INTEGER]);
+
+export const saveRecording = async (recording: StoredRecording) => {
+  await run([RECORDINGS], "readwrite", (tx) =>
+    tx.objectStore(RECORDINGS).put(recording),
+  );
+};
+
+export const listRecordings = async (): Promise<StoredRecording[]> =>
+  (await run<StoredRecording[]>([RECORDINGS], "readonly", (tx) =>
+    tx.objectStore(RECORDINGS).getAll(),
+  )) ?? [];
+
+// Writes the chunk and the recording's new chunk count together
+export const saveChunk = async (recording: StoredRecording, chunk: StoredChunk) => {
+  await run([RECORDINGS, CHUNKS], "readwrite", (tx) => {
+    tx.objectStore(CHUNKS).put(chunk);
+    tx.objectStore(RECORDINGS).put(recording);
+  });
+};
+
+export const getChunk = async (
+  id: string,
+  index: number,
+): Promise<StoredChunk | undefined> =>
+  run<StoredChunk>([CHUNKS], "readonly", (tx) =>
+    tx.objectStore(CHUNKS).get([id, index]),
+  );
+
+export const listPendingChunkIndexes = async (id: string): Promise<number[]> => {
+  const keys =
+    (await run<IDBValidKey[]>([CHUNKS], "readonly", (tx) =>
+      tx.objectStore(CHUNKS).getAllKeys(chunkRange(id)),
+    )) ?? [];
+  return keys.map((key) => (key as [string, number])[1]);
+};
+
+export const deleteChunk = async (id: string, index: number) => {
+  await run([CHUNKS], "readwrite", (tx) =>
+    tx.objectStore(CHUNKS).delete([id, index]),
+  );
+};
+
+export const deleteRecording = async (id: string) => {
+  await run([RECORDINGS, CHUNKS], "readwrite", (tx) => {
+    tx.objectStore(CHUNKS).delete(chunkRange(id));
+    tx.objectStore(RECORDINGS).delete(id);
+  });
+};
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { describeRule, parseRule, repeatOptions, upcomingOccurrences } from './recurrence';
+
+const FROM = new Date('2020-01-01T00:00:00Z');
+
+const schedule = (rrule: string, start: string, overrides: Record<string, unknown> = {}) => ({
+  rrule,
+  start,
+  timeZone: 'UTC',
+  endDate: null,
+  exceptions: {},
+  ...overrides,
+});
+
+const keys = (timing: ReturnType<typeof schedule>, limit = 4, from = FROM) =>
+  upcomingOccurrences(timing, from, limit).map(occurrence => occurrence.key);
+
+describe('parseRule', () => {
+  it('reads the parts the scheduler offers', () => {
+    expect(parseRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,2TU;COUNT=5')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [
+        { weekday: 5, ordinal: -1 },
+        { weekday: 2, ordinal: 2 },
+      ],
+      byMonthDay: [],
+      count: 5,
+    });
+  });
+
+  it('reads UNTIL as a wall-clock time, or an instant when it is in UTC', () => {
+    expect(parseRule('FREQ=DAILY;UNTIL=20300516').until).toBe('2030-05-16T23:59');
+    expect(parseRule('FREQ=DAILY;UNTIL=20300516T140000Z').until).toEqual(new Date('2030-05-16T14:00:00Z'));
+  });
+
+  it('rejects rules it cannot expand', () => {
+    expect(() => parseRule('FREQ=YEARLY')).toThrow(/frequency/);
+    expect(() => parseRule('FREQ=WEEKLY;BYDAY=XX')).toThrow(/BYDAY/);
+    expect(() => parseRule('FREQ=WEEKLY;UNTIL=next-week')).toThrow(/UNTIL/);
+  });
+});
+
+describe('upcomingOccurrences', () => {
+  it('repeats weekly on each listed day', () => {
+    expect(keys(schedule('FREQ=WEEKLY;BYDAY=TU,TH', '2030-05-02T10:00'))).toEqual([
+      '2030-05-02T10:00',
+      '2030-05-07T10:00',
+      '2030-05-09T10:00',
+      '2030-05-14T10:00',
+    ]);
+  });
+
+  it('skips weeks by the interval', () => {
+    expect(keys(schedule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TH', '2030-05-02T10:00'), 3)).toEqual([
+      '2030-05-02T10:00',
+      '2030-05-16T10:00',
+      '2030-05-30T10:00',
+    ]);
+  });
+
+  it('finds the nth and the last weekday of each month', () => {
+    expect(keys(schedule('FREQ=MONTHLY;BYDAY=2TU', '2030-05-14T10:00'), 3)).toEqual([
+      '2030-05-14T10:00',
+      '2030-06-11T10:00',
+      '2030-07-09T10:00',
+    ]);
+    expect(keys(schedule('FREQ=MONTHLY;BYDAY=-1FR', '2030-05-31T10:00'), 3)).toEqual([
+      '2030-05-31T10:00',
+      '2030-06-28T10:00',
+      '2030-07-26T10:00',
+    ]);
+  });
+
+  it('leaves out months too short for the day of the month', () => {
+    const expected = ['2030-01-31T10:00', '2030-03-31T10:00', '2030-05-31T10:00', '2030-07-31T10:00'];
+
+    expect(keys(schedule('FREQ=MONTHLY;BYMONTHDAY=31', '2030-01-31T10:00'))).toEqual(expected);
+    expect(keys(schedule('FREQ=MONTHLY', '2030-01-31T10:00'))).toEqual(expected);
+  });
+
+  it('counts negative days of the month from its end, leap days included', () => {
+    expect(keys(schedule('FREQ=MONTHLY;BYMONTHDAY=-1', '2028-01-31T10:00'), 3)).toEqual([
+      '2028-01-31T10:00',
+      '2028-02-29T10:00',
+      '2028-03-31T10:00',
+    ]);
+  });
+
+  it('stops after COUNT occurrences, skipped ones included', () => {
+    const timing = schedule('FREQ=DAILY;COUNT=3', '2030-05-01T10:00', {
+      exceptions: { '2030-05-02T10:00': { type: 'skip' } },
+    });
+
+    expect(keys(timing, 10)).toEqual(['2030-05-01T10:00', '2030-05-03T10:00']);
+  });
+
+  it('stops after UNTIL and after the end date', () => {
+    const weekly = (overrides: Record<string, unknown> = {}, rrule = 'FREQ=WEEKLY') =>
+      keys(schedule(rrule, '2030-05-02T10:00', { timeZone: 'America/New_York', ...overrides }), 10);
+
+    expect(weekly({}, 'FREQ=WEEKLY;UNTIL=20300516')).toEqual(['2030-05-02T10:00', '2030-05-09T10:00', '2030-05-16T10:00']);
+    // 10am in New York is 14:00 UTC in May
+    expect(weekly({}, 'FREQ=WEEKLY;UNTIL=20300516T140000Z')).toHaveLength(3);
+    expect(weekly({}, 'FREQ=WEEKLY;UNTIL=20300516T135900Z')).toHaveLength(2);
+    expect(weekly({ endDate: '2030-05-09' })).toEqual(['2030-05-02T10:00', '2030-05-09T10:00']);
+  });
+
+  it('applies skips and reschedules, numbering only the calls that happen', () => {
+    const timing = schedule('FREQ=WEEKLY', '2030-05-02T10:00', {
+      exceptions: {
+        '2030-05-09T10:00': { type: 'skip' },
+        '2030-05-16T10:00': { type: 'reschedule', dateTime: '2030-05-17T09:00' },
+      },
+    });
+
+    expect(upcomingOccurrences(timing, FROM, 3)).toEqual([
+      { key: '2030-05-02T10:00', dateTime: new Date('2030-05-02T10:00:00Z'), index: 0 },
+      { key: '2030-05-16T10:00', dateTime: new Date('2030-05-17T09:00:00Z'), index: 1 },
+      { key: '2030-05-23T10:00', dateTime: new Date('2030-05-23T10:00:00Z'), index: 2 },
+    ]);
+  });
+
+  it('starts from the first call due, keeping the numbering of earlier ones', () => {
+    const [next] = upcomingOccurrences(schedule('FREQ=WEEKLY', '2030-05-02T10:00'), new Date('2030-05-03T00:00:00Z'), 1);
+
+    expect(next).toMatchObject({ key: '2030-05-09T10:00', index: 1 });
+  });
+
+  it('keeps the wall-clock time across daylight saving changes', () => {
+    const timing = schedule('FREQ=WEEKLY', '2030-03-03T10:00', { timeZone: 'America/New_York' });
+
+    expect(upcomingOccurrences(timing, FROM, 2).map(occurrence => occurrence.dateTime)).toEqual([
+      new Date('2030-03-03T15:00:00Z'),
+      new Date('2030-03-10T14:00:00Z'),
+    ]);
+  });
+
+  it('moves a call the clocks skip over to after the gap', () => {
+    const timing = schedule('FREQ=DAILY', '2030-03-09T02:30', { timeZone: 'America/New_York' });
+
+    expect(upcomingOccurrences(timing, FROM, 2).map(occurrence => occurrence.dateTime)).toEqual([
+      new Date('2030-03-09T07:30:00Z'),
+      // 2:30am doesn't happen on the 10th; 3:30am daylight time does
+      new Date('2030-03-10T07:30:00Z'),
+    ]);
+  });
+});
+
+describe('repeatOptions', () => {
+  it('offers the weekday of the start, calling a fifth weekday the last', () => {
+    expect(repeatOptions('2030-05-02T10:00').map(option => option.rrule)).toEqual([
+      'FREQ=DAILY',
+      'FREQ=WEEKLY;BYDAY=TH',
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=TH',
+      'FREQ=MONTHLY;BYDAY=1TH',
+      'FREQ=MONTHLY;BYMONTHDAY=2',
+    ]);
+    expect(repeatOptions('2030-05-30T10:00')[3]).toEqual({
+      rrule: 'FREQ=MONTHLY;BYDAY=-1TH',
+      label: 'The last Thursday of every month',
+    });
+  });
+});
+
+describe('describeRule', () => {
+  it('says how often calls happen', () => {
+    expect(describeRule('FREQ=DAILY')).toBe('Every day');
+    expect(describeRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU')).toBe('Every other Tuesday');
+    expect(describeRule('FREQ=WEEKLY;INTERVAL=3;BYDAY=MO,FR')).toBe('Every 3 weeks on Monday, Friday');
+    expect(describeRule('FREQ=MONTHLY;BYDAY=-1FR')).toBe('The last Friday of every month');
+    expect(describeRule('FREQ=MONTHLY;BYMONTHDAY=15')).toBe('Day 15 of every month');
+  });
+});
@@ -0,0 +1,217 @@
+import type { LocalDateTime, RecurringSchedule } from '../types/schedule.js';
+import { formatLocalDateTime, parseLocalDateTime, zonedTimeToDate } from './timeZones.js';
+
+// RRULE weekday codes, in JavaScript's getUTCDay() order
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINAL_NAMES: Record<string, string> = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '-1': 'last' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stops expanding rules that can never produce another occurrence
+const MAX_PERIODS = 5000;
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+interface WeekdayRule {
+  weekday: number;
+  // Nth weekday of the month, negative counting from the end; only used monthly
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  count?: number;
+  // Latest start of an occurrence: a wall-clock time, or an instant for UTC values
+  until?: LocalDateTime | Date;
+}
+
+export interface Occurrence {
+  // When the occurrence was originally due; identifies it in the schedule's exceptions
+  key: LocalDateTime;
+  // When the call happens, after any reschedule
+  dateTime: Date;
+  // Position among the calls that are not skipped, starting at 0
+  index: number;
+}
+
+// A date alone runs to the end of that day
+const parseUntil = (value: string): LocalDateTime | Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) throw new Error(`Unsupported UNTIL value: ${value}`);
+  const [, year, month, day, hour = '23', minute = '59', second = '00', utc] = match;
+  return utc
+    ? new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)))
+    : formatLocalDateTime({ year: Number(year), month: Number(month), day: Number(day), hour: Number(hour), minute: Number(minute) });
+};
+
+/** Parses the subset of RFC 5545 RRULEs the scheduler offers. Throws on anything else. */
+export const parseRule = (rrule: string): RecurrenceRule => {
+  const fields = Object.fromEntries(
+    rrule
+      .replace(/^RRULE:/, '')
+      .split(';')
+      .filter(Boolean)
+      .map(field => field.split('=') as [string, string])
+  );
+
+  if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(fields.FREQ)) {
+    throw new Error(`Unsupported recurrence frequency: ${fields.FREQ}`);
+  }
+
+  const byDay = (fields.BYDAY ? fields.BYDAY.split(',') : []).map((value: string): WeekdayRule => {
+    const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+    if (!match) throw new Error(`Unsupported BYDAY value: ${value}`);
+    return {
+      weekday: WEEKDAYS.indexOf(match[2] as (typeof WEEKDAYS)[number]),
+      ...(match[1] ? { ordinal: Number(match[1]) } : {}),
+    };
+  });
+
+  return {
+    freq: fields.FREQ as Frequency,
+    interval: fields.INTERVAL ? Math.max(1, Number(fields.INTERVAL)) : 1,
+    byDay,
+    byMonthDay: fields.BYMONTHDAY ? fields.BYMONTHDAY.split(',').map(Number) : [],
+    ...(fields.COUNT ? { count: Number(fields.COUNT) } : {}),
+    ...(fields.UNTIL ? { until: parseUntil(fields.UNTIL) } : {}),
+  };
+};
+
+// Calendar arithmetic runs on UTC dates standing in for wall-clock dates, so it never sees DST
+const calendarDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+const daysInMonth = (year: number, month: number) => calendarDate(year, month + 1, 0).getUTCDate();
+
+const nthWeekday = (year: number, month: number, weekday: number, ordinal: number): Date | null => {
+  if (ordinal > 0) {
+    const first = calendarDate(year, month, 1);
+    const day = 1 + ((weekday - first.getUTCDay() + 7) % 7) + (ordinal - 1) * 7;
+    return day <= daysInMonth(year, month) ? calendarDate(year, month, day) : null;
+  }
+  const lastDay = daysInMonth(year, month);
+  const last = calendarDate(year, month, lastDay);
+  const day = lastDay - ((last.getUTCDay() - weekday + 7) % 7) + (ordinal + 1) * 7;
+  return day >= 1 ? calendarDate(year, month, day) : null;
+};
+
+// Candidate dates of the `period`th repetition, in order
+const periodDates = (rule: RecurrenceRule, start: Date, period: number): Date[] => {
+  const step = period * rule.interval;
+
+  if (rule.freq === 'DAILY') {
+    return [new Date(start.getTime() + step * DAY_MS)];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    // Weeks start on Monday, as with the RRULE default WKST=MO
+    const monday = start.getTime() - ((start.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+    const weekdays = rule.byDay.length ? rule.byDay.map(day => day.weekday) : [start.getUTCDay()];
+    return weekdays
+      .map(weekday => new Date(monday + ((weekday + 6) % 7) * DAY_MS))
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + step) / 12);
+  const month = (start.getUTCMonth() + step) % 12;
+  const dates = rule.byDay.length
+    ? rule.byDay.map(({ weekday, ordinal }) => nthWeekday(year, month, weekday, ordinal ?? 1))
+    : (rule.byMonthDay.length ? rule.byMonthDay : [start.getUTCDate()]).map(day => {
+        const resolved = day > 0 ? day : daysInMonth(year, month) + day + 1;
+        return resolved >= 1 && resolved <= daysInMonth(year, month) ? calendarDate(year, month, resolved) : null;
+      });
+  return dates.filter((date): date is Date => date !== null).sort((a, b) => a.getTime() - b.getTime());
+};
+
+type ScheduleTiming = Pick<RecurringSchedule, 'rrule' | 'start' | 'timeZone' | 'endDate' | 'exceptions'>;
+
+/**
+ * Occurrences of a schedule due at or after `from`, up to `limit` of them.
+ * Skipped occurrences are left out; rescheduled ones carry their new time.
+ * Expansion happens on wall-clock dates in the schedule's time zone, so a
+ * weekly 10am call stays at 10am across daylight saving changes.
+ */
+export const upcomingOccurrences = (schedule: ScheduleTiming, from: Date, limit: number): Occurrence[] => {
+  const rule = parseRule(schedule.rrule);
+  const { year, month, day, hour, minute } = parseLocalDateTime(schedule.start);
+  const start = calendarDate(year, month - 1, day);
+  const end = schedule.endDate ? `${schedule.endDate}T23:59` : null;
+  const isAfterUntil = (key: LocalDateTime) =>
+    rule.until instanceof Date ? zonedTimeToDate(key, schedule.timeZone) > rule.until : !!rule.until && key > rule.until;
+
+  const occurrences: Occurrence[] = [];
+  let generated = 0;
+  let index = 0;
+
+  for (let period = 0; period < MAX_PERIODS && occurrences.length < limit; period++) {
+    for (const date of periodDates(rule, start, period)) {
+      if (date < start) continue;
+
+      const key = formatLocalDateTime({
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour,
+        minute,
+      });
+      if ((end && key > end) || isAfterUntil(key) || (rule.count !== undefined && generated >= rule.count)) {
+        return occurrences;
+      }
+      generated++;
+
+      const change = schedule.exceptions[key];
+      if (change?.type === 'skip') continue;
+
+      const dateTime = zonedTimeToDate(change?.type === 'reschedule' ? change.dateTime : key, schedule.timeZone);
+      if (dateTime >= from && occurrences.length < limit) {
+        occurrences.push({ key, dateTime, index });
+      }
+      index++;
+    }
+  }
+  return occurrences;
+};
+
+/** The repeat options offered for a first call on `start`, as RRULEs. */
+export const repeatOptions = (start: LocalDateTime): Array<{ rrule: string; label: string }> => {
+  const { year, month, day } = parseLocalDateTime(start);
+  const date = calendarDate(year, month - 1, day);
+  const weekday = WEEKDAYS[date.getUTCDay()];
+  const weekdayName = WEEKDAY_NAMES[date.getUTCDay()];
+  // The fifth weekday of a month doesn't happen every month, so call it the last
+  const ordinal = day + 7 > daysInMonth(year, month - 1) ? -1 : Math.ceil(day / 7);
+
+  return [
+    { rrule: 'FREQ=DAILY', label: 'Every day' },
+    { rrule: `FREQ=WEEKLY;BYDAY=${weekday}`, label: `Every ${weekdayName}` },
+    { rrule: `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}`, label: `Every other ${weekdayName}` },
+    { rrule: `FREQ=MONTHLY;BYDAY=${ordinal}${weekday}`, label: `The ${ORDINAL_NAMES[ordinal]} ${weekdayName} of every month` },
+    { rrule: `FREQ=MONTHLY;BYMONTHDAY=${day}`, label: `Day ${day} of every month` },
+  ];
+};
+
+// Plain-language summary of a rule, e.g. "Every other Tuesday"
+export const describeRule = (rrule: string): string => {
+  const rule = parseRule(rrule);
+  const days = rule.byDay.map(({ weekday, ordinal }) =>
+    ordinal ? `the ${ORDINAL_NAMES[ordinal] ?? `${ordinal}th`} ${WEEKDAY_NAMES[weekday]}` : WEEKDAY_NAMES[weekday]
+  );
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  const every =
+    rule.interval === 1 ? `every ${unit}` : rule.interval === 2 ? `every other ${unit}` : `every ${rule.interval} ${unit}s`;
+
+  if (rule.freq === 'WEEKLY' && days.length) {
+    if (rule.interval === 1) return `Every ${days.join(', ')}`;
+    if (rule.interval === 2) return `Every other ${days.join(', ')}`;
+    return `Every ${rule.interval} weeks on ${days.join(', ')}`;
+  }
+  if (rule.freq === 'MONTHLY' && days.length) {
+    return `${days.join(', ')} of ${every}`.replace(/^t/, 'T');
+  }
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay.length) {
+    return `Day ${rule.byMonthDay.join(', ')} of ${every}`;
+  }
+  return every.charAt(0).toUpperCase() + every.slice(1);
+};
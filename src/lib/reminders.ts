@@ -0,0 +1,34 @@
+import { Repositories } from './repositories';
+import { BookedCall, DEFAULT_REMINDER_PREFERENCES, plannedReminders, ReminderRecipient } from './bookings';
+import { ReminderChannel } from '../types/reminder';
+import { User } from '../types/user';
+
+export const REMINDER_OFFSETS = [
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 24 * 60, label: '1 day before' },
+];
+
+export const REMINDER_CHANNELS: Array<{ channel: ReminderChannel; label: string }> = [
+  { channel: 'email', label: 'Email me' },
+  { channel: 'sms', label: 'Text the phone being called' },
+];
+
+export const reminderRecipient = (userId: string, user: User | null): ReminderRecipient => ({
+  userId,
+  email: user?.email || null,
+  preferences: user?.reminders ?? DEFAULT_REMINDER_PREFERENCES,
+});
+
+// Replaces the reminders of a booked call with ones matching the user's preferences
+export const scheduleReminders = async (
+  repositories: Repositories,
+  recipient: ReminderRecipient,
+  call: BookedCall,
+  now = new Date()
+) => {
+  await repositories.reminders.replaceForStory(recipient.userId, call.storyId, plannedReminders(recipient, call, now));
+};
+
+export const cancelReminders = (repositories: Repositories, userId: string, storyId: string) =>
+  repositories.reminders.removeForStory(userId, storyId);
@@ -0,0 +1,66 @@
+export type DocumentFields = Record<string, unknown>;
+
+export type WhereOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'array-contains';
+
+export interface WhereClause {
+  field: string;
+  op: WhereOperator;
+  value: unknown;
+}
+
+export interface QuerySpec {
+  where?: WhereClause[];
+  orderBy?: { field: string; direction: 'asc' | 'desc' };
+  limit?: number;
+  // Document id of the last result of the previous page
+  startAfter?: string;
+}
+
+export interface RawDocument {
+  id: string;
+  data: DocumentFields;
+}
+
+export type Unsubscribe = () => void;
+
+/**
+ * Storage operations the repositories are written against. Collection paths
+ * are slash separated (e.g. `users/{uid}/books`). Update payloads may use
+ * dotted field paths such as `sessions.{sessionId}.videoUrl`.
+ */
+export interface DataBackend {
+  get(collectionPath: string, id: string): Promise<RawDocument | null>;
+  query(collectionPath: string, spec?: QuerySpec): Promise<RawDocument[]>;
+  add(collectionPath: string, data: DocumentFields): Promise<string>;
+  set(collectionPath: string, id: string, data: DocumentFields): Promise<void>;
+  // Writes the document unless `id` is taken; false when it was
+  create(collectionPath: string, id: string, data: DocumentFields): Promise<boolean>;
+  update(collectionPath: string, id: string, data: DocumentFields): Promise<void>;
+  remove(collectionPath: string, id: string): Promise<void>;
+  // Calls onNext with the current document (or null) and again after every change
+  watch(
+    collectionPath: string,
+    id: string,
+    onNext: (doc: RawDocument | null) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  // Live version of query(); `startAfter` is not supported for watches
+  watchQuery(
+    collectionPath: string,
+    spec: QuerySpec,
+    onNext: (docs: RawDocument[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  // Value to write for "now"; resolved by the backend when stored
+  serverTimestamp(): unknown;
+  // Update values that remove the field, or add/remove array elements without reading first
+  deleteField(): unknown;
+  arrayUnion(...values: unknown[]): unknown;
+  arrayRemove(...values: unknown[]): unknown;
+}
+
+export const where = (field: string, op: WhereOperator, value: unknown): WhereClause => ({
+  field,
+  op,
+  value,
+});
@@ -0,0 +1,82 @@
+import { Book, Chapter } from '../../types/book';
+import { DataBackend, DocumentFields } from './backend';
+import { createReader, parseAll } from './validation';
+
+const booksPath = (userId: string) => `users/${userId}/books`;
+
+const parseChapter = (bookId: string, index: number, value: unknown): Chapter => {
+  const reader = createReader('books', `${bookId}#chapters[${index}]`, (value ?? {}) as DocumentFields);
+  const storyId = reader.optionalString('storyId');
+  return {
+    id: reader.string('id'),
+    title: reader.string('title'),
+    imageUrl: reader.optionalString('imageUrl') ?? '',
+    story: reader.string('story'),
+    createdAt: reader.timestamp('createdAt'),
+    ...(storyId ? { storyId } : {}),
+  };
+};
+
+export const parseBook = (id: string, data: DocumentFields): Book => {
+  const reader = createReader('books', id, data);
+  // The book generator has written both spellings of the in-progress status
+  const status = reader.raw('status') === 'in-progress'
+    ? 'in_progress'
+    : reader.oneOf('status', ['in_progress', 'completed'] as const);
+
+  return {
+    id,
+    title: reader.string('title'),
+    imageUrl: reader.optionalString('imageUrl') ?? '',
+    status,
+    createdAt: reader.timestamp('createdAt'),
+    chapters: reader.has('chapters')
+      ? reader.array('chapters').map((chapter, index) => parseChapter(id, index, chapter))
+      : [],
+  };
+};
+
+// Firestore rejects undefined fields
+const serializeChapter = ({ storyId, ...chapter }: Chapter): DocumentFields => ({
+  ...chapter,
+  ...(storyId ? { storyId } : {}),
+});
+
+export type BookUpdate = Partial<Pick<Book, 'title' | 'imageUrl' | 'chapters'>>;
+
+export const createBookRepository = (backend: DataBackend) => ({
+  // Newest first
+  async listByUser(userId: string): Promise<Book[]> {
+    const books = parseAll(await backend.query(booksPath(userId)), parseBook);
+    return books.sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+  },
+
+  async getById(userId: string, id: string): Promise<Book | null> {
+    const raw = await backend.get(booksPath(userId), id);
+    return raw ? parseBook(raw.id, raw.data) : null;
+  },
+
+  async update(userId: string, id: string, changes: BookUpdate): Promise<void> {
+    const { chapters, ...fields } = changes;
+    await backend.update(booksPath(userId), id, {
+      ...fields,
+      ...(chapters ? { chapters: chapters.map(serializeChapter) } : {}),
+    });
+  },
+
+  async duplicate(userId: string, book: Book): Promise<string> {
+    return backend.add(booksPath(userId), {
+      title: `${book.title} (copy)`,
+      imageUrl: book.imageUrl,
+      status: 'completed',
+      createdAt: backend.serverTimestamp(),
+      chapters: book.chapters.map(serializeChapter),
+    });
+  },
+
+  async remove(userId: string, id: string): Promise<void> {
+    await backend.remove(booksPath(userId), id);
+  },
+});
+
+export type BookRepository = ReturnType<typeof createBookRepository>;
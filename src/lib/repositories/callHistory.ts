@@ -0,0 +1,56 @@
+import { CallHistoryEntry } from '../../types/callHistory';
+import { DataBackend, DocumentFields } from './backend';
+import { createReader, parseAll } from './validation';
+
+const callHistoryPath = (userId: string) => `users/${userId}/call_history`;
+
+export const parseCallHistoryEntry = (id: string, data: DocumentFields): CallHistoryEntry => {
+  const reader = createReader('call_history', id, data);
+  return {
+    id,
+    callId: reader.optionalString('callId') ?? '',
+    category: reader.optionalString('category') ?? '',
+    creationTime: reader.timestamp('creationTime').toDate(),
+    initialQuestion: reader.optionalString('initialQuestion') ?? '',
+    lastUpdated: reader.timestamp('lastUpdated').toDate(),
+    recording_url: reader.optionalString('recording_url') ?? '',
+    sessionId: reader.optionalString('sessionId') ?? '',
+    storyId: reader.string('storyId'),
+    summary: reader.optionalString('summary') ?? '',
+    title: reader.optionalString('title') ?? '',
+    transcript: reader.optionalString('transcript') ?? '',
+    transcript_object: reader.has('transcript_object')
+      ? (reader.array('transcript_object') as CallHistoryEntry['transcript_object'])
+      : [],
+    updated: reader.optionalBoolean('updated') ?? false,
+    videoComplete: reader.optionalBoolean('videoComplete') ?? false,
+    videoHasAudio: reader.optionalBoolean('videoHasAudio') ?? false,
+    videoUrl: reader.optionalString('videoUrl') ?? '',
+  };
+};
+
+export interface CallHistoryPage {
+  entries: CallHistoryEntry[];
+  // Pass back as `after` to load the next page
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+export const createCallHistoryRepository = (backend: DataBackend) => ({
+  // Most recently updated first
+  async listPage(userId: string, options: { pageSize: number; after?: string | null }): Promise<CallHistoryPage> {
+    const docs = await backend.query(callHistoryPath(userId), {
+      orderBy: { field: 'lastUpdated', direction: 'desc' },
+      limit: options.pageSize,
+      startAfter: options.after ?? undefined,
+    });
+
+    return {
+      entries: parseAll(docs, parseCallHistoryEntry),
+      cursor: docs.length > 0 ? docs[docs.length - 1].id : null,
+      hasMore: docs.length === options.pageSize,
+    };
+  },
+});
+
+export type CallHistoryRepository = ReturnType<typeof createCallHistoryRepository>;
@@ -0,0 +1,133 @@
+import { Category, QuestionSuggestion, QuestionSuggestionStatus } from '../../types/category';
+import { DataBackend, DocumentFields, where } from './backend';
+import { createReader, parseAll } from './validation';
+
+const COLLECTION = 'categories';
+
+// Categories a user made, stored apart from the built-in ones everybody shares
+const customCategoriesPath = (userId: string) => `users/${userId}/categories`;
+const suggestionsPath = (userId: string) => `users/${userId}/question_suggestions`;
+
+export const parseCategory = (id: string, data: DocumentFields): Category => {
+  const reader = createReader(COLLECTION, id, data);
+  const ownerId = reader.optionalString('ownerId');
+  return {
+    id,
+    title: reader.string('title'),
+    description: reader.string('description'),
+    emoji_unicode: reader.string('emoji_unicode'),
+    example: reader.string('example'),
+    questions: reader.stringArray('questions'),
+    ...(ownerId
+      ? { ownerId, order: reader.number('order'), archived: reader.optionalBoolean('archived') ?? false }
+      : {}),
+  };
+};
+
+export const parseQuestionSuggestion = (id: string, data: DocumentFields): QuestionSuggestion => {
+  const reader = createReader('question_suggestions', id, data);
+  return {
+    id,
+    ownerId: reader.string('ownerId'),
+    categoryId: reader.string('categoryId'),
+    question: reader.string('question'),
+    suggestedBy: reader.string('suggestedBy'),
+    suggestedByName: reader.string('suggestedByName'),
+    status: reader.oneOf('status', ['pending', 'accepted', 'dismissed'] as const),
+    createdAt: reader.timestamp('createdAt'),
+  };
+};
+
+export type CustomCategoryFields = Pick<Category, 'title' | 'description' | 'emoji_unicode' | 'example' | 'questions'>;
+
+export type NewQuestionSuggestion = Omit<QuestionSuggestion, 'id' | 'status' | 'createdAt'>;
+
+const byOrder = (a: Category, b: Category) => (a.order ?? 0) - (b.order ?? 0);
+
+export const createCategoryRepository = (backend: DataBackend) => {
+  const listBuiltIn = async (): Promise<Category[]> => parseAll(await backend.query(COLLECTION), parseCategory);
+
+  const listCustom = async (userId: string): Promise<Category[]> =>
+    parseAll(await backend.query(customCategoriesPath(userId)), parseCategory).sort(byOrder);
+
+  return {
+    // Built-in categories only
+    list: listBuiltIn,
+
+    listCustom,
+
+    // What `userId` can tell stories about: the built-in categories, then their own in their order
+    async listForUser(userId: string, { includeArchived = false } = {}): Promise<Category[]> {
+      const [builtIn, custom] = await Promise.all([listBuiltIn(), listCustom(userId)]);
+      return [...builtIn, ...custom.filter(category => includeArchived || !category.archived)];
+    },
+
+    // `ownerId` is the storyteller, needed to find their own categories
+    async getById(id: string, ownerId?: string): Promise<Category | null> {
+      const raw = await backend.get(COLLECTION, id);
+      if (raw) return parseCategory(raw.id, raw.data);
+      if (!ownerId) return null;
+
+      const custom = await backend.get(customCategoriesPath(ownerId), id);
+      return custom ? parseCategory(custom.id, custom.data) : null;
+    },
+
+    // Added after the user's other categories
+    async createCustom(userId: string, fields: CustomCategoryFields): Promise<string> {
+      const existing = await listCustom(userId);
+      return backend.add(customCategoriesPath(userId), {
+        ...fields,
+        ownerId: userId,
+        order: existing.length ? Math.max(...existing.map(category => category.order ?? 0)) + 1 : 0,
+        archived: false,
+        createdAt: backend.serverTimestamp(),
+        updatedAt: backend.serverTimestamp(),
+      });
+    },
+
+    async updateCustom(
+      userId: string,
+      id: string,
+      changes: Partial<CustomCategoryFields & Pick<Category, 'archived'>>
+    ): Promise<void> {
+      await backend.update(customCategoriesPath(userId), id, {
+        ...changes,
+        updatedAt: backend.serverTimestamp(),
+      });
+    },
+
+    async addQuestion(userId: string, id: string, question: string): Promise<void> {
+      await backend.update(customCategoriesPath(userId), id, {
+        questions: backend.arrayUnion(question),
+        updatedAt: backend.serverTimestamp(),
+      });
+    },
+
+    // `ids` are the user's categories in their new order
+    async reorderCustom(userId: string, ids: string[]): Promise<void> {
+      await Promise.all(ids.map((id, order) => backend.update(customCategoriesPath(userId), id, { order })));
+    },
+
+    // Oldest first
+    async listPendingSuggestions(ownerId: string): Promise<QuestionSuggestion[]> {
+      const docs = await backend.query(suggestionsPath(ownerId), { where: [where('status', '==', 'pending')] });
+      return parseAll(docs, parseQuestionSuggestion).sort(
+        (a, b) => a.createdAt.toMillis() - b.createdAt.toMillis()
+      );
+    },
+
+    async suggestQuestion(suggestion: NewQuestionSuggestion): Promise<string> {
+      return backend.add(suggestionsPath(suggestion.ownerId), {
+        ...suggestion,
+        status: 'pending',
+        createdAt: backend.serverTimestamp(),
+      });
+    },
+
+    async setSuggestionStatus(ownerId: string, id: string, status: QuestionSuggestionStatus): Promise<void> {
+      await backend.update(suggestionsPath(ownerId), id, { status });
+    },
+  };
+};
+
+export type CategoryRepository = ReturnType<typeof createCategoryRepository>;
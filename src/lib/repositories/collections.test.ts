@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMemoryBackend } from './memoryBackend';
+import { createCollectionRepository, inviteId } from './collections';
+import { StoryCollection } from '../../types/collection';
+
+const owner = { id: 'owner-1', name: 'Rose', email: 'rose@example.com' };
+const grandson = { id: 'user-2', name: 'Sam', email: 'sam@example.com' };
+
+const setup = async () => {
+  const backend = createMemoryBackend();
+  const collections = createCollectionRepository(backend);
+  await collections.ensureOwn(owner);
+  const collection = (await collections.getById(owner.id)) as StoryCollection;
+  return { backend, collections, collection };
+};
+
+describe('collection repository', () => {
+  it('creates the owner’s collection once', async () => {
+    const { collections, collection } = await setup();
+    await collections.rename(owner.id, ' Rose’s stories ');
+    await collections.ensureOwn(owner);
+
+    const reloaded = await collections.getById(owner.id);
+    expect(collection.memberIds).toEqual([owner.id]);
+    expect(collection.members[owner.id].role).toBe('owner');
+    expect(reloaded?.name).toBe('Rose’s stories');
+  });
+
+  it('keys invites by collection and normalized address', async () => {
+    const { collections, collection } = await setup();
+
+    const id = await collections.invite(collection, ' Sam@Example.com ', 'editor', owner);
+
+    expect(id).toBe(inviteId(owner.id, 'sam@example.com'));
+    expect((await collections.getInvite(id))?.email).toBe('sam@example.com');
+  });
+
+  it('adds the invited member with the invited role and closes the invite', async () => {
+    const { collections, collection } = await setup();
+    const id = await collections.invite(collection, grandson.email, 'commenter', owner);
+    const invite = await collections.getInvite(id);
+
+    await collections.acceptInvite(invite!, grandson);
+
+    const joined = await collections.getById(owner.id);
+    expect(joined?.memberIds).toEqual([owner.id, grandson.id]);
+    expect(joined?.members[grandson.id]).toMatchObject({ role: 'commenter', inviteId: id });
+    expect((await collections.getInvite(id))?.status).toBe('accepted');
+  });
+
+  it('refuses an invite that is no longer pending', async () => {
+    const { collections, collection } = await setup();
+    const id = await collections.invite(collection, grandson.email, 'viewer', owner);
+    await collections.revokeInvite(id);
+
+    await expect(collections.acceptInvite((await collections.getInvite(id))!, grandson)).rejects.toThrow(/revoked/);
+    expect((await collections.getById(owner.id))?.memberIds).toEqual([owner.id]);
+  });
+
+  it('removes a member from both the map and the id list', async () => {
+    const { collections, collection } = await setup();
+    const id = await collections.invite(collection, grandson.email, 'viewer', owner);
+    await collections.acceptInvite((await collections.getInvite(id))!, grandson);
+
+    await collections.removeMember(owner.id, grandson.id);
+
+    const updated = await collections.getById(owner.id);
+    expect(updated?.memberIds).toEqual([owner.id]);
+    expect(updated?.members[grandson.id]).toBeUndefined();
+  });
+
+  it('watches the collections a user belongs to', async () => {
+    const { collections, collection } = await setup();
+    const onNext = vi.fn();
+    const unsubscribe = collections.watchForMember(grandson.id, onNext, () => {});
+
+    const id = await collections.invite(collection, grandson.email, 'viewer', owner);
+    await collections.acceptInvite((await collections.getInvite(id))!, grandson);
+    unsubscribe();
+
+    expect(onNext.mock.calls[0][0]).toEqual([]);
+    expect(onNext.mock.lastCall?.[0].map((joined: StoryCollection) => joined.id)).toEqual([owner.id]);
+  });
+});
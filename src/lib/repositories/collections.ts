@@ -0,0 +1,197 @@
+import {
+  CollectionInvite,
+  CollectionMember,
+  CollectionRole,
+  InviteRole,
+  StoryCollection,
+} from '../../types/collection';
+import { DataBackend, DocumentFields, Unsubscribe, where } from './backend';
+import { createReader, FieldReader, parseAll } from './validation';
+
+const COLLECTIONS = 'collections';
+const INVITES = 'invites';
+
+export const COLLECTION_ROLES: readonly CollectionRole[] = ['owner', 'editor', 'commenter', 'viewer'];
+export const INVITE_ROLES: readonly InviteRole[] = ['editor', 'commenter', 'viewer'];
+
+export const DEFAULT_COLLECTION_NAME = 'Family Collection';
+
+// Invites are keyed by collection and address, so security rules can look up
+// the invite for the signed-in user without a query
+export const inviteId = (collectionId: string, email: string) =>
+  `${collectionId}:${email.trim().toLowerCase()}`;
+
+const parseMember = (reader: FieldReader): CollectionMember => ({
+  role: reader.oneOf('role', COLLECTION_ROLES),
+  name: reader.string('name'),
+  email: reader.string('email'),
+  joinedAt: reader.timestamp('joinedAt'),
+  inviteId: reader.optionalString('inviteId'),
+});
+
+export const parseCollection = (id: string, data: DocumentFields): StoryCollection => {
+  const reader = createReader(COLLECTIONS, id, data);
+  const members = reader.object('members');
+  const membersReader = createReader(COLLECTIONS, id, members);
+
+  return {
+    id,
+    name: reader.string('name'),
+    ownerId: reader.string('ownerId'),
+    memberIds: reader.stringArray('memberIds'),
+    members: Object.fromEntries(
+      Object.keys(members).map(userId => [userId, parseMember(membersReader.nested(userId))])
+    ),
+    createdAt: reader.timestamp('createdAt'),
+  };
+};
+
+export const parseInvite = (id: string, data: DocumentFields): CollectionInvite => {
+  const reader = createReader(INVITES, id, data);
+  return {
+    id,
+    collectionId: reader.string('collectionId'),
+    collectionName: reader.string('collectionName'),
+    email: reader.string('email'),
+    role: reader.oneOf('role', INVITE_ROLES),
+    invitedBy: reader.string('invitedBy'),
+    invitedByName: reader.string('invitedByName'),
+    status: reader.oneOf('status', ['pending', 'accepted', 'revoked'] as const),
+    createdAt: reader.timestamp('createdAt'),
+    acceptedBy: reader.optionalString('acceptedBy'),
+  };
+};
+
+export interface CollectionUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export const createCollectionRepository = (backend: DataBackend) => ({
+  async getById(id: string): Promise<StoryCollection | null> {
+    const raw = await backend.get(COLLECTIONS, id);
+    return raw ? parseCollection(raw.id, raw.data) : null;
+  },
+
+  // Every collection the user belongs to, including their own
+  watchForMember(
+    userId: string,
+    onNext: (collections: StoryCollection[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    return backend.watchQuery(
+      COLLECTIONS,
+      { where: [where('memberIds', 'array-contains', userId)] },
+      docs => onNext(parseAll(docs, parseCollection)),
+      onError
+    );
+  },
+
+  // Creates the user's own collection the first time they sign in
+  async ensureOwn(owner: CollectionUser): Promise<void> {
+    if (await backend.get(COLLECTIONS, owner.id)) return;
+
+    await backend.set(COLLECTIONS, owner.id, {
+      name: DEFAULT_COLLECTION_NAME,
+      ownerId: owner.id,
+      memberIds: [owner.id],
+      members: {
+        [owner.id]: {
+          role: 'owner',
+          name: owner.name,
+          email: owner.email,
+          joinedAt: backend.serverTimestamp(),
+        },
+      },
+      createdAt: backend.serverTimestamp(),
+    });
+  },
+
+  async rename(collectionId: string, name: string): Promise<void> {
+    await backend.update(COLLECTIONS, collectionId, { name: name.trim() });
+  },
+
+  async updateRole(collectionId: string, userId: string, role: InviteRole): Promise<void> {
+    await backend.update(COLLECTIONS, collectionId, { [`members.${userId}.role`]: role });
+  },
+
+  // Also used by members leaving a collection themselves
+  async removeMember(collectionId: string, userId: string): Promise<void> {
+    await backend.update(COLLECTIONS, collectionId, {
+      [`members.${userId}`]: backend.deleteField(),
+      memberIds: backend.arrayRemove(userId),
+    });
+  },
+
+  // Inviting the same address again replaces the earlier invite
+  async invite(
+    collection: StoryCollection,
+    email: string,
+    role: InviteRole,
+    invitedBy: CollectionUser
+  ): Promise<string> {
+    const id = inviteId(collection.id, email);
+    await backend.set(INVITES, id, {
+      collectionId: collection.id,
+      collectionName: collection.name,
+      email: email.trim().toLowerCase(),
+      role,
+      invitedBy: invitedBy.id,
+      invitedByName: invitedBy.name,
+      status: 'pending',
+      createdAt: backend.serverTimestamp(),
+    });
+    return id;
+  },
+
+  async getInvite(id: string): Promise<CollectionInvite | null> {
+    const raw = await backend.get(INVITES, id);
+    return raw ? parseInvite(raw.id, raw.data) : null;
+  },
+
+  watchPendingInvites(
+    collectionId: string,
+    onNext: (invites: CollectionInvite[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    return backend.watchQuery(
+      INVITES,
+      { where: [where('collectionId', '==', collectionId), where('status', '==', 'pending')] },
+      docs =>
+        onNext(
+          parseAll(docs, parseInvite).sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis())
+        ),
+      onError
+    );
+  },
+
+  async revokeInvite(id: string): Promise<void> {
+    await backend.update(INVITES, id, { status: 'revoked' });
+  },
+
+  /**
+   * Adds the user to the invite's collection with the invited role. The
+   * membership is written first: security rules only allow it while the
+   * invite is still pending.
+   */
+  async acceptInvite(invite: CollectionInvite, member: CollectionUser): Promise<void> {
+    if (invite.status !== 'pending') {
+      throw new Error(`Invite ${invite.id} is ${invite.status}`);
+    }
+
+    await backend.update(COLLECTIONS, invite.collectionId, {
+      [`members.${member.id}`]: {
+        role: invite.role,
+        name: member.name,
+        email: member.email,
+        joinedAt: backend.serverTimestamp(),
+        inviteId: invite.id,
+      },
+      memberIds: backend.arrayUnion(member.id),
+    });
+    await backend.update(INVITES, invite.id, { status: 'accepted', acceptedBy: member.id });
+  },
+});
+
+export type CollectionRepository = ReturnType<typeof createCollectionRepository>;
@@ -0,0 +1,224 @@
+import { Timestamp } from 'firebase/firestore';
+import { CommentAnchor, CommentTarget, ReactionKey, Reactions, StoryComment } from '../../types/comment';
+import { REACTION_EMOJI, REACTION_KEYS, threadIdFor } from '../comments';
+import { DataBackend, DocumentFields, Unsubscribe, where } from './backend';
+import { createNotificationRepository } from './notifications';
+import { createReader, FieldReader, parseAll } from './validation';
+
+const COMMENTS = 'comments';
+// Reactions on a story or chapter itself, keyed by thread id
+const REACTIONS = 'reactions';
+const readsPath = (userId: string) => `users/${userId}/comment_reads`;
+
+const PREVIEW_LENGTH = 140;
+
+const parseAnchor = (reader: FieldReader): CommentAnchor => {
+  const type = reader.oneOf('type', ['whole', 'session', 'selection'] as const);
+  switch (type) {
+    case 'whole':
+      return { type };
+    case 'session':
+      return { type, sessionId: reader.string('sessionId') };
+    case 'selection':
+      return { type, quote: reader.string('quote'), start: reader.number('start') };
+  }
+};
+
+// Stored as each user's reactions, so the rules can hold a user to their own entry; read as the users of each reaction
+const parseReactions = (value: unknown): Reactions => {
+  if (typeof value !== 'object' || value === null) return {};
+  const byUser = Object.entries(value as Record<string, unknown>);
+  return Object.fromEntries(
+    REACTION_KEYS.flatMap(key => {
+      const userIds = byUser.flatMap(([userId, keys]) => (Array.isArray(keys) && keys.includes(key) ? [userId] : []));
+      return userIds.length > 0 ? [[key, userIds]] : [];
+    })
+  );
+};
+
+export const parseComment = (id: string, data: DocumentFields): StoryComment => {
+  const reader = createReader(COMMENTS, id, data);
+  return {
+    id,
+    collectionId: reader.string('collectionId'),
+    threadId: reader.string('threadId'),
+    anchor: parseAnchor(reader.nested('anchor')),
+    parentId: reader.nullableString('parentId'),
+    authorId: reader.string('authorId'),
+    authorName: reader.string('authorName'),
+    body: reader.string('body'),
+    reactions: parseReactions(reader.raw('reactions')),
+    createdAt: reader.timestamp('createdAt'),
+    editedAt: reader.optionalTimestamp('editedAt'),
+    deleted: reader.optionalBoolean('deleted') ?? false,
+  };
+};
+
+export interface CommentAuthor {
+  id: string;
+  name: string;
+}
+
+// Where the storyteller's notification sends them, and what it calls the target
+export interface CommentContext {
+  target: CommentTarget;
+  collectionId: string;
+  title: string;
+  link: string;
+}
+
+export interface NewComment {
+  anchor: CommentAnchor;
+  parentId: string | null;
+  body: string;
+}
+
+const byCreationTime = (a: StoryComment, b: StoryComment) => a.createdAt.toMillis() - b.createdAt.toMillis();
+
+export const createCommentRepository = (backend: DataBackend) => {
+  const notifications = createNotificationRepository(backend);
+
+  // The storyteller is told about activity by everyone else
+  const notifyOwner = async (
+    context: CommentContext,
+    author: CommentAuthor,
+    type: 'comment' | 'reply' | 'reaction',
+    preview: string
+  ) => {
+    if (author.id === context.collectionId) return;
+
+    try {
+      await notifications.create(context.collectionId, {
+        type,
+        actorId: author.id,
+        actorName: author.name,
+        threadId: threadIdFor(context.target),
+        link: context.link,
+        targetTitle: context.title,
+        preview: preview.slice(0, PREVIEW_LENGTH),
+      });
+    } catch (error) {
+      // The comment itself was saved; a missed notification is not worth failing for
+      console.error('Error creating notification:', error);
+    }
+  };
+
+  return {
+    // Oldest first
+    watchByThread(
+      threadId: string,
+      onNext: (comments: StoryComment[]) => void,
+      onError: (error: Error) => void
+    ): Unsubscribe {
+      return backend.watchQuery(
+        COMMENTS,
+        { where: [where('threadId', '==', threadId)] },
+        docs => onNext(parseAll(docs, parseComment).sort(byCreationTime)),
+        onError
+      );
+    },
+
+    // Every comment in a collection, for unread counts
+    watchByCollection(
+      collectionId: string,
+      onNext: (comments: StoryComment[]) => void,
+      onError: (error: Error) => void
+    ): Unsubscribe {
+      return backend.watchQuery(
+        COMMENTS,
+        { where: [where('collectionId', '==', collectionId)] },
+        docs => onNext(parseAll(docs, parseComment)),
+        onError
+      );
+    },
+
+    async add(context: CommentContext, author: CommentAuthor, comment: NewComment): Promise<string> {
+      const body = comment.body.trim();
+      const id = await backend.add(COMMENTS, {
+        collectionId: context.collectionId,
+        threadId: threadIdFor(context.target),
+        anchor: comment.anchor,
+        parentId: comment.parentId,
+        authorId: author.id,
+        authorName: author.name,
+        body,
+        reactions: {},
+        createdAt: backend.serverTimestamp(),
+        deleted: false,
+      });
+      await notifyOwner(context, author, comment.parentId ? 'reply' : 'comment', body);
+      return id;
+    },
+
+    async edit(id: string, body: string): Promise<void> {
+      await backend.update(COMMENTS, id, { body: body.trim(), editedAt: backend.serverTimestamp() });
+    },
+
+    // Comments are blanked rather than deleted so their replies keep their place
+    async remove(id: string): Promise<void> {
+      await backend.update(COMMENTS, id, { body: '', deleted: true });
+    },
+
+    async toggleCommentReaction(id: string, key: ReactionKey, userId: string, active: boolean): Promise<void> {
+      await backend.update(COMMENTS, id, {
+        [`reactions.${userId}`]: active ? backend.arrayUnion(key) : backend.arrayRemove(key),
+      });
+    },
+
+    watchTargetReactions(
+      threadId: string,
+      onNext: (reactions: Reactions) => void,
+      onError: (error: Error) => void
+    ): Unsubscribe {
+      return backend.watch(
+        REACTIONS,
+        threadId,
+        doc => onNext(doc ? parseReactions(doc.data.reactions) : {}),
+        onError
+      );
+    },
+
+    async toggleTargetReaction(
+      context: CommentContext,
+      author: CommentAuthor,
+      key: ReactionKey,
+      active: boolean
+    ): Promise<void> {
+      const id = threadIdFor(context.target);
+      if (!(await backend.get(REACTIONS, id))) {
+        await backend.set(REACTIONS, id, { collectionId: context.collectionId, reactions: {} });
+      }
+      await backend.update(REACTIONS, id, {
+        [`reactions.${author.id}`]: active ? backend.arrayUnion(key) : backend.arrayRemove(key),
+      });
+      if (active) {
+        await notifyOwner(context, author, 'reaction', REACTION_EMOJI[key]);
+      }
+    },
+
+    // When the user last opened each thread
+    watchReads(
+      userId: string,
+      onNext: (reads: Record<string, Timestamp>) => void,
+      onError: (error: Error) => void
+    ): Unsubscribe {
+      return backend.watchQuery(
+        readsPath(userId),
+        {},
+        docs =>
+          onNext(
+            Object.fromEntries(
+              parseAll(docs, (id, data) => [id, createReader('comment_reads', id, data).timestamp('lastReadAt')] as const)
+            )
+          ),
+        onError
+      );
+    },
+
+    async markRead(userId: string, threadId: string): Promise<void> {
+      await backend.set(readsPath(userId), threadId, { lastReadAt: backend.serverTimestamp() });
+    },
+  };
+};
+
+export type CommentRepository = ReturnType<typeof createCommentRepository>;
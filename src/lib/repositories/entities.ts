@@ -0,0 +1,52 @@
+import { Entity } from '../../types/entity';
+import { DataBackend, DocumentFields } from './backend';
+import { createReader, parseAll } from './validation';
+
+// Each storyteller's index, which their family members can browse
+const entitiesPath = (userId: string) => `users/${userId}/entities`;
+
+export const parseEntity = (id: string, data: DocumentFields): Entity => {
+  const reader = createReader('entities', id, data);
+  const year = reader.has('year') ? reader.number('year') : undefined;
+  return {
+    id,
+    kind: reader.oneOf('kind', ['person', 'place', 'date'] as const),
+    name: reader.string('name'),
+    aliases: reader.stringArray('aliases'),
+    storyIds: reader.stringArray('storyIds'),
+    mentionCount: reader.number('mentionCount'),
+    ...(year !== undefined ? { year, decade: reader.optionalBoolean('decade') ?? false } : {}),
+    edited: reader.optionalBoolean('edited') ?? false,
+    ignored: reader.optionalBoolean('ignored') ?? false,
+    updatedAt: reader.timestamp('updatedAt'),
+  };
+};
+
+export type NewEntity = Omit<Entity, 'id' | 'updatedAt'>;
+
+export type EntityUpdate = Partial<Omit<Entity, 'id' | 'kind' | 'updatedAt'>>;
+
+export const createEntityRepository = (backend: DataBackend) => ({
+  async listByUser(userId: string): Promise<Entity[]> {
+    return parseAll(await backend.query(entitiesPath(userId)), parseEntity);
+  },
+
+  async getById(userId: string, id: string): Promise<Entity | null> {
+    const raw = await backend.get(entitiesPath(userId), id);
+    return raw ? parseEntity(raw.id, raw.data) : null;
+  },
+
+  async create(userId: string, entity: NewEntity): Promise<string> {
+    return backend.add(entitiesPath(userId), { ...entity, updatedAt: backend.serverTimestamp() });
+  },
+
+  async update(userId: string, id: string, changes: EntityUpdate): Promise<void> {
+    await backend.update(entitiesPath(userId), id, { ...changes, updatedAt: backend.serverTimestamp() });
+  },
+
+  async remove(userId: string, id: string): Promise<void> {
+    await backend.remove(entitiesPath(userId), id);
+  },
+});
+
+export type EntityRepository = ReturnType<typeof createEntityRepository>;
@@ -0,0 +1,126 @@
+import {
+  addDoc,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QueryConstraint,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  SnapshotOptions,
+  startAfter,
+  UpdateData,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { DataBackend, DocumentFields, QuerySpec } from './backend';
+
+// Firestore rejects `undefined` values, so optional fields are dropped before writing
+const stripUndefined = (data: DocumentFields): DocumentFields =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+// Local writes fire listeners before serverTimestamp() fields resolve; estimate them instead of reading null
+const SNAPSHOT_OPTIONS: SnapshotOptions = { serverTimestamps: 'estimate' };
+
+const buildConstraints = (spec: QuerySpec): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = (spec.where || []).map(clause =>
+    where(clause.field, clause.op, clause.value)
+  );
+
+  if (spec.orderBy) {
+    constraints.push(orderBy(spec.orderBy.field, spec.orderBy.direction));
+  }
+
+  return constraints;
+};
+
+const buildQuery = async (collectionPath: string, spec: QuerySpec) => {
+  const constraints = buildConstraints(spec);
+
+  if (spec.startAfter) {
+    const cursor = await getDoc(doc(db, collectionPath, spec.startAfter));
+    if (cursor.exists()) {
+      constraints.push(startAfter(cursor));
+    }
+  }
+
+  if (spec.limit !== undefined) {
+    constraints.push(limit(spec.limit));
+  }
+
+  return query(collection(db, collectionPath), ...constraints);
+};
+
+export const firestoreBackend: DataBackend = {
+  async get(collectionPath, id) {
+    const snapshot = await getDoc(doc(db, collectionPath, id));
+    return snapshot.exists() ? { id: snapshot.id, data: snapshot.data() } : null;
+  },
+
+  async query(collectionPath, spec = {}) {
+    const snapshot = await getDocs(await buildQuery(collectionPath, spec));
+    return snapshot.docs.map(snap => ({ id: snap.id, data: snap.data() }));
+  },
+
+  async add(collectionPath, data) {
+    const ref = await addDoc(collection(db, collectionPath), stripUndefined(data));
+    return ref.id;
+  },
+
+  async set(collectionPath, id, data) {
+    await setDoc(doc(db, collectionPath, id), stripUndefined(data));
+  },
+
+  async create(collectionPath, id, data) {
+    const ref = doc(db, collectionPath, id);
+    return runTransaction(db, async transaction => {
+      if ((await transaction.get(ref)).exists()) return false;
+      transaction.set(ref, stripUndefined(data));
+      return true;
+    });
+  },
+
+  async update(collectionPath, id, data) {
+    await updateDoc(doc(db, collectionPath, id), stripUndefined(data) as UpdateData<DocumentFields>);
+  },
+
+  async remove(collectionPath, id) {
+    await deleteDoc(doc(db, collectionPath, id));
+  },
+
+  watch(collectionPath, id, onNext, onError) {
+    return onSnapshot(
+      doc(db, collectionPath, id),
+      snapshot =>
+        onNext(snapshot.exists() ? { id: snapshot.id, data: snapshot.data(SNAPSHOT_OPTIONS) } : null),
+      onError
+    );
+  },
+
+  watchQuery(collectionPath, spec, onNext, onError) {
+    const constraints = buildConstraints(spec);
+    if (spec.limit !== undefined) {
+      constraints.push(limit(spec.limit));
+    }
+    return onSnapshot(
+      query(collection(db, collectionPath), ...constraints),
+      snapshot => onNext(snapshot.docs.map(snap => ({ id: snap.id, data: snap.data(SNAPSHOT_OPTIONS) }))),
+      onError
+    );
+  },
+
+  serverTimestamp,
+  deleteField,
+  arrayUnion,
+  arrayRemove,
+};
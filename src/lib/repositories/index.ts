@@ -0,0 +1,60 @@
+import { createContext, useContext } from 'react';
+import { DataBackend } from './backend';
+import { firestoreBackend } from './firestoreBackend';
+import { createBookRepository } from './books';
+import { createCallHistoryRepository } from './callHistory';
+import { createCategoryRepository } from './categories';
+import { createCollectionRepository } from './collections';
+import { createCommentRepository } from './comments';
+import { createEntityRepository } from './entities';
+import { createNotificationRepository } from './notifications';
+import { createProfileRepository } from './profiles';
+import { createReminderRepository } from './reminders';
+import { createRevisionRepository } from './revisions';
+import { createScheduleRepository } from './schedules';
+import { createStoryRepository } from './stories';
+import { createUpcomingQuestionRepository } from './upcomingQuestions';
+
+export const createRepositories = (backend: DataBackend) => ({
+  stories: createStoryRepository(backend),
+  categories: createCategoryRepository(backend),
+  books: createBookRepository(backend),
+  upcomingQuestions: createUpcomingQuestionRepository(backend),
+  callHistory: createCallHistoryRepository(backend),
+  revisions: createRevisionRepository(backend),
+  collections: createCollectionRepository(backend),
+  comments: createCommentRepository(backend),
+  notifications: createNotificationRepository(backend),
+  schedules: createScheduleRepository(backend),
+  reminders: createReminderRepository(backend),
+  entities: createEntityRepository(backend),
+  profiles: createProfileRepository(backend),
+});
+
+export type Repositories = ReturnType<typeof createRepositories>;
+
+export const repositories = createRepositories(firestoreBackend);
+
+// Views read repositories from context so tests can provide ones backed by createMemoryBackend()
+export const RepositoryContext = createContext<Repositories>(repositories);
+
+export const useRepositories = () => useContext(RepositoryContext);
+
+export type { DataBackend, DocumentFields, QuerySpec, RawDocument, Unsubscribe, WhereClause } from './backend';
+export { where } from './backend';
+export { createMemoryBackend } from './memoryBackend';
+export type { MemoryBackend } from './memoryBackend';
+export { ValidationError } from './validation';
+export { ACTIVE_SCHEDULE_STATUSES, isCompletedStory, isContinuableStory } from './stories';
+export type { CustomCategoryFields, NewQuestionSuggestion } from './categories';
+export type { NewStory, NewStorySchedule, StoryUpdate } from './stories';
+export type { BookUpdate } from './books';
+export type { CallHistoryPage } from './callHistory';
+export type { RevisionAuthor, StoryContent } from './revisions';
+export { COLLECTION_ROLES, DEFAULT_COLLECTION_NAME, INVITE_ROLES, inviteId } from './collections';
+export type { CollectionUser } from './collections';
+export type { CommentAuthor, CommentContext, NewComment } from './comments';
+export type { NewRecurringSchedule } from './schedules';
+export { isAvailableQuestion } from './upcomingQuestions';
+export type { NewUpcomingQuestion } from './upcomingQuestions';
+export type { EntityUpdate, NewEntity } from './entities';
@@ -0,0 +1,248 @@
+import { Timestamp } from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { DataBackend, DocumentFields, QuerySpec, RawDocument, WhereClause } from './backend';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+// Copies plain objects and arrays but keeps Timestamp/Date instances intact
+const clone = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map(clone) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, clone(v)])
+    ) as T;
+  }
+  return value;
+};
+
+const getField = (data: DocumentFields, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (current, key) => (isPlainObject(current) ? current[key] : undefined),
+    data
+  );
+
+const setField = (data: DocumentFields, path: string, value: unknown) => {
+  const keys = path.split('.');
+  let target = data;
+  keys.slice(0, -1).forEach(key => {
+    if (!isPlainObject(target[key])) {
+      target[key] = {};
+    }
+    target = target[key] as DocumentFields;
+  });
+  target[keys[keys.length - 1]] = value;
+};
+
+// Update values computed from the field's current value, like Firestore's FieldValue sentinels
+class FieldTransform {
+  apply: (current: unknown) => unknown;
+
+  constructor(apply: (current: unknown) => unknown) {
+    this.apply = apply;
+  }
+}
+
+const DELETED = Symbol('deleted');
+
+const deleteFieldAt = (data: DocumentFields, path: string) => {
+  const keys = path.split('.');
+  const parent = keys.length > 1 ? getField(data, keys.slice(0, -1).join('.')) : data;
+  if (isPlainObject(parent)) {
+    delete parent[keys[keys.length - 1]];
+  }
+};
+
+const comparable = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return value;
+};
+
+const compare = (a: unknown, b: unknown): number => {
+  const left = comparable(a) as number | string;
+  const right = comparable(b) as number | string;
+  if (left === right) return 0;
+  if (left === undefined || left === null) return -1;
+  if (right === undefined || right === null) return 1;
+  return left < right ? -1 : 1;
+};
+
+const matches = (data: DocumentFields, clause: WhereClause): boolean => {
+  const value = getField(data, clause.field);
+  switch (clause.op) {
+    case '==':
+      return compare(value, clause.value) === 0;
+    case '!=':
+      return value !== undefined && compare(value, clause.value) !== 0;
+    case '<':
+      return value !== undefined && compare(value, clause.value) < 0;
+    case '<=':
+      return value !== undefined && compare(value, clause.value) <= 0;
+    case '>':
+      return value !== undefined && compare(value, clause.value) > 0;
+    case '>=':
+      return value !== undefined && compare(value, clause.value) >= 0;
+    case 'in':
+      return Array.isArray(clause.value) && clause.value.some(v => compare(value, v) === 0);
+    case 'array-contains':
+      return Array.isArray(value) && value.some(v => compare(v, clause.value) === 0);
+  }
+};
+
+export interface MemoryBackend extends DataBackend {
+  // Replaces the contents of a collection, e.g. to seed fixtures
+  seed(collectionPath: string, docs: Record<string, DocumentFields>): void;
+  dump(collectionPath: string): Record<string, DocumentFields>;
+}
+
+/**
+ * In-memory implementation of the data backend, for exercising repositories
+ * and views without a Firebase project.
+ */
+export const createMemoryBackend = (): MemoryBackend => {
+  const collections = new Map<string, Map<string, DocumentFields>>();
+  const listeners = new Set<() => void>();
+
+  const getCollection = (path: string) => {
+    let docs = collections.get(path);
+    if (!docs) {
+      docs = new Map();
+      collections.set(path, docs);
+    }
+    return docs;
+  };
+
+  const readDoc = (collectionPath: string, id: string): RawDocument | null => {
+    const data = getCollection(collectionPath).get(id);
+    return data ? { id, data: clone(data) } : null;
+  };
+
+  const runQuery = (collectionPath: string, spec: QuerySpec): RawDocument[] => {
+    let results = Array.from(getCollection(collectionPath).entries())
+      .filter(([, data]) => (spec.where || []).every(clause => matches(data, clause)))
+      .map(([id, data]) => ({ id, data: clone(data) }));
+
+    if (spec.orderBy) {
+      const { field, direction } = spec.orderBy;
+      results = results
+        .filter(result => getField(result.data, field) !== undefined)
+        .sort((a, b) => {
+          const order = compare(getField(a.data, field), getField(b.data, field));
+          return direction === 'desc' ? -order : order;
+        });
+    }
+
+    if (spec.startAfter) {
+      const index = results.findIndex(result => result.id === spec.startAfter);
+      if (index >= 0) {
+        results = results.slice(index + 1);
+      }
+    }
+
+    return spec.limit !== undefined ? results.slice(0, spec.limit) : results;
+  };
+
+  // Watchers re-read after every write, like a snapshot listener would
+  const notify = () => listeners.forEach(listener => listener());
+
+  const listen = (listener: () => void) => {
+    listeners.add(listener);
+    listener();
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    async get(collectionPath, id) {
+      return readDoc(collectionPath, id);
+    },
+
+    async query(collectionPath, spec = {}) {
+      return runQuery(collectionPath, spec);
+    },
+
+    async add(collectionPath, data) {
+      const id = uuidv4();
+      getCollection(collectionPath).set(id, clone(data));
+      notify();
+      return id;
+    },
+
+    async set(collectionPath, id, data) {
+      getCollection(collectionPath).set(id, clone(data));
+      notify();
+    },
+
+    async create(collectionPath, id, data) {
+      const docs = getCollection(collectionPath);
+      if (docs.has(id)) return false;
+      docs.set(id, clone(data));
+      notify();
+      return true;
+    },
+
+    async update(collectionPath, id, data) {
+      const existing = getCollection(collectionPath).get(id);
+      if (!existing) {
+        throw new Error(`No document to update: ${collectionPath}/${id}`);
+      }
+      Object.entries(data).forEach(([path, value]) => {
+        const resolved = value instanceof FieldTransform ? value.apply(getField(existing, path)) : value;
+        if (resolved === DELETED) {
+          deleteFieldAt(existing, path);
+        } else if (resolved !== undefined) {
+          setField(existing, path, clone(resolved));
+        }
+      });
+      notify();
+    },
+
+    async remove(collectionPath, id) {
+      getCollection(collectionPath).delete(id);
+      notify();
+    },
+
+    watch(collectionPath, id, onNext) {
+      return listen(() => onNext(readDoc(collectionPath, id)));
+    },
+
+    watchQuery(collectionPath, spec, onNext) {
+      return listen(() => onNext(runQuery(collectionPath, { ...spec, startAfter: undefined })));
+    },
+
+    serverTimestamp: () => Timestamp.now(),
+
+    deleteField: () => new FieldTransform(() => DELETED),
+
+    arrayUnion: (...values) =>
+      new FieldTransform(current => {
+        const items = Array.isArray(current) ? current : [];
+        return [...items, ...values.filter(value => !items.some(item => compare(item, value) === 0))];
+      }),
+
+    arrayRemove: (...values) =>
+      new FieldTransform(current =>
+        (Array.isArray(current) ? current : []).filter(item => !values.some(value => compare(item, value) === 0))
+      ),
+
+    seed(collectionPath, docs) {
+      collections.set(
+        collectionPath,
+        new Map(Object.entries(docs).map(([id, data]) => [id, clone(data)]))
+      );
+      notify();
+    },
+
+    dump(collectionPath) {
+      return Object.fromEntries(
+        Array.from(getCollection(collectionPath).entries()).map(([id, data]) => [id, clone(data)])
+      );
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import { ActivityNotification } from '../../types/comment';
+import { DataBackend, DocumentFields, Unsubscribe } from './backend';
+import { createReader, parseAll } from './validation';
+
+const notificationsPath = (userId: string) => `users/${userId}/notifications`;
+
+const FEED_SIZE = 50;
+
+export const parseNotification = (id: string, data: DocumentFields): ActivityNotification => {
+  const reader = createReader('notifications', id, data);
+  return {
+    id,
+    type: reader.oneOf('type', ['comment', 'reply', 'reaction'] as const),
+    actorId: reader.string('actorId'),
+    actorName: reader.string('actorName'),
+    threadId: reader.string('threadId'),
+    link: reader.string('link'),
+    targetTitle: reader.string('targetTitle'),
+    preview: reader.string('preview'),
+    createdAt: reader.timestamp('createdAt'),
+    read: reader.optionalBoolean('read') ?? false,
+  };
+};
+
+export type NewNotification = Omit<ActivityNotification, 'id' | 'createdAt' | 'read'>;
+
+export const createNotificationRepository = (backend: DataBackend) => ({
+  // Most recent activity first
+  watchByUser(
+    userId: string,
+    onNext: (notifications: ActivityNotification[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    return backend.watchQuery(
+      notificationsPath(userId),
+      { orderBy: { field: 'createdAt', direction: 'desc' }, limit: FEED_SIZE },
+      docs => onNext(parseAll(docs, parseNotification)),
+      onError
+    );
+  },
+
+  async create(userId: string, notification: NewNotification): Promise<string> {
+    return backend.add(notificationsPath(userId), {
+      ...notification,
+      createdAt: backend.serverTimestamp(),
+      read: false,
+    });
+  },
+
+  async markRead(userId: string, ids: string[]): Promise<void> {
+    await Promise.all(ids.map(id => backend.update(notificationsPath(userId), id, { read: true })));
+  },
+});
+
+export type NotificationRepository = ReturnType<typeof createNotificationRepository>;
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryBackend } from './memoryBackend';
+import { createProfileRepository } from './profiles';
+
+const setup = async () => {
+  const backend = createMemoryBackend();
+  backend.seed('users', { 'user-1': { name: 'Rose', email: 'rose@example.com', isOnboarded: true } });
+  const profiles = createProfileRepository(backend);
+  await profiles.savePublic('user-1', { name: 'Rose' });
+  return { backend, profiles };
+};
+
+describe('profile repository', () => {
+  it('shares only the name and birth year', async () => {
+    const { backend } = await setup();
+
+    expect(backend.dump('users/user-1/public')).toEqual({ profile: { name: 'Rose' } });
+  });
+
+  it('keeps the public profile in step with the private one', async () => {
+    const { backend, profiles } = await setup();
+
+    await profiles.update('user-1', { name: 'Rose Miller', birthYear: 1948 });
+
+    expect(await profiles.getPublic('user-1')).toEqual({ name: 'Rose Miller', birthYear: 1948 });
+    expect(backend.dump('users')['user-1']).toMatchObject({ name: 'Rose Miller', birthYear: 1948, isOnboarded: true });
+  });
+});
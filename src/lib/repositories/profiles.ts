@@ -0,0 +1,41 @@
+import { PublicProfile } from '../../types/user';
+import { DataBackend, DocumentFields } from './backend';
+import { createReader } from './validation';
+
+const USERS = 'users';
+// A single document next to the private profile, which only its owner can read
+const publicPath = (userId: string) => `users/${userId}/public`;
+const PUBLIC_PROFILE_ID = 'profile';
+
+export const parsePublicProfile = (id: string, data: DocumentFields): PublicProfile => {
+  const reader = createReader('public', id, data);
+  const birthYear = reader.has('birthYear') ? reader.number('birthYear') : undefined;
+  return {
+    name: reader.string('name'),
+    ...(birthYear !== undefined ? { birthYear } : {}),
+  };
+};
+
+export const createProfileRepository = (backend: DataBackend) => ({
+  async getPublic(userId: string): Promise<PublicProfile | null> {
+    const raw = await backend.get(publicPath(userId), PUBLIC_PROFILE_ID);
+    return raw ? parsePublicProfile(raw.id, raw.data) : null;
+  },
+
+  // Copies the shareable fields out of the user's own profile
+  async savePublic(userId: string, profile: PublicProfile): Promise<void> {
+    await backend.set(publicPath(userId), PUBLIC_PROFILE_ID, {
+      name: profile.name,
+      ...(profile.birthYear !== undefined ? { birthYear: profile.birthYear } : {}),
+    });
+  },
+
+  // Saves the shareable fields to both profiles, so members never see stale ones. The public
+  // document is written at sign-up and every sign-in, so it exists by the time the user edits anything
+  async update(userId: string, changes: Partial<PublicProfile>): Promise<void> {
+    await backend.update(USERS, userId, { ...changes, updatedAt: backend.serverTimestamp() });
+    await backend.update(publicPath(userId), PUBLIC_PROFILE_ID, { ...changes });
+  },
+});
+
+export type ProfileRepository = ReturnType<typeof createProfileRepository>;
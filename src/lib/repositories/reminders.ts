@@ -0,0 +1,54 @@
+import { CallReminder, NewCallReminder } from '../../types/reminder';
+import { reminderId } from '../bookings';
+import { DataBackend, DocumentFields, where } from './backend';
+import { createReader, parseAll } from './validation';
+
+const COLLECTION = 'reminders';
+
+export const parseCallReminder = (id: string, data: DocumentFields): CallReminder => {
+  const reader = createReader(COLLECTION, id, data);
+  return {
+    id,
+    userId: reader.string('userId'),
+    storyId: reader.string('storyId'),
+    channel: reader.oneOf('channel', ['email', 'sms'] as const),
+    to: reader.string('to'),
+    sendAt: reader.timestamp('sendAt'),
+    callAt: reader.timestamp('callAt'),
+    timeZone: reader.string('timeZone'),
+    question: reader.string('question'),
+    offsetMinutes: reader.number('offsetMinutes'),
+    status: reader.oneOf('status', ['pending', 'sent', 'failed'] as const),
+  };
+};
+
+export const createReminderRepository = (backend: DataBackend) => {
+  const listForStory = async (userId: string, storyId: string): Promise<CallReminder[]> => {
+    const docs = await backend.query(COLLECTION, {
+      where: [where('userId', '==', userId), where('storyId', '==', storyId)],
+    });
+    return parseAll(docs, parseCallReminder);
+  };
+
+  const removeForStory = async (userId: string, storyId: string): Promise<void> => {
+    const reminders = await listForStory(userId, storyId);
+    await Promise.all(reminders.map(reminder => backend.remove(COLLECTION, reminder.id)));
+  };
+
+  return {
+    listForStory,
+
+    removeForStory,
+
+    async replaceForStory(userId: string, storyId: string, reminders: NewCallReminder[]): Promise<void> {
+      await removeForStory(userId, storyId);
+      await Promise.all(
+        reminders.map(reminder =>
+          backend.set(COLLECTION, reminderId(reminder), { ...reminder, status: 'pending' })
+        )
+      );
+    },
+  };
+};
+
+export type ReminderRepository = ReturnType<typeof createReminderRepository>;
@@ -0,0 +1,119 @@
+import { Story } from '../../types/story';
+import { RevisionSource, StoryRevision } from '../../types/revision';
+import { sanitizeHtml } from '../sanitize';
+import { DataBackend, DocumentFields, Unsubscribe } from './backend';
+import { createReader, parseAll } from './validation';
+
+const STORIES = 'stories';
+const revisionsPath = (storyId: string) => `${STORIES}/${storyId}/revisions`;
+
+export const parseRevision = (id: string, data: DocumentFields): StoryRevision => {
+  const reader = createReader('revisions', id, data);
+  return {
+    id,
+    title: reader.nullableString('title'),
+    description: reader.nullableString('description'),
+    storyText: reader.nullableString('storyText'),
+    authorId: reader.nullableString('authorId'),
+    authorName: reader.nullableString('authorName'),
+    createdAt: reader.timestamp('createdAt'),
+    source: reader.oneOf('source', ['original', 'edit', 'restore'] as const),
+    restoredFrom: reader.optionalString('restoredFrom'),
+  };
+};
+
+export type StoryContent = Pick<Story, 'title' | 'description' | 'storyText'>;
+
+export interface RevisionAuthor {
+  id: string;
+  name: string | null;
+}
+
+const NEWEST_FIRST = { orderBy: { field: 'createdAt', direction: 'desc' as const } };
+
+export const createRevisionRepository = (backend: DataBackend) => {
+  const append = (
+    storyId: string,
+    content: StoryContent,
+    author: RevisionAuthor,
+    source: RevisionSource,
+    restoredFrom?: string
+  ) =>
+    backend.add(revisionsPath(storyId), {
+      ...content,
+      authorId: author.id,
+      authorName: author.name,
+      createdAt: backend.serverTimestamp(),
+      source,
+      restoredFrom,
+    });
+
+  /**
+   * Writes new content to the story and appends it to the story's history.
+   * The first save also records the content it replaces, so the generated
+   * version can always be restored.
+   */
+  const save = async (
+    story: Story,
+    changes: StoryContent,
+    author: RevisionAuthor,
+    source: RevisionSource = 'edit',
+    restoredFrom?: string
+  ): Promise<string> => {
+    const content: StoryContent = {
+      title: changes.title?.trim() || null,
+      description: changes.description?.trim() || null,
+      storyText: changes.storyText ? sanitizeHtml(changes.storyText) : null,
+    };
+
+    const existing = await backend.query(revisionsPath(story.id), { limit: 1 });
+    if (existing.length === 0) {
+      await append(
+        story.id,
+        { title: story.title, description: story.description, storyText: story.storyText },
+        // Recorded by whoever edits first, but nobody wrote it, so no name is shown
+        { id: author.id, name: null },
+        'original'
+      );
+    }
+
+    await backend.update(STORIES, story.id, {
+      ...content,
+      lastUpdationTime: backend.serverTimestamp(),
+    });
+    return append(story.id, content, author, source, restoredFrom);
+  };
+
+  return {
+    async listByStory(storyId: string): Promise<StoryRevision[]> {
+      return parseAll(await backend.query(revisionsPath(storyId), NEWEST_FIRST), parseRevision);
+    },
+
+    watchByStory(
+      storyId: string,
+      onNext: (revisions: StoryRevision[]) => void,
+      onError: (error: Error) => void
+    ): Unsubscribe {
+      return backend.watchQuery(
+        revisionsPath(storyId),
+        NEWEST_FIRST,
+        docs => onNext(parseAll(docs, parseRevision)),
+        onError
+      );
+    },
+
+    save,
+
+    async restore(story: Story, revision: StoryRevision, author: RevisionAuthor): Promise<string> {
+      return save(
+        story,
+        { title: revision.title, description: revision.description, storyText: revision.storyText },
+        author,
+        'restore',
+        revision.id
+      );
+    },
+  };
+};
+
+export type RevisionRepository = ReturnType<typeof createRevisionRepository>;
@@ -0,0 +1,71 @@
+import { LocalDateTime, OccurrenceChange, RecurringSchedule } from '../../types/schedule';
+import { DataBackend, DocumentFields } from './backend';
+import { parseRetryPolicy } from './stories';
+import { createReader, FieldReader, parseAll } from './validation';
+
+const schedulesPath = (userId: string) => `users/${userId}/schedules`;
+
+const parseChange = (reader: FieldReader): OccurrenceChange =>
+  reader.oneOf('type', ['skip', 'reschedule'] as const) === 'skip'
+    ? { type: 'skip' }
+    : { type: 'reschedule', dateTime: reader.string('dateTime') };
+
+export const parseRecurringSchedule = (id: string, data: DocumentFields): RecurringSchedule => {
+  const reader = createReader('schedules', id, data);
+  const exceptions = reader.has('exceptions') ? reader.nested('exceptions') : null;
+
+  return {
+    id,
+    userId: reader.string('userId'),
+    categoryId: reader.string('categoryId'),
+    initialQuestion: reader.string('initialQuestion'),
+    phoneNumber: reader.string('phoneNumber'),
+    rrule: reader.string('rrule'),
+    start: reader.string('start'),
+    timeZone: reader.string('timeZone'),
+    endDate: reader.nullableString('endDate'),
+    ...(reader.has('retryPolicy') ? { retryPolicy: parseRetryPolicy(reader.nested('retryPolicy')) } : {}),
+    exceptions: exceptions
+      ? Object.fromEntries(
+          Object.keys(reader.object('exceptions')).map(key => [key, parseChange(exceptions.nested(key))])
+        )
+      : {},
+    createdAt: reader.timestamp('createdAt'),
+  };
+};
+
+export type NewRecurringSchedule = Omit<RecurringSchedule, 'id' | 'exceptions' | 'createdAt'>;
+
+export const createScheduleRepository = (backend: DataBackend) => ({
+  // Oldest first
+  async listByUser(userId: string): Promise<RecurringSchedule[]> {
+    const schedules = parseAll(await backend.query(schedulesPath(userId)), parseRecurringSchedule);
+    return schedules.sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+  },
+
+  async create(schedule: NewRecurringSchedule): Promise<string> {
+    return backend.add(schedulesPath(schedule.userId), {
+      ...schedule,
+      exceptions: {},
+      createdAt: backend.serverTimestamp(),
+    });
+  },
+
+  // Skips or moves one occurrence; null puts it back as the rule has it
+  async setException(
+    userId: string,
+    id: string,
+    occurrence: LocalDateTime,
+    change: OccurrenceChange | null
+  ): Promise<void> {
+    await backend.update(schedulesPath(userId), id, {
+      [`exceptions.${occurrence}`]: change ?? backend.deleteField(),
+    });
+  },
+
+  async remove(userId: string, id: string): Promise<void> {
+    await backend.remove(schedulesPath(userId), id);
+  },
+});
+
+export type ScheduleRepository = ReturnType<typeof createScheduleRepository>;
@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { createMemoryBackend } from './memoryBackend';
+import { createStoryRepository, parseStory } from './stories';
+import { ValidationError } from './validation';
+
+const at = (iso: string) => Timestamp.fromDate(new Date(iso));
+
+const storyFields = (overrides: Record<string, unknown> = {}) => ({
+  userId: 'user-1',
+  categoryId: 'childhood',
+  title: 'The old farm',
+  description: null,
+  storyText: 'We kept goats.',
+  creationTime: at('2024-01-01T10:00:00Z'),
+  lastUpdationTime: at('2024-01-02T10:00:00Z'),
+  initialQuestion: 'Where did you grow up?',
+  sessions: {
+    'session-1': { callId: 'call-1', creationTime: at('2024-01-01T10:00:00Z'), transcript: 'Hello' },
+  },
+  storySummary: null,
+  nextSchedule: null,
+  ...overrides,
+});
+
+const setup = () => {
+  const backend = createMemoryBackend();
+  return { backend, stories: createStoryRepository(backend) };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseStory', () => {
+  it('reads a well-formed story', () => {
+    const story = parseStory('story-1', storyFields());
+
+    expect(story.title).toBe('The old farm');
+    expect(story.sessions['session-1'].callId).toBe('call-1');
+    expect(story.nextSchedule).toBeNull();
+    expect(story.eventDate).toBeNull();
+  });
+
+  it('names the document and field that failed', () => {
+    expect(() => parseStory('story-1', storyFields({ userId: 42 }))).toThrow(ValidationError);
+    expect(() => parseStory('story-1', storyFields({ userId: 42 }))).toThrow(/stories\/story-1.*userId/);
+  });
+
+  it('rejects a session without a call id', () => {
+    const sessions = { 'session-1': { creationTime: at('2024-01-01T10:00:00Z') } };
+
+    expect(() => parseStory('story-1', storyFields({ sessions }))).toThrow(/session-1.*callId/);
+  });
+
+  it('accepts plain {seconds, nanoseconds} timestamps', () => {
+    const story = parseStory('story-1', storyFields({ lastUpdationTime: { seconds: 60, nanoseconds: 0 } }));
+
+    expect(story.lastUpdationTime.toMillis()).toBe(60_000);
+  });
+});
+
+describe('story repository', () => {
+  it('drops a story with a malformed session from lists but keeps the rest', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { backend, stories } = setup();
+    backend.seed('stories', {
+      good: storyFields(),
+      broken: storyFields({ sessions: { 'session-1': { creationTime: at('2024-01-01T10:00:00Z') } } }),
+    });
+
+    const listed = await stories.listByUser('user-1');
+
+    expect(listed.map(story => story.id)).toEqual(['good']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('stories/broken'));
+  });
+
+  it('throws when a single malformed story is read by id', async () => {
+    const { backend, stories } = setup();
+    backend.seed('stories', { broken: storyFields({ categoryId: undefined }) });
+
+    await expect(stories.getById('broken')).rejects.toThrow(ValidationError);
+  });
+
+  it('lists only the user’s stories, most recently updated first', async () => {
+    const { backend, stories } = setup();
+    backend.seed('stories', {
+      older: storyFields({ lastUpdationTime: at('2024-01-01T00:00:00Z') }),
+      newer: storyFields({ lastUpdationTime: at('2024-03-01T00:00:00Z') }),
+      someoneElse: storyFields({ userId: 'user-2' }),
+    });
+
+    expect((await stories.listByUser('user-1')).map(story => story.id)).toEqual(['newer', 'older']);
+  });
+
+  it('separates completed stories from ones still to be written up', async () => {
+    const { backend, stories } = setup();
+    backend.seed('stories', { done: storyFields(), pending: storyFields({ title: null }) });
+
+    expect((await stories.listCompleted('user-1')).map(story => story.id)).toEqual(['done']);
+  });
+
+  it('creates a story that reads back with an open schedule', async () => {
+    const { stories } = setup();
+    const id = await stories.create({
+      userId: 'user-1',
+      categoryId: 'childhood',
+      initialQuestion: 'Where did you grow up?',
+      nextSchedule: { dateTime: new Date('2030-05-01T15:00:00Z'), phoneNumber: '+15555550100', timeZone: 'UTC' },
+    });
+
+    const story = await stories.getById(id);
+
+    expect(story?.title).toBeNull();
+    expect(story?.nextSchedule?.status).toBe('scheduled');
+    expect(story?.nextSchedule?.history).toHaveLength(1);
+    expect((await stories.listScheduled('user-1')).map(scheduled => scheduled.id)).toEqual([id]);
+  });
+
+  it('never overwrites a story created under a known id', async () => {
+    const { backend, stories } = setup();
+    backend.seed('stories', {
+      'schedule-1_2030-05-02T10:00': storyFields({
+        title: null,
+        nextSchedule: { dateTime: at('2030-05-02T10:00:00Z'), phoneNumber: '+15555550100', status: 'dialing', history: [] },
+      }),
+    });
+    const booking = {
+      userId: 'user-1',
+      categoryId: 'childhood',
+      initialQuestion: 'Where did you grow up?',
+      nextSchedule: { dateTime: new Date('2030-05-02T10:00:00Z'), phoneNumber: '+15555550100' },
+    };
+
+    expect(await stories.createWithId('schedule-1_2030-05-02T10:00', booking)).toBe(false);
+    expect(await stories.createWithId('schedule-1_2030-05-09T10:00', booking)).toBe(true);
+
+    expect((await stories.getById('schedule-1_2030-05-02T10:00'))?.nextSchedule?.status).toBe('dialing');
+    expect((await stories.getById('schedule-1_2030-05-09T10:00'))?.nextSchedule?.status).toBe('scheduled');
+  });
+
+  it('appends schedule events and moves the call between active and finished lists', async () => {
+    const { stories } = setup();
+    const id = await stories.create({
+      userId: 'user-1',
+      categoryId: 'childhood',
+      initialQuestion: 'Where did you grow up?',
+      nextSchedule: { dateTime: new Date('2030-05-01T15:00:00Z'), phoneNumber: '+15555550100' },
+    });
+
+    await stories.recordScheduleEvents(id, { status: 'no_answer' }, [
+      { status: 'no_answer', at: new Date('2030-05-01T15:01:00Z'), attempt: 1 },
+    ]);
+
+    const story = await stories.getById(id);
+    expect(story?.nextSchedule?.history.map(event => event.status)).toEqual(['scheduled', 'no_answer']);
+    expect(await stories.listScheduled('user-1')).toEqual([]);
+    expect((await stories.listFinishedSchedules('user-1')).map(finished => finished.id)).toEqual([id]);
+  });
+
+  it('updates a single session without touching the others', async () => {
+    const { backend, stories } = setup();
+    backend.seed('stories', { story: storyFields() });
+
+    await stories.updateSession('story', 'session-1', { videoUrl: 'https://example.com/video.webm' });
+
+    const story = await stories.getById('story');
+    expect(story?.sessions['session-1']).toMatchObject({ callId: 'call-1', videoUrl: 'https://example.com/video.webm' });
+  });
+
+  it('sets an event date without bumping the last update time', async () => {
+    const { backend, stories } = setup();
+    backend.seed('stories', { story: storyFields() });
+
+    await stories.setEventDate('story', { startYear: 1962, endYear: 1965, source: 'user' });
+
+    const story = await stories.getById('story');
+    expect(story?.eventDate).toEqual({ startYear: 1962, endYear: 1965, source: 'user' });
+    expect(story?.lastUpdationTime.toMillis()).toBe(at('2024-01-02T10:00:00Z').toMillis());
+  });
+
+  it('re-emits watched lists after every write', async () => {
+    const { backend, stories } = setup();
+    backend.seed('stories', { story: storyFields() });
+    const onNext = vi.fn();
+
+    const unsubscribe = stories.watchByUser('user-1', onNext, () => {});
+    await stories.update('story', { title: 'The farm by the river' });
+    unsubscribe();
+    await stories.remove('story');
+
+    expect(onNext).toHaveBeenCalledTimes(2);
+    expect(onNext.mock.calls[1][0][0].title).toBe('The farm by the river');
+  });
+});
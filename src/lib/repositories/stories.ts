@@ -0,0 +1,383 @@
+import { Timestamp } from 'firebase/firestore';
+import {
+  LiveUtterance,
+  NewScheduleEvent,
+  RecordingPause,
+  RetryPolicy,
+  ScheduleEvent,
+  ScheduleStatus,
+  Story,
+  StoryEventDate,
+  StorySchedule,
+  StorySession,
+  TranscriptMessage,
+  TranscriptWord,
+} from '../../types/story';
+import { DataBackend, DocumentFields, Unsubscribe, where } from './backend';
+import { createReader, FieldReader, parseAll } from './validation';
+
+const COLLECTION = 'stories';
+
+const parseTranscriptMessage = (reader: FieldReader, field: string, value: unknown): TranscriptMessage => {
+  if (typeof value !== 'object' || value === null) {
+    return reader.fail(field, 'a transcript message', value);
+  }
+  const message = value as Record<string, unknown>;
+  if (typeof message.role !== 'string' || typeof message.content !== 'string') {
+    return reader.fail(field, 'a transcript message with role and content', value);
+  }
+  const words = Array.isArray(message.words) ? message.words : [];
+  return {
+    role: message.role,
+    content: message.content,
+    words: words.filter(
+      (word): word is TranscriptWord =>
+        typeof word?.word === 'string' && typeof word?.start === 'number' && typeof word?.end === 'number'
+    ),
+    ...(typeof (message.metadata as { response_id?: unknown })?.response_id === 'number'
+      ? { metadata: message.metadata as TranscriptMessage['metadata'] }
+      : {}),
+  };
+};
+
+const parseLiveUtterance = (reader: FieldReader, field: string, value: unknown): LiveUtterance => {
+  const utterance = value as Record<string, unknown> | null;
+  if (typeof utterance?.role !== 'string' || typeof utterance?.content !== 'string') {
+    return reader.fail(field, 'a caption with role and content', value);
+  }
+  return { role: utterance.role, content: utterance.content };
+};
+
+const parseRecordingPause = (reader: FieldReader, field: string, value: unknown): RecordingPause => {
+  const pause = value as Record<string, unknown> | null;
+  if (typeof pause?.start !== 'number' || typeof pause?.end !== 'number') {
+    return reader.fail(field, 'a pause with start and end', value);
+  }
+  return { start: pause.start, end: pause.end };
+};
+
+const parseSession = (reader: FieldReader): StorySession => {
+  const transcriptObject = reader.has('transcript_object')
+    ? reader
+        .array('transcript_object')
+        .map((message, index) => parseTranscriptMessage(reader, `transcript_object[${index}]`, message))
+    : undefined;
+
+  return {
+    callId: reader.string('callId'),
+    creationTime: reader.timestamp('creationTime'),
+    transcript: reader.optionalString('transcript'),
+    transcript_object: transcriptObject,
+    recording_url: reader.optionalString('recording_url'),
+    videoUrl: reader.optionalString('videoUrl'),
+    videoChunkUrl: reader.optionalString('videoChunkUrl'),
+    videoComplete: reader.optionalBoolean('videoComplete'),
+    videoHasAudio: reader.optionalBoolean('videoHasAudio'),
+    videoMimeType: reader.optionalString('videoMimeType'),
+    audioUrl: reader.optionalString('audioUrl'),
+    audioComplete: reader.optionalBoolean('audioComplete'),
+    audioMimeType: reader.optionalString('audioMimeType'),
+    recordingPauses: reader.has('recordingPauses')
+      ? reader
+          .array('recordingPauses')
+          .map((pause, index) => parseRecordingPause(reader, `recordingPauses[${index}]`, pause))
+      : undefined,
+    liveTranscript: reader.has('liveTranscript')
+      ? reader
+          .array('liveTranscript')
+          .map((utterance, index) => parseLiveUtterance(reader, `liveTranscript[${index}]`, utterance))
+      : undefined,
+    updated: reader.optionalBoolean('updated'),
+  };
+};
+
+export const SCHEDULE_STATUSES: readonly ScheduleStatus[] = [
+  'scheduled',
+  'dialing',
+  'in_progress',
+  'completed',
+  'no_answer',
+  'failed',
+  'cancelled',
+];
+
+// Calls still to happen or under way; every other status is final
+export const ACTIVE_SCHEDULE_STATUSES: readonly ScheduleStatus[] = ['scheduled', 'dialing', 'in_progress'];
+
+export const FINAL_SCHEDULE_STATUSES = SCHEDULE_STATUSES.filter(status => !ACTIVE_SCHEDULE_STATUSES.includes(status));
+
+export const parseRetryPolicy = (reader: FieldReader): RetryPolicy => ({
+  maxRetries: reader.number('maxRetries'),
+  intervalMinutes: reader.number('intervalMinutes'),
+});
+
+const parseScheduleEvent = (reader: FieldReader): ScheduleEvent => {
+  const note = reader.optionalString('note');
+  return {
+    status: reader.oneOf('status', SCHEDULE_STATUSES),
+    at: reader.timestamp('at'),
+    attempt: reader.number('attempt'),
+    ...(note ? { note } : {}),
+  };
+};
+
+const parseSchedule = (reader: FieldReader): StorySchedule => {
+  const timeZone = reader.optionalString('timeZone');
+  const scheduleId = reader.optionalString('scheduleId');
+  const occurrence = reader.optionalString('occurrence');
+  return {
+    dateTime: reader.timestamp('dateTime'),
+    phoneNumber: reader.string('phoneNumber'),
+    status: reader.oneOf('status', SCHEDULE_STATUSES),
+    ...(reader.has('retryPolicy') ? { retryPolicy: parseRetryPolicy(reader.nested('retryPolicy')) } : {}),
+    history: reader.has('history') ? reader.items('history').map(parseScheduleEvent) : [],
+    ...(timeZone ? { timeZone } : {}),
+    ...(scheduleId && occurrence ? { scheduleId, occurrence } : {}),
+  };
+};
+
+const parseEventDate = (reader: FieldReader): StoryEventDate => ({
+  startYear: reader.number('startYear'),
+  endYear: reader.number('endYear'),
+  source: reader.oneOf('source', ['extracted', 'user'] as const),
+});
+
+export const parseStory = (id: string, data: DocumentFields): Story => {
+  const reader = createReader(COLLECTION, id, data);
+  const sessions = reader.has('sessions') ? reader.object('sessions') : {};
+  const sessionsReader = createReader(COLLECTION, id, sessions);
+
+  return {
+    id,
+    userId: reader.string('userId'),
+    categoryId: reader.string('categoryId'),
+    title: reader.nullableString('title'),
+    description: reader.nullableString('description'),
+    storyText: reader.nullableString('storyText'),
+    creationTime: reader.timestamp('creationTime'),
+    lastUpdationTime: reader.timestamp('lastUpdationTime'),
+    initialQuestion: reader.string('initialQuestion'),
+    sessions: Object.fromEntries(
+      Object.keys(sessions).map(sessionId => [
+        sessionId,
+        parseSession(sessionsReader.nested(sessionId)),
+      ])
+    ),
+    storySummary: reader.nullableString('storySummary'),
+    imageUrl: reader.optionalString('imageUrl'),
+    isOnboardingStory: reader.optionalBoolean('isOnboardingStory'),
+    nextSchedule: reader.has('nextSchedule') ? parseSchedule(reader.nested('nextSchedule')) : null,
+    eventDate: reader.has('eventDate') ? parseEventDate(reader.nested('eventDate')) : null,
+    entityIndexStamp: reader.optionalString('entityIndexStamp'),
+  };
+};
+
+export const byLastUpdatedDesc = (a: Story, b: Story) =>
+  b.lastUpdationTime.toMillis() - a.lastUpdationTime.toMillis();
+
+export const byScheduledDateAsc = (a: Story, b: Story) =>
+  (a.nextSchedule?.dateTime.toMillis() ?? 0) - (b.nextSchedule?.dateTime.toMillis() ?? 0);
+
+const lastScheduleEventMillis = (story: Story) => {
+  const history = story.nextSchedule?.history ?? [];
+  return history.length ? history[history.length - 1].at.toMillis() : 0;
+};
+
+const byLastScheduleEventDesc = (a: Story, b: Story) => lastScheduleEventMillis(b) - lastScheduleEventMillis(a);
+
+// Stories the backend has written up (Dashboard)
+export const isCompletedStory = (story: Story) => story.title !== null;
+
+// Stories that can be continued right away, i.e. without a pending phone call
+export const isContinuableStory = (story: Story) =>
+  !story.nextSchedule || !ACTIVE_SCHEDULE_STATUSES.includes(story.nextSchedule.status);
+
+export interface NewStory {
+  userId: string;
+  categoryId: string;
+  initialQuestion: string;
+  isOnboardingStory?: boolean;
+  nextSchedule?: NewStorySchedule | null;
+}
+
+export interface NewStorySchedule {
+  dateTime: Date | Timestamp;
+  phoneNumber: string;
+  retryPolicy?: RetryPolicy;
+  // Audit trail of the call being moved, kept when it is rescheduled
+  history?: ScheduleEvent[];
+  timeZone?: string;
+  scheduleId?: string;
+  occurrence?: string;
+}
+
+// Firestore rejects undefined fields
+const serializeSchedule = ({
+  history = [],
+  retryPolicy,
+  timeZone,
+  scheduleId,
+  occurrence,
+  ...schedule
+}: NewStorySchedule): DocumentFields => ({
+  ...schedule,
+  status: 'scheduled',
+  history: [
+    ...history,
+    {
+      status: 'scheduled',
+      at: new Date(),
+      attempt: 0,
+      ...(history.length ? { note: 'Rescheduled' } : {}),
+    },
+  ],
+  ...(retryPolicy ? { retryPolicy } : {}),
+  ...(timeZone ? { timeZone } : {}),
+  ...(scheduleId && occurrence ? { scheduleId, occurrence } : {}),
+});
+
+export type StoryUpdate = Partial<Pick<Story, 'title' | 'description' | 'storyText' | 'storySummary' | 'imageUrl'>>;
+
+export const createStoryRepository = (backend: DataBackend) => {
+  const byUser = (userId: string) => ({ where: [where('userId', '==', userId)] });
+
+  const newStoryFields = (story: NewStory): DocumentFields => ({
+    userId: story.userId,
+    categoryId: story.categoryId,
+    title: null,
+    description: null,
+    storyText: null,
+    creationTime: backend.serverTimestamp(),
+    lastUpdationTime: backend.serverTimestamp(),
+    initialQuestion: story.initialQuestion,
+    isOnboardingStory: story.isOnboardingStory ?? false,
+    sessions: {},
+    storySummary: null,
+    nextSchedule: story.nextSchedule ? serializeSchedule(story.nextSchedule) : null,
+  });
+
+  const listByUser = async (userId: string): Promise<Story[]> => {
+    const docs = await backend.query(COLLECTION, byUser(userId));
+    return parseAll(docs, parseStory).sort(byLastUpdatedDesc);
+  };
+
+  return {
+    async getById(id: string): Promise<Story | null> {
+      const raw = await backend.get(COLLECTION, id);
+      return raw ? parseStory(raw.id, raw.data) : null;
+    },
+
+    listByUser,
+
+    async listCompleted(userId: string): Promise<Story[]> {
+      return (await listByUser(userId)).filter(isCompletedStory);
+    },
+
+    async listInProgress(userId: string): Promise<Story[]> {
+      return (await listByUser(userId)).filter(isContinuableStory);
+    },
+
+    watchById(id: string, onNext: (story: Story | null) => void, onError: (error: Error) => void): Unsubscribe {
+      return backend.watch(
+        COLLECTION,
+        id,
+        raw => {
+          try {
+            onNext(raw ? parseStory(raw.id, raw.data) : null);
+          } catch (error) {
+            onError(error as Error);
+          }
+        },
+        onError
+      );
+    },
+
+    // Newest first, re-emitted whenever any of the user's stories changes
+    watchByUser(userId: string, onNext: (stories: Story[]) => void, onError: (error: Error) => void): Unsubscribe {
+      return backend.watchQuery(
+        COLLECTION,
+        byUser(userId),
+        docs => onNext(parseAll(docs, parseStory).sort(byLastUpdatedDesc)),
+        onError
+      );
+    },
+
+    // Calls still to happen or under way, soonest first
+    async listScheduled(userId: string): Promise<Story[]> {
+      const docs = await backend.query(COLLECTION, {
+        where: [where('userId', '==', userId), where('nextSchedule.status', 'in', ACTIVE_SCHEDULE_STATUSES)],
+      });
+      return parseAll(docs, parseStory).sort(byScheduledDateAsc);
+    },
+
+    // Calls that are over, however they ended, most recent first
+    async listFinishedSchedules(userId: string): Promise<Story[]> {
+      const docs = await backend.query(COLLECTION, {
+        where: [where('userId', '==', userId), where('nextSchedule.status', 'in', FINAL_SCHEDULE_STATUSES)],
+      });
+      return parseAll(docs, parseStory).sort(byLastScheduleEventDesc);
+    },
+
+    async create(story: NewStory): Promise<string> {
+      return backend.add(COLLECTION, newStoryFields(story));
+    },
+
+    // For stories with a known id, e.g. one occurrence of a recurring schedule; false when the id is taken
+    async createWithId(id: string, story: NewStory): Promise<boolean> {
+      return backend.create(COLLECTION, id, newStoryFields(story));
+    },
+
+    async update(id: string, changes: StoryUpdate): Promise<void> {
+      await backend.update(COLLECTION, id, {
+        ...changes,
+        lastUpdationTime: backend.serverTimestamp(),
+      });
+    },
+
+    async updateSession(id: string, sessionId: string, changes: Partial<StorySession> & DocumentFields): Promise<void> {
+      await backend.update(
+        COLLECTION,
+        id,
+        Object.fromEntries(
+          Object.entries(changes).map(([field, value]) => [`sessions.${sessionId}.${field}`, value])
+        )
+      );
+    },
+
+    async setSchedule(id: string, schedule: NewStorySchedule | null): Promise<void> {
+      await backend.update(COLLECTION, id, {
+        nextSchedule: schedule ? serializeSchedule(schedule) : null,
+        lastUpdationTime: backend.serverTimestamp(),
+      });
+    },
+
+    // Not an edit of the story, so it keeps its place among recently updated ones
+    async setEventDate(id: string, eventDate: StoryEventDate | null): Promise<void> {
+      await backend.update(COLLECTION, id, { eventDate });
+    },
+
+    async setEntityIndexStamp(id: string, entityIndexStamp: string): Promise<void> {
+      await backend.update(COLLECTION, id, { entityIndexStamp });
+    },
+
+    // Moves a scheduled call along its lifecycle; `dateTime` is set when a retry moves it
+    async recordScheduleEvents(
+      id: string,
+      change: { status: ScheduleStatus; dateTime?: Date },
+      events: NewScheduleEvent[]
+    ): Promise<void> {
+      await backend.update(COLLECTION, id, {
+        'nextSchedule.status': change.status,
+        ...(change.dateTime ? { 'nextSchedule.dateTime': change.dateTime } : {}),
+        'nextSchedule.history': backend.arrayUnion(...events),
+        lastUpdationTime: backend.serverTimestamp(),
+      });
+    },
+
+    async remove(id: string): Promise<void> {
+      await backend.remove(COLLECTION, id);
+    },
+  };
+};
+
+export type StoryRepository = ReturnType<typeof createStoryRepository>;
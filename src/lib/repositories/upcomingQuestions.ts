@@ -0,0 +1,62 @@
+import { UpcomingQuestion } from '../../types/question';
+import { DataBackend, DocumentFields, where } from './backend';
+import { createReader, parseAll } from './validation';
+
+const COLLECTION = 'upcoming_questions';
+
+export const parseUpcomingQuestion = (id: string, data: DocumentFields): UpcomingQuestion => {
+  const reader = createReader(COLLECTION, id, data);
+  const subject = reader.optionalString('subject');
+  return {
+    id,
+    userId: reader.string('userId'),
+    categoryId: reader.string('categoryId'),
+    categoryTitle: reader.string('categoryTitle'),
+    question: reader.string('question'),
+    createdAt: (reader.optionalTimestamp('createdAt')?.toDate()) ?? new Date(0),
+    // Questions written before feedback existed have no status
+    status: reader.has('status') ? reader.oneOf('status', ['pending', 'snoozed', 'dismissed'] as const) : 'pending',
+    snoozedUntil: reader.optionalTimestamp('snoozedUntil')?.toDate() ?? null,
+    ...(subject
+      ? {
+          subject,
+          subjectKind: reader.oneOf('subjectKind', ['person', 'place', 'event'] as const),
+          sourceStoryId: reader.string('sourceStoryId'),
+        }
+      : {}),
+  };
+};
+
+// Whether the question should be offered now: not dismissed, and any snooze is over
+export const isAvailableQuestion = (question: UpcomingQuestion, now = new Date()) =>
+  question.status === 'pending' ||
+  (question.status === 'snoozed' && (!question.snoozedUntil || question.snoozedUntil <= now));
+
+export type NewUpcomingQuestion = Omit<UpcomingQuestion, 'id' | 'createdAt' | 'status' | 'snoozedUntil'>;
+
+export const createUpcomingQuestionRepository = (backend: DataBackend) => ({
+  // Every question of the user, dismissed and snoozed ones included
+  async listByUser(userId: string): Promise<UpcomingQuestion[]> {
+    const docs = await backend.query(COLLECTION, { where: [where('userId', '==', userId)] });
+    return parseAll(docs, parseUpcomingQuestion);
+  },
+
+  async create(question: NewUpcomingQuestion): Promise<string> {
+    return backend.add(COLLECTION, {
+      ...question,
+      status: 'pending',
+      snoozedUntil: null,
+      createdAt: backend.serverTimestamp(),
+    });
+  },
+
+  async dismiss(id: string): Promise<void> {
+    await backend.update(COLLECTION, id, { status: 'dismissed', snoozedUntil: null });
+  },
+
+  async snooze(id: string, until: Date): Promise<void> {
+    await backend.update(COLLECTION, id, { status: 'snoozed', snoozedUntil: until });
+  },
+});
+
+export type UpcomingQuestionRepository = ReturnType<typeof createUpcomingQuestionRepository>;
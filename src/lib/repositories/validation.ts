@@ -0,0 +1,170 @@
+import { Timestamp } from 'firebase/firestore';
+import { DocumentFields } from './backend';
+
+export class ValidationError extends Error {
+  readonly collection: string;
+  readonly docId: string;
+
+  constructor(collection: string, docId: string, message: string) {
+    super(`Invalid ${collection}/${docId}: ${message}`);
+    this.name = 'ValidationError';
+    this.collection = collection;
+    this.docId = docId;
+  }
+}
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const toTimestamp = (value: unknown): Timestamp | null => {
+  if (value instanceof Timestamp) return value;
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  // Plain {seconds, nanoseconds} objects come back from JSON round trips
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { seconds?: unknown }).seconds === 'number' &&
+    typeof (value as { nanoseconds?: unknown }).nanoseconds === 'number'
+  ) {
+    const { seconds, nanoseconds } = value as { seconds: number; nanoseconds: number };
+    return new Timestamp(seconds, nanoseconds);
+  }
+  return null;
+};
+
+export interface FieldReader {
+  raw(field: string): unknown;
+  has(field: string): boolean;
+  string(field: string): string;
+  nullableString(field: string): string | null;
+  optionalString(field: string): string | undefined;
+  number(field: string): number;
+  optionalBoolean(field: string): boolean | undefined;
+  timestamp(field: string): Timestamp;
+  optionalTimestamp(field: string): Timestamp | undefined;
+  stringArray(field: string): string[];
+  oneOf<T extends string>(field: string, allowed: readonly T[]): T;
+  object(field: string): DocumentFields;
+  array(field: string): unknown[];
+  nested(field: string): FieldReader;
+  items(field: string): FieldReader[];
+  fail(field: string, expected: string, value: unknown): never;
+}
+
+/**
+ * Typed accessors over raw document data. Every accessor throws a
+ * ValidationError naming the document and field when the stored value does
+ * not have the expected shape.
+ */
+export const createReader = (collection: string, docId: string, data: DocumentFields): FieldReader => {
+  const fail = (field: string, expected: string, value: unknown): never => {
+    throw new ValidationError(collection, docId, `expected ${field} to be ${expected}, got ${describe(value)}`);
+  };
+
+  const reader: FieldReader = {
+    raw: (field: string): unknown => data[field],
+
+    has: (field: string): boolean => data[field] !== undefined && data[field] !== null,
+
+    string(field: string): string {
+      const value = data[field];
+      return typeof value === 'string' ? value : fail(field, 'a string', value);
+    },
+
+    nullableString(field: string): string | null {
+      const value = data[field];
+      if (value === undefined || value === null) return null;
+      return typeof value === 'string' ? value : fail(field, 'a string or null', value);
+    },
+
+    optionalString(field: string): string | undefined {
+      const value = data[field];
+      if (value === undefined || value === null) return undefined;
+      return typeof value === 'string' ? value : fail(field, 'a string', value);
+    },
+
+    number(field: string): number {
+      const value = data[field];
+      return typeof value === 'number' ? value : fail(field, 'a number', value);
+    },
+
+    optionalBoolean(field: string): boolean | undefined {
+      const value = data[field];
+      if (value === undefined || value === null) return undefined;
+      return typeof value === 'boolean' ? value : fail(field, 'a boolean', value);
+    },
+
+    timestamp(field: string): Timestamp {
+      const value = toTimestamp(data[field]);
+      return value ?? fail(field, 'a timestamp', data[field]);
+    },
+
+    optionalTimestamp(field: string): Timestamp | undefined {
+      if (data[field] === undefined || data[field] === null) return undefined;
+      return reader.timestamp(field);
+    },
+
+    stringArray(field: string): string[] {
+      const value = data[field];
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        return fail(field, 'an array of strings', value);
+      }
+      return value as string[];
+    },
+
+    oneOf<T extends string>(field: string, allowed: readonly T[]): T {
+      const value = data[field];
+      return allowed.includes(value as T) ? (value as T) : fail(field, `one of ${allowed.join(', ')}`, value);
+    },
+
+    object(field: string): DocumentFields {
+      const value = data[field];
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(field, 'an object', value);
+      }
+      return value as DocumentFields;
+    },
+
+    array(field: string): unknown[] {
+      const value = data[field];
+      return Array.isArray(value) ? value : fail(field, 'an array', value);
+    },
+
+    // Reader for a nested map; errors name the parent document and the map field
+    nested(field: string): FieldReader {
+      return createReader(collection, `${docId}#${field}`, reader.object(field));
+    },
+
+    // Readers for an array of maps, one per element
+    items(field: string): FieldReader[] {
+      return reader.array(field).map((item, index) =>
+        typeof item === 'object' && item !== null && !Array.isArray(item)
+          ? createReader(collection, `${docId}#${field}[${index}]`, item as DocumentFields)
+          : fail(`${field}[${index}]`, 'an object', item)
+      );
+    },
+
+    fail,
+  };
+
+  return reader;
+};
+
+/**
+ * Maps raw documents through a parser, dropping (and logging) the ones that
+ * fail validation so a single malformed record does not break a whole list.
+ */
+export const parseAll = <T>(
+  docs: Array<{ id: string; data: DocumentFields }>,
+  parse: (id: string, data: DocumentFields) => T
+): T[] =>
+  docs.flatMap(({ id, data }) => {
+    try {
+      return [parse(id, data)];
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        console.warn(error.message);
+        return [];
+      }
+      throw error;
+    }
+  });
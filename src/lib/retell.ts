@@ -1,104 +1,93 @@
-import Retell from "retell-sdk";
-import { collection, getDocs, addDoc } from "firebase/firestore";
-import { db } from "./firebase";
+import { collection, getDocs, addDoc, arrayUnion, doc, updateDoc } from "firebase/firestore";
+import { auth, db } from "./firebase";
+import type {
+  AgentSkeleton,
+  CallContextRequest,
+  CreateAgentRequest,
+  CreateAgentResponse,
+  RetellApiErrorBody,
+  RetellVoice,
+  UpdateAgentRequest,
+} from "../types/retell";
 
-const RETELL_API_KEY = import.meta.env.VITE_RETELL_API_KEY;
+// The Retell API key lives on the proxy (see server/); the browser only sends its Firebase ID token
+const RETELL_PROXY_URL =
+  import.meta.env.VITE_RETELL_PROXY_URL || "http://localhost:3001";
 
-if (!RETELL_API_KEY) {
-  throw new Error("RETELL_API_KEY is not set in environment variables");
+export class RetellApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "RetellApiError";
+  }
 }
 
-const client = new Retell({
-  apiKey: RETELL_API_KEY,
-  headers: {
-    Authorization: `Bearer ${RETELL_API_KEY}`,
-    "Content-Type": "application/json",
-  },
-});
+const request = async <T>(
+  method: string,
+  path: string,
+  body?: unknown,
+): Promise<T> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new RetellApiError("You must be signed in", 401);
+  }
 
-interface AgentSkeleton {
-  agent_configurations: {
-    interruption_sensitivity: number;
-    language: string;
-    voice_id: string;
-    general_tools?: {
-      name: string;
-      type: string;
-      description: string;
-    }[];
-  };
-  category_id: string;
-  llm_configurations: {
-    general_prompt: string;
-    model: string;
-  };
-}
+  const response = await fetch(`${RETELL_PROXY_URL}/retell${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${await user.getIdToken()}`,
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
 
-export const createRetellLLM = async (
-  configurations: AgentSkeleton["llm_configurations"],
-) => {
-  try {
-    const llmResponse = await client.llm.create({
-      general_prompt: configurations.general_prompt,
-      general_tools: [
-        {
-          name: "end_call",
-          type: "end_call",
-          description: "End the call if: conversation is complete; user is not interested; user is not eligible; or user wants to reschedule"
-        }
-      ],
-      model: configurations.model,
-    });
-    if (!llmResponse?.llm_id) {
-      throw new Error("Failed to create LLM - no ID returned");
-    }
-    return llmResponse.llm_id;
-  } catch (error) {
-    console.error("Error creating Retell LLM:", error);
-    throw error;
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new RetellApiError(
+      (data as RetellApiErrorBody | null)?.error ||
+        `Retell proxy request failed with status ${response.status}`,
+      response.status,
+    );
   }
+  return data as T;
 };
 
-export const createRetellAgent = async (
-  llmId: string,
-  configurations: AgentSkeleton["agent_configurations"],
-  userId: string,
-  categoryId: string,
-) => {
-  try {
-    if (!llmId) {
-      throw new Error("LLM ID is required to create agent");
-    }
+export const listRetellVoices = () => request<RetellVoice[]>("GET", "/voices");
 
-    // Include end_call tool in agent configuration
-    const agentConfigWithTools = {
-      ...configurations,
-    };
+export const updateRetellAgentVoice = async (agentId: string, voiceId: string) => {
+  const body: UpdateAgentRequest = { voice_id: voiceId };
+  await request("PATCH", `/agents/${encodeURIComponent(agentId)}`, body);
+};
 
-    const agentResponse = await client.agent.create({
-      response_engine: {
-        llm_id: llmId,
-        type: "retell-llm",
-      },
-      agent_name: `${userId}_${categoryId}`,
-      ...agentConfigWithTools,
-    });
+// Tells the agent of a call in progress something the user shouldn't have to say aloud
+export const sendCallContext = async (callId: string, context: string) => {
+  const body: CallContextRequest = { context };
+  await request("POST", `/calls/${encodeURIComponent(callId)}/context`, body);
+};
 
-    if (!agentResponse?.agent_id) {
-      throw new Error("Failed to create agent - no ID returned");
-    }
+// The proxy makes the agent from the category's template; only the voice can be chosen here
+export const createRetellAgent = async (
+  categoryId: string,
+  userId: string,
+  voiceId?: string,
+): Promise<CreateAgentResponse> => {
+  try {
+    const body: CreateAgentRequest = { category_id: categoryId, ...(voiceId ? { voice_id: voiceId } : {}) };
+    const created = await request<CreateAgentResponse>("POST", "/agents", body);
 
     // Create entry in agents collection
     await addDoc(collection(db, "agents"), {
-      agentId: agentResponse.agent_id,
-      llmId: llmId,
+      agentId: created.agentId,
+      llmId: created.llmId,
       userId: userId,
-      categoryId: categoryId,
+      categoryId,
       createdAt: new Date(),
       tools: ["end_call"], // Track that this agent has end_call capability
     });
 
-    return agentResponse.agent_id;
+    return created;
   } catch (error) {
     console.error("Error creating Retell Agent:", error);
     throw error;
@@ -114,3 +103,23 @@ export const fetchAgentSkeletons = async (): Promise<AgentSkeleton[]> => {
     throw error;
   }
 };
+
+/**
+ * Gives a user's own category an agent of its own, the way sign-up does for
+ * the built-in ones, so calls about it are picked up like any other. The
+ * proxy starts the agent from one of the built-in templates with the
+ * category's topic added to its prompt; it speaks with the user's chosen voice.
+ */
+export const createCategoryAgent = async (
+  userId: string,
+  categoryId: string,
+  voiceId?: string,
+): Promise<CreateAgentResponse> => {
+  const created = await createRetellAgent(categoryId, userId, voiceId);
+  // Voice changes in settings go to every agent listed on the user
+  await updateDoc(doc(db, "users", userId), {
+    llmIds: arrayUnion(created.llmId),
+    agentIds: arrayUnion(created.agentId),
+  });
+  return created;
+};
@@ -0,0 +1,73 @@
+// Tags story HTML may contain; anything else is unwrapped to its text content
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'strong', 'b', 'em', 'i', 'u', 's',
+  'h2', 'h3', 'h4', 'blockquote', 'ul', 'ol', 'li', 'a',
+]);
+
+// Dropped together with their contents
+const REMOVED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript']);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+};
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+const sanitizeNode = (node: Node, doc: Document): Node[] => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return [doc.createTextNode(node.textContent || '')];
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return [];
+  }
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (REMOVED_TAGS.has(tag)) {
+    return [];
+  }
+
+  const children = Array.from(element.childNodes).flatMap(child => sanitizeNode(child, doc));
+  if (!ALLOWED_TAGS.has(tag)) {
+    return children;
+  }
+
+  const clean = doc.createElement(tag);
+  (ALLOWED_ATTRIBUTES[tag] || []).forEach(name => {
+    const value = element.getAttribute(name)?.trim();
+    if (value && (name !== 'href' || SAFE_URL.test(value))) {
+      clean.setAttribute(name, value);
+    }
+  });
+  if (tag === 'a') {
+    clean.setAttribute('target', '_blank');
+    clean.setAttribute('rel', 'noopener noreferrer');
+  }
+  children.forEach(child => clean.appendChild(child));
+  return [clean];
+};
+
+/**
+ * Reduces story HTML to a small allowlist of formatting tags. Event handlers,
+ * styles, scripts and non-http links are removed.
+ */
+export const sanitizeHtml = (html: string): string => {
+  const source = new DOMParser().parseFromString(html, 'text/html');
+  const output = document.implementation.createHTMLDocument('');
+  Array.from(source.body.childNodes)
+    .flatMap(node => sanitizeNode(node, output))
+    .forEach(node => output.body.appendChild(node));
+  return output.body.innerHTML;
+};
+
+const BLOCK_TAGS = /<\/(p|h2|h3|h4|blockquote|li)>|<br\s*\/?>/gi;
+
+// Plain text with one line per block, used for diffs and search
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html.replace(BLOCK_TAGS, '$&\n'), 'text/html');
+  return (doc.body.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
@@ -0,0 +1,119 @@
+// Shared with the server, which applies the statuses the phone backend reports (server/scheduleStatus.ts)
+import type {
+  NewScheduleEvent,
+  RetryPolicy,
+  ScheduleEvent,
+  ScheduleStatus,
+  StorySchedule,
+} from '../types/story.js';
+
+export const SCHEDULE_STATUS_LABELS: Record<ScheduleStatus, string> = {
+  scheduled: 'Scheduled',
+  dialing: 'Dialing',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  no_answer: 'No Answer',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxRetries: 2, intervalMinutes: 10 };
+
+export const RETRY_COUNT_OPTIONS = [0, 1, 2, 3];
+export const RETRY_INTERVAL_OPTIONS = [5, 10, 15, 30, 60];
+
+// The statuses a call may move to from each status
+const TRANSITIONS: Record<ScheduleStatus, ScheduleStatus[]> = {
+  scheduled: ['dialing', 'cancelled'],
+  dialing: ['in_progress', 'no_answer', 'failed', 'cancelled'],
+  in_progress: ['completed', 'failed'],
+  completed: [],
+  no_answer: [],
+  failed: [],
+  cancelled: [],
+};
+
+export class ScheduleTransitionError extends Error {
+  constructor(from: ScheduleStatus, to: ScheduleStatus) {
+    super(`A ${from} call can't become ${to}`);
+    this.name = 'ScheduleTransitionError';
+  }
+}
+
+export interface ScheduleTransition {
+  status: ScheduleStatus;
+  // New call time, when a retry was booked
+  dateTime?: Date;
+  events: NewScheduleEvent[];
+}
+
+// What a transition needs of a call's schedule; the server reads it without Firestore timestamps
+export type TransitionableSchedule = Pick<StorySchedule, 'status' | 'retryPolicy'> & {
+  history: Array<Pick<ScheduleEvent, 'attempt'>>;
+};
+
+export interface CallAttempt {
+  attempt: number;
+  startedAt: Date;
+  // Last status the attempt reached
+  status: ScheduleStatus;
+  endedAt: Date | null;
+}
+
+const isRetryable = (status: ScheduleStatus) => status === 'no_answer' || status === 'failed';
+
+export const canTransition = (from: ScheduleStatus, to: ScheduleStatus) => TRANSITIONS[from].includes(to);
+
+// Dial attempts made since the call was last booked
+export const attemptCount = (history: Array<Pick<ScheduleEvent, 'attempt'>>) =>
+  history.length ? history[history.length - 1].attempt : 0;
+
+/**
+ * Works out how a scheduled call changes when it reaches `status`. A missed
+ * or failed dial is booked again `intervalMinutes` later while the schedule's
+ * retry policy allows, so the call only ends up no_answer or failed once every
+ * retry has been tried. Throws ScheduleTransitionError for moves the
+ * lifecycle doesn't allow, such as dialing a cancelled call.
+ */
+export const transitionSchedule = (
+  schedule: TransitionableSchedule,
+  status: ScheduleStatus,
+  at: Date,
+  note?: string
+): ScheduleTransition => {
+  if (!canTransition(schedule.status, status)) {
+    throw new ScheduleTransitionError(schedule.status, status);
+  }
+
+  const attempt = attemptCount(schedule.history) + (status === 'dialing' ? 1 : 0);
+  const event: NewScheduleEvent = { status, at, attempt, ...(note ? { note } : {}) };
+  const policy = schedule.retryPolicy;
+
+  if (isRetryable(status) && policy && attempt <= policy.maxRetries) {
+    return {
+      status: 'scheduled',
+      dateTime: new Date(at.getTime() + policy.intervalMinutes * 60 * 1000),
+      events: [event, { status: 'scheduled', at, attempt, note: `Retry ${attempt} of ${policy.maxRetries}` }],
+    };
+  }
+  return { status, events: [event] };
+};
+
+/** Groups a call's audit trail into dial attempts, oldest first. */
+export const callAttempts = (history: ScheduleEvent[]): CallAttempt[] =>
+  history.reduce<CallAttempt[]>((attempts, event) => {
+    if (event.status === 'dialing') {
+      return [...attempts, { attempt: event.attempt, startedAt: event.at.toDate(), status: 'dialing', endedAt: null }];
+    }
+    // Later events, like cancelling while waiting to retry, belong to no attempt
+    const current = attempts[attempts.length - 1];
+    if (!current || current.endedAt || event.status === 'scheduled') return attempts;
+    return [
+      ...attempts.slice(0, -1),
+      {
+        ...current,
+        status: event.status,
+        endedAt: event.status === 'in_progress' ? null : event.at.toDate(),
+      },
+    ];
+  }, []);
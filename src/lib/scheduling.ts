@@ -0,0 +1,134 @@
+import { Repositories } from './repositories';
+import { missingBookings, ReminderRecipient } from './bookings';
+import { cancelReminders, scheduleReminders } from './reminders';
+import { transitionSchedule } from './scheduleLifecycle';
+import { zonedTimeToDate } from './timeZones';
+import { LocalDateTime, RecurringSchedule } from '../types/schedule';
+import { Story } from '../types/story';
+
+const occurrenceStories = (schedule: RecurringSchedule, stories: Story[]) =>
+  stories.filter(story => story.nextSchedule?.scheduleId === schedule.id);
+
+/**
+ * The phone backend only dials stories with a `nextSchedule`, so the next few
+ * calls of every recurring schedule are booked as scheduled stories. The
+ * server's booking job keeps them booked; this books any it hasn't got to yet,
+ * so a new schedule shows its calls at once, and returns the user's recurring
+ * schedules. Each occurrence has a fixed story id and is only written if
+ * missing, so running it twice, or alongside the server, books nothing twice.
+ */
+export const syncRecurringSchedules = async (
+  repositories: Repositories,
+  recipient: ReminderRecipient,
+  now = new Date()
+): Promise<RecurringSchedule[]> => {
+  const { userId } = recipient;
+  const [schedules, stories, questions] = await Promise.all([
+    repositories.schedules.listByUser(userId),
+    // Calls that are over or were cancelled count as booked too
+    repositories.stories.listByUser(userId),
+    repositories.upcomingQuestions.listByUser(userId),
+  ]);
+
+  for (const schedule of schedules) {
+    const booked = new Set(occurrenceStories(schedule, stories).map(story => story.nextSchedule?.occurrence ?? ''));
+
+    for (const { storyId, occurrence, question } of missingBookings(schedule, questions, booked, now)) {
+      const created = await repositories.stories.createWithId(storyId, {
+        userId,
+        categoryId: schedule.categoryId,
+        initialQuestion: question,
+        nextSchedule: {
+          dateTime: occurrence.dateTime,
+          phoneNumber: schedule.phoneNumber,
+          ...(schedule.retryPolicy ? { retryPolicy: schedule.retryPolicy } : {}),
+          timeZone: schedule.timeZone,
+          scheduleId: schedule.id,
+          occurrence: occurrence.key,
+        },
+      });
+      // Booked meanwhile by the server, which may have dialed it already; its reminders came with it
+      if (!created) continue;
+
+      await scheduleReminders(repositories, recipient, {
+        storyId,
+        dateTime: occurrence.dateTime,
+        timeZone: schedule.timeZone,
+        phoneNumber: schedule.phoneNumber,
+        question,
+      });
+    }
+  }
+
+  return schedules;
+};
+
+// `story` is the call booked for the occurrence being skipped
+export const skipOccurrence = async (repositories: Repositories, schedule: RecurringSchedule, story: Story) => {
+  const occurrence = story.nextSchedule?.occurrence;
+  if (!occurrence) return;
+
+  await repositories.schedules.setException(schedule.userId, schedule.id, occurrence, { type: 'skip' });
+  // Nothing has been recorded yet, so the placeholder story can go
+  await repositories.stories.remove(story.id);
+  await cancelReminders(repositories, schedule.userId, story.id);
+};
+
+export const rescheduleOccurrence = async (
+  repositories: Repositories,
+  recipient: ReminderRecipient,
+  schedule: RecurringSchedule,
+  story: Story,
+  dateTime: LocalDateTime
+) => {
+  const occurrence = story.nextSchedule?.occurrence;
+  if (!occurrence) return;
+
+  await repositories.schedules.setException(schedule.userId, schedule.id, occurrence, {
+    type: 'reschedule',
+    dateTime,
+  });
+  const callAt = zonedTimeToDate(dateTime, schedule.timeZone);
+  await repositories.stories.setSchedule(story.id, {
+    dateTime: callAt,
+    phoneNumber: schedule.phoneNumber,
+    ...(schedule.retryPolicy ? { retryPolicy: schedule.retryPolicy } : {}),
+    history: story.nextSchedule?.history,
+    timeZone: schedule.timeZone,
+    scheduleId: schedule.id,
+    occurrence,
+  });
+  await scheduleReminders(repositories, recipient, {
+    storyId: story.id,
+    dateTime: callAt,
+    timeZone: schedule.timeZone,
+    phoneNumber: schedule.phoneNumber,
+    question: story.initialQuestion,
+  });
+};
+
+// Cancels the call but keeps its record, unlike skipping an occurrence of a recurring schedule
+export const cancelScheduledCall = async (repositories: Repositories, story: Story, at = new Date()) => {
+  if (!story.nextSchedule) {
+    throw new Error(`Story ${story.id} has no scheduled call`);
+  }
+  const transition = transitionSchedule(story.nextSchedule, 'cancelled', at, 'Cancelled by you');
+  await repositories.stories.recordScheduleEvents(story.id, { status: transition.status }, transition.events);
+  await cancelReminders(repositories, story.userId, story.id);
+};
+
+// Stops the series and cancels the calls booked for it that haven't started
+export const removeRecurringSchedule = async (
+  repositories: Repositories,
+  schedule: RecurringSchedule,
+  stories: Story[]
+) => {
+  await repositories.schedules.remove(schedule.userId, schedule.id);
+  const waiting = occurrenceStories(schedule, stories).filter(story => story.nextSchedule?.status === 'scheduled');
+  await Promise.all(
+    waiting.map(async story => {
+      await repositories.stories.remove(story.id);
+      await cancelReminders(repositories, schedule.userId, story.id);
+    })
+  );
+};
@@ -0,0 +1,49 @@
+import { Story } from '../../types/story';
+import { htmlToText } from '../sanitize';
+import { SearchDocument, SearchField } from './searchIndex';
+
+const TRANSCRIPT_PREFIX = 'transcript:';
+
+export const transcriptFieldKey = (sessionId: string) => `${TRANSCRIPT_PREFIX}${sessionId}`;
+
+// Session id of a transcript field key, or null for story-level fields
+export const sessionIdFromFieldKey = (key: string): string | null =>
+  key.startsWith(TRANSCRIPT_PREFIX) ? key.slice(TRANSCRIPT_PREFIX.length) : null;
+
+// FNV-1a; only used to detect changed content, not for security
+export const fingerprint = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const storyToSearchDocument = (story: Story): SearchDocument => {
+  const transcripts: SearchField[] = Object.entries(story.sessions).map(([sessionId, session]) => ({
+    key: transcriptFieldKey(sessionId),
+    kind: 'transcript',
+    text: session.transcript_object?.length
+      ? session.transcript_object.map(message => message.content).join('\n')
+      : session.transcript || '',
+  }));
+
+  const fields: SearchField[] = [
+    { key: 'title', kind: 'title', text: story.title || story.initialQuestion },
+    { key: 'summary', kind: 'summary', text: story.storySummary || '' },
+    { key: 'text', kind: 'text', text: story.storyText ? htmlToText(story.storyText) : '' },
+    ...transcripts,
+  ];
+  const date = story.creationTime.toMillis();
+
+  return {
+    id: story.id,
+    categoryId: story.categoryId,
+    date,
+    version: fingerprint(
+      [story.categoryId, date, ...fields.map(field => `${field.key}\u0000${field.text}`)].join('\u0001')
+    ),
+    fields,
+  };
+};
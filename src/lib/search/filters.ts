@@ -0,0 +1,21 @@
+import { SearchFilters } from './searchIndex';
+
+// Search box and filter inputs as entered; dates are yyyy-MM-dd, empty when unset
+export interface StorySearchValue {
+  query: string;
+  categoryId: string;
+  from: string;
+  to: string;
+}
+
+export const EMPTY_SEARCH: StorySearchValue = { query: '', categoryId: '', from: '', to: '' };
+
+export const isSearchActive = (value: StorySearchValue) =>
+  !!(value.query.trim() || value.categoryId || value.from || value.to);
+
+// Date bounds are whole local days
+export const toSearchFilters = (value: StorySearchValue): SearchFilters => ({
+  categoryIds: value.categoryId ? [value.categoryId] : undefined,
+  from: value.from ? new Date(`${value.from}T00:00:00`) : undefined,
+  to: value.to ? new Date(`${value.to}T23:59:59.999`) : undefined,
+});
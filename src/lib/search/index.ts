@@ -0,0 +1,18 @@
+export { createSearchIndex, SCHEMA_VERSION } from './searchIndex';
+export type {
+  FieldKind,
+  FieldMatch,
+  SearchDocument,
+  SearchFilters,
+  SearchIndex,
+  SearchIndexSnapshot,
+  SearchResult,
+  SnippetPart,
+} from './searchIndex';
+export { fingerprint, sessionIdFromFieldKey, storyToSearchDocument, transcriptFieldKey } from './documents';
+export { EMPTY_SEARCH, isSearchActive, toSearchFilters } from './filters';
+export type { StorySearchValue } from './filters';
+export { loadSearchSnapshot, saveSearchSnapshot } from './persistence';
+export { parseQuery } from './query';
+export { stem } from './stemmer';
+export { STOP_WORDS, tokenize } from './tokenizer';
@@ -0,0 +1,41 @@
+import { SearchIndexSnapshot } from './searchIndex';
+
+const DB_NAME = 'storymind-search';
+const STORE = 'indexes';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Indexes are stored per user so a shared browser never mixes collections
+export const loadSearchSnapshot = async (userId: string): Promise<SearchIndexSnapshot | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+  return (await runTransaction<SearchIndexSnapshot | undefined>('readonly', store => store.get(userId))) ?? null;
+};
+
+export const saveSearchSnapshot = async (userId: string, snapshot: SearchIndexSnapshot): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return;
+  await runTransaction('readwrite', store => store.put(snapshot, userId));
+};
@@ -0,0 +1,30 @@
+import { STOP_WORDS, tokenize } from './tokenizer';
+
+export interface ParsedQuery {
+  // Stemmed terms that must each appear somewhere in a document
+  terms: string[];
+  // Stemmed word sequences that must appear in this order within one field
+  phrases: string[][];
+}
+
+/**
+ * Splits a query into free terms and "quoted phrases". An unterminated quote
+ * runs to the end of the input, so phrases work while they are being typed.
+ */
+export const parseQuery = (input: string): ParsedQuery => {
+  const phrases: string[][] = [];
+  const free = input.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const terms = tokenize(phrase).map(token => token.term);
+    if (terms.length === 1) return ` ${phrase} `;
+    if (terms.length > 1) phrases.push(terms);
+    return ' ';
+  });
+
+  const terms = tokenize(free)
+    .filter(token => !STOP_WORDS.has(free.slice(token.start, token.end).toLowerCase()))
+    .map(token => token.term);
+
+  return { terms: Array.from(new Set(terms)), phrases };
+};
+
+export const isEmptyQuery = (query: ParsedQuery) => query.terms.length === 0 && query.phrases.length === 0;
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { parseStory } from '../repositories/stories';
+import { sessionIdFromFieldKey, storyToSearchDocument, transcriptFieldKey } from './documents';
+import { parseQuery } from './query';
+import { createSearchIndex, SCHEMA_VERSION, SearchDocument, SearchField } from './searchIndex';
+import { tokenize } from './tokenizer';
+
+const field = (kind: SearchField['kind'], text: string): SearchField => ({ key: kind, kind, text });
+
+const document = (id: string, fields: SearchField[], overrides: Partial<SearchDocument> = {}): SearchDocument => ({
+  id,
+  categoryId: 'childhood',
+  date: Date.parse('2024-01-01T10:00:00Z'),
+  version: `${id}-1`,
+  fields,
+  ...overrides,
+});
+
+const highlighted = (index: ReturnType<typeof createSearchIndex>, query: string) =>
+  index.search(query)[0].matches[0].snippet.filter(part => part.highlight).map(part => part.text);
+
+describe('tokenize', () => {
+  it('finds words with their offsets, folding case, accents and endings', () => {
+    const tokens = tokenize('Grandma’s café, walking');
+
+    expect(tokens.map(token => token.term)).toEqual(['grandma', 'cafe', 'walk']);
+    expect(tokens[1]).toMatchObject({ start: 10, end: 14 });
+  });
+});
+
+describe('parseQuery', () => {
+  it('splits quoted phrases from free terms and drops stop words from the terms', () => {
+    expect(parseQuery('the farm "aunt Rose" goats')).toEqual({
+      terms: ['farm', 'goat'],
+      phrases: [['aunt', 'rose']],
+    });
+  });
+
+  it('treats a one-word phrase and an unterminated quote as it is typed', () => {
+    expect(parseQuery('"farm"')).toEqual({ terms: ['farm'], phrases: [] });
+    expect(parseQuery('"aunt Ro')).toEqual({ terms: [], phrases: [['aunt', 'ro']] });
+  });
+});
+
+describe('search index', () => {
+  const setup = () => {
+    const index = createSearchIndex();
+    index.upsert(document('farm', [field('title', 'The old farm'), field('transcript', 'We kept goats and chickens.')]));
+    index.upsert(
+      document('river', [field('title', 'Summers by the river'), field('text', 'Aunt Rose took us to the farm market.')], {
+        categoryId: 'family',
+        date: Date.parse('1990-06-01T10:00:00Z'),
+      })
+    );
+    return index;
+  };
+
+  it('ranks a match in the title above one in the text', () => {
+    expect(setup().search('farm').map(result => result.id)).toEqual(['farm', 'river']);
+  });
+
+  it('needs every term to match somewhere in the story', () => {
+    expect(setup().search('farm goats').map(result => result.id)).toEqual(['farm']);
+    expect(setup().search('farm llamas')).toEqual([]);
+  });
+
+  it('matches phrases only in order within one field', () => {
+    const index = setup();
+
+    expect(index.search('"aunt rose"').map(result => result.id)).toEqual(['river']);
+    expect(index.search('"rose aunt"')).toEqual([]);
+  });
+
+  it('filters by category and date, even without a query', () => {
+    const index = setup();
+
+    expect(index.search('', { categoryIds: ['family'] }).map(result => result.id)).toEqual(['river']);
+    expect(index.search('farm', { from: new Date('2000-01-01') }).map(result => result.id)).toEqual(['farm']);
+    expect(index.search('')).toEqual([]);
+  });
+
+  it('highlights the matched words in a snippet', () => {
+    expect(highlighted(setup(), 'goats')).toEqual(['goats']);
+    expect(highlighted(setup(), '"aunt rose"')).toEqual(['Aunt', 'Rose']);
+  });
+
+  it('replaces a story on upsert and forgets it on remove', () => {
+    const index = setup();
+
+    index.upsert(document('farm', [field('title', 'The new barn')], { version: 'farm-2' }));
+    expect(index.search('goats')).toEqual([]);
+    expect(index.version('farm')).toBe('farm-2');
+
+    index.remove('farm');
+    expect(index.search('barn')).toEqual([]);
+    expect(index.ids()).toEqual(['river']);
+  });
+
+  it('restores from a snapshot of the same schema only', () => {
+    const snapshot = setup().toSnapshot();
+
+    expect(createSearchIndex(snapshot).search('goats').map(result => result.id)).toEqual(['farm']);
+    expect(createSearchIndex({ ...snapshot, schemaVersion: SCHEMA_VERSION + 1 }).ids()).toEqual([]);
+  });
+});
+
+describe('storyToSearchDocument', () => {
+  const story = (overrides: Record<string, unknown> = {}) =>
+    parseStory('story-1', {
+      userId: 'user-1',
+      categoryId: 'childhood',
+      title: 'The old farm',
+      description: null,
+      storyText: null,
+      creationTime: Timestamp.fromDate(new Date('2024-01-01T10:00:00Z')),
+      lastUpdationTime: Timestamp.fromDate(new Date('2024-01-02T10:00:00Z')),
+      initialQuestion: 'Where did you grow up?',
+      sessions: {
+        'session-1': { callId: 'call-1', creationTime: Timestamp.fromDate(new Date('2024-01-01T10:00:00Z')), transcript: 'We kept goats.' },
+      },
+      storySummary: null,
+      nextSchedule: null,
+      ...overrides,
+    });
+
+  it('indexes the title and each transcript under its session', () => {
+    const doc = storyToSearchDocument(story());
+
+    expect(doc.fields.find(candidate => candidate.kind === 'title')?.text).toBe('The old farm');
+    const transcript = doc.fields.find(candidate => candidate.kind === 'transcript')!;
+    expect(transcript).toMatchObject({ key: transcriptFieldKey('session-1'), text: 'We kept goats.' });
+    expect(sessionIdFromFieldKey(transcript.key)).toBe('session-1');
+    expect(sessionIdFromFieldKey('title')).toBeNull();
+  });
+
+  it('changes version only when the indexed content does', () => {
+    const version = storyToSearchDocument(story()).version;
+
+    expect(storyToSearchDocument(story({ lastUpdationTime: Timestamp.now() })).version).toBe(version);
+    expect(storyToSearchDocument(story({ storySummary: 'Goats.' })).version).not.toBe(version);
+  });
+});
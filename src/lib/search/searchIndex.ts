@@ -0,0 +1,238 @@
+import { isEmptyQuery, parseQuery } from './query';
+import { Token, tokenize } from './tokenizer';
+
+export type FieldKind = 'title' | 'summary' | 'text' | 'transcript';
+
+const FIELD_WEIGHTS: Record<FieldKind, number> = {
+  title: 3,
+  summary: 2,
+  text: 1.5,
+  transcript: 1,
+};
+
+export interface SearchField {
+  // Unique within the document, e.g. `transcript:{sessionId}`
+  key: string;
+  kind: FieldKind;
+  text: string;
+}
+
+export interface SearchDocument {
+  id: string;
+  categoryId: string;
+  // Milliseconds; what date filters compare against
+  date: number;
+  // Fingerprint of the indexed content; documents with the same version are not re-indexed
+  version: string;
+  fields: SearchField[];
+}
+
+interface IndexedField extends SearchField {
+  tokens: Token[];
+}
+
+export interface IndexedDocument extends Omit<SearchDocument, 'fields'> {
+  fields: IndexedField[];
+}
+
+export interface SearchFilters {
+  categoryIds?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface FieldMatch {
+  key: string;
+  kind: FieldKind;
+  snippet: SnippetPart[];
+}
+
+export interface SearchResult {
+  id: string;
+  score: number;
+  // Matching fields, best first
+  matches: FieldMatch[];
+}
+
+// Serialized form kept in IndexedDB
+export interface SearchIndexSnapshot {
+  schemaVersion: number;
+  documents: IndexedDocument[];
+}
+
+// Bump whenever tokenizing or stemming changes so stored indexes are rebuilt
+export const SCHEMA_VERSION = 1;
+
+const SNIPPET_BEFORE = 8;
+const SNIPPET_AFTER = 16;
+
+const findPhrase = (tokens: Token[], phrase: string[]): number[] => {
+  const positions: number[] = [];
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((term, offset) => tokens[i + offset].term === term)) {
+      for (let offset = 0; offset < phrase.length; offset++) positions.push(i + offset);
+    }
+  }
+  return positions;
+};
+
+const buildSnippet = (field: IndexedField, matched: number[]): SnippetPart[] => {
+  const first = Math.min(...matched);
+  const from = Math.max(first - SNIPPET_BEFORE, 0);
+  const to = Math.min(first + SNIPPET_AFTER, field.tokens.length - 1);
+  const highlighted = new Set(matched.filter(position => position >= from && position <= to));
+
+  const parts: SnippetPart[] = [];
+  let cursor = field.tokens[from].start;
+  if (from > 0) parts.push({ text: '…', highlight: false });
+  for (let position = from; position <= to; position++) {
+    if (!highlighted.has(position)) continue;
+    const token = field.tokens[position];
+    if (token.start > cursor) parts.push({ text: field.text.slice(cursor, token.start), highlight: false });
+    parts.push({ text: field.text.slice(token.start, token.end), highlight: true });
+    cursor = token.end;
+  }
+  parts.push({ text: field.text.slice(cursor, field.tokens[to].end), highlight: false });
+  if (to < field.tokens.length - 1) parts.push({ text: '…', highlight: false });
+  return parts.filter(part => part.text);
+};
+
+/**
+ * In-memory inverted index over story documents. Supports ranked free-text
+ * terms (all must match), quoted phrases and category/date filters. The
+ * index can be exported as a snapshot and restored without re-tokenizing.
+ */
+export const createSearchIndex = (snapshot?: SearchIndexSnapshot) => {
+  const documents = new Map<string, IndexedDocument>();
+  // term -> document id -> weighted term frequency
+  const postings = new Map<string, Map<string, number>>();
+
+  const addPostings = (doc: IndexedDocument) => {
+    doc.fields.forEach(field => {
+      field.tokens.forEach(({ term }) => {
+        let docs = postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          postings.set(term, docs);
+        }
+        docs.set(doc.id, (docs.get(doc.id) ?? 0) + FIELD_WEIGHTS[field.kind]);
+      });
+    });
+  };
+
+  const removePostings = (doc: IndexedDocument) => {
+    doc.fields.forEach(field => {
+      field.tokens.forEach(({ term }) => {
+        const docs = postings.get(term);
+        docs?.delete(doc.id);
+        if (docs?.size === 0) postings.delete(term);
+      });
+    });
+  };
+
+  const insert = (doc: IndexedDocument) => {
+    documents.set(doc.id, doc);
+    addPostings(doc);
+  };
+
+  if (snapshot?.schemaVersion === SCHEMA_VERSION) {
+    snapshot.documents.forEach(insert);
+  }
+
+  const remove = (id: string) => {
+    const existing = documents.get(id);
+    if (existing) {
+      removePostings(existing);
+      documents.delete(id);
+    }
+  };
+
+  const passesFilters = (doc: IndexedDocument, filters: SearchFilters) =>
+    (!filters.categoryIds?.length || filters.categoryIds.includes(doc.categoryId)) &&
+    (!filters.from || doc.date >= filters.from.getTime()) &&
+    (!filters.to || doc.date <= filters.to.getTime());
+
+  return {
+    version(id: string): string | undefined {
+      return documents.get(id)?.version;
+    },
+
+    ids(): string[] {
+      return Array.from(documents.keys());
+    },
+
+    upsert(doc: SearchDocument) {
+      remove(doc.id);
+      insert({
+        ...doc,
+        fields: doc.fields
+          .filter(field => field.text.trim())
+          .map(field => ({ ...field, tokens: tokenize(field.text) })),
+      });
+    },
+
+    remove,
+
+    search(input: string, filters: SearchFilters = {}): SearchResult[] {
+      const query = parseQuery(input);
+      const hasFilters = !!(filters.categoryIds?.length || filters.from || filters.to);
+      if (isEmptyQuery(query) && !hasFilters) return [];
+
+      const allTerms = Array.from(new Set([...query.terms, ...query.phrases.flat()]));
+      let candidates = Array.from(documents.values()).filter(doc => passesFilters(doc, filters));
+      allTerms.forEach(term => {
+        const docs = postings.get(term);
+        candidates = candidates.filter(doc => docs?.has(doc.id));
+      });
+
+      const idf = (term: string) => Math.log(1 + documents.size / (postings.get(term)?.size ?? 1));
+      const queryTerms = new Set(query.terms);
+
+      return candidates
+        .map(doc => {
+          const fieldMatches = doc.fields
+            .map(field => {
+              const phrasePositions = query.phrases.map(phrase => findPhrase(field.tokens, phrase));
+              const termPositions = field.tokens.flatMap((token, position) =>
+                queryTerms.has(token.term) ? [position] : []
+              );
+              return { field, phrasePositions, positions: [...termPositions, ...phrasePositions.flat()] };
+            })
+            .filter(match => match.positions.length > 0);
+
+          // Each phrase has to occur intact within a single field
+          const phrasesFound = query.phrases.every((_, index) =>
+            fieldMatches.some(match => match.phrasePositions[index].length > 0)
+          );
+          if (!phrasesFound) return null;
+
+          const score = allTerms.reduce(
+            (sum, term) => sum + (postings.get(term)?.get(doc.id) ?? 0) * idf(term),
+            0
+          );
+          const matches = fieldMatches
+            .sort((a, b) => FIELD_WEIGHTS[b.field.kind] - FIELD_WEIGHTS[a.field.kind])
+            .map(({ field, positions }) => ({
+              key: field.key,
+              kind: field.kind,
+              snippet: buildSnippet(field, positions),
+            }));
+
+          return { id: doc.id, score: score + query.phrases.length * 10, matches };
+        })
+        .filter((result): result is SearchResult => result !== null)
+        .sort((a, b) => b.score - a.score || (documents.get(b.id)?.date ?? 0) - (documents.get(a.id)?.date ?? 0));
+    },
+
+    toSnapshot(): SearchIndexSnapshot {
+      return { schemaVersion: SCHEMA_VERSION, documents: Array.from(documents.values()) };
+    },
+  };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -0,0 +1,113 @@
+// Porter stemming algorithm (M.F. Porter, 1980) for English terms
+
+const isConsonant = (word: string, i: number): boolean => {
+  const c = word[i];
+  if ('aeiou'.includes(c)) return false;
+  if (c === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+};
+
+// Number of vowel-consonant sequences, the "m" in [C](VC)^m[V]
+const measure = (stem: string): number => {
+  let m = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+};
+
+const hasVowel = (stem: string) => Array.from(stem).some((_, i) => !isConsonant(stem, i));
+
+const endsWithDoubleConsonant = (word: string) =>
+  word.length >= 2 && word[word.length - 1] === word[word.length - 2] && isConsonant(word, word.length - 1);
+
+// consonant-vowel-consonant, where the last consonant is not w, x or y
+const endsWithCvc = (word: string) => {
+  const n = word.length;
+  return (
+    n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !'wxy'.includes(word[n - 1])
+  );
+};
+
+// Replaces the longest matching suffix when the remaining stem is long enough
+const replaceSuffix = (word: string, rules: Array<[string, string]>, minMeasure: number): string => {
+  const rule = rules
+    .filter(([suffix]) => word.endsWith(suffix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  if (!rule) return word;
+  const stem = word.slice(0, -rule[0].length);
+  return measure(stem) > minMeasure ? stem + rule[1] : word;
+};
+
+const STEP_2: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+  ['logi', 'log'],
+];
+
+const STEP_3: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+
+const STEP_4 = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+];
+
+const step1ab = (word: string): string => {
+  if (word.endsWith('sses') || word.endsWith('ies')) word = word.slice(0, -2);
+  else if (!word.endsWith('ss') && word.endsWith('s')) word = word.slice(0, -1);
+
+  if (word.endsWith('eed')) {
+    return measure(word.slice(0, -3)) > 0 ? word.slice(0, -1) : word;
+  }
+
+  const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : null;
+  if (!suffix || !hasVowel(word.slice(0, -suffix.length))) return word;
+
+  word = word.slice(0, -suffix.length);
+  if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) return word + 'e';
+  if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) return word.slice(0, -1);
+  if (measure(word) === 1 && endsWithCvc(word)) return word + 'e';
+  return word;
+};
+
+const step1c = (word: string) =>
+  word.endsWith('y') && hasVowel(word.slice(0, -1)) ? word.slice(0, -1) + 'i' : word;
+
+const step4 = (word: string): string => {
+  const suffix = STEP_4.filter(s => word.endsWith(s)).sort((a, b) => b.length - a.length)[0];
+  if (!suffix) return word;
+  const stem = word.slice(0, -suffix.length);
+  if (suffix === 'ion' && !/[st]$/.test(stem)) return word;
+  return measure(stem) > 1 ? stem : word;
+};
+
+const step5 = (word: string): string => {
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) word = stem;
+  }
+  if (measure(word) > 1 && word.endsWith('ll')) word = word.slice(0, -1);
+  return word;
+};
+
+export const stem = (word: string): string => {
+  if (word.length < 3) return word;
+  let result = step1c(step1ab(word));
+  result = replaceSuffix(result, STEP_2, 0);
+  result = replaceSuffix(result, STEP_3, 0);
+  return step5(step4(result));
+};
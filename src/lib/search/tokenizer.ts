@@ -0,0 +1,34 @@
+import { stem } from './stemmer';
+
+export interface Token {
+  term: string;
+  // Character offsets into the source text, for highlighting
+  start: number;
+  end: number;
+}
+
+// Skipped in free-text queries only; phrases still match them
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+  'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to',
+  'was', 'were', 'will', 'with',
+]);
+
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+export const normalizeTerm = (word: string): string =>
+  stem(
+    word
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .replace(/['’]s$/, '')
+      .replace(/['’]/g, '')
+  );
+
+export const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(WORD), match => ({
+    term: normalizeTerm(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
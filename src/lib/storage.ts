@@ -1,5 +1,6 @@
 import { storage } from './firebase';
-import { ref, getDownloadURL } from 'firebase/storage';
+import { ref, getDownloadURL, uploadBytes } from 'firebase/storage';
+import { v4 as uuidv4 } from 'uuid';
 
 export const getImageWithToken = async (path: string): Promise<string> => {
   try {
@@ -37,4 +38,22 @@ export const getImageWithToken = async (path: string): Promise<string> => {
     console.error('Error getting image URL:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Fetches a book or chapter image, going through getImageWithToken for Firebase Storage URLs
+export const loadImageBlob = async (url: string): Promise<Blob> => {
+  if (url.includes('firebasestorage.googleapis.com')) {
+    const path = url.split('/o/')[1].split('?')[0];
+    url = await getImageWithToken(decodeURIComponent(path));
+  }
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Failed to fetch image');
+  return response.blob();
+};
+
+// Replacement cover and chapter images; a new name per upload keeps cached copies of the old image valid
+export const uploadBookImage = async (userId: string, bookId: string, file: File): Promise<string> => {
+  const imageRef = ref(storage, `book-images/${userId}/${bookId}/${uuidv4()}`);
+  await uploadBytes(imageRef, file, { contentType: file.type });
+  return getDownloadURL(imageRef);
+};
@@ -0,0 +1,148 @@
+export interface TextAnchor {
+  quote: string;
+  // Character offset of the quote in the container's text content
+  start: number;
+}
+
+export interface TextRange {
+  id: string;
+  start: number;
+  end: number;
+}
+
+const HIGHLIGHT_ATTRIBUTE = 'data-comment-id';
+const LINK_ATTRIBUTE = 'data-link-path';
+
+// Text content of the element the html is rendered into, which anchors are measured against
+export const renderedText = (html: string): string =>
+  new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+
+// Length of the text between the start of the container and a DOM position
+const textOffset = (container: Node, node: Node, offset: number): number => {
+  const range = document.createRange();
+  range.setStart(container, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+};
+
+// The selected passage, or null when nothing inside the container is selected
+export const anchorFromSelection = (container: HTMLElement, selection: Selection | null): TextAnchor | null => {
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.commonAncestorContainer)) return null;
+
+  const quote = range.toString();
+  if (!quote.trim()) return null;
+
+  return { quote, start: textOffset(container, range.startContainer, range.startOffset) };
+};
+
+/**
+ * Finds the quoted passage in the current text. The story may have been
+ * edited since the comment was written, so the occurrence closest to the
+ * recorded offset wins; null means the passage no longer exists.
+ */
+export const locateAnchor = (text: string, anchor: TextAnchor): { start: number; end: number } | null => {
+  let best: number | null = null;
+  let index = text.indexOf(anchor.quote);
+  while (index !== -1) {
+    if (best === null || Math.abs(index - anchor.start) < Math.abs(best - anchor.start)) {
+      best = index;
+    }
+    index = text.indexOf(anchor.quote, index + 1);
+  }
+  return best === null ? null : { start: best, end: best + anchor.quote.length };
+};
+
+export const clearHighlights = (container: HTMLElement) => {
+  container.querySelectorAll(`mark[${HIGHLIGHT_ATTRIBUTE}]`).forEach(mark => {
+    mark.replaceWith(...Array.from(mark.childNodes));
+  });
+  container.normalize();
+};
+
+const textNodes = (container: HTMLElement): Array<{ node: Text; start: number }> => {
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  const nodes: Array<{ node: Text; start: number }> = [];
+  let offset = 0;
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    nodes.push({ node, start: offset });
+    offset += node.data.length;
+  }
+  return nodes;
+};
+
+// Wraps each range's text nodes in an element of `makeWrapper`, one per node a range spans
+const wrapRanges = (
+  container: HTMLElement,
+  ranges: TextRange[],
+  makeWrapper: (range: TextRange) => HTMLElement,
+  skip: (node: Text) => boolean = () => false
+) => {
+  ranges.forEach(range => {
+    // Splitting a node leaves the offsets of the nodes after it unchanged
+    textNodes(container).forEach(({ node, start }) => {
+      const from = Math.max(range.start, start) - start;
+      const to = Math.min(range.end, start + node.data.length) - start;
+      if (from >= to || skip(node)) return;
+
+      const wrapped = from > 0 ? node.splitText(from) : node;
+      if (to - from < wrapped.data.length) {
+        wrapped.splitText(to - from);
+      }
+      const wrapper = makeWrapper(range);
+      wrapped.replaceWith(wrapper);
+      wrapper.appendChild(wrapped);
+    });
+  });
+};
+
+/**
+ * Wraps each range of the container's text in a <mark> carrying the range id.
+ * Ranges may span several elements; each text node in between gets its own
+ * mark. Overlapping ranges produce nested marks.
+ */
+export const highlightRanges = (container: HTMLElement, ranges: TextRange[], className: string) => {
+  clearHighlights(container);
+  wrapRanges(container, ranges, range => {
+    const mark = document.createElement('mark');
+    mark.setAttribute(HIGHLIGHT_ATTRIBUTE, range.id);
+    mark.className = className;
+    return mark;
+  });
+};
+
+export const highlightIdAt = (target: EventTarget | null): string | null =>
+  target instanceof Element ? target.closest(`mark[${HIGHLIGHT_ATTRIBUTE}]`)?.getAttribute(HIGHLIGHT_ATTRIBUTE) ?? null : null;
+
+export const clearLinks = (container: HTMLElement) => {
+  container.querySelectorAll(`a[${LINK_ATTRIBUTE}]`).forEach(link => {
+    link.replaceWith(...Array.from(link.childNodes));
+  });
+  container.normalize();
+};
+
+/**
+ * Turns each range into a link to the path in its id. Text already inside a
+ * link of the story's own is left alone, since links can't nest.
+ */
+export const linkRanges = (container: HTMLElement, ranges: TextRange[], className: string) => {
+  clearLinks(container);
+  wrapRanges(
+    container,
+    ranges,
+    range => {
+      const link = document.createElement('a');
+      link.setAttribute(LINK_ATTRIBUTE, range.id);
+      link.href = range.id;
+      link.className = className;
+      return link;
+    },
+    node => node.parentElement?.closest('a') !== null
+  );
+};
+
+export const linkPathAt = (target: EventTarget | null): string | null =>
+  target instanceof Element ? target.closest(`a[${LINK_ATTRIBUTE}]`)?.getAttribute(LINK_ATTRIBUTE) ?? null : null;
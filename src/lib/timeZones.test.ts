@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { dateToZonedTime, formatInTimeZone, parseLocalDateTime, zonedTimeToDate } from './timeZones';
+
+describe('zonedTimeToDate', () => {
+  it('applies the offset in force on that day', () => {
+    expect(zonedTimeToDate('2030-01-15T10:00', 'America/New_York')).toEqual(new Date('2030-01-15T15:00:00Z'));
+    expect(zonedTimeToDate('2030-07-15T10:00', 'America/New_York')).toEqual(new Date('2030-07-15T14:00:00Z'));
+    expect(zonedTimeToDate('2030-01-15T10:00', 'Australia/Sydney')).toEqual(new Date('2030-01-14T23:00:00Z'));
+    expect(zonedTimeToDate('2030-07-15T10:00', 'Australia/Sydney')).toEqual(new Date('2030-07-15T00:00:00Z'));
+    expect(zonedTimeToDate('2030-07-15T10:00', 'Asia/Kolkata')).toEqual(new Date('2030-07-15T04:30:00Z'));
+    expect(zonedTimeToDate('2030-07-15T10:00', 'UTC')).toEqual(new Date('2030-07-15T10:00:00Z'));
+  });
+
+  it('lands on the right side of a change made the same night', () => {
+    // The clocks go forward at 2am on March 10 and back at 2am on November 3
+    expect(zonedTimeToDate('2030-03-10T01:30', 'America/New_York')).toEqual(new Date('2030-03-10T06:30:00Z'));
+    expect(zonedTimeToDate('2030-03-10T03:30', 'America/New_York')).toEqual(new Date('2030-03-10T07:30:00Z'));
+    expect(zonedTimeToDate('2030-11-03T00:30', 'America/New_York')).toEqual(new Date('2030-11-03T04:30:00Z'));
+    expect(zonedTimeToDate('2030-11-03T02:30', 'America/New_York')).toEqual(new Date('2030-11-03T07:30:00Z'));
+  });
+
+  it('moves a time the clocks skip over forward by the gap', () => {
+    expect(zonedTimeToDate('2030-03-10T02:30', 'America/New_York')).toEqual(new Date('2030-03-10T07:30:00Z'));
+  });
+
+  it('picks the earlier of the two instants a repeated time happens at', () => {
+    // Daylight time still applies the first time round, in either hemisphere
+    expect(zonedTimeToDate('2030-11-03T01:30', 'America/New_York')).toEqual(new Date('2030-11-03T05:30:00Z'));
+    expect(zonedTimeToDate('2030-10-27T01:30', 'Europe/London')).toEqual(new Date('2030-10-27T00:30:00Z'));
+    expect(zonedTimeToDate('2030-04-07T02:30', 'Australia/Sydney')).toEqual(new Date('2030-04-06T15:30:00Z'));
+  });
+});
+
+describe('dateToZonedTime', () => {
+  it('reads the clocks in the zone', () => {
+    expect(dateToZonedTime(new Date('2030-03-10T06:59:00Z'), 'America/New_York')).toBe('2030-03-10T01:59');
+    expect(dateToZonedTime(new Date('2030-03-10T07:00:00Z'), 'America/New_York')).toBe('2030-03-10T03:00');
+    expect(dateToZonedTime(new Date('2030-12-31T20:00:00Z'), 'Asia/Kolkata')).toBe('2031-01-01T01:30');
+  });
+
+  it('round-trips every hour of a year with changes in both directions', () => {
+    for (const timeZone of ['America/New_York', 'Australia/Sydney', 'Europe/London', 'Asia/Kolkata']) {
+      for (let time = Date.UTC(2030, 0, 1); time < Date.UTC(2031, 0, 1); time += 60 * 60000) {
+        const local = dateToZonedTime(new Date(time), timeZone);
+        expect(dateToZonedTime(zonedTimeToDate(local, timeZone), timeZone)).toBe(local);
+      }
+    }
+  });
+});
+
+describe('parseLocalDateTime', () => {
+  it('treats a date alone as midnight', () => {
+    expect(parseLocalDateTime('2030-05-02')).toEqual({ year: 2030, month: 5, day: 2, hour: 0, minute: 0 });
+  });
+});
+
+describe('formatInTimeZone', () => {
+  it('shows the clocks of the given zone', () => {
+    expect(formatInTimeZone(new Date('2030-05-02T14:00:00Z'), 'America/New_York')).toMatch(/10:00/);
+    expect(formatInTimeZone(new Date('2030-05-02T14:00:00Z'), 'Asia/Kolkata')).toMatch(/7:30/);
+  });
+});
@@ -0,0 +1,134 @@
+import type { LocalDateTime } from '../types/schedule.js';
+
+interface DateTimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const partsFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock reading in `timeZone` at `instant`
+const zonedParts = (instant: Date, timeZone: string): DateTimeParts & { second: number } => {
+  const parts = partsFormatter(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+// Minutes `timeZone` is ahead of UTC at `instant`
+const offsetAt = (instant: Date, timeZone: string) => {
+  const parts = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return (asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000;
+};
+
+const DAY = 24 * 60 * 60000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Offered where the browser can't list every zone
+const FALLBACK_TIME_ZONES = [
+  'UTC',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Johannesburg',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Intl.supportedValuesOf is newer than the ES2020 library this project compiles against
+export const listTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: 'timeZone') => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : FALLBACK_TIME_ZONES;
+  return zones.includes(browserTimeZone()) ? zones : [browserTimeZone(), ...zones];
+};
+
+export const timeZoneLabel = (timeZone: string) => timeZone.replace(/_/g, ' ');
+
+// e.g. "Tue, Oct 20, 10:00 AM" as the clocks in `timeZone` read at `instant`; the browser's zone by default
+export const formatInTimeZone = (instant: Date, timeZone?: string) =>
+  new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(instant);
+
+// A call's time for the user, followed by the callee's clock when their zone reads differently
+export const formatCallTime = (instant: Date, timeZone?: string) => {
+  const localTime = formatInTimeZone(instant);
+  if (!timeZone) return localTime;
+  const theirTime = formatInTimeZone(instant, timeZone);
+  return theirTime === localTime ? localTime : `${localTime} your time · ${theirTime} in ${timeZoneLabel(timeZone)}`;
+};
+
+export const parseLocalDateTime = (value: LocalDateTime): DateTimeParts => {
+  const [date, time = '00:00'] = value.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return { year, month, day, hour, minute };
+};
+
+export const formatLocalDateTime = ({ year, month, day, hour, minute }: DateTimeParts): LocalDateTime =>
+  `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+
+// Wall-clock time in `timeZone` at `instant`, as stored on schedules
+export const dateToZonedTime = (instant: Date, timeZone: string): LocalDateTime =>
+  formatLocalDateTime(zonedParts(instant, timeZone));
+
+/**
+ * The instant a wall-clock time in `timeZone` happens. The offsets in force a
+ * day before and a day after are both tried, so times on either side of a
+ * daylight saving change land on the right hour. A time the clocks pass twice
+ * in autumn is the earlier of the two; one they skip over in spring moves
+ * forward by the size of the gap.
+ */
+export const zonedTimeToDate = (value: LocalDateTime, timeZone: string): Date => {
+  const { year, month, day, hour, minute } = parseLocalDateTime(value);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const [before, after] = [guess - DAY, guess + DAY].map(
+    probe => new Date(guess - offsetAt(new Date(probe), timeZone) * 60000)
+  );
+  const wanted = formatLocalDateTime({ year, month, day, hour, minute });
+  const matches = [before, after].filter(instant => dateToZonedTime(instant, timeZone) === wanted);
+  return matches.length ? new Date(Math.min(...matches.map(instant => instant.getTime()))) : before;
+};
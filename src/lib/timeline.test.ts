@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { parseStory } from './repositories/stories';
+import {
+  estimateEventDate,
+  layoutTimeline,
+  planEventDates,
+  shiftEventDate,
+  storyEventDate,
+  timelineColumns,
+} from './timeline';
+import { StoryEventDate } from '../types/story';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+// A finished story unless its title is null
+const story = (id: string, fields: Record<string, unknown> = {}) =>
+  parseStory(id, {
+    userId: 'user-1',
+    categoryId: 'childhood',
+    title: 'A story',
+    description: null,
+    storyText: null,
+    creationTime: Timestamp.fromDate(NOW),
+    lastUpdationTime: Timestamp.fromDate(NOW),
+    initialQuestion: 'Tell me something.',
+    sessions: {},
+    storySummary: null,
+    nextSchedule: null,
+    ...fields,
+  });
+
+const extracted = (startYear: number, endYear = startYear): StoryEventDate => ({ startYear, endYear, source: 'extracted' });
+
+describe('estimateEventDate', () => {
+  it('spans every year and decade the story mentions', () => {
+    expect(estimateEventDate(story('a', { storyText: 'In 1962 we moved, and we stayed through the 1970s.' }), undefined, NOW)).toEqual(
+      extracted(1962, 1979)
+    );
+  });
+
+  it('turns ages into years once the birth year is known', () => {
+    const moved = story('a', { storyText: 'When I was 8 we moved, and at age 15 we moved again.' });
+
+    expect(estimateEventDate(moved, 1950, NOW)).toEqual(extracted(1958, 1965));
+    expect(estimateEventDate(moved, undefined, NOW)).toBeNull();
+  });
+
+  it('falls back on life stages, up to the current year', () => {
+    expect(estimateEventDate(story('a', { storyText: 'Back in high school.' }), 1950, NOW)).toEqual(extracted(1963, 1969));
+    expect(estimateEventDate(story('a', { storyText: 'Since I retired.' }), 1950, NOW)).toEqual(extracted(2015, 2024));
+    // A year outranks the stage
+    expect(estimateEventDate(story('a', { storyText: 'In high school, in 1970.' }), 1950, NOW)).toEqual(extracted(1970));
+  });
+
+  it('leaves out ages the storyteller hasn’t reached', () => {
+    expect(estimateEventDate(story('a', { storyText: 'When I was 70.' }), 1950, NOW)).toEqual(extracted(2020));
+    expect(estimateEventDate(story('a', { storyText: 'When I was 90.' }), 1950, NOW)).toBeNull();
+  });
+});
+
+describe('storyEventDate and planEventDates', () => {
+  const userDate: StoryEventDate = { startYear: 1940, endYear: 1945, source: 'user' };
+
+  it('keeps a date the user set, whatever the text says', () => {
+    expect(storyEventDate(story('a', { storyText: 'In 1962.', eventDate: userDate }), undefined, NOW)).toEqual(userDate);
+  });
+
+  it('plans dates only for finished stories whose extracted date changed', () => {
+    const changes = planEventDates(
+      [
+        story('new', { storyText: 'In 1962.' }),
+        story('same', { storyText: 'In 1962.', eventDate: extracted(1962) }),
+        story('edited', { storyText: 'In 1963.', eventDate: extracted(1962) }),
+        story('undated', { storyText: 'Goats.', eventDate: extracted(1962) }),
+        story('user', { storyText: 'In 1962.', eventDate: userDate }),
+        story('unfinished', { storyText: 'In 1962.', title: null }),
+      ],
+      undefined,
+      NOW
+    );
+
+    expect(changes.map(({ story, eventDate }) => [story.id, eventDate])).toEqual([
+      ['new', extracted(1962)],
+      ['edited', extracted(1963)],
+      ['undated', null],
+    ]);
+  });
+});
+
+describe('shiftEventDate', () => {
+  it('moves a date by whole years, keeping its length, as the user’s', () => {
+    expect(shiftEventDate(extracted(1960, 1965), 10, NOW)).toEqual({ startYear: 1970, endYear: 1975, source: 'user' });
+    expect(shiftEventDate(extracted(1960, 1965), -10, NOW)).toEqual({ startYear: 1950, endYear: 1955, source: 'user' });
+  });
+
+  it('stops at the current year', () => {
+    expect(shiftEventDate(extracted(2010, 2015), 20, NOW)).toEqual({ startYear: 2019, endYear: 2024, source: 'user' });
+  });
+});
+
+describe('timelineColumns', () => {
+  it('has a decade a column from the birth year to now', () => {
+    expect(timelineColumns('decade', [extracted(1962)], 1975, undefined, NOW).map(column => column.label)).toEqual([
+      '1960s',
+      '1970s',
+      '1980s',
+      '1990s',
+      '2000s',
+      '2010s',
+      '2020s',
+    ]);
+    expect(timelineColumns('decade', [], undefined, undefined, NOW)).toEqual([{ start: 2020, end: 2029, label: '2020s' }]);
+  });
+
+  it('has the years of one decade when zoomed in, up to the current one', () => {
+    expect(timelineColumns('year', [], 1950, 1960, NOW).map(column => column.label)).toEqual([
+      '1960',
+      '1961',
+      '1962',
+      '1963',
+      '1964',
+      '1965',
+      '1966',
+      '1967',
+      '1968',
+      '1969',
+    ]);
+    expect(timelineColumns('year', [], 1950, 2020, NOW)).toHaveLength(5);
+  });
+});
+
+describe('layoutTimeline', () => {
+  const columns = timelineColumns('decade', [], 1950, undefined, new Date('1989-01-01T00:00:00Z'));
+  const layout = (dates: Record<string, StoryEventDate>, shown = columns) =>
+    layoutTimeline(
+      Object.entries(dates).map(([id, date]) => ({ story: story(id), date })),
+      shown
+    ).map(({ story, firstColumn, lastColumn, lane }) => [story.id, firstColumn, lastColumn, lane]);
+
+  it('puts overlapping bars in separate lanes, reusing a lane once it is free', () => {
+    expect(
+      layout({
+        later: extracted(1975),
+        wedding: extracted(1955, 1962),
+        school: extracted(1958),
+        move: extracted(1965, 1972),
+        war: extracted(1962, 1968),
+      })
+    ).toEqual([
+      ['wedding', 0, 1, 0],
+      ['school', 0, 0, 1],
+      ['war', 1, 1, 1],
+      ['move', 1, 2, 2],
+      ['later', 2, 2, 0],
+    ]);
+  });
+
+  it('clips bars to the columns shown and leaves out the rest', () => {
+    const zoomed = timelineColumns('year', [], 1950, 1960, new Date('1989-01-01T00:00:00Z'));
+
+    expect(
+      layout({ before: extracted(1940, 1945), across: extracted(1955, 1962), inside: extracted(1964), after: extracted(1975) }, zoomed)
+    ).toEqual([
+      ['across', 0, 2, 0],
+      ['inside', 4, 4, 0],
+    ]);
+    expect(layout({ across: extracted(1955) }, [])).toEqual([]);
+  });
+});
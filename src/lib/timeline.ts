@@ -0,0 +1,158 @@
+import { isCompletedStory, Repositories } from './repositories';
+import { decadeOf, mentionedAges, mentionedStages, mentionedYearSpans, storyContent, YearSpan } from './coverage';
+import { Category } from '../types/category';
+import { Story, StoryEventDate } from '../types/story';
+
+export type TimelineZoom = 'decade' | 'year';
+
+export interface TimelineColumn extends YearSpan {
+  label: string;
+}
+
+export interface TimelineBar {
+  story: Story;
+  date: StoryEventDate;
+  // Columns the bar covers, 0-based and inclusive, clipped to the columns shown
+  firstColumn: number;
+  lastColumn: number;
+  lane: number;
+}
+
+// Full class names, so Tailwind keeps them; categories take them in order
+export const CATEGORY_COLORS = [
+  'bg-orange-400',
+  'bg-sky-400',
+  'bg-emerald-400',
+  'bg-violet-400',
+  'bg-rose-400',
+  'bg-amber-400',
+  'bg-teal-400',
+  'bg-indigo-400',
+  'bg-lime-500',
+  'bg-pink-400',
+];
+
+export const categoryColors = (categories: Category[]): Record<string, string> =>
+  Object.fromEntries(categories.map((category, index) => [category.id, CATEGORY_COLORS[index % CATEGORY_COLORS.length]]));
+
+/**
+ * When a story's events happened, judging by what it says: every year and
+ * decade it mentions, and with a birth year, every age and life stage. The
+ * result spans the earliest to the latest of them; null when nothing dates it.
+ */
+export const estimateEventDate = (story: Story, birthYear?: number, now = new Date()): StoryEventDate | null => {
+  const currentYear = now.getFullYear();
+  const text = storyContent(story);
+  const spans = mentionedYearSpans(text, currentYear);
+  if (birthYear) {
+    mentionedAges(text).forEach(age => spans.push({ start: birthYear + age, end: birthYear + age }));
+    // Life stages only place a story that mentions no year or age
+    if (spans.length === 0) {
+      mentionedStages(text).forEach(stage => {
+        spans.push({ start: birthYear + stage.minAge, end: birthYear + Math.min(stage.maxAge, currentYear - birthYear) });
+      });
+    }
+  }
+
+  const dated = spans.filter(span => span.start <= currentYear);
+  if (dated.length === 0) return null;
+  return {
+    startYear: Math.min(...dated.map(span => span.start)),
+    endYear: Math.min(Math.max(...dated.map(span => span.end)), currentYear),
+    source: 'extracted',
+  };
+};
+
+// A date the user set stands; otherwise the story's text decides
+export const storyEventDate = (story: Story, birthYear?: number, now = new Date()): StoryEventDate | null =>
+  story.eventDate?.source === 'user' ? story.eventDate : estimateEventDate(story, birthYear, now);
+
+const sameDate = (a: StoryEventDate | null | undefined, b: StoryEventDate | null) =>
+  (a ?? null) === b || (!!a && !!b && a.startYear === b.startYear && a.endYear === b.endYear && a.source === b.source);
+
+/** Stories whose stored date no longer matches what their text says, with the date to store. */
+export const planEventDates = (stories: Story[], birthYear?: number, now = new Date()) =>
+  stories
+    .filter(story => isCompletedStory(story) && story.eventDate?.source !== 'user')
+    .map(story => ({ story, eventDate: estimateEventDate(story, birthYear, now) }))
+    .filter(({ story, eventDate }) => !sameDate(story.eventDate, eventDate));
+
+export const syncEventDates = async (repositories: Repositories, stories: Story[], birthYear?: number) => {
+  const changes = planEventDates(stories, birthYear);
+  await Promise.all(changes.map(({ story, eventDate }) => repositories.stories.setEventDate(story.id, eventDate)));
+  return changes.length;
+};
+
+/**
+ * Moves a date by whole columns, keeping its length; dates can't move past
+ * the current year.
+ */
+export const shiftEventDate = (date: StoryEventDate, years: number, now = new Date()): StoryEventDate => {
+  const overshoot = Math.max(0, date.endYear + years - now.getFullYear());
+  return { startYear: date.startYear + years - overshoot, endYear: date.endYear + years - overshoot, source: 'user' };
+};
+
+/**
+ * Columns across the storyteller's life: a decade each, or the years of
+ * `focusDecade` when zoomed in. They start at the birth year or the earliest
+ * dated story, whichever comes first, since stories can tell of family
+ * before the storyteller was born.
+ */
+export const timelineColumns = (
+  zoom: TimelineZoom,
+  dates: StoryEventDate[],
+  birthYear?: number,
+  focusDecade?: number,
+  now = new Date()
+): TimelineColumn[] => {
+  const currentYear = now.getFullYear();
+  if (zoom === 'year' && focusDecade !== undefined) {
+    return Array.from({ length: 10 }, (_, index) => focusDecade + index)
+      .filter(year => year <= currentYear)
+      .map(year => ({ start: year, end: year, label: String(year) }));
+  }
+
+  const firstYear = Math.min(birthYear ?? currentYear, ...dates.map(date => date.startYear));
+  const columns: TimelineColumn[] = [];
+  for (let decade = decadeOf(firstYear); decade <= decadeOf(currentYear); decade += 10) {
+    columns.push({ start: decade, end: decade + 9, label: `${decade}s` });
+  }
+  return columns;
+};
+
+export const columnAt = (columns: TimelineColumn[], year: number) =>
+  columns.findIndex(column => year >= column.start && year <= column.end);
+
+/**
+ * Places each dated story on the columns its date covers, in lanes so bars
+ * that overlap sit on separate rows. Stories outside the columns are left out.
+ */
+export const layoutTimeline = (
+  entries: { story: Story; date: StoryEventDate }[],
+  columns: TimelineColumn[]
+): TimelineBar[] => {
+  if (columns.length === 0) return [];
+  const first = columns[0].start;
+  const last = columns[columns.length - 1].end;
+
+  // Last column taken in each lane so far
+  const laneEnds: number[] = [];
+  return entries
+    .filter(({ date }) => date.endYear >= first && date.startYear <= last)
+    .sort((a, b) => a.date.startYear - b.date.startYear || a.date.endYear - b.date.endYear)
+    .map(({ story, date }) => {
+      const firstColumn = columnAt(columns, Math.max(date.startYear, first));
+      const lastColumn = columnAt(columns, Math.min(date.endYear, last));
+      let lane = laneEnds.findIndex(end => end < firstColumn);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(lastColumn);
+      } else {
+        laneEnds[lane] = lastColumn;
+      }
+      return { story, date, firstColumn, lastColumn, lane };
+    });
+};
+
+export const formatEventDate = (date: StoryEventDate) =>
+  date.startYear === date.endYear ? String(date.startYear) : `${date.startYear}–${date.endYear}`;
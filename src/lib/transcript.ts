@@ -0,0 +1,157 @@
+import { LiveUtterance, RecordingPause, StorySession, TranscriptMessage } from '../types/story';
+
+export interface WordPosition {
+  messageIndex: number;
+  wordIndex: number;
+}
+
+export interface TimedWord extends WordPosition {
+  text: string;
+  normalized: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptMatch extends WordPosition {
+  sessionId: string;
+  // Every matched word; a phrase can run across two messages
+  positions: WordPosition[];
+  start: number;
+  before: string;
+  match: string;
+  after: string;
+}
+
+// Pauses shorter than this keep the previous word highlighted
+const HIGHLIGHT_GRACE_SECONDS = 0.4;
+const SNIPPET_WORDS = 6;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+// All words of a transcript in playback order
+export const indexWords = (messages: TranscriptMessage[]): TimedWord[] =>
+  messages
+    .flatMap((message, messageIndex) =>
+      message.words.map((word, wordIndex) => ({
+        messageIndex,
+        wordIndex,
+        text: word.word,
+        normalized: normalizeWord(word.word),
+        start: word.start,
+        end: word.end,
+      }))
+    )
+    .sort((a, b) => a.start - b.start);
+
+/**
+ * The word being spoken at `time`, or null during longer silences. Uses a
+ * binary search since this runs on every animation frame during playback.
+ */
+export const findWordAt = (words: TimedWord[], time: number): TimedWord | null => {
+  let low = 0;
+  let high = words.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (words[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (found < 0) return null;
+  return time <= words[found].end + HIGHLIGHT_GRACE_SECONDS ? words[found] : null;
+};
+
+export const isSameWord = (a: WordPosition | null, b: WordPosition | null) =>
+  a?.messageIndex === b?.messageIndex && a?.wordIndex === b?.wordIndex;
+
+/**
+ * Finds every place a phrase is said across the given sessions. Words are
+ * matched in sequence, ignoring case and punctuation; the last query word
+ * also matches as a prefix so results show up while typing.
+ */
+export const searchTranscripts = (
+  sessions: Array<[string, StorySession]>,
+  query: string
+): TranscriptMatch[] => {
+  const terms = query.split(/\s+/).map(normalizeWord).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  return sessions.flatMap(([sessionId, session]) => {
+    const words = indexWords(session.transcript_object || []);
+    const matches: TranscriptMatch[] = [];
+
+    for (let i = 0; i + terms.length <= words.length; i++) {
+      const isMatch = terms.every((term, offset) => {
+        const word = words[i + offset].normalized;
+        return offset === terms.length - 1 ? word.startsWith(term) : word === term;
+      });
+      if (!isMatch) continue;
+
+      const join = (from: number, to: number) =>
+        words.slice(Math.max(from, 0), to).map(word => word.text).join(' ');
+      matches.push({
+        sessionId,
+        messageIndex: words[i].messageIndex,
+        wordIndex: words[i].wordIndex,
+        positions: words
+          .slice(i, i + terms.length)
+          .map(({ messageIndex, wordIndex }) => ({ messageIndex, wordIndex })),
+        start: words[i].start,
+        before: join(i - SNIPPET_WORDS, i),
+        match: join(i, i + terms.length),
+        after: join(i + terms.length, i + terms.length + SNIPPET_WORDS),
+      });
+      i += terms.length - 1;
+    }
+
+    return matches;
+  });
+};
+
+// DOM id of a rendered transcript word, used to scroll search results into view
+export const transcriptWordId = (sessionId: string, position: WordPosition) =>
+  `transcript-${sessionId}-${position.messageIndex}-${position.wordIndex}`;
+
+export const formatPlaybackTime = (seconds: number) => {
+  const whole = Math.max(Math.floor(seconds), 0);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const continues = (earlier: LiveUtterance, later: LiveUtterance) =>
+  earlier.role === later.role &&
+  (later.content.startsWith(earlier.content) || earlier.content.startsWith(later.content));
+
+/**
+ * Folds a live update into the captions so far. Updates carry only the most
+ * recent turns, the last of which is still being spoken, so the update
+ * replaces everything from the first turn it overlaps with.
+ */
+export const mergeLiveTranscript = (current: LiveUtterance[], update: LiveUtterance[]): LiveUtterance[] => {
+  if (update.length === 0) return current;
+
+  for (let start = Math.max(0, current.length - update.length); start < current.length; start++) {
+    const overlap = current.slice(start);
+    if (overlap.every((utterance, index) => continues(utterance, update[index]))) {
+      return [...current.slice(0, start), ...update];
+    }
+  }
+  return [...current, ...update];
+};
+
+/**
+ * What the interviewer is told when the user comes back from a break, so it
+ * picks up the thread: its last question, if it had asked one.
+ */
+export const resumeReminder = (utterances: LiveUtterance[]): string => {
+  const lastQuestion = [...utterances].reverse().find(utterance => utterance.role === 'agent' && utterance.content);
+  return lastQuestion
+    ? `The user is back from a short break. Before it you asked: "${lastQuestion.content}". Pick the conversation up from there.`
+    : 'The user is back from a short break. Carry on with the conversation.';
+};
+
+// Where playback should jump to when `time` falls inside a break, or null outside one
+export const pauseEndAt = (pauses: RecordingPause[], time: number): number | null =>
+  pauses.find(pause => time >= pause.start && time < pause.end)?.end ?? null;
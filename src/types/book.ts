@@ -6,6 +6,8 @@ export interface Chapter {
   imageUrl: string;
   story: string;
   createdAt: Timestamp;
+  // Set for chapters picked from a story in the book editor
+  storyId?: string;
 }
 
 export interface Book {
@@ -0,0 +1,30 @@
+export interface CallHistoryEntry {
+  id: string;
+  callId: string;
+  category: string;
+  creationTime: Date;
+  initialQuestion: string;
+  lastUpdated: Date;
+  recording_url: string;
+  sessionId: string;
+  storyId: string;
+  summary: string;
+  title: string;
+  transcript: string;
+  transcript_object: Array<{
+    content: string;
+    role: string;
+    metadata?: {
+      response_id: number;
+    };
+    words: Array<{
+      word: string;
+      start: number;
+      end: number;
+    }>;
+  }>;
+  updated: boolean;
+  videoComplete: boolean;
+  videoHasAudio: boolean;
+  videoUrl: string;
+}
@@ -1,3 +1,5 @@
+import { Timestamp } from 'firebase/firestore';
+
 export interface Category {
   id: string;
   title: string;
@@ -5,4 +7,25 @@ export interface Category {
   emoji_unicode: string;
   example: string;
   questions: string[];
-}
\ No newline at end of file
+  // Set on categories a user made themselves; built-in ones are shared by everyone
+  ownerId?: string;
+  // Position among the owner's categories
+  order?: number;
+  // Hidden from the category pickers but kept for the stories already told in it
+  archived?: boolean;
+}
+
+export type QuestionSuggestionStatus = 'pending' | 'accepted' | 'dismissed';
+
+// A question a family member would like a storyteller to be asked
+export interface QuestionSuggestion {
+  id: string;
+  // The storyteller whose question bank it is for
+  ownerId: string;
+  categoryId: string;
+  question: string;
+  suggestedBy: string;
+  suggestedByName: string;
+  status: QuestionSuggestionStatus;
+  createdAt: Timestamp;
+}
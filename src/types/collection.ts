@@ -0,0 +1,43 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type CollectionRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+// Roles that can be handed out through an invitation; a collection has exactly one owner
+export type InviteRole = Exclude<CollectionRole, 'owner'>;
+
+export interface CollectionMember {
+  role: CollectionRole;
+  name: string;
+  email: string;
+  joinedAt: Timestamp;
+  inviteId?: string;
+}
+
+/**
+ * A family's shared stories. Every user owns exactly one collection, stored
+ * under their uid, which holds the stories and books they created.
+ */
+export interface StoryCollection {
+  id: string;
+  name: string;
+  ownerId: string;
+  // Mirrors the keys of `members` so membership can be queried
+  memberIds: string[];
+  members: Record<string, CollectionMember>;
+  createdAt: Timestamp;
+}
+
+export type InviteStatus = 'pending' | 'accepted' | 'revoked';
+
+export interface CollectionInvite {
+  id: string;
+  collectionId: string;
+  collectionName: string;
+  email: string;
+  role: InviteRole;
+  invitedBy: string;
+  invitedByName: string;
+  status: InviteStatus;
+  createdAt: Timestamp;
+  acceptedBy?: string;
+}
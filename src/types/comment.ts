@@ -0,0 +1,52 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type ReactionKey = 'heart' | 'laugh' | 'wow' | 'sad' | 'clap';
+
+// User ids per reaction
+export type Reactions = Partial<Record<ReactionKey, string[]>>;
+
+// What a comment discussion is attached to
+export type CommentTarget =
+  | { type: 'story'; storyId: string }
+  | { type: 'chapter'; bookId: string; chapterId: string };
+
+// The part of the target a top-level comment refers to
+export type CommentAnchor =
+  | { type: 'whole' }
+  | { type: 'session'; sessionId: string }
+  // A passage of the story text; `start` is its character offset when the comment was written
+  | { type: 'selection'; quote: string; start: number };
+
+export interface StoryComment {
+  id: string;
+  // Owner of the collection the target belongs to
+  collectionId: string;
+  threadId: string;
+  anchor: CommentAnchor;
+  // Replies point at the comment they answer
+  parentId: string | null;
+  authorId: string;
+  authorName: string;
+  body: string;
+  reactions: Reactions;
+  createdAt: Timestamp;
+  editedAt?: Timestamp;
+  deleted: boolean;
+}
+
+export type NotificationType = 'comment' | 'reply' | 'reaction';
+
+export interface ActivityNotification {
+  id: string;
+  type: NotificationType;
+  actorId: string;
+  actorName: string;
+  threadId: string;
+  // Where to open: a story or a book
+  link: string;
+  // Title of the story or chapter
+  targetTitle: string;
+  preview: string;
+  createdAt: Timestamp;
+  read: boolean;
+}
@@ -0,0 +1,23 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type EntityKind = 'person' | 'place' | 'date';
+
+// Someone, somewhere or some time the user's stories mention
+export interface Entity {
+  id: string;
+  kind: EntityKind;
+  // How the entity is shown; always one of its aliases
+  name: string;
+  // Every spelling that refers to it, e.g. "Grandma Rose" and "Rose"
+  aliases: string[];
+  storyIds: string[];
+  mentionCount: number;
+  // Dates only: the year, or the first year of a decade
+  year?: number;
+  decade?: boolean;
+  // Set once the user renamed, merged, split or ignored it; the index is then kept even without mentions
+  edited: boolean;
+  // Not really a person or place; kept so it isn't extracted again
+  ignored: boolean;
+  updatedAt: Timestamp;
+}
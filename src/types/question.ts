@@ -1,3 +1,8 @@
+// Dismissed questions are kept so they aren't proposed again
+export type UpcomingQuestionStatus = 'pending' | 'snoozed' | 'dismissed';
+
+export type QuestionSubjectKind = 'person' | 'place' | 'event';
+
 export interface UpcomingQuestion {
   id: string;
   userId: string;
@@ -5,4 +10,40 @@ export interface UpcomingQuestion {
   categoryTitle: string;
   question: string;
   createdAt: Date;
-}
\ No newline at end of file
+  status: UpcomingQuestionStatus;
+  // Set while snoozed; the question shows again after it
+  snoozedUntil: Date | null;
+  // Set for generated questions: who or what they follow up on, and where it came up
+  subject?: string;
+  subjectKind?: QuestionSubjectKind;
+  sourceStoryId?: string;
+}
+
+// A finished story a question generator looks for loose threads in
+export interface QuestionSource {
+  storyId: string;
+  categoryId: string;
+  title: string;
+  summary: string;
+  // The end of the story's transcripts, trimmed to keep requests small
+  transcript: string;
+}
+
+export interface QuestionGenerationRequest {
+  sources: QuestionSource[];
+  // Questions already asked, answered or turned down
+  avoid: string[];
+  limit: number;
+}
+
+// A follow-up about someone or something a story mentions but doesn't explore
+export interface ProposedQuestion {
+  question: string;
+  subject: string;
+  kind: QuestionSubjectKind;
+  storyId: string;
+}
+
+export interface QuestionGenerationResponse {
+  questions: ProposedQuestion[];
+}
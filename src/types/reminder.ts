@@ -0,0 +1,33 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type ReminderChannel = 'email' | 'sms';
+
+// What the user wants to be reminded of before each scheduled call
+export interface ReminderPreferences {
+  // Minutes before the call, one reminder per offset and channel
+  offsetsMinutes: number[];
+  channels: ReminderChannel[];
+}
+
+// One reminder waiting to be sent by the server's reminder dispatcher
+export interface CallReminder {
+  id: string;
+  userId: string;
+  storyId: string;
+  channel: ReminderChannel;
+  // Email address or phone number
+  to: string;
+  sendAt: Timestamp;
+  callAt: Timestamp;
+  // The callee's zone, used to word the call time in the message
+  timeZone: string;
+  question: string;
+  offsetMinutes: number;
+  status: 'pending' | 'sent' | 'failed';
+}
+
+// A reminder about to be written; it starts out pending
+export type NewCallReminder = Omit<CallReminder, 'id' | 'sendAt' | 'callAt' | 'status'> & {
+  sendAt: Date;
+  callAt: Date;
+};
@@ -0,0 +1,53 @@
+// Request and response bodies of the Retell proxy, shared by the server and the browser client
+
+export interface AgentSkeleton {
+  agent_configurations: {
+    interruption_sensitivity: number;
+    language: string;
+    voice_id: string;
+    general_tools?: {
+      name: string;
+      type: string;
+      description: string;
+    }[];
+  };
+  category_id: string;
+  llm_configurations: {
+    general_prompt: string;
+    model: string;
+  };
+}
+
+// The proxy builds the agent from the category's template in `agent_skeletons`
+export interface CreateAgentRequest {
+  category_id: string;
+  voice_id?: string;
+}
+
+export interface CreateAgentResponse {
+  llmId: string;
+  agentId: string;
+}
+
+export interface RetellVoice {
+  voice_id: string;
+  voice_name: string;
+  provider: string;
+  accent: string;
+  gender: string;
+  age: string;
+  preview_audio_url: string;
+}
+
+export interface UpdateAgentRequest {
+  voice_id: string;
+}
+
+// Passed to the agent of a call in progress, e.g. where to pick up after a break
+export interface CallContextRequest {
+  context: string;
+}
+
+export interface RetellApiErrorBody {
+  error: string;
+}
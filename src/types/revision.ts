@@ -0,0 +1,16 @@
+import { Timestamp } from 'firebase/firestore';
+
+// original: content as generated before the first manual edit
+export type RevisionSource = 'original' | 'edit' | 'restore';
+
+export interface StoryRevision {
+  id: string;
+  title: string | null;
+  description: string | null;
+  storyText: string | null;
+  authorId: string | null;
+  authorName: string | null;
+  createdAt: Timestamp;
+  source: RevisionSource;
+  restoredFrom?: string;
+}
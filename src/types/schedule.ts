@@ -0,0 +1,30 @@
+import { Timestamp } from 'firebase/firestore';
+import type { RetryPolicy } from './story.js';
+
+// Wall-clock date and time in a schedule's time zone, as `yyyy-MM-ddTHH:mm`
+export type LocalDateTime = string;
+
+// A change to one occurrence of a recurring schedule, keyed by the time it was originally due
+export type OccurrenceChange =
+  | { type: 'skip' }
+  | { type: 'reschedule'; dateTime: LocalDateTime };
+
+export interface RecurringSchedule {
+  id: string;
+  userId: string;
+  categoryId: string;
+  // Asked on the first call; later calls rotate through the user's upcoming questions
+  initialQuestion: string;
+  phoneNumber: string;
+  // RFC 5545 recurrence rule without DTSTART, e.g. `FREQ=WEEKLY;BYDAY=TU`
+  rrule: string;
+  // First call, in `timeZone`
+  start: LocalDateTime;
+  timeZone: string;
+  // Last day calls may happen on (`yyyy-MM-dd`), or null to repeat indefinitely
+  endDate: string | null;
+  // Copied onto every call the schedule books
+  retryPolicy?: RetryPolicy;
+  exceptions: Record<LocalDateTime, OccurrenceChange>;
+  createdAt: Timestamp;
+}
@@ -1,28 +1,117 @@
 import { Timestamp } from 'firebase/firestore';
 
+// Word times are in seconds from the start of the call recording
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptMessage {
+  role: string;
+  content: string;
+  words: TranscriptWord[];
+  metadata?: {
+    response_id: number;
+  };
+}
+
+// One turn of the captions shown during a call, without word timings
+export interface LiveUtterance {
+  role: string;
+  content: string;
+}
+
+// A break taken during the call, in seconds from the start of the recording
+export interface RecordingPause {
+  start: number;
+  end: number;
+}
+
 export interface StorySession {
   callId: string;
   creationTime: Timestamp;
   transcript?: string;
-  transcript_object?: Array<{
-    role: string;
-    content: string;
-    words: Array<{
-      word: string;
-      start: number;
-      end: number;
-    }>;
-    metadata?: {
-      response_id: number;
-    };
-  }>;
+  transcript_object?: TranscriptMessage[];
   recording_url?: string;
   videoUrl?: string;
   videoChunkUrl?: string;
   videoComplete?: boolean;
+  // Set for recordings with the call's audio mixed in; older ones are video only
+  videoHasAudio?: boolean;
+  videoMimeType?: string;
+  // Local recording of audio-only sessions, with both voices mixed
+  audioUrl?: string;
+  audioComplete?: boolean;
+  audioMimeType?: string;
+  // Stretches of the recording that are silence because the user took a break
+  recordingPauses?: RecordingPause[];
+  // The call's live captions, saved only when post-call processing didn't finish
+  liveTranscript?: LiveUtterance[];
   updated?: boolean;
 }
 
+// Where a scheduled phone call is in its life. The phone backend moves it
+// along; no_answer and failed are final only once retries are used up.
+export type ScheduleStatus =
+  | 'scheduled'
+  | 'dialing'
+  | 'in_progress'
+  | 'completed'
+  | 'no_answer'
+  | 'failed'
+  | 'cancelled';
+
+// What the phone backend sends the server's `POST /schedules/{storyId}/status` as a call moves along
+export interface ScheduleStatusReport {
+  status: ScheduleStatus;
+  note?: string;
+  // ISO time the status was reached; the server's clock when left out
+  at?: string;
+}
+
+// How often a call nobody picked up is tried again
+export interface RetryPolicy {
+  maxRetries: number;
+  intervalMinutes: number;
+}
+
+// One entry of a scheduled call's audit trail
+export interface ScheduleEvent {
+  status: ScheduleStatus;
+  at: Timestamp;
+  // Dial attempt the event belongs to, 0 before the first dial
+  attempt: number;
+  note?: string;
+}
+
+// Written with a client clock: Firestore has no server timestamps inside arrays
+export type NewScheduleEvent = Omit<ScheduleEvent, 'at'> & { at: Date };
+
+export interface StorySchedule {
+  dateTime: Timestamp;
+  phoneNumber: string;
+  status: ScheduleStatus;
+  // Schedules made before retries existed don't have one and are dialed once
+  retryPolicy?: RetryPolicy;
+  history: ScheduleEvent[];
+  // The callee's zone; schedules made before zones were recorded don't have one
+  timeZone?: string;
+  // Set when the call is one occurrence of a recurring schedule
+  scheduleId?: string;
+  occurrence?: string;
+}
+
+// Where a story's date came from: found in what was said, or set by the user on the timeline
+export type EventDateSource = 'extracted' | 'user';
+
+// When the events of a story happened, to the year; one year has the same start and end
+export interface StoryEventDate {
+  startYear: number;
+  endYear: number;
+  source: EventDateSource;
+}
+
 export interface Story {
   id: string;
   userId: string;
@@ -37,4 +126,8 @@ export interface Story {
   storySummary: string | null;
   imageUrl?: string;
   isOnboardingStory?: boolean;
+  nextSchedule?: StorySchedule | null;
+  eventDate?: StoryEventDate | null;
+  // Fingerprint of the text the people and places index last read from the story
+  entityIndexStamp?: string;
 }
\ No newline at end of file
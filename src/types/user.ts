@@ -1,3 +1,5 @@
+import { ReminderPreferences } from './reminder';
+
 export interface AIPreferences {
   voice: {
     voice_id: string;
@@ -14,6 +16,9 @@ export interface AIPreferences {
   followUpIntensity: 'fewer' | 'balanced' | 'more';
 }
 
+// Whether conversations started in the browser film the user or only record their voice
+export type RecordingMode = 'video' | 'audio';
+
 export interface StoryPreferences {
   narrativeStyle: 'first-person' | 'third-person';
   lengthPreference: 'shorter' | 'balanced' | 'longer';
@@ -34,6 +39,19 @@ export interface User {
   onboardingStoryId?: string;
   aiPreferences?: AIPreferences;
   storyPreferences?: StoryPreferences;
+  recordingMode?: RecordingMode;
+  // How long a break during a call may last before the call is ended
+  maxPauseMinutes?: number;
+  // IANA zone the user's phone calls are usually scheduled in
+  timeZone?: string;
+  // Places stories on the life timeline by age as well as by year
+  birthYear?: number;
+  reminders?: ReminderPreferences;
 }
 
-export type CreateUserData = Omit<User, 'id' | 'updatedAt' | 'lastLoginAt'>;
\ No newline at end of file
+export type CreateUserData = Omit<User, 'id' | 'updatedAt' | 'lastLoginAt'>;
+// The part of a user's profile the members of their collection can read
+export interface PublicProfile {
+  name: string;
+  birthYear?: number;
+}
@@ -1,4 +1,4 @@
-import { defineConfig } from "vite";
+import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react";
 
 // https://vitejs.dev/config/
@@ -10,4 +10,12 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ["lucide-react"],
   },
+  test: {
+    include: ["src/**/*.test.ts", "server/**/*.test.ts", "firestore.rules.test.ts"],
+    // src/lib/firebase.ts initializes the app on import; tests only need a key that looks valid
+    env: {
+      VITE_FIREBASE_API_KEY: "AIzaSyTEST-ONLY-KEY-000000000000000000",
+      VITE_FIREBASE_PROJECT_ID: "demo-test",
+    },
+  },
 });